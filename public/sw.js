@@ -0,0 +1,145 @@
+// Service worker for the guest app: keeps the app shell and static assets so
+// the menu still opens without a connection, and shows order updates pushed
+// while the app is closed. Menu data is cached by the page itself
+// (src/utils/menuCache.ts) and orders wait in the page's outbox
+// (src/utils/orderOutbox.ts); Supabase requests are never touched here.
+
+const CACHE = 'barista-static-v1';
+
+const APP_SHELL = [
+  '/',
+  '/index.html',
+  '/manifest.webmanifest',
+  '/favicon.ico',
+  '/logos/barista-logo.png',
+  '/icons/icon-192.png',
+  '/icons/icon-512.png'
+];
+
+// Tag the page registers when an order is queued (src/utils/serviceWorker.ts)
+const OUTBOX_SYNC_TAG = 'order-outbox';
+
+// Message the page sends in place of a push when testing without a push sender
+const LOCAL_PUSH_TYPE = 'local-push';
+
+const precacheAppShell = async () => {
+  const cache = await caches.open(CACHE);
+  await cache.addAll(APP_SHELL);
+
+  // The built scripts and styles have hashed names, so they are read from index.html
+  const page = await cache.match('/index.html');
+  const html = page ? await page.text() : '';
+  const assets = Array.from(html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g), match => match[1]);
+  await cache.addAll(assets);
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil(precacheAppShell().then(() => self.skipWaiting()));
+});
+
+// Drops the caches of older versions
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Pages: the network first, so a new release is picked up, then the cached shell
+const handleNavigation = async request => {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put('/index.html', response.clone());
+    return response;
+  } catch (error) {
+    return (await cache.match('/index.html')) || Response.error();
+  }
+};
+
+// Assets: the cached copy straight away, refreshed in the background
+const handleAsset = async (event, request) => {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request)
+    .then(response => {
+      if (response.ok) cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached || Response.error());
+
+  if (cached) {
+    event.waitUntil(refresh.then(() => undefined));
+    return cached;
+  }
+  return refresh;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  // Orders, API calls and other sites go straight to the network
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  event.respondWith(request.mode === 'navigate' ? handleNavigation(request) : handleAsset(event, request));
+});
+
+// The connection is back: open pages send their queued orders
+self.addEventListener('sync', event => {
+  if (event.tag !== OUTBOX_SYNC_TAG) return;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window' })
+      .then(clients => clients.forEach(client => client.postMessage({ type: OUTBOX_SYNC_TAG })))
+  );
+});
+
+// An order moved on. Nothing is shown while a page of the app is on screen,
+// as the waiting page tells the guest itself.
+const showOrderNotification = async payload => {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  if (windows.some(client => client.visibilityState === 'visible')) return;
+
+  await self.registration.showNotification(payload.title, {
+    body: payload.body,
+    tag: `order-${payload.orderId}`,
+    renotify: true,
+    icon: '/icons/icon-192.png',
+    badge: '/icons/icon-192.png',
+    vibrate: payload.status === 'ready' ? [300, 100, 300, 100, 600] : [200],
+    data: { orderId: payload.orderId }
+  });
+};
+
+self.addEventListener('push', event => {
+  let payload = null;
+  try {
+    payload = event.data ? event.data.json() : null;
+  } catch (error) {
+    console.error('Ignoring a push that is not JSON:', error);
+  }
+  if (!payload || !payload.title) return;
+
+  event.waitUntil(showOrderNotification(payload));
+});
+
+self.addEventListener('message', event => {
+  if (event.data?.type !== LOCAL_PUSH_TYPE) return;
+  event.waitUntil(showOrderNotification(event.data.payload));
+});
+
+// Back to the order: an open waiting page if there is one, otherwise a new one
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const orderId = event.notification.data?.orderId;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+      const waiting = windows.find(client => new URL(client.url).pathname === '/waiting');
+      if (waiting) return waiting.focus();
+      return self.clients.openWindow(orderId ? `/waiting?order=${encodeURIComponent(orderId)}` : '/menu');
+    })
+  );
+});
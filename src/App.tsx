@@ -4,35 +4,48 @@ import Menu from './pages/Menu';
 import Cart from './pages/Cart';
 import Payment from './pages/Payment';
 import Bill from './pages/Bill';
+import MyOrders from './pages/MyOrders';
 import Admin from './pages/Admin';
 import AdminDashboard from './pages/AdminDashboard';
 import FAQ from './pages/FAQ';
 import NotFound from './pages/NotFound';
 import { Toaster } from 'sonner';
 import { CartProvider } from './context/CartContext';
+import { AuthProvider } from './context/AuthContext';
+import { CustomerProvider } from './context/CustomerContext';
+import { OrderOutboxProvider } from './context/OrderOutboxContext';
 import Waiting from './pages/Waiting';
+import Kitchen from './pages/Kitchen';
 import AuthGuard from './components/AuthGuard';
 import './App.css';
 
 function App() {
   return (
-    <CartProvider>
-      <Router basename="/">
-        <Routes>
-          <Route path="/" element={<Welcome />} />
-          <Route path="/menu" element={<Menu />} />
-          <Route path="/cart" element={<Cart />} />
-          <Route path="/payment" element={<Payment />} />
-          <Route path="/bill" element={<Bill />} />
-          <Route path="/admin" element={<Admin />} />
-          <Route path="/waiting" element={<Waiting />} /> 
-          <Route path="/admin/dashboard1" element={<AuthGuard><AdminDashboard /></AuthGuard>} />
-          <Route path="/faq" element={<FAQ />} />
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-        <Toaster position="top-center" richColors />
-      </Router>
-    </CartProvider>
+    <AuthProvider>
+      <CustomerProvider>
+        <CartProvider>
+          <OrderOutboxProvider>
+            <Router basename="/">
+              <Routes>
+                <Route path="/" element={<Welcome />} />
+                <Route path="/menu" element={<Menu />} />
+                <Route path="/cart" element={<Cart />} />
+                <Route path="/payment" element={<Payment />} />
+                <Route path="/bill" element={<Bill />} />
+                <Route path="/orders" element={<MyOrders />} />
+                <Route path="/admin" element={<Admin />} />
+                <Route path="/waiting" element={<Waiting />} /> 
+                <Route path="/admin/dashboard1" element={<AuthGuard allowedRoles={['owner', 'manager', 'barista', 'cashier']}><AdminDashboard /></AuthGuard>} />
+                <Route path="/kitchen" element={<AuthGuard allowedRoles={['owner', 'manager', 'barista']}><Kitchen /></AuthGuard>} />
+                <Route path="/faq" element={<FAQ />} />
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+              <Toaster position="top-center" richColors />
+            </Router>
+          </OrderOutboxProvider>
+        </CartProvider>
+      </CustomerProvider>
+    </AuthProvider>
   );
 }
 
@@ -1,32 +1,36 @@
 import React from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { useAuth, StaffRole, STAFF_ROLES } from '@/context/AuthContext';
 
 interface AuthGuardProps {
   children: React.ReactNode;
+  allowedRoles?: StaffRole[];
 }
 
-const AuthGuard: React.FC<AuthGuardProps> = ({ children }) => {
+const AuthGuard: React.FC<AuthGuardProps> = ({ children, allowedRoles = STAFF_ROLES }) => {
   const location = useLocation();
-  
-  // Updated authentication check to include security key
-  const checkAuth = () => {
-    const isAdmin = localStorage.getItem('isAdmin') === 'true';
-    const securityKey = localStorage.getItem('adminSecurityKey') === 'barista-secured-dashboard-key';
-    
-    // Check both conditions
-    if (!isAdmin || !securityKey) {
-      return false;
-    }
-    
-    return true;
-  };
-  
-  if (!checkAuth()) {
+  const { session, role, isLoading } = useAuth();
+
+  // Wait for the Supabase session to be restored before deciding
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-cafe-bg">
+        <Loader2 className="h-8 w-8 animate-spin text-cafe" />
+      </div>
+    );
+  }
+
+  if (!session || !role) {
     // Redirect to login page with information that we came from a protected route
     return <Navigate to="/admin" state={{ fromProtected: true, from: location.pathname }} replace />;
   }
-  
+
+  if (!allowedRoles.includes(role)) {
+    return <Navigate to="/admin" state={{ forbidden: true, from: location.pathname }} replace />;
+  }
+
   return <>{children}</>;
 };
 
-export default AuthGuard;
\ No newline at end of file
+export default AuthGuard;
@@ -2,9 +2,9 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { Trash2, Plus, Minus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { useCart } from '@/context/CartContext';
-
-type SizeType = 'S' | 'R' | 'L';
+import { CartItem as CartItemType, useCart } from '@/context/CartContext';
+import { formatOptions } from '@/utils/modifiers';
+import { formatComboChildren } from '@/utils/combos';
 
 type CartItemProps = {
   item: {
@@ -12,9 +12,10 @@ type CartItemProps = {
     name: string;
     price: number | string;
     quantity: number;
-    size?: SizeType;
+    size?: CartItemType['size'];
     category?: string;
-    options?: Record<string, any>;
+    options?: CartItemType['options'];
+    children?: CartItemType['children'];
   };
 };
 
@@ -35,12 +36,12 @@ const CartItem: React.FC<CartItemProps> = ({ item }) => {
   const itemTotal = itemPrice * itemQuantity;
   
   const handleIncrease = () => {
-    updateItemQuantity(item.id, itemQuantity + 1, item.size);
+    updateItemQuantity(item.id, itemQuantity + 1);
   };
   
   const handleDecrease = () => {
     if (itemQuantity > 1) {
-      updateItemQuantity(item.id, itemQuantity - 1, item.size);
+      updateItemQuantity(item.id, itemQuantity - 1);
     } else {
       // If quantity becomes 0, remove the item
       handleRemove();
@@ -48,7 +49,7 @@ const CartItem: React.FC<CartItemProps> = ({ item }) => {
   };
   
   const handleRemove = () => {
-    removeItem(item.id, item.size);
+    removeItem(item.id);
   };
 
   return (
@@ -63,16 +64,16 @@ const CartItem: React.FC<CartItemProps> = ({ item }) => {
         <h4 className="font-medium">{item.name}</h4>
         <div className="flex items-center gap-2 text-sm text-cafe-text/70">
           <span>₹{itemPrice.toFixed(2)}</span>
-          {item.size && <span className="px-1 py-0.5 bg-amber-50 rounded text-xs">Size {item.size}</span>}
-          {item.options && Object.entries(item.options).length > 0 && (
+          {item.size && <span className="px-1 py-0.5 bg-amber-50 rounded text-xs">{item.size}</span>}
+          {item.options && item.options.length > 0 && (
             <span className="px-1 py-0.5 bg-amber-50 rounded text-xs">
-              {Object.entries(item.options)
-                .filter(([_, value]) => value)
-                .map(([key]) => key)
-                .join(', ')}
+              {formatOptions(item.options, false)}
             </span>
           )}
         </div>
+        {item.children && item.children.length > 0 && (
+          <p className="text-xs text-cafe-text/60">{formatComboChildren(item.children)}</p>
+        )}
       </div>
       
       <div className="flex items-center gap-2">
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Package } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import ComboSheet from '@/components/ComboSheet';
+import { useCart } from '@/context/CartContext';
+import { MenuItemType } from '@/utils/menuData';
+import { ComboType, isInSlot } from '@/utils/combos';
+
+type ComboDealsProps = {
+  combos: ComboType[];
+  menuItems: MenuItemType[];
+};
+
+const ComboDeals: React.FC<ComboDealsProps> = ({ combos, menuItems }) => {
+  const { addCombo } = useCart();
+  const [openCombo, setOpenCombo] = useState<ComboType | null>(null);
+
+  // Only offer combos that can be filled from what is available today
+  const orderable = combos.filter(combo =>
+    combo.slots.every(slot => menuItems.some(item => isInSlot(slot, item)))
+  );
+
+  if (orderable.length === 0) return null;
+
+  return (
+    <section className="mb-8">
+      <div className="flex items-center gap-2 mb-3">
+        <Package size={18} className="text-cafe" />
+        <h2 className="text-xl font-bold text-cafe-dark">Combos</h2>
+      </div>
+
+      <div className="space-y-3">
+        {orderable.map(combo => (
+          <motion.div
+            key={combo.id}
+            className="flex items-center justify-between gap-3 rounded-xl border border-amber-100 bg-white p-3 shadow-md"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+          >
+            <div>
+              <h3 className="font-semibold text-cafe-dark">{combo.name}</h3>
+              <p className="text-sm text-gray-500">
+                {combo.description || combo.slots.map(slot => slot.name).join(' + ')}
+              </p>
+              <div className="mt-1 text-lg font-bold text-cafe">₹{combo.price.toFixed(0)}</div>
+            </div>
+            <Button size="sm" className="bg-cafe hover:bg-cafe-dark" onClick={() => setOpenCombo(combo)}>
+              Choose
+            </Button>
+          </motion.div>
+        ))}
+      </div>
+
+      <ComboSheet
+        combo={openCombo}
+        menuItems={menuItems}
+        onClose={() => setOpenCombo(null)}
+        onConfirm={(combo, picked) => {
+          addCombo(combo, picked);
+          setOpenCombo(null);
+        }}
+      />
+    </section>
+  );
+};
+
+export default ComboDeals;
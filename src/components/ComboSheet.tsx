@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { getDefaultSize, MenuItemType } from '@/utils/menuData';
+import { ComboChild, ComboType, isInSlot } from '@/utils/combos';
+
+interface ComboSheetProps {
+  combo: ComboType | null;
+  menuItems: MenuItemType[];
+  onClose: () => void;
+  onConfirm: (combo: ComboType, picked: ComboChild[]) => void;
+}
+
+// Lets the customer pick one item for every slot of a combo
+const ComboSheet: React.FC<ComboSheetProps> = ({ combo, menuItems, onClose, onConfirm }) => {
+  const [picks, setPicks] = useState<Record<number, string>>({});
+
+  // Start from a clean selection every time a combo is opened
+  useEffect(() => {
+    setPicks({});
+  }, [combo]);
+
+  const toChild = (slotIndex: number, item: MenuItemType): ComboChild => {
+    const size = getDefaultSize(item);
+    return {
+      slot: slotIndex,
+      slotName: combo?.slots[slotIndex].name ?? '',
+      itemId: item.id,
+      name: item.name,
+      category: item.category,
+      size: size?.name ?? null,
+      price: size ? size.price : item.price
+    };
+  };
+
+  const picked = (combo?.slots ?? []).map((_, index) => {
+    const item = menuItems.find(menuItem => menuItem.id === picks[index]);
+    return item ? toChild(index, item) : null;
+  });
+  const isComplete = picked.length > 0 && picked.every(Boolean);
+
+  return (
+    <Sheet open={Boolean(combo)} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="bottom" className="max-h-[85vh] overflow-y-auto rounded-t-xl">
+        <SheetHeader>
+          <SheetTitle>{combo?.name}</SheetTitle>
+          {combo?.description && <SheetDescription>{combo.description}</SheetDescription>}
+        </SheetHeader>
+
+        <div className="space-y-5 py-4">
+          {combo?.slots.map((slot, slotIndex) => (
+            <div key={slotIndex}>
+              <h4 className="mb-2 font-semibold text-cafe-dark">Choose your {slot.name.toLowerCase()}</h4>
+              <RadioGroup
+                value={picks[slotIndex] ?? ''}
+                onValueChange={(value) => setPicks({ ...picks, [slotIndex]: value })}
+                className="gap-2"
+              >
+                {menuItems.filter(item => isInSlot(slot, item)).map(item => (
+                  <div key={item.id} className="flex items-center space-x-2">
+                    <RadioGroupItem value={item.id} id={`combo-${slotIndex}-${item.id}`} />
+                    <Label htmlFor={`combo-${slotIndex}-${item.id}`} className="flex-1">
+                      {item.name}
+                      {getDefaultSize(item) && (
+                        <span className="ml-1 text-xs text-cafe-text/60">({getDefaultSize(item)?.name})</span>
+                      )}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+          ))}
+        </div>
+
+        <SheetFooter>
+          <Button
+            className="w-full bg-cafe hover:bg-cafe-dark"
+            disabled={!isComplete}
+            onClick={() => combo && onConfirm(combo, picked as ComboChild[])}
+          >
+            Add combo · ₹{combo?.price.toFixed(0)}
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ComboSheet;
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Gift, Loader2, Phone } from 'lucide-react';
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { useCustomer } from '@/context/CustomerContext';
+import { supabase } from '@/integrations/supabase/client';
+import { otpSender } from '@/integrations/otp';
+import { formatPhone, getPointsValue, normalizePhone } from '@/utils/loyalty';
+import { toast } from 'sonner';
+
+// Optional sign-in with a phone number, so the order earns loyalty points
+const LoyaltySignIn: React.FC<{ customerName?: string }> = ({ customerName }) => {
+  const { profile, signIn, signOut } = useCustomer();
+  const [phoneInput, setPhoneInput] = useState('');
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSendCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const phone = normalizePhone(phoneInput);
+    if (!phone) {
+      setError('Enter a valid 10-digit mobile number');
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      await otpSender.sendCode(phone);
+      setSentTo(phone);
+      setCode('');
+    } catch (error) {
+      console.error('Error sending verification code:', error);
+      setError(error?.code === 'P0001' ? error.message : 'Could not send the code');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleVerify = async (value: string) => {
+    if (!sentTo || value.length < 6) return;
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const { data: token, error } = await supabase.rpc('verify_customer_otp', {
+        p_phone: sentTo,
+        p_code: value,
+        p_name: customerName || null
+      });
+      if (error) throw error;
+
+      if (!token) {
+        setError('Incorrect code');
+        setCode('');
+        return;
+      }
+
+      const signedIn = await signIn(token);
+      setSentTo(null);
+      setPhoneInput('');
+      toast.success(`Signed in${signedIn ? ` with ${signedIn.points_balance} points` : ''}`);
+    } catch (error) {
+      console.error('Error verifying code:', error);
+      setError(error?.code === 'P0001' ? error.message : 'Could not check the code');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (profile) {
+    return (
+      <div className="mb-4 flex items-center justify-between gap-2 rounded-lg bg-cafe/5 p-3">
+        <div className="flex items-center gap-2">
+          <Gift size={16} className="text-cafe" />
+          <div>
+            <p className="text-sm font-semibold">{profile.points_balance} points</p>
+            <p className="text-xs text-cafe-text/70">
+              {formatPhone(profile.phone)} · worth ₹{getPointsValue(profile.points_balance).toFixed(2)}
+            </p>
+          </div>
+        </div>
+        <Button variant="ghost" size="sm" onClick={signOut}>Not you?</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-4">
+      <h4 className="mb-1 text-sm font-semibold">Earn loyalty points <span className="font-normal text-cafe-text/60">(optional)</span></h4>
+
+      {sentTo ? (
+        <div className="space-y-2">
+          <p className="text-xs text-cafe-text/70">Enter the 6-digit code sent to {formatPhone(sentTo)}</p>
+          <InputOTP
+            maxLength={6}
+            pattern={REGEXP_ONLY_DIGITS}
+            value={code}
+            onChange={(value) => {
+              setCode(value);
+              setError(null);
+            }}
+            onComplete={handleVerify}
+            disabled={isBusy}
+          >
+            <InputOTPGroup>
+              {Array.from({ length: 6 }, (_, index) => <InputOTPSlot key={index} index={index} />)}
+            </InputOTPGroup>
+          </InputOTP>
+          <div className="flex gap-2">
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setSentTo(null)}>
+              Change number
+            </Button>
+            {isBusy && <Loader2 size={16} className="animate-spin text-cafe" />}
+          </div>
+        </div>
+      ) : (
+        <form className="flex gap-2" onSubmit={handleSendCode}>
+          <div className="relative flex-1">
+            <Phone className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              type="tel"
+              inputMode="tel"
+              placeholder="Mobile number"
+              value={phoneInput}
+              onChange={(e) => {
+                setPhoneInput(e.target.value.slice(0, 16));
+                setError(null);
+              }}
+              className="pl-10"
+              aria-label="Mobile number"
+            />
+          </div>
+          <Button type="submit" variant="outline" disabled={!phoneInput.trim() || isBusy}>
+            {isBusy ? <Loader2 size={16} className="animate-spin" /> : 'Send code'}
+          </Button>
+        </form>
+      )}
+
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default LoyaltySignIn;
@@ -5,8 +5,10 @@ import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useCart } from '@/context/CartContext';
-import { MenuItemType as BaseMenuItemType } from '@/utils/menuData';
+import { MenuItemType as BaseMenuItemType, MenuItemSize, getDefaultSize } from '@/utils/menuData';
 import SizeSelector from '@/components/SizeSelector';
+import ModifierSheet from '@/components/ModifierSheet';
+import { formatOptions, SelectedOption } from '@/utils/modifiers';
 
 // Extended type to include properties from inventory data
 interface MenuItemType extends BaseMenuItemType {
@@ -16,21 +18,6 @@ interface MenuItemType extends BaseMenuItemType {
   inventory_id?: string; // Add inventory_id reference
 }
 
-// Define which items should have size options
-const itemsWithSizes = [
-  'cappuccino', 'latte', 'americano', 'espresso', 'mocha',
-  'macchiato', 'tea', 'coffee', 'cold brew', 'iced'
-];
-
-// Calculate if an item should have size options
-const shouldHaveSizes = (item: MenuItemType): boolean => {
-  const itemName = item.item_name || item.name || '';
-  return itemsWithSizes.some(keyword => 
-    itemName.toLowerCase().includes(keyword) || 
-    (item.id && item.id.toLowerCase().includes(keyword))
-  );
-};
-
 // Use a more robust method to check availability
 const isItemAvailable = (item: MenuItemType): boolean => {
   // Check inventory-based availability first
@@ -60,24 +47,19 @@ const MenuItem: React.FC<MenuItemProps> = ({ item }) => {
   const { addItem } = useCart();
   const [quantity, setQuantity] = useState(1);
   const [added, setAdded] = useState(false);
-  const [selectedSize, setSelectedSize] = useState<'small' | 'medium' | 'large'>('medium');
+  const [selectedSize, setSelectedSize] = useState<MenuItemSize | undefined>(() => getDefaultSize(item));
+  const [isCustomizing, setIsCustomizing] = useState(false);
+  const modifierGroups = item.modifierGroups ?? [];
   
-  // Determine if this item should have size options
-  const hasSizes = shouldHaveSizes(item);
+  // Items with sizes on the menu are always ordered in one of them
+  const hasSizes = Boolean(selectedSize);
   
   // Use our more robust availability checking function
   const isAvailable = isItemAvailable(item);
   
-  // Calculate size-based pricing
-  const sizePricing = {
-    small: item.price ? Math.round(item.price * 0.85) : 0, // 15% less than base price
-    medium: item.price || 0, // Base price is medium
-    large: item.price ? Math.round(item.price * 1.2) : 0 // 20% more than base price
-  };
-  
   // Get current price based on selected size
-  const currentPrice = hasSizes 
-    ? (sizePricing[selectedSize] || 0) 
+  const currentPrice = selectedSize
+    ? selectedSize.price
     : (typeof item.price === 'number' && !isNaN(item.price) ? item.price : 0);
   
   const increaseQuantity = () => {
@@ -92,7 +74,18 @@ const MenuItem: React.FC<MenuItemProps> = ({ item }) => {
     }
   };
   
+  // Items with modifiers are customised in a sheet before they go in the cart
   const handleAddToCart = () => {
+    if (modifierGroups.length > 0) {
+      setIsCustomizing(true);
+    } else {
+      addToCart([]);
+    }
+  };
+
+  const addToCart = (options: SelectedOption[]) => {
+    setIsCustomizing(false);
+
     // Create a compatible item object that matches what CartContext expects
     const itemToAdd = {
       ...item,  // Preserve all original properties
@@ -102,16 +95,8 @@ const MenuItem: React.FC<MenuItemProps> = ({ item }) => {
       category: item.category || '',
     };
     
-    // Map the UI size options to the expected cart sizes
-    // Use type assertion to ensure correct type
-    const cartSize = hasSizes ? 
-      (selectedSize === 'small' ? 'S' : 
-       selectedSize === 'medium' ? 'R' : 
-       selectedSize === 'large' ? 'L' : undefined) as 'S' | 'R' | 'L' | undefined
-      : undefined;
-    
     // Pass the quantity separately as expected by CartContext
-    addItem(itemToAdd, cartSize, quantity);
+    addItem(itemToAdd, selectedSize, quantity, options);
     
     // Show added animation
     setAdded(true);
@@ -119,7 +104,7 @@ const MenuItem: React.FC<MenuItemProps> = ({ item }) => {
     
     // Update toast message to fix the "+2" issue - use template literals correctly
     toast.success(`Added ${quantity} ${item.item_name || item.name || ''} to cart`, {
-      description: hasSizes ? `Size: ${selectedSize.charAt(0).toUpperCase()}` : ''
+      description: [hasSizes ? `Size: ${selectedSize.name}` : '', formatOptions(options)].filter(Boolean).join(' · ')
     });
     
     // Reset quantity after adding
@@ -175,9 +160,9 @@ const MenuItem: React.FC<MenuItemProps> = ({ item }) => {
               {hasSizes && (
                 <div className="mt-2">
                   <SizeSelector
-                    selectedSize={selectedSize}
+                    selectedSize={selectedSize.name}
                     onSelectSize={setSelectedSize}
-                    sizes={sizePricing}
+                    sizes={item.sizes}
                   />
                 </div>
               )}
@@ -238,6 +223,19 @@ const MenuItem: React.FC<MenuItemProps> = ({ item }) => {
           </div>
         </div>
       </div>
+
+      {modifierGroups.length > 0 && (
+        <ModifierSheet
+          open={isCustomizing}
+          itemName={item.item_name || item.name || ''}
+          sizeName={selectedSize?.name}
+          unitPrice={currentPrice}
+          quantity={quantity}
+          groups={modifierGroups}
+          onClose={() => setIsCustomizing(false)}
+          onConfirm={addToCart}
+        />
+      )}
       
       {item.recommended && (
         <div className="absolute top-0 right-0">
@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import {
+  getDefaultOptions,
+  getMaxSelect,
+  getOptionsPrice,
+  ModifierGroup,
+  SelectedOption,
+  sortOptions,
+  validateOptions
+} from '@/utils/modifiers';
+
+interface ModifierSheetProps {
+  open: boolean;
+  itemName: string;
+  sizeName?: string;
+  unitPrice: number;
+  quantity: number;
+  groups: ModifierGroup[];
+  onClose: () => void;
+  onConfirm: (options: SelectedOption[]) => void;
+}
+
+const describeLimits = (group: ModifierGroup) => {
+  if (group.selection === 'single') return group.min_select > 0 ? 'Required' : 'Optional';
+  const max = getMaxSelect(group);
+  return group.min_select > 0 ? `Choose ${group.min_select} to ${max}` : `Up to ${max}`;
+};
+
+const formatDelta = (price: number) => (price > 0 ? `+₹${price}` : '');
+
+// Lets the customer pick milk, extras, sugar level and so on before adding an item
+const ModifierSheet: React.FC<ModifierSheetProps> = ({
+  open,
+  itemName,
+  sizeName,
+  unitPrice,
+  quantity,
+  groups,
+  onClose,
+  onConfirm
+}) => {
+  const [selected, setSelected] = useState<SelectedOption[]>([]);
+
+  // Start from the default options every time the sheet opens
+  useEffect(() => {
+    if (open) setSelected(getDefaultOptions(groups));
+  }, [open, groups]);
+
+  const pickSingle = (group: ModifierGroup, name: string) => {
+    const others = selected.filter(option => option.groupId !== group.id);
+    setSelected(sortOptions(groups, name ? [...others, { groupId: group.id, name }] : others));
+  };
+
+  const toggleMulti = (group: ModifierGroup, name: string, checked: boolean) => {
+    setSelected(sortOptions(groups, checked
+      ? [...selected, { groupId: group.id, name }]
+      : selected.filter(option => !(option.groupId === group.id && option.name === name))
+    ));
+  };
+
+  const error = validateOptions(groups, selected);
+  const total = (unitPrice + getOptionsPrice(selected)) * quantity;
+
+  return (
+    <Sheet open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <SheetContent side="bottom" className="max-h-[85vh] overflow-y-auto rounded-t-xl">
+        <SheetHeader>
+          <SheetTitle>Customise {itemName}</SheetTitle>
+          {sizeName && <SheetDescription>Size: {sizeName}</SheetDescription>}
+        </SheetHeader>
+
+        <div className="space-y-5 py-4">
+          {groups.map(group => {
+            const picked = selected.filter(option => option.groupId === group.id);
+
+            return (
+              <div key={group.id}>
+                <div className="mb-2 flex items-baseline justify-between">
+                  <h4 className="font-semibold text-cafe-dark">{group.name}</h4>
+                  <span className="text-xs text-cafe-text/60">{describeLimits(group)}</span>
+                </div>
+
+                {group.selection === 'single' ? (
+                  <RadioGroup
+                    value={picked[0]?.name ?? ''}
+                    onValueChange={(value) => pickSingle(group, value)}
+                    className="gap-2"
+                  >
+                    {group.min_select === 0 && (
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="" id={`${group.id}-none`} />
+                        <Label htmlFor={`${group.id}-none`} className="flex-1">No preference</Label>
+                      </div>
+                    )}
+                    {group.options.map(option => (
+                      <div key={option.name} className="flex items-center space-x-2">
+                        <RadioGroupItem value={option.name} id={`${group.id}-${option.name}`} />
+                        <Label htmlFor={`${group.id}-${option.name}`} className="flex-1">{option.name}</Label>
+                        <span className="text-sm text-cafe-text/70">{formatDelta(option.price)}</span>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                ) : (
+                  <div className="grid gap-2">
+                    {group.options.map(option => {
+                      const checked = picked.some(pick => pick.name === option.name);
+
+                      return (
+                        <div key={option.name} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`${group.id}-${option.name}`}
+                            checked={checked}
+                            disabled={!checked && picked.length >= getMaxSelect(group)}
+                            onCheckedChange={(value) => toggleMulti(group, option.name, value === true)}
+                          />
+                          <Label htmlFor={`${group.id}-${option.name}`} className="flex-1">{option.name}</Label>
+                          <span className="text-sm text-cafe-text/70">{formatDelta(option.price)}</span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {error && <p className="mb-2 text-sm text-red-600">{error}</p>}
+
+        <SheetFooter>
+          <Button
+            className="w-full bg-cafe hover:bg-cafe-dark"
+            disabled={Boolean(error)}
+            onClick={() => onConfirm(selected)}
+          >
+            Add {quantity} to cart · ₹{total.toFixed(0)}
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ModifierSheet;
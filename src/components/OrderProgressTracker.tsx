@@ -0,0 +1,67 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Check } from 'lucide-react';
+import {
+  getOrderStages,
+  getStageIndex,
+  OrderStatus,
+  OrderTimestampColumn,
+  STATUS_TIMESTAMP_COLUMNS
+} from '@/utils/orderStatus';
+
+type TrackedOrder = {
+  status: string;
+  created_at?: string | Date | null;
+  room_number?: string | null;
+} & Partial<Record<OrderTimestampColumn, string | Date | null>>;
+
+type OrderProgressTrackerProps = {
+  order: TrackedOrder;
+};
+
+const formatTime = (value?: string | Date | null) => {
+  if (!value) return null;
+  return new Date(value).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+};
+
+const OrderProgressTracker: React.FC<OrderProgressTrackerProps> = ({ order }) => {
+  const stages = getOrderStages(order);
+  const currentIndex = getStageIndex(order.status as OrderStatus);
+
+  return (
+    <ol className="text-left space-y-3">
+      {stages.map((stage, index) => {
+        const isDone = index < currentIndex || order.status === 'completed';
+        const isCurrent = index === currentIndex && !isDone;
+        const reachedAt = stage.status === 'pending'
+          ? order.created_at
+          : order[STATUS_TIMESTAMP_COLUMNS[stage.status]];
+
+        return (
+          <li key={stage.status} className="flex items-center gap-3">
+            <motion.div
+              className={`flex h-7 w-7 shrink-0 items-center justify-center rounded-full text-xs font-semibold
+                ${isDone
+                  ? 'bg-green-100 text-green-700'
+                  : isCurrent
+                    ? 'bg-cafe text-white'
+                    : 'bg-cafe/10 text-cafe-text/40'}`}
+              animate={isCurrent ? { scale: [1, 1.12, 1] } : { scale: 1 }}
+              transition={isCurrent ? { duration: 1.6, repeat: Infinity } : undefined}
+            >
+              {isDone ? <Check size={14} /> : index + 1}
+            </motion.div>
+            <span className={`flex-1 text-sm ${isCurrent ? 'font-semibold text-cafe-dark' : isDone ? 'text-cafe-text' : 'text-cafe-text/50'}`}>
+              {stage.label}
+            </span>
+            {(isDone || isCurrent) && reachedAt && (
+              <span className="text-xs text-cafe-text/60">{formatTime(reachedAt)}</span>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default OrderProgressTracker;
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Loader2, Tag, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useCart } from '@/context/CartContext';
+import { supabase } from '@/integrations/supabase/client';
+import { describePromotion, getPromotionError, normalizePromoCode, parsePromotion } from '@/utils/promotions';
+import { toast } from 'sonner';
+
+// Code entry in the cart. The code is checked here so the discount shows
+// straight away; place_order checks it again when the order is placed.
+const PromoCodeField: React.FC = () => {
+  const { items, promotion, promotionError, setPromotion, clearPromotion } = useCart();
+  const [code, setCode] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleApply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const normalized = normalizePromoCode(code);
+    if (!normalized) return;
+
+    setIsChecking(true);
+    setError(null);
+    try {
+      const { data, error } = await supabase.rpc('get_promotion', { p_code: normalized });
+      if (error) throw error;
+
+      const found = parsePromotion(data);
+      const refused = getPromotionError(found, items);
+      if (refused) {
+        setError(refused);
+        return;
+      }
+
+      setPromotion(found);
+      setCode('');
+      toast.success(`Promo code ${found.code} applied`);
+    } catch (error) {
+      console.error('Error checking promo code:', error);
+      setError(error?.code === 'P0001' ? error.message : 'Could not check the promo code');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  if (promotion) {
+    return (
+      <div className="mb-4 rounded-lg border border-dashed border-cafe/30 bg-cafe/5 p-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Tag size={16} className="text-cafe" />
+            <div>
+              <p className="text-sm font-semibold">{promotion.code}</p>
+              <p className="text-xs text-cafe-text/70">{describePromotion(promotion)}</p>
+            </div>
+          </div>
+          <Button variant="ghost" size="sm" onClick={clearPromotion} aria-label="Remove promo code">
+            <X size={14} />
+          </Button>
+        </div>
+        {promotionError && <p className="mt-2 text-xs text-red-600">{promotionError}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <form className="mb-4" onSubmit={handleApply}>
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Tag className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Promo code"
+            value={code}
+            onChange={(e) => {
+              setCode(e.target.value.slice(0, 20));
+              setError(null);
+            }}
+            className="pl-10 uppercase"
+            aria-label="Promo code"
+          />
+        </div>
+        <Button type="submit" variant="outline" disabled={!code.trim() || isChecking}>
+          {isChecking ? <Loader2 size={16} className="animate-spin" /> : 'Apply'}
+        </Button>
+      </div>
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </form>
+  );
+};
+
+export default PromoCodeField;
@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { Sparkles, ImageOff } from 'lucide-react';
-import { MenuItemType } from '@/utils/menuData';
+import { MenuItemType, getDefaultSize } from '@/utils/menuData';
+import { getDefaultOptions } from '@/utils/modifiers';
 import { useCart } from '@/context/CartContext';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
@@ -119,8 +120,8 @@ const RecommendedItems: React.FC<RecommendedItemsProps> = ({
       category: item.category || ''
     };
     
-    // Use the CartContext's expected parameter order
-    addItem(itemToAdd, undefined, 1);
+    // Sized and customisable items go in at their preselected size and options
+    addItem(itemToAdd, getDefaultSize(item), 1, getDefaultOptions(item.modifierGroups ?? []));
     
     // Show success toast
     toast.success(`Added ${item.name || 'Item'} to cart`);
@@ -239,7 +240,7 @@ const RecommendedItems: React.FC<RecommendedItemsProps> = ({
                 )}
                 
                 <div className="mt-2 flex items-end justify-between">
-                  <span className="text-cafe text-base font-bold">₹{formatPrice(item.price)}</span>
+                  <span className="text-cafe text-base font-bold">₹{formatPrice(getDefaultSize(item)?.price ?? item.price)}</span>
                   <motion.button
                     className={`rounded-full px-3 py-1 text-xs font-semibold ${
                       available 
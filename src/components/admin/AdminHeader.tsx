@@ -1,19 +1,25 @@
 import React from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ShieldCheck, LogOut, Coffee } from 'lucide-react';
+import { ShieldCheck, LogOut, Coffee, ChefHat } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import Logo from '@/components/Logo';
 import { toast } from 'sonner';
+import { useAuth } from '@/context/AuthContext';
 
 const AdminHeader: React.FC = () => {
   const navigate = useNavigate();
+  const { staff, signOut, can } = useAuth();
 
-  // Updated logout handler to remove both authentication items
-  const handleLogout = () => {
-    localStorage.removeItem('isAdmin');
-    localStorage.removeItem('adminSecurityKey');
-    toast.info('Logged out successfully');
-    navigate('/admin');
+  // End the Supabase session and return to the login page
+  const handleLogout = async () => {
+    try {
+      await signOut();
+      toast.info('Logged out successfully');
+      navigate('/admin');
+    } catch (error) {
+      console.error('Error signing out:', error);
+      toast.error('Failed to log out');
+    }
   };
 
   return (
@@ -28,9 +34,26 @@ const AdminHeader: React.FC = () => {
                 Admin Panel
               </span>
             </div>
+            {staff && (
+              <span className="hidden sm:inline text-xs text-cafe-text/60">
+                {staff.display_name || staff.email} · <span className="capitalize">{staff.role}</span>
+              </span>
+            )}
           </div>
           
           <div className="flex items-center space-x-4">
+            {can('kitchen.view') && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate('/kitchen')}
+                className="text-cafe-text/70 hover:text-cafe"
+              >
+                <ChefHat size={16} className="mr-1" />
+                Kitchen
+              </Button>
+            )}
+            
             <Button
               variant="ghost"
               size="sm"
@@ -6,6 +6,11 @@ import html2canvas from 'html2canvas';
 import { jsPDF } from 'jspdf';
 import Logo from '@/components/Logo';
 import { OrderType } from '@/pages/AdminDashboard';
+import TaxBreakdown from '@/components/bill/TaxBreakdown';
+import { getOrderPricing, GSTIN } from '@/utils/pricing';
+import { formatOptions, getLineOptions } from '@/utils/modifiers';
+import { formatComboChildren, getLineChildren } from '@/utils/combos';
+import { getOrderNumber } from '@/utils/orderNumber';
 
 interface BillDisplayProps {
   order: OrderType;
@@ -87,7 +92,7 @@ const BillDisplay: React.FC<BillDisplayProps> = ({
       
       if (navigator.share) {
         await navigator.share({
-          title: `Cafe Bill - Order #${order.id}`,
+          title: `Cafe Bill - Order #${getOrderNumber(order)}`,
           files: [new File([imgBlob], `bill-${order.id}.png`, { type: 'image/png' })],
         });
       } else {
@@ -111,6 +116,7 @@ const BillDisplay: React.FC<BillDisplayProps> = ({
           <div className="text-xs text-gray-500 mt-1">
             <br />
             Tel: +91 9701441539
+            {GSTIN && <><br />GSTIN: {GSTIN}</>}
           </div>
         </div>
         
@@ -130,12 +136,12 @@ const BillDisplay: React.FC<BillDisplayProps> = ({
               </span>
             </div>
             
-            {/* Always show room number field */}
+            {/* Always show where the order goes */}
             <div className="flex items-center gap-2">
               <Building size={16} className="text-amber-700" />
-              <span className="text-sm font-medium">Room/Ward:</span>
+              <span className="text-sm font-medium">{order.table_number ? 'Table:' : 'Room/Ward:'}</span>
               <span className="text-sm font-bold ml-auto">
-                {order.room_number || "Counter Pickup"}
+                {order.room_number || order.table_number || "Counter Pickup"}
               </span>
             </div>
             
@@ -149,8 +155,8 @@ const BillDisplay: React.FC<BillDisplayProps> = ({
         </div>
         
         <div className="flex justify-between text-xs text-gray-500 mb-2">
-          <span>Order ID:</span>
-          <span>{order.id.slice(0, 8).toUpperCase()}</span>
+          <span>Order #:</span>
+          <span>{getOrderNumber(order)}</span>
         </div>
         
         <div className="flex justify-between text-xs text-gray-500 mb-3">
@@ -181,6 +187,12 @@ const BillDisplay: React.FC<BillDisplayProps> = ({
                   <td className="py-1">
                     {item.quantity}x {item.name}
                     {item.size && <span className="text-xs text-gray-500"> ({item.size})</span>}
+                    {getLineOptions(item).length > 0 && (
+                      <div className="text-xs text-gray-500">{formatOptions(getLineOptions(item))}</div>
+                    )}
+                    {getLineChildren(item).length > 0 && (
+                      <div className="text-xs text-gray-500">{formatComboChildren(getLineChildren(item))}</div>
+                    )}
                   </td>
                   <td className="text-right py-1">₹{(item.price * item.quantity).toFixed(2)}</td>
                 </tr>
@@ -194,10 +206,19 @@ const BillDisplay: React.FC<BillDisplayProps> = ({
             <span>Subtotal:</span>
             <span>₹{order.subtotal.toFixed(2)}</span>
           </div>
-          <div className="flex justify-between">
-            <span>Taxes:</span>
-            <span>₹{order.taxes.toFixed(2)}</span>
-          </div>
+          {order.discount > 0 && (
+            <div className="flex justify-between">
+              <span>Discount{order.promo_code ? ` (${order.promo_code})` : ''}:</span>
+              <span>-₹{order.discount.toFixed(2)}</span>
+            </div>
+          )}
+          <TaxBreakdown pricing={getOrderPricing(order)} className="flex justify-between" />
+          {order.points_discount > 0 && (
+            <div className="flex justify-between">
+              <span>Paid with {order.points_redeemed} points:</span>
+              <span>-₹{order.points_discount.toFixed(2)}</span>
+            </div>
+          )}
           <div className="flex justify-between font-bold text-base pt-1.5 border-t border-gray-200">
             <span>Total:</span>
             <span>₹{order.total.toFixed(2)}</span>
@@ -0,0 +1,547 @@
+import React, { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { OrderType } from '@/pages/AdminDashboard';
+import RecordPaymentDialog from '@/components/admin/RecordPaymentDialog';
+import RefundPaymentDialog from '@/components/admin/RefundPaymentDialog';
+import SettleTabDialog, { OpenTab } from '@/components/admin/SettleTabDialog';
+import { useAuth } from '@/context/AuthContext';
+import { assertPermission } from '@/utils/permissions';
+import { ACCEPTED_STATUSES, OrderStatus, ORDER_STATUS_LABELS } from '@/utils/orderStatus';
+import {
+  COUNTER_PAYMENT_METHODS,
+  PaymentMethod,
+  PaymentStatus,
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_STATUS_LABELS,
+  summarizePayments
+} from '@/utils/paymentStatus';
+import { getTabDue, isBillable } from '@/utils/tabs';
+import { SPLIT_PAYMENT_METHOD } from '@/utils/splitBill';
+import { getOrderNumber } from '@/utils/orderNumber';
+import { Banknote, CreditCard, Receipt, RefreshCcw, RotateCcw, Users, Wallet } from 'lucide-react';
+
+// When the current shift started, kept per device so each till counts its own drawer
+const SHIFT_START_KEY = 'cashierShiftStart';
+
+const getStoredShiftStart = () => {
+  const stored = localStorage.getItem(SHIFT_START_KEY);
+  if (stored && !isNaN(new Date(stored).getTime())) return stored;
+
+  const startOfDay = new Date();
+  startOfDay.setHours(0, 0, 0, 0);
+  return startOfDay.toISOString();
+};
+
+type BillSplit = Tables<'bill_splits'>;
+
+// Unpaid shares of one split bill
+type SplitBill = {
+  key: string;
+  title: string;
+  shares: BillSplit[];
+};
+
+const parseOrder = (order: Tables<'orders'>) => ({
+  ...order,
+  status: order.status as OrderStatus,
+  items: typeof order.items === 'string' ? JSON.parse(order.items) : order.items
+}) as OrderType;
+
+const CashierPanel = () => {
+  const { role, can } = useAuth();
+  const [unpaidOrders, setUnpaidOrders] = useState<OrderType[]>([]);
+  const [openTabs, setOpenTabs] = useState<OpenTab[]>([]);
+  const [splitBills, setSplitBills] = useState<SplitBill[]>([]);
+  const [shiftSplits, setShiftSplits] = useState<BillSplit[]>([]);
+  const [shiftOrders, setShiftOrders] = useState<OrderType[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [shiftStart, setShiftStart] = useState<string>(getStoredShiftStart);
+  const [collectingOrder, setCollectingOrder] = useState<OrderType | null>(null);
+  const [refundingOrder, setRefundingOrder] = useState<OrderType | null>(null);
+  const [settlingTab, setSettlingTab] = useState<OpenTab | null>(null);
+  const [collectingSplit, setCollectingSplit] = useState<BillSplit | null>(null);
+
+  const fetchPayments = async () => {
+    setLoading(true);
+    try {
+      const [unpaid, shift, tabs, splits, paidSplits] = await Promise.all([
+        // Counter orders still waiting for the customer to pay
+        supabase
+          .from('orders')
+          .select('*')
+          .in('payment_method', COUNTER_PAYMENT_METHODS)
+          .eq('payment_status', 'unpaid')
+          .in('status', ['pending', ...ACCEPTED_STATUSES])
+          .order('created_at', { ascending: true }),
+        // Everything paid since the shift started, whatever the method
+        supabase
+          .from('orders')
+          .select('*')
+          .gte('paid_at', shiftStart)
+          .order('paid_at', { ascending: false }),
+        // Tables running a tab, paid for in one go when they leave
+        supabase
+          .from('tabs')
+          .select('*')
+          .eq('status', 'open')
+          .order('opened_at', { ascending: true }),
+        // Shares of split bills still to collect
+        supabase
+          .from('bill_splits')
+          .select('*')
+          .eq('payment_status', 'unpaid')
+          .order('created_at', { ascending: true }),
+        // Shares paid this shift, counted by their own payment method
+        supabase
+          .from('bill_splits')
+          .select('*')
+          .gte('paid_at', shiftStart)
+      ]);
+
+      if (unpaid.error) throw unpaid.error;
+      if (shift.error) throw shift.error;
+      if (tabs.error) throw tabs.error;
+      if (splits.error) throw splits.error;
+      if (paidSplits.error) throw paidSplits.error;
+
+      const tabIds = (tabs.data || []).map(tab => tab.id);
+      const { data: tabOrders, error: tabOrdersError } = tabIds.length > 0
+        ? await supabase.from('orders').select('*').in('tab_id', tabIds)
+        : { data: [], error: null };
+
+      if (tabOrdersError) throw tabOrdersError;
+
+      const splitShares = splits.data || [];
+      const splitKeys = Array.from(new Set(splitShares.map(split => split.tab_id ?? split.order_id)));
+
+      setOpenTabs((tabs.data || []).map(tab => {
+        const orders = (tabOrders || []).filter(order => order.tab_id === tab.id);
+        return {
+          id: tab.id,
+          location: tab.location_code,
+          orders: orders.filter(isBillable).length,
+          pending: orders.filter(order => order.status === 'pending').length,
+          due: getTabDue(orders),
+          isSplit: splitKeys.includes(tab.id)
+        };
+      }));
+
+      setSplitBills(splitKeys.map(key => {
+        const tab = (tabs.data || []).find(row => row.id === key);
+        const order = (unpaid.data || []).find(row => row.id === key);
+        return {
+          key,
+          title: tab ? `Tab for ${tab.location_code}` : `Order #${getOrderNumber(order ?? { id: key })}`,
+          shares: splitShares.filter(split => (split.tab_id ?? split.order_id) === key)
+        };
+      }));
+      setShiftSplits(paidSplits.data || []);
+
+      // Split orders are collected share by share below
+      setUnpaidOrders((unpaid.data || []).map(parseOrder).filter(order => !splitKeys.includes(order.id)));
+      setShiftOrders((shift.data || []).map(parseOrder));
+    } catch (error) {
+      console.error('Error fetching payments:', error);
+      toast.error('Failed to load payments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPayments();
+
+    const subscription = supabase
+      .channel('cashier_channel')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'orders' }, fetchPayments)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'bill_splits' }, fetchPayments)
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [shiftStart]);
+
+  const handleRecordPayment = async (orderId: string, amountTendered: number) => {
+    try {
+      assertPermission(role, 'payments.collect');
+
+      const { data, error } = await supabase.rpc('record_counter_payment', {
+        p_order_id: orderId,
+        p_amount_tendered: amountTendered
+      });
+
+      if (error) throw error;
+
+      toast.success(
+        data.change_given > 0
+          ? `Order #${getOrderNumber(data)} paid. Give ₹${Number(data.change_given).toFixed(2)} change`
+          : `Order #${getOrderNumber(data)} paid`
+      );
+      fetchPayments();
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      toast.error((error as { message?: string })?.message || 'Failed to record payment');
+    }
+  };
+
+  const handleSettleTab = async (tabId: string, method: PaymentMethod, amountTendered: number) => {
+    try {
+      assertPermission(role, 'payments.collect');
+
+      const { data, error } = await supabase.rpc('settle_tab', {
+        p_tab_id: tabId,
+        p_payment_method: method,
+        p_amount_tendered: amountTendered
+      });
+
+      if (error) throw error;
+
+      toast.success(
+        data.change_given > 0
+          ? `Tab for ${data.location_code} settled. Give ₹${Number(data.change_given).toFixed(2)} change`
+          : `Tab for ${data.location_code} settled`
+      );
+      fetchPayments();
+    } catch (error) {
+      console.error('Error settling tab:', error);
+      toast.error((error as { message?: string })?.message || 'Failed to settle tab');
+    }
+  };
+
+  const handleRecordSplitPayment = async (splitId: string, amountTendered: number) => {
+    try {
+      assertPermission(role, 'payments.collect');
+
+      const { data, error } = await supabase.rpc('record_split_payment', {
+        p_split_id: splitId,
+        p_amount_tendered: amountTendered
+      });
+
+      if (error) throw error;
+
+      toast.success(
+        data.change_given > 0
+          ? `${data.label}'s share paid. Give ₹${Number(data.change_given).toFixed(2)} change`
+          : `${data.label}'s share paid`
+      );
+      fetchPayments();
+    } catch (error) {
+      console.error('Error recording split payment:', error);
+      toast.error((error as { message?: string })?.message || 'Failed to record payment');
+    }
+  };
+
+  const handleRefund = async (orderId: string, amount: number) => {
+    try {
+      assertPermission(role, 'payments.refund');
+
+      const { data, error } = await supabase.rpc('refund_order_payment', {
+        p_order_id: orderId,
+        p_amount: amount
+      });
+
+      if (error) throw error;
+
+      toast.success(`Refunded ₹${amount.toFixed(2)} on order #${getOrderNumber(data)}`);
+      fetchPayments();
+    } catch (error) {
+      console.error('Error refunding payment:', error);
+      toast.error('Failed to refund payment');
+    }
+  };
+
+  const startNewShift = () => {
+    const now = new Date().toISOString();
+    localStorage.setItem(SHIFT_START_KEY, now);
+    setShiftStart(now);
+    toast.success('New shift started');
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  // Split orders are counted through their shares, each under its own method
+  const summary = summarizePayments([
+    ...shiftOrders,
+    ...shiftSplits.map(split => ({
+      payment_method: split.payment_method,
+      payment_status: split.payment_status,
+      total: Number(split.amount),
+      amount_tendered: split.amount_tendered,
+      change_given: split.change_given,
+      refunded_amount: 0
+    }))
+  ]);
+  const cashLine = summary.find(line => line.method === 'cash');
+  const totals = summary.reduce(
+    (sum, line) => ({ orders: sum.orders + line.orders, collected: sum.collected + line.collected, refunded: sum.refunded + line.refunded, net: sum.net + line.net }),
+    { orders: 0, collected: 0, refunded: 0, net: 0 }
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-cafe-dark">Cashier</h2>
+          <p className="text-cafe-text/70">Collect counter payments and reconcile the shift</p>
+        </div>
+
+        <Button variant="outline" size="sm" onClick={fetchPayments} disabled={loading} className="h-8">
+          <RefreshCcw size={14} className={`mr-1 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {openTabs.length > 0 && (
+        <section className="space-y-3">
+          <h3 className="text-lg font-semibold text-cafe-dark">Open tabs</h3>
+
+          <div className="grid gap-3">
+            {openTabs.map(tab => (
+              <Card key={tab.id} className="p-4 flex items-center justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <Receipt size={16} className="text-cafe" />
+                    <h4 className="font-semibold">{tab.location}</h4>
+                    {tab.pending > 0 && <Badge variant="outline">{tab.pending} awaiting approval</Badge>}
+                    {tab.isSplit && <Badge variant="secondary">Split</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {tab.orders} {tab.orders === 1 ? 'order' : 'orders'} on the tab
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="text-xl font-bold text-cafe-dark">₹{tab.due.toFixed(2)}</p>
+                  {can('payments.collect') && (
+                    <Button
+                      size="sm"
+                      className="mt-2 h-8 bg-cafe hover:bg-cafe-dark"
+                      onClick={() => setSettlingTab(tab)}
+                      disabled={tab.pending > 0 || tab.isSplit}
+                      title={
+                        tab.isSplit
+                          ? 'Collect each share under Split bills'
+                          : tab.pending > 0 ? 'Accept or reject the pending orders first' : undefined
+                      }
+                    >
+                      <Wallet size={14} className="mr-1" />
+                      Settle
+                    </Button>
+                  )}
+                </div>
+              </Card>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {splitBills.length > 0 && (
+        <section className="space-y-3">
+          <h3 className="text-lg font-semibold text-cafe-dark">Split bills</h3>
+
+          <div className="grid gap-3">
+            {splitBills.map(bill => (
+              <Card key={bill.key} className="p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                  <Users size={16} className="text-cafe" />
+                  <h4 className="font-semibold">{bill.title}</h4>
+                  <Badge variant="outline">{bill.shares.length} to collect</Badge>
+                </div>
+                {bill.shares.map(split => (
+                  <div key={split.id} className="flex items-center justify-between gap-4 border-t pt-3">
+                    <div>
+                      <p className="font-medium">{split.label}</p>
+                      <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                        {split.payment_method === 'card' ? <CreditCard size={14} /> : <Banknote size={14} />}
+                        {PAYMENT_METHOD_LABELS[split.payment_method as PaymentMethod]}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className="font-bold text-cafe-dark">₹{Number(split.amount).toFixed(2)}</span>
+                      {can('payments.collect') && (
+                        <Button size="sm" className="h-8 bg-cafe hover:bg-cafe-dark" onClick={() => setCollectingSplit(split)}>
+                          <Wallet size={14} className="mr-1" />
+                          Collect
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </Card>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <section className="space-y-3">
+        <h3 className="text-lg font-semibold text-cafe-dark">Awaiting payment</h3>
+
+        {loading && unpaidOrders.length === 0 ? (
+          <div className="text-center py-8">Loading payments...</div>
+        ) : unpaidOrders.length === 0 ? (
+          <div className="text-center py-8 text-cafe-text/70">No counter orders waiting for payment.</div>
+        ) : (
+          <div className="grid gap-3">
+            {unpaidOrders.map(order => (
+              <Card key={order.id} className="p-4 flex items-center justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <h4 className="font-semibold">Order #{getOrderNumber(order)}</h4>
+                    <Badge variant="outline">{ORDER_STATUS_LABELS[order.status] ?? order.status}</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {formatDate(order.created_at)}
+                    {order.customer_name && ` · ${order.customer_name}`}
+                  </p>
+                  <p className="mt-1 flex items-center gap-1 text-sm">
+                    {order.payment_method === 'card' ? <CreditCard size={14} /> : <Banknote size={14} />}
+                    {PAYMENT_METHOD_LABELS[order.payment_method as PaymentMethod]}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="text-xl font-bold text-cafe-dark">₹{order.total.toFixed(2)}</p>
+                  {can('payments.collect') && (
+                    <Button size="sm" className="mt-2 h-8 bg-cafe hover:bg-cafe-dark" onClick={() => setCollectingOrder(order)}>
+                      <Wallet size={14} className="mr-1" />
+                      Collect
+                    </Button>
+                  )}
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {can('payments.reconcile') && (
+        <section className="space-y-3">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+            <div>
+              <h3 className="text-lg font-semibold text-cafe-dark">Shift reconciliation</h3>
+              <p className="text-sm text-cafe-text/70">Since {formatDate(shiftStart)}</p>
+            </div>
+            <Button variant="outline" size="sm" onClick={startNewShift}>
+              Start new shift
+            </Button>
+          </div>
+
+          <Card className="p-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Method</TableHead>
+                  <TableHead className="text-right">Orders</TableHead>
+                  <TableHead className="text-right">Collected</TableHead>
+                  <TableHead className="text-right">Tendered</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead className="text-right">Refunds</TableHead>
+                  <TableHead className="text-right">Net</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summary.map(line => (
+                  <TableRow key={line.method}>
+                    <TableCell>{PAYMENT_METHOD_LABELS[line.method]}</TableCell>
+                    <TableCell className="text-right">{line.orders}</TableCell>
+                    <TableCell className="text-right">₹{line.collected.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">₹{line.tendered.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">₹{line.changeGiven.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">₹{line.refunded.toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-medium">₹{line.net.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell>Total</TableCell>
+                  <TableCell className="text-right">{totals.orders}</TableCell>
+                  <TableCell className="text-right">₹{totals.collected.toFixed(2)}</TableCell>
+                  <TableCell colSpan={2} />
+                  <TableCell className="text-right">₹{totals.refunded.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">₹{totals.net.toFixed(2)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+
+            <div className="mt-4 flex justify-between rounded-md bg-cafe/10 px-4 py-3 font-semibold text-cafe-dark">
+              <span>Expected cash in drawer</span>
+              <span>₹{(cashLine?.net ?? 0).toFixed(2)}</span>
+            </div>
+          </Card>
+
+          {shiftOrders.length > 0 && (
+            <div className="grid gap-2">
+              {shiftOrders.map(order => (
+                <div key={order.id} className="flex items-center justify-between rounded-md bg-white px-4 py-2 text-sm shadow-sm">
+                  <div>
+                    <span className="font-medium">#{getOrderNumber(order)}</span>
+                    <span className="ml-2 text-cafe-text/70">
+                      {PAYMENT_METHOD_LABELS[order.payment_method as PaymentMethod] ?? 'Split bill'} · {order.paid_at && formatDate(order.paid_at)}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span>₹{order.total.toFixed(2)}</span>
+                    <Badge variant={order.payment_status === 'paid' ? 'secondary' : 'destructive'}>
+                      {PAYMENT_STATUS_LABELS[order.payment_status as PaymentStatus] ?? order.payment_status}
+                    </Badge>
+                    {can('payments.refund') && order.payment_status !== 'refunded' && order.payment_method !== SPLIT_PAYMENT_METHOD && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                        title="Refund"
+                        onClick={() => setRefundingOrder(order)}
+                      >
+                        <RotateCcw size={14} />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      )}
+
+      <RecordPaymentDialog
+        order={collectingOrder}
+        onClose={() => setCollectingOrder(null)}
+        onConfirm={handleRecordPayment}
+      />
+
+      <RecordPaymentDialog
+        order={collectingSplit && { id: collectingSplit.id, total: Number(collectingSplit.amount), payment_method: collectingSplit.payment_method }}
+        title={collectingSplit ? `Collect ${collectingSplit.label}'s share` : undefined}
+        onClose={() => setCollectingSplit(null)}
+        onConfirm={handleRecordSplitPayment}
+      />
+
+      <SettleTabDialog
+        tab={settlingTab}
+        onClose={() => setSettlingTab(null)}
+        onConfirm={handleSettleTab}
+      />
+
+      <RefundPaymentDialog
+        order={refundingOrder}
+        onClose={() => setRefundingOrder(null)}
+        onConfirm={handleRefund}
+      />
+    </div>
+  );
+};
+
+export default CashierPanel;
@@ -13,6 +13,10 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/context/AuthContext';
+import { assertPermission } from '@/utils/permissions';
+import { MenuItemSize, parseMenuSizes, validateMenuSizes } from '@/utils/menuData';
+import SizeEditor from '@/components/admin/SizeEditor';
 
 // Define types
 type MenuItemType = {
@@ -21,11 +25,13 @@ type MenuItemType = {
   description?: string;
   is_available: boolean;
   price: number;
+  sizes: MenuItemSize[];
   category: string;
   created_at: string;
 };
 
 const InventoryManagement = () => {
+  const { role, can } = useAuth();
   const [menuItems, setMenuItems] = useState<MenuItemType[]>([]);
   const [filteredItems, setFilteredItems] = useState<MenuItemType[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
@@ -44,6 +50,7 @@ const InventoryManagement = () => {
     description: '',
     is_available: true,
     price: 0,
+    sizes: [] as MenuItemSize[],
     category: 'coffee'
   });
 
@@ -91,8 +98,9 @@ const InventoryManagement = () => {
       
       console.log("Successfully fetched menu items:", menuItemsData ? menuItemsData.length : 0, "items");
       
-      setMenuItems(menuItemsData || []);
-      setFilteredItems(menuItemsData || []);
+      const items = (menuItemsData || []).map(item => ({ ...item, sizes: parseMenuSizes(item.sizes) }));
+      setMenuItems(items);
+      setFilteredItems(items);
     } catch (error: any) {
       console.error("Error fetching menu items:", error);
       
@@ -147,6 +155,7 @@ const InventoryManagement = () => {
   // Toggle item availability
   const toggleItemAvailability = async (itemId: number) => {
     try {
+      assertPermission(role, 'menu.toggleAvailability');
       setProcessing(true);
       const item = menuItems.find(i => i.id === itemId);
       if (!item) return;
@@ -195,6 +204,7 @@ const InventoryManagement = () => {
   // Reset all items to available
   const resetAllItems = async () => {
     try {
+      assertPermission(role, 'menu.toggleAvailability');
       setProcessing(true);
       const { error } = await supabase
         .from('menu')
@@ -229,7 +239,14 @@ const InventoryManagement = () => {
       return;
     }
 
+    const sizesError = validateMenuSizes(itemForm.sizes);
+    if (sizesError) {
+      toast.error(sizesError);
+      return;
+    }
+
     try {
+      assertPermission(role, 'menu.manageItems');
       setProcessing(true);
       
       // Log attempt to add item
@@ -259,6 +276,7 @@ const InventoryManagement = () => {
           description: itemForm.description.trim(),
           is_available: itemForm.is_available,
           price: Number(itemForm.price),
+          sizes: itemForm.sizes.map(size => ({ name: size.name.trim(), price: Number(size.price) })),
           category: itemForm.category
         }])
         .select();
@@ -277,6 +295,7 @@ const InventoryManagement = () => {
         description: '',
         is_available: true,
         price: 0,
+        sizes: [],
         category: 'coffee'
       });
       
@@ -305,6 +324,7 @@ const InventoryManagement = () => {
       description: item.description || '',
       is_available: item.is_available,
       price: item.price,
+      sizes: item.sizes,
       category: item.category
     });
     setIsEditDialogOpen(true);
@@ -325,7 +345,14 @@ const InventoryManagement = () => {
       return;
     }
 
+    const sizesError = validateMenuSizes(itemForm.sizes);
+    if (sizesError) {
+      toast.error(sizesError);
+      return;
+    }
+
     try {
+      assertPermission(role, 'menu.editPrices');
       setProcessing(true);
       
       const { error } = await supabase
@@ -335,6 +362,7 @@ const InventoryManagement = () => {
           description: itemForm.description.trim(),
           is_available: itemForm.is_available,
           price: Number(itemForm.price),
+          sizes: itemForm.sizes.map(size => ({ name: size.name.trim(), price: Number(size.price) })),
           category: itemForm.category
         })
         .eq('id', selectedItem.id);
@@ -362,6 +390,7 @@ const InventoryManagement = () => {
     if (!selectedItem) return;
     
     try {
+      assertPermission(role, 'menu.manageItems');
       setProcessing(true);
       const { error } = await supabase
         .from('menu')
@@ -446,25 +475,29 @@ const InventoryManagement = () => {
           </SelectContent>
         </Select>
         
-        <Button 
-          variant="outline" 
-          size="icon"
-          onClick={resetAllItems}
-          className="text-cafe hover:bg-cafe/10"
-          title="Reset all items to available"
-          disabled={processing || isLoading}
-        >
-          <RotateCcw size={16} />
-        </Button>
+        {can('menu.toggleAvailability') && (
+          <Button 
+            variant="outline" 
+            size="icon"
+            onClick={resetAllItems}
+            className="text-cafe hover:bg-cafe/10"
+            title="Reset all items to available"
+            disabled={processing || isLoading}
+          >
+            <RotateCcw size={16} />
+          </Button>
+        )}
         
-        <Button 
-          onClick={() => setIsAddDialogOpen(true)}
-          className="bg-cafe hover:bg-cafe-dark whitespace-nowrap"
-          disabled={processing}
-        >
-          <PlusCircle size={16} className="mr-2" />
-          Add Item
-        </Button>
+        {can('menu.manageItems') && (
+          <Button 
+            onClick={() => setIsAddDialogOpen(true)}
+            className="bg-cafe hover:bg-cafe-dark whitespace-nowrap"
+            disabled={processing}
+          >
+            <PlusCircle size={16} className="mr-2" />
+            Add Item
+          </Button>
+        )}
       </div>
       
       {isLoading ? (
@@ -508,7 +541,9 @@ const InventoryManagement = () => {
                         </div>
                         <div className="text-sm text-cafe-text/60">
                           <span className="capitalize">{item.category}</span> - 
-                          ₹{item.price}
+                          {item.sizes.length > 0
+                            ? item.sizes.map(size => `${size.name} ₹${size.price}`).join(' / ')
+                            : `₹${item.price}`}
                         </div>
                       </div>
                       
@@ -518,29 +553,33 @@ const InventoryManagement = () => {
                           <Switch
                             checked={item.is_available}
                             onCheckedChange={() => toggleItemAvailability(item.id)}
-                            disabled={processing}
+                            disabled={processing || !can('menu.toggleAvailability')}
                           />
                         </div>
                         
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="text-cafe-text/60 hover:text-cafe"
-                          disabled={processing}
-                          onClick={() => handleEditItem(item)}
-                        >
-                          <Edit size={16} />
-                        </Button>
+                        {can('menu.editPrices') && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-cafe-text/60 hover:text-cafe"
+                            disabled={processing}
+                            onClick={() => handleEditItem(item)}
+                          >
+                            <Edit size={16} />
+                          </Button>
+                        )}
                         
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="text-red-400 hover:text-red-500 hover:bg-red-50"
-                          disabled={processing}
-                          onClick={() => handleDeleteItem(item)}
-                        >
-                          <Trash2 size={16} />
-                        </Button>
+                        {can('menu.manageItems') && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-red-400 hover:text-red-500 hover:bg-red-50"
+                            disabled={processing}
+                            onClick={() => handleDeleteItem(item)}
+                          >
+                            <Trash2 size={16} />
+                          </Button>
+                        )}
                       </div>
                     </motion.div>
                   ))}
@@ -615,6 +654,12 @@ const InventoryManagement = () => {
                 />
               </div>
             </div>
+
+            <SizeEditor
+              idPrefix="add"
+              sizes={itemForm.sizes}
+              onChange={(sizes) => setItemForm({ ...itemForm, sizes })}
+            />
             
             <div className="grid gap-2">
               <Label htmlFor="category">Category *</Label>
@@ -716,6 +761,7 @@ const InventoryManagement = () => {
                   step="0.01"
                   value={itemForm.price}
                   onChange={handleInputChange}
+                  disabled={!can('menu.editPrices')}
                   onBlur={(e) => {
                     if (e.target.value === '' || parseFloat(e.target.value) < 0) {
                       setItemForm({...itemForm, price: 0});
@@ -725,6 +771,13 @@ const InventoryManagement = () => {
                 />
               </div>
             </div>
+
+            <SizeEditor
+              idPrefix="edit"
+              sizes={itemForm.sizes}
+              onChange={(sizes) => setItemForm({ ...itemForm, sizes })}
+              disabled={!can('menu.editPrices')}
+            />
             
             <div className="grid gap-2">
               <Label htmlFor="edit_category">Category *</Label>
@@ -0,0 +1,457 @@
+import React, { useState, useEffect, useRef } from 'react';
+import QRCode from 'react-qr-code';
+import { CircleCheck, Edit, Loader2, MapPin, PlusCircle, Printer, RefreshCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/context/AuthContext';
+import { assertPermission } from '@/utils/permissions';
+import { OPEN_STATUSES } from '@/utils/orderStatus';
+import { roundCurrency } from '@/utils/pricing';
+import {
+  getLocationLink,
+  getOrderLocation,
+  LOCATION_CODE_PATTERN,
+  LOCATION_KINDS,
+  LocationKind,
+  NO_ZONE
+} from '@/utils/locations';
+import type { Database } from '@/integrations/supabase/types';
+
+type LocationRow = Database['public']['Tables']['locations']['Row'];
+type OpenOrder = Pick<Database['public']['Tables']['orders']['Row'], 'id' | 'status' | 'total' | 'payment_status' | 'table_number' | 'room_number'>;
+
+// What is running on a table or room right now
+type Occupancy = {
+  orders: number;
+  inKitchen: number;
+  total: number;
+  unpaid: number;
+};
+
+const emptyLocation = { code: '', name: '', kind: 'table' as LocationKind, zone: '' };
+
+// Tables and rooms guests order from: who is sitting where, their running
+// totals, closing a table out, and a printable QR code for each
+const LocationManagement = () => {
+  const { role, can } = useAuth();
+  const [locations, setLocations] = useState<LocationRow[]>([]);
+  const [openOrders, setOpenOrders] = useState<OpenOrder[]>([]);
+  const [links, setLinks] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [editingCode, setEditingCode] = useState<string | null>(null); // null while adding a new location
+  const [form, setForm] = useState(emptyLocation);
+  const [closingLocation, setClosingLocation] = useState<LocationRow | null>(null);
+  const printRef = useRef<HTMLDivElement>(null);
+
+  const fetchLocations = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('locations')
+        .select('*')
+        .order('kind')
+        .order('code');
+
+      if (error) throw error;
+
+      const { data: orders, error: ordersError } = await supabase
+        .from('orders')
+        .select('id, status, total, payment_status, table_number, room_number')
+        .in('status', OPEN_STATUSES);
+
+      if (ordersError) throw ordersError;
+
+      // Signatures come from the database, which alone holds the signing key
+      if (can('locations.manage')) {
+        const { data: signed, error: linksError } = await supabase.rpc('get_location_links');
+        if (linksError) throw linksError;
+        setLinks(Object.fromEntries((signed || []).map(link => [link.code, getLocationLink(link.code, link.sig)])));
+      }
+
+      setLocations(data || []);
+      setOpenOrders(orders || []);
+    } catch (error) {
+      console.error('Error fetching locations:', error);
+      toast.error('Failed to load tables and rooms');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchLocations();
+
+    // Occupancy follows the orders as they come in and move on
+    const subscription = supabase
+      .channel('locations_orders_channel')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'orders' }, fetchLocations)
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const getOccupancy = (code: string): Occupancy =>
+    openOrders
+      .filter(order => getOrderLocation(order) === code)
+      .reduce((occupancy, order) => ({
+        orders: occupancy.orders + 1,
+        inKitchen: occupancy.inKitchen + (order.status === 'served' || order.status === 'delivered' ? 0 : 1),
+        total: roundCurrency(occupancy.total + Number(order.total)),
+        unpaid: roundCurrency(occupancy.unpaid + (order.payment_status === 'unpaid' ? Number(order.total) : 0))
+      }), { orders: 0, inKitchen: 0, total: 0, unpaid: 0 });
+
+  const openAddDialog = () => {
+    setEditingCode(null);
+    setForm(emptyLocation);
+    setIsEditDialogOpen(true);
+  };
+
+  const openEditDialog = (location: LocationRow) => {
+    setEditingCode(location.code);
+    setForm({ code: location.code, name: location.name, kind: location.kind as LocationKind, zone: location.zone ?? '' });
+    setIsEditDialogOpen(true);
+  };
+
+  const handleSaveLocation = async () => {
+    const code = form.code.trim().toUpperCase();
+    const name = form.name.trim();
+    const zone = form.zone.trim() || null;
+
+    if (!LOCATION_CODE_PATTERN.test(code)) {
+      toast.error('Codes are up to 10 letters, digits or dashes, e.g. T4 or 204');
+      return;
+    }
+    if (!name) {
+      toast.error('Give the location a name');
+      return;
+    }
+    if (!editingCode && locations.some(location => location.code === code)) {
+      toast.error(`${code} already exists`);
+      return;
+    }
+
+    setProcessing(true);
+    try {
+      assertPermission(role, 'locations.manage');
+
+      // The code is printed on the QR code, so it stays as it is once created
+      const { error } = editingCode
+        ? await supabase.from('locations').update({ name, kind: form.kind, zone }).eq('code', editingCode)
+        : await supabase.from('locations').insert({ code, name, kind: form.kind, zone });
+
+      if (error) throw error;
+
+      toast.success(`${name} ${editingCode ? 'updated' : 'added'}`);
+      setIsEditDialogOpen(false);
+      fetchLocations();
+    } catch (error) {
+      console.error('Error saving location:', error);
+      toast.error(error.message || 'Failed to save location');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  // Closed locations keep their QR code, but scanning it no longer lets guests order
+  const toggleActive = async (location: LocationRow) => {
+    setProcessing(true);
+    try {
+      assertPermission(role, 'locations.manage');
+
+      const { error } = await supabase
+        .from('locations')
+        .update({ is_active: !location.is_active })
+        .eq('code', location.code);
+
+      if (error) throw error;
+
+      setLocations(locations.map(row => (row.code === location.code ? { ...row, is_active: !row.is_active } : row)));
+    } catch (error) {
+      console.error('Error updating location:', error);
+      toast.error(error.message || 'Failed to update location');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  // Completes the table's served orders once everything is paid, freeing it for the next guests
+  const handleCloseLocation = async () => {
+    if (!closingLocation) return;
+
+    setProcessing(true);
+    try {
+      assertPermission(role, 'locations.close');
+
+      const { data: closed, error } = await supabase.rpc('close_location', { p_code: closingLocation.code });
+      if (error) throw error;
+
+      toast.success(`${closingLocation.name} closed (${closed} order${closed === 1 ? '' : 's'} completed)`);
+      fetchLocations();
+    } catch (error) {
+      console.error('Error closing location:', error);
+      toast.error(error?.code === 'P0001' ? error.message : 'Failed to close the table');
+    } finally {
+      setProcessing(false);
+      setClosingLocation(null);
+    }
+  };
+
+  const printCodes = () => {
+    if (!printRef.current) return;
+
+    const printWindow = window.open('', '_blank');
+    if (printWindow) {
+      printWindow.document.write('<html><head><title>Table QR codes</title>');
+      printWindow.document.write('<style>body { font-family: Arial, sans-serif; } .code { display: inline-block; width: 45%; margin: 2%; padding: 16px; border: 1px dashed #999; text-align: center; page-break-inside: avoid; }</style>');
+      printWindow.document.write('</head><body>');
+      printWindow.document.write(printRef.current.innerHTML);
+      printWindow.document.write('</body></html>');
+      printWindow.document.close();
+      printWindow.print();
+    } else {
+      toast.error('Unable to open print window');
+    }
+  };
+
+  const printable = locations.filter(location => location.is_active && links[location.code]);
+  const zones = [...new Set(locations.map(location => location.zone || NO_ZONE))].sort((a, b) =>
+    Number(a === NO_ZONE) - Number(b === NO_ZONE) || a.localeCompare(b)
+  );
+  const occupiedCount = locations.filter(location => getOccupancy(location.code).orders > 0).length;
+
+  return (
+    <div>
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-semibold text-cafe-text">Tables &amp; Rooms</h2>
+          <p className="text-sm text-cafe-text/60">{occupiedCount} of {locations.length} occupied</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="icon" onClick={fetchLocations} title="Refresh">
+            <RefreshCcw size={16} />
+          </Button>
+          {can('locations.manage') && (
+            <>
+              <Button variant="outline" onClick={printCodes} disabled={printable.length === 0}>
+                <Printer size={16} className="mr-2" />
+                Print QR codes
+              </Button>
+              <Button className="bg-cafe hover:bg-cafe-dark" onClick={openAddDialog}>
+                <PlusCircle size={16} className="mr-2" />
+                Add
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-10">
+          <Loader2 className="h-8 w-8 animate-spin text-cafe" />
+        </div>
+      ) : locations.length > 0 ? (
+        zones.map(zone => (
+          <div key={zone} className="mb-6">
+            <h3 className="mb-2 text-sm font-semibold uppercase tracking-wide text-cafe-text/60">{zone}</h3>
+            <div className="cafe-card divide-y divide-cafe/10">
+              {locations.filter(location => (location.zone || NO_ZONE) === zone).map(location => {
+                const occupancy = getOccupancy(location.code);
+
+                return (
+                  <div key={location.code} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3">
+                    <div className="flex items-center gap-3">
+                      {links[location.code] && (
+                        <div className="rounded bg-white p-1">
+                          <QRCode value={links[location.code]} size={48} level="M" />
+                        </div>
+                      )}
+                      <div>
+                        <div className="flex flex-wrap items-center gap-2">
+                          <h4 className="font-medium text-cafe-text">{location.name}</h4>
+                          <Badge variant="outline">{LOCATION_KINDS[location.kind as LocationKind] ?? location.kind}</Badge>
+                          {occupancy.orders > 0 ? (
+                            <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-200">
+                              {occupancy.orders} open order{occupancy.orders === 1 ? '' : 's'}
+                            </Badge>
+                          ) : (
+                            <Badge className="bg-green-100 text-green-700 hover:bg-green-200">Free</Badge>
+                          )}
+                        </div>
+                        <p className="text-sm text-cafe-text/60">
+                          Code {location.code}
+                          {occupancy.orders > 0 && ` · ₹${occupancy.total.toFixed(2)} running`}
+                          {occupancy.unpaid > 0 && ` · ₹${occupancy.unpaid.toFixed(2)} unpaid`}
+                        </p>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      {occupancy.orders > 0 && can('locations.close') && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={processing || occupancy.inKitchen > 0}
+                          title={occupancy.inKitchen > 0 ? 'Orders are still in the kitchen' : 'Complete the orders and free the table'}
+                          onClick={() => setClosingLocation(location)}
+                        >
+                          <CircleCheck size={14} className="mr-1" />
+                          Close
+                        </Button>
+                      )}
+                      {can('locations.manage') && (
+                        <>
+                          <Switch
+                            checked={location.is_active}
+                            onCheckedChange={() => toggleActive(location)}
+                            disabled={processing}
+                            title="Taking orders"
+                          />
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-cafe-text/60 hover:text-cafe"
+                            disabled={processing}
+                            onClick={() => openEditDialog(location)}
+                          >
+                            <Edit size={16} />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))
+      ) : (
+        <div className="cafe-card p-6 text-center">
+          <MapPin size={24} className="mx-auto mb-2 text-muted-foreground" />
+          <h3 className="font-medium text-cafe-text">No tables or rooms yet</h3>
+          <p className="text-sm text-cafe-text/60 mt-1">Add one to print its QR code.</p>
+        </div>
+      )}
+
+      {/* Rendered off screen and copied into the print window */}
+      <div ref={printRef} className="hidden">
+        {printable.map(location => (
+          <div key={location.code} className="code">
+            <h2>Barista @ Star Hospital</h2>
+            <QRCode value={links[location.code]} size={220} level="M" />
+            <h3>{location.name}</h3>
+            <p>Scan to order</p>
+          </div>
+        ))}
+      </div>
+
+      <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{editingCode ? `Edit ${editingCode}` : 'Add a table or room'}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div>
+              <Label htmlFor="location-kind">Type</Label>
+              <Select
+                value={form.kind}
+                onValueChange={(value: LocationKind) => setForm({ ...form, kind: value })}
+              >
+                <SelectTrigger id="location-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(LOCATION_KINDS).map(([kind, label]) => (
+                    <SelectItem key={kind} value={kind}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {!editingCode && (
+              <div>
+                <Label htmlFor="location-code">Code</Label>
+                <Input
+                  id="location-code"
+                  placeholder={form.kind === 'table' ? 'T5' : '305'}
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase().slice(0, 10) })}
+                />
+                <p className="mt-1 text-xs text-cafe-text/60">Printed on orders and in the kitchen</p>
+              </div>
+            )}
+            <div>
+              <Label htmlFor="location-name">Name</Label>
+              <Input
+                id="location-name"
+                placeholder={form.kind === 'table' ? 'Table 5' : 'Room 305'}
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value.slice(0, 50) })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="location-zone">Zone</Label>
+              <Input
+                id="location-zone"
+                placeholder="e.g. Cafe floor, Ward B"
+                value={form.zone}
+                list="location-zones"
+                onChange={(e) => setForm({ ...form, zone: e.target.value.slice(0, 40) })}
+              />
+              <datalist id="location-zones">
+                {zones.filter(zone => zone !== NO_ZONE).map(zone => <option key={zone} value={zone} />)}
+              </datalist>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsEditDialogOpen(false)}>Cancel</Button>
+            <Button className="bg-cafe hover:bg-cafe-dark" onClick={handleSaveLocation} disabled={processing}>
+              {processing && <Loader2 size={16} className="mr-2 animate-spin" />}
+              {editingCode ? 'Save' : 'Add'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={Boolean(closingLocation)} onOpenChange={(open) => !open && setClosingLocation(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Close {closingLocation?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its served orders are marked completed and the {closingLocation?.kind ?? 'table'} shows as free.
+              Every order must be paid first.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction className="bg-cafe hover:bg-cafe-dark" onClick={handleCloseLocation}>
+              Close
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default LocationManagement;
@@ -2,21 +2,73 @@ import React, { useState, useEffect } from 'react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { OrderType } from '@/pages/AdminDashboard';
-import { CheckCheck, X, Eye, RefreshCcw } from 'lucide-react';
+import RejectOrderDialog from '@/components/admin/RejectOrderDialog';
+import StuckOrders from '@/components/admin/StuckOrders';
+import { useAuth } from '@/context/AuthContext';
+import { assertPermission } from '@/utils/permissions';
+import {
+  canTransition,
+  getNextStatus,
+  IN_PROGRESS_STATUSES,
+  OrderStatus,
+  ORDER_STATUS_LABELS,
+  RejectionCode,
+  STATUS_TIMESTAMP_COLUMNS
+} from '@/utils/orderStatus';
+import { PaymentStatus, PAYMENT_STATUS_LABELS } from '@/utils/paymentStatus';
+import { getOrderLocation } from '@/utils/locations';
+import { getOrderNumber } from '@/utils/orderNumber';
+import { CheckCheck, X, Eye, RefreshCcw, Ban, ChefHat, BellRing, HandPlatter, Truck, CircleCheck, MapPin } from 'lucide-react';
 
 interface OrderManagementProps {
   onViewBill: (order: OrderType) => void;
-  onOrderStatusChange: (orderId: string, status: 'approved' | 'rejected') => void;
+  onOrderStatusChange: (orderId: string, status: OrderStatus) => void;
 }
 
+// Status filter buttons; each one can cover several statuses
+const ORDER_FILTERS: { value: string; label: string; statuses: OrderStatus[] | null }[] = [
+  { value: 'all', label: 'All Orders', statuses: null },
+  { value: 'pending', label: 'Pending', statuses: ['pending'] },
+  { value: 'in_progress', label: 'In Progress', statuses: IN_PROGRESS_STATUSES },
+  { value: 'handed_over', label: 'Served / Delivered', statuses: ['served', 'delivered'] },
+  { value: 'completed', label: 'Completed', statuses: ['completed'] },
+  { value: 'closed', label: 'Rejected / Cancelled', statuses: ['rejected', 'cancelled'] }
+];
+
+// Button shown for the next forward step of an accepted order
+const ADVANCE_ACTIONS: Partial<Record<OrderStatus, { label: string; icon: React.ElementType }>> = {
+  preparing: { label: 'Start preparing', icon: ChefHat },
+  ready: { label: 'Mark ready', icon: BellRing },
+  served: { label: 'Mark served', icon: HandPlatter },
+  delivered: { label: 'Mark delivered', icon: Truck },
+  completed: { label: 'Complete', icon: CircleCheck }
+};
+
+const STATUS_BADGE_VARIANTS: Record<OrderStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  accepted: 'secondary',
+  preparing: 'secondary',
+  ready: 'default',
+  served: 'default',
+  delivered: 'default',
+  completed: 'secondary',
+  rejected: 'destructive',
+  cancelled: 'destructive'
+};
+
 const OrderManagement: React.FC<OrderManagementProps> = ({ onViewBill, onOrderStatusChange }) => {
+  const { role, can } = useAuth();
   const [orders, setOrders] = useState<OrderType[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [activeFilter, setActiveFilter] = useState<string>('pending');
   const [lastRefreshed, setLastRefreshed] = useState<Date>(new Date());
+  const [rejectingOrderId, setRejectingOrderId] = useState<string | null>(null);
+  const [locations, setLocations] = useState<{ code: string; name: string }[]>([]);
+  const [locationFilter, setLocationFilter] = useState<string>('all');
   
   // Fetch orders from Supabase
   const fetchOrders = async () => {
@@ -27,8 +79,9 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ onViewBill, onOrderSt
         .from('orders')
         .select('*');
       
-      if (activeFilter !== 'all') {
-        query = query.eq('status', activeFilter);
+      const statuses = ORDER_FILTERS.find(filter => filter.value === activeFilter)?.statuses;
+      if (statuses) {
+        query = query.in('status', statuses);
       }
       
       const { data, error } = await query.order('created_at', { ascending: false });
@@ -38,6 +91,7 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ onViewBill, onOrderSt
       // Parse the items field if it's stored as a string
       const parsedOrders = (data || []).map(order => ({
         ...order,
+        status: order.status as OrderStatus,
         items: typeof order.items === 'string' ? JSON.parse(order.items) : order.items
       }));
       
@@ -51,6 +105,24 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ onViewBill, onOrderSt
     }
   };
   
+  // Registered tables and rooms for the location filter
+  useEffect(() => {
+    const fetchLocations = async () => {
+      const { data, error } = await supabase
+        .from('locations')
+        .select('code, name')
+        .order('code');
+
+      if (error) {
+        console.error('Error fetching locations:', error);
+        return;
+      }
+      setLocations(data || []);
+    };
+
+    fetchLocations();
+  }, []);
+
   useEffect(() => {
     fetchOrders();
     
@@ -85,9 +157,15 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ onViewBill, onOrderSt
     }
   };
   
-  // Handle approval/rejection of order
-  const handleStatusChange = async (orderId: string, status: 'approved' | 'rejected') => {
+  // Move an order to its next stage, or reject/cancel it
+  const handleStatusChange = async (
+    orderId: string,
+    status: OrderStatus,
+    details: Pick<OrderType, 'rejection_code' | 'rejection_reason'> = {}
+  ) => {
     try {
+      assertPermission(role, 'orders.updateStatus');
+
       // First check the current status to avoid unnecessary updates
       const { data: currentOrder, error: fetchError } = await supabase
         .from('orders')
@@ -99,34 +177,38 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ onViewBill, onOrderSt
       
       // If status is already set, don't update
       if (currentOrder && currentOrder.status === status) {
-        toast.info(`Order is already ${status}`);
+        toast.info(`Order is already ${ORDER_STATUS_LABELS[status].toLowerCase()}`);
+        return;
+      }
+
+      // Someone else may have moved the order on since the list was loaded
+      if (currentOrder && !canTransition(currentOrder.status as OrderStatus, status)) {
+        toast.error(`Order is ${currentOrder.status} and cannot be marked as ${ORDER_STATUS_LABELS[status].toLowerCase()}`);
+        fetchOrders();
         return;
       }
       
-      // Update the order status with approved_at timestamp
-      const updateData = {
-        status,
-        approved_at: status === 'approved' ? new Date().toISOString() : null
-      };
-      
+      // The database stamps the matching *_at column for the new status
       const { error } = await supabase
         .from('orders')
-        .update(updateData)
+        .update({ status, ...details })
         .eq('id', orderId);
       
       if (error) throw error;
       
       onOrderStatusChange(orderId, status);
-      toast.success(`Order ${status} successfully`);
       
       // Refresh the orders list
       fetchOrders();
     } catch (error) {
-      console.error(`Error ${status} order:`, error);
-      toast.error(`Failed to ${status} order`);
+      console.error(`Error moving order to ${status}:`, error);
+      toast.error(`Failed to mark order as ${ORDER_STATUS_LABELS[status].toLowerCase()}`);
     }
   };
   
+  const handleReject = (orderId: string, code: RejectionCode, reason: string) =>
+    handleStatusChange(orderId, 'rejected', { rejection_code: code, rejection_reason: reason });
+  
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString('en-US', {
       month: 'short',
@@ -136,6 +218,10 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ onViewBill, onOrderSt
     });
   };
   
+  const visibleOrders = locationFilter === 'all'
+    ? orders
+    : orders.filter(order => getOrderLocation(order) === locationFilter);
+  
   return (
     <div className="space-y-6">
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
@@ -160,82 +246,94 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ onViewBill, onOrderSt
         </div>
       </div>
       
+      <StuckOrders />
+      
       <div className="flex flex-wrap gap-2 mb-4">
-        <Button 
-          variant={activeFilter === 'all' ? "default" : "outline"} 
-          size="sm"
-          onClick={() => setActiveFilter('all')}
-          className={activeFilter === 'all' ? "bg-cafe hover:bg-cafe-dark" : ""}
-        >
-          All Orders
-        </Button>
-        <Button 
-          variant={activeFilter === 'pending' ? "default" : "outline"} 
-          size="sm"
-          onClick={() => setActiveFilter('pending')}
-          className={activeFilter === 'pending' ? "bg-cafe hover:bg-cafe-dark" : ""}
-        >
-          Pending
-        </Button>
-        <Button 
-          variant={activeFilter === 'approved' ? "default" : "outline"} 
-          size="sm"
-          onClick={() => setActiveFilter('approved')}
-          className={activeFilter === 'approved' ? "bg-cafe hover:bg-cafe-dark" : ""}
-        >
-          Approved
-        </Button>
-        <Button 
-          variant={activeFilter === 'completed' ? "default" : "outline"} 
-          size="sm"
-          onClick={() => setActiveFilter('completed')}
-          className={activeFilter === 'completed' ? "bg-cafe hover:bg-cafe-dark" : ""}
-        >
-          Completed
-        </Button>
-        <Button 
-          variant={activeFilter === 'rejected' ? "default" : "outline"} 
-          size="sm"
-          onClick={() => setActiveFilter('rejected')}
-          className={activeFilter === 'rejected' ? "bg-cafe hover:bg-cafe-dark" : ""}
-        >
-          Rejected
-        </Button>
+        {ORDER_FILTERS.map(filter => (
+          <Button 
+            key={filter.value}
+            variant={activeFilter === filter.value ? "default" : "outline"} 
+            size="sm"
+            onClick={() => setActiveFilter(filter.value)}
+            className={activeFilter === filter.value ? "bg-cafe hover:bg-cafe-dark" : ""}
+          >
+            {filter.label}
+          </Button>
+        ))}
+        
+        {locations.length > 0 && (
+          <Select value={locationFilter} onValueChange={setLocationFilter}>
+            <SelectTrigger className="h-9 w-[160px]">
+              <SelectValue placeholder="Location" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All locations</SelectItem>
+              {locations.map(location => (
+                <SelectItem key={location.code} value={location.code}>{location.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
       </div>
       
       {loading ? (
         <div className="text-center py-8">Loading orders...</div>
-      ) : orders.length === 0 ? (
+      ) : visibleOrders.length === 0 ? (
         <div className="text-center py-8">
-          No {activeFilter === 'all' ? '' : activeFilter} orders found.
+          No {activeFilter === 'all' ? '' : ORDER_FILTERS.find(filter => filter.value === activeFilter)?.label.toLowerCase()} orders found.
         </div>
       ) : (
         <div className="grid gap-4">
-          {orders.map((order) => (
+          {visibleOrders.map((order) => {
+            const nextStatus = getNextStatus(order);
+            const advance = order.status !== 'pending' && nextStatus ? ADVANCE_ACTIONS[nextStatus] : undefined;
+            const canUpdate = can('orders.updateStatus');
+
+            return (
             <Card key={order.id} className="p-4">
               <div className="flex justify-between items-start">
                 <div>
                   <div className="flex items-center gap-2">
-                    <h3 className="font-semibold">Order #{order.id}</h3>
-                    <Badge variant={
-                      order.status === 'pending' ? 'outline' :
-                      order.status === 'approved' ? 'secondary' : 'destructive'
-                    }>
-                      {order.status}
+                    <h3 className="font-semibold">Order #{getOrderNumber(order)}</h3>
+                    <Badge variant={STATUS_BADGE_VARIANTS[order.status] ?? 'outline'}>
+                      {ORDER_STATUS_LABELS[order.status] ?? order.status}
                     </Badge>
+                    {order.payment_status && (
+                      <Badge
+                        variant="outline"
+                        className={order.payment_status === 'unpaid' ? 'border-amber-400 text-amber-700' : 'border-green-500 text-green-700'}
+                      >
+                        {PAYMENT_STATUS_LABELS[order.payment_status as PaymentStatus] ?? order.payment_status}
+                      </Badge>
+                    )}
                   </div>
                   <p className="text-sm text-muted-foreground">{formatDate(order.created_at)}</p>
+                  {getOrderLocation(order) && (
+                    <p className="flex items-center gap-1 text-sm text-cafe-text/70">
+                      <MapPin size={12} />
+                      {order.table_number ? `Table ${order.table_number}` : `Room ${order.room_number}`}
+                    </p>
+                  )}
                   <p className="mt-1">₹{order.total.toFixed(2)}</p>
                   <p className="text-sm mt-1">
                     {Array.isArray(order.items) ? order.items.length : 0} items
                   </p>
-                  {order.status === 'approved' && order.approved_at && (
-                    <p className="text-xs text-green-600 mt-1">
-                      Approved at: {formatDate(order.approved_at)}
-                    </p>
+                  {/* When the order reached each stage */}
+                  <div className="mt-1 space-y-0.5">
+                    {Object.entries(STATUS_TIMESTAMP_COLUMNS).map(([status, column]) => order[column] && (
+                      <p
+                        key={status}
+                        className={`text-xs ${status === 'rejected' || status === 'cancelled' ? 'text-red-600' : 'text-green-600'}`}
+                      >
+                        {ORDER_STATUS_LABELS[status as OrderStatus]} at: {formatDate(order[column])}
+                      </p>
+                    ))}
+                  </div>
+                  {order.status === 'rejected' && order.rejection_reason && (
+                    <p className="text-xs text-red-600 mt-1">Reason: {order.rejection_reason}</p>
                   )}
                 </div>
-                <div className="flex gap-2">
+                <div className="flex flex-wrap justify-end gap-2">
                   <Button 
                     variant="outline" 
                     size="sm" 
@@ -245,13 +343,14 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ onViewBill, onOrderSt
                     <Eye size={16} />
                   </Button>
                   
-                  {order.status === 'pending' && (
+                  {order.status === 'pending' && canUpdate && (
                     <>
                       <Button 
                         variant="outline" 
                         size="sm" 
                         className="h-8 w-8 p-0 text-green-600 hover:text-green-700" 
-                        onClick={() => handleStatusChange(order.id, 'approved')}
+                        title="Accept order"
+                        onClick={() => handleStatusChange(order.id, 'accepted')}
                       >
                         <CheckCheck size={16} />
                       </Button>
@@ -259,18 +358,50 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ onViewBill, onOrderSt
                         variant="outline" 
                         size="sm" 
                         className="h-8 w-8 p-0 text-red-600 hover:text-red-700" 
-                        onClick={() => handleStatusChange(order.id, 'rejected')}
+                        title="Reject order"
+                        onClick={() => setRejectingOrderId(order.id)}
                       >
                         <X size={16} />
                       </Button>
                     </>
                   )}
+
+                  {advance && canUpdate && (
+                    <Button 
+                      size="sm" 
+                      className="h-8 bg-cafe hover:bg-cafe-dark" 
+                      onClick={() => handleStatusChange(order.id, nextStatus)}
+                    >
+                      <advance.icon size={14} className="mr-1" />
+                      {advance.label}
+                    </Button>
+                  )}
+
+                  {canUpdate && canTransition(order.status, 'cancelled') && order.status !== 'pending' && (
+                    <Button 
+                      variant="outline" 
+                      size="sm" 
+                      className="h-8 w-8 p-0 text-red-600 hover:text-red-700" 
+                      title="Cancel order"
+                      onClick={() => handleStatusChange(order.id, 'cancelled')}
+                    >
+                      <Ban size={16} />
+                    </Button>
+                  )}
                 </div>
               </div>
             </Card>
-          ))}
+            );
+          })}
         </div>
       )}
+      
+      <RejectOrderDialog
+        orderId={rejectingOrderId}
+        orderNumber={orders.find(order => order.id === rejectingOrderId)?.order_number}
+        onClose={() => setRejectingOrderId(null)}
+        onConfirm={handleReject}
+      />
     </div>
   );
 };
@@ -0,0 +1,104 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { OrderType } from '@/pages/AdminDashboard';
+import { getOrderNumber } from '@/utils/orderNumber';
+import { getQuickAmounts, PaymentMethod, PAYMENT_METHOD_LABELS } from '@/utils/paymentStatus';
+
+interface RecordPaymentDialogProps {
+  // An order, or one person's share of a split bill
+  order: Pick<OrderType, 'id' | 'order_number' | 'total' | 'payment_method'> | null;
+  title?: string;
+  onClose: () => void;
+  onConfirm: (orderId: string, amountTendered: number) => Promise<void> | void;
+}
+
+const RecordPaymentDialog: React.FC<RecordPaymentDialogProps> = ({ order, title, onClose, onConfirm }) => {
+  const [tendered, setTendered] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const total = order ? Number(order.total) : 0;
+  const isCash = order?.payment_method === 'cash';
+
+  // Card payments are always for the exact total
+  useEffect(() => {
+    if (order) {
+      setTendered(isCash ? '' : total.toFixed(2));
+    }
+  }, [order, isCash, total]);
+
+  const amount = Number(tendered);
+  const isValid = tendered !== '' && Number.isFinite(amount) && amount >= total;
+  const change = isValid ? amount - total : 0;
+
+  const handleConfirm = async () => {
+    if (!order || !isValid || submitting) return;
+
+    setSubmitting(true);
+    try {
+      await onConfirm(order.id, amount);
+      onClose();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={Boolean(order)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{title ?? `Collect payment for #${order && getOrderNumber(order)}`}</DialogTitle>
+          <DialogDescription>
+            {PAYMENT_METHOD_LABELS[order?.payment_method as PaymentMethod] ?? 'Counter'} payment of ₹{total.toFixed(2)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-2">
+          <Label htmlFor="amount-tendered">Amount tendered (₹)</Label>
+          <Input
+            id="amount-tendered"
+            type="number"
+            inputMode="decimal"
+            min={total}
+            step="0.01"
+            value={tendered}
+            onChange={(e) => setTendered(e.target.value)}
+            disabled={!isCash}
+            autoFocus={isCash}
+          />
+          {isCash && (
+            <div className="flex flex-wrap gap-2">
+              {getQuickAmounts(total).map(value => (
+                <Button key={value} type="button" variant="outline" size="sm" onClick={() => setTendered(value.toFixed(2))}>
+                  ₹{Number.isInteger(value) ? value : value.toFixed(2)}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-between rounded-md bg-cafe/10 px-4 py-3 text-lg font-semibold text-cafe-dark">
+          <span>Change to give</span>
+          <span>₹{change.toFixed(2)}</span>
+        </div>
+
+        {tendered !== '' && !isValid && (
+          <p className="text-sm text-red-600">The amount tendered must cover the total.</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button className="bg-cafe hover:bg-cafe-dark" onClick={handleConfirm} disabled={!isValid || submitting}>
+            Mark as paid
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecordPaymentDialog;
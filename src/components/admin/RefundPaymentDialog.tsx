@@ -0,0 +1,80 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { OrderType } from '@/pages/AdminDashboard';
+import { getOrderNumber } from '@/utils/orderNumber';
+
+interface RefundPaymentDialogProps {
+  order: OrderType | null;
+  onClose: () => void;
+  onConfirm: (orderId: string, amount: number) => Promise<void> | void;
+}
+
+const RefundPaymentDialog: React.FC<RefundPaymentDialogProps> = ({ order, onClose, onConfirm }) => {
+  const [amount, setAmount] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const refundable = order ? Number(order.total) - Number(order.refunded_amount ?? 0) : 0;
+
+  // Default to refunding whatever is left
+  useEffect(() => {
+    if (order) {
+      setAmount(refundable.toFixed(2));
+    }
+  }, [order, refundable]);
+
+  const value = Number(amount);
+  const isValid = amount !== '' && Number.isFinite(value) && value > 0 && value <= refundable;
+
+  const handleConfirm = async () => {
+    if (!order || !isValid || submitting) return;
+
+    setSubmitting(true);
+    try {
+      await onConfirm(order.id, value);
+      onClose();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={Boolean(order)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Refund order #{order && getOrderNumber(order)}</DialogTitle>
+          <DialogDescription>
+            Up to ₹{refundable.toFixed(2)} can still be refunded.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-2">
+          <Label htmlFor="refund-amount">Refund amount (₹)</Label>
+          <Input
+            id="refund-amount"
+            type="number"
+            inputMode="decimal"
+            min={0}
+            max={refundable}
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleConfirm} disabled={!isValid || submitting}>
+            Refund
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RefundPaymentDialog;
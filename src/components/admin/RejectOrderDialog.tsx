@@ -0,0 +1,97 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { RejectionCode, REJECTION_REASONS } from '@/utils/orderStatus';
+
+interface RejectOrderDialogProps {
+  orderId: string | null;
+  // Shown in the title instead of the id when known
+  orderNumber?: string;
+  onClose: () => void;
+  onConfirm: (orderId: string, code: RejectionCode, reason: string) => Promise<void> | void;
+}
+
+const RejectOrderDialog: React.FC<RejectOrderDialogProps> = ({ orderId, orderNumber, onClose, onConfirm }) => {
+  const [code, setCode] = useState<RejectionCode>('out_of_stock');
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Start from a clean form every time the dialog opens
+  useEffect(() => {
+    if (orderId) {
+      setCode('out_of_stock');
+      setDetails('');
+    }
+  }, [orderId]);
+
+  const preset = REJECTION_REASONS.find(reason => reason.code === code);
+  const needsDetails = code === 'other';
+  const canSubmit = !submitting && (!needsDetails || details.trim().length > 0);
+
+  const handleConfirm = async () => {
+    if (!orderId || !canSubmit) return;
+
+    // The customer sees the preset label, followed by any note from staff
+    const reason = needsDetails
+      ? details.trim()
+      : [preset?.label, details.trim()].filter(Boolean).join(' – ');
+
+    setSubmitting(true);
+    try {
+      await onConfirm(orderId, code, reason);
+      onClose();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={Boolean(orderId)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Reject order #{orderNumber ?? orderId}</DialogTitle>
+          <DialogDescription>
+            The customer will see this reason on their order screen.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={code} onValueChange={(value) => setCode(value as RejectionCode)} className="gap-3">
+          {REJECTION_REASONS.map(reason => (
+            <div key={reason.code} className="flex items-center space-x-2">
+              <RadioGroupItem value={reason.code} id={`reject-${reason.code}`} />
+              <Label htmlFor={`reject-${reason.code}`}>{reason.label}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <div className="grid gap-2">
+          <Label htmlFor="reject-details">
+            {needsDetails ? 'Reason *' : 'Details (optional)'}
+          </Label>
+          <Textarea
+            id="reject-details"
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            placeholder={needsDetails ? 'Tell the customer why' : 'e.g. We are out of oat milk'}
+            maxLength={200}
+            rows={2}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleConfirm} disabled={!canSubmit}>
+            Reject order
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RejectOrderDialog;
@@ -9,7 +9,8 @@ import {
   Filter,
   DollarSign,
   Coffee,
-  ShoppingBag
+  ShoppingBag,
+  Tag
 } from 'lucide-react';
 import {
   Card,
@@ -28,7 +29,13 @@ import {
   SelectValue 
 } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
+import { OrderItemType } from '@/pages/AdminDashboard';
 import { toast } from 'sonner';
+import { useAuth } from '@/context/AuthContext';
+import { assertPermission } from '@/utils/permissions';
+import { ACCEPTED_STATUSES } from '@/utils/orderStatus';
+import { getSoldItems } from '@/utils/combos';
+import { roundCurrency } from '@/utils/pricing';
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -56,13 +63,17 @@ ChartJS.register(
   Legend
 );
 
+// Revenue is hidden from roles without 'analytics.revenue', but only here:
+// order totals stay readable to all staff (see src/utils/permissions.ts)
 const SalesAnalytics = () => {
+  const { role, can } = useAuth();
   const [period, setPeriod] = useState('today');
   const [salesData, setSalesData] = useState<any>(null);
   const [topSellingItems, setTopSellingItems] = useState<any[]>([]);
   const [revenueByCategory, setRevenueByCategory] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [salesTrend, setSalesTrend] = useState<any>(null);
+  const [promotionUsage, setPromotionUsage] = useState<{ code: string; orders: number; discount: number }[]>([]);
   
   // Fetch analytics data based on selected period
   useEffect(() => {
@@ -78,10 +89,10 @@ const SalesAnalytics = () => {
       // Fetch total sales from Supabase
       const { data: salesData, error: salesError } = await supabase
         .from('orders')
-        .select('id, total, created_at, items, payment_method, status')
+        .select('id, total, discount, promo_code, created_at, items, payment_method, status')
         .gte('created_at', startDate.toISOString())
         .lte('created_at', endDate.toISOString())
-        .eq('status', 'approved');
+        .in('status', ACCEPTED_STATUSES);
       
       if (salesError) throw salesError;
 
@@ -89,19 +100,33 @@ const SalesAnalytics = () => {
       const totalRevenue = salesData?.reduce((sum, order) => sum + order.total, 0) || 0;
       const orderCount = salesData?.length || 0;
       const avgOrderValue = orderCount ? totalRevenue / orderCount : 0;
+      const totalDiscount = salesData?.reduce((sum, order) => sum + (order.discount || 0), 0) || 0;
+      
+      // Orders and discount given per promo code
+      const promotionMap = new Map<string, { code: string; orders: number; discount: number }>();
+      salesData?.forEach(order => {
+        if (!order.promo_code) return;
+        const usage = promotionMap.get(order.promo_code) ?? { code: order.promo_code, orders: 0, discount: 0 };
+        promotionMap.set(order.promo_code, {
+          ...usage,
+          orders: usage.orders + 1,
+          discount: roundCurrency(usage.discount + (order.discount || 0))
+        });
+      });
       
       // Process items data for top selling products
       const itemsMap = new Map();
       const categoryMap = new Map();
       
       salesData?.forEach(order => {
-        order.items.forEach((item: any) => {
+        // Combos count as each item in them, sharing the bundle price
+        (order.items as OrderItemType[]).flatMap(getSoldItems).forEach((sold) => {
           // Track item sales
-          const itemId = item.id;
-          const itemName = item.name;
-          const itemQty = item.quantity;
-          const itemPrice = item.price * item.quantity;
-          const itemCategory = item.category || 'uncategorized';
+          const itemId = sold.id;
+          const itemName = sold.name;
+          const itemQty = sold.quantity;
+          const itemPrice = sold.revenue;
+          const itemCategory = sold.category;
           
           // Update items map
           if (itemsMap.has(itemId)) {
@@ -158,9 +183,11 @@ const SalesAnalytics = () => {
       setSalesData({
         totalRevenue,
         orderCount,
-        avgOrderValue
+        avgOrderValue,
+        totalDiscount
       });
       setTopSellingItems(topItems);
+      setPromotionUsage(Array.from(promotionMap.values()).sort((a, b) => b.discount - a.discount));
       setRevenueByCategory(categoryData);
       setSalesTrend(trendData);
       
@@ -212,7 +239,7 @@ const SalesAnalytics = () => {
         .select('total, created_at')
         .gte('created_at', startDate.toISOString())
         .lte('created_at', endDate.toISOString())
-        .eq('status', 'approved');
+        .in('status', ACCEPTED_STATUSES);
       
       if (error) throw error;
       
@@ -258,8 +285,10 @@ const SalesAnalytics = () => {
     setSalesData({
       totalRevenue: 15760,
       orderCount: 42,
-      avgOrderValue: 375.24
+      avgOrderValue: 375.24,
+      totalDiscount: 0
     });
+    setPromotionUsage([]);
     
     setTopSellingItems([
       { id: 1, name: 'Cappuccino', quantity: 28, revenue: 3360 },
@@ -292,6 +321,13 @@ const SalesAnalytics = () => {
   
   const exportCSV = () => {
     if (!salesData) return;
+
+    try {
+      assertPermission(role, 'analytics.export');
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : String(error));
+      return;
+    }
     
     // Create CSV content
     let csvContent = "data:text/csv;charset=utf-8,";
@@ -308,6 +344,14 @@ const SalesAnalytics = () => {
       csvContent += `${item.name},${item.quantity},${item.revenue}\r\n`;
     });
     
+    if (promotionUsage.length > 0) {
+      csvContent += "\r\nPromotions\r\n";
+      csvContent += "Code,Orders,Discount\r\n";
+      promotionUsage.forEach(usage => {
+        csvContent += `${usage.code},${usage.orders},${usage.discount}\r\n`;
+      });
+    }
+    
     // Create download link
     const encodedUri = encodeURI(csvContent);
     const link = document.createElement("a");
@@ -337,10 +381,12 @@ const SalesAnalytics = () => {
             </SelectContent>
           </Select>
           
-          <Button variant="outline" onClick={exportCSV} disabled={!salesData}>
-            <Download size={16} className="mr-2" />
-            Export
-          </Button>
+          {can('analytics.export') && (
+            <Button variant="outline" onClick={exportCSV} disabled={!salesData}>
+              <Download size={16} className="mr-2" />
+              Export
+            </Button>
+          )}
         </div>
       </div>
       
@@ -355,19 +401,21 @@ const SalesAnalytics = () => {
         <>
           {/* Key metrics cards */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            <Card>
-              <CardHeader className="pb-2">
-                <CardTitle className="text-base font-medium text-muted-foreground">Total Revenue</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="flex items-center">
-                  <DollarSign className="mr-2 h-5 w-5 text-cafe" />
-                  <div className="text-2xl font-bold">
-                    ₹{salesData?.totalRevenue?.toLocaleString() || '0'}
+            {can('analytics.revenue') && (
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base font-medium text-muted-foreground">Total Revenue</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex items-center">
+                    <DollarSign className="mr-2 h-5 w-5 text-cafe" />
+                    <div className="text-2xl font-bold">
+                      ₹{salesData?.totalRevenue?.toLocaleString() || '0'}
+                    </div>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
+                </CardContent>
+              </Card>
+            )}
             
             <Card>
               <CardHeader className="pb-2">
@@ -383,77 +431,81 @@ const SalesAnalytics = () => {
               </CardContent>
             </Card>
             
-            <Card>
-              <CardHeader className="pb-2">
-                <CardTitle className="text-base font-medium text-muted-foreground">Average Order</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="flex items-center">
-                  <TrendingUp className="mr-2 h-5 w-5 text-cafe" />
-                  <div className="text-2xl font-bold">
-                    ₹{salesData?.avgOrderValue?.toFixed(2) || '0.00'}
+            {can('analytics.revenue') && (
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base font-medium text-muted-foreground">Average Order</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex items-center">
+                    <TrendingUp className="mr-2 h-5 w-5 text-cafe" />
+                    <div className="text-2xl font-bold">
+                      ₹{salesData?.avgOrderValue?.toFixed(2) || '0.00'}
+                    </div>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
+                </CardContent>
+              </Card>
+            )}
           </div>
           
           {/* Charts row */}
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            <Card>
-              <CardHeader>
-                <CardTitle>Sales Trend</CardTitle>
-                <CardDescription>
-                  Revenue trend for the selected period
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="h-80">
-                {salesTrend ? (
-                  <Line 
-                    data={salesTrend} 
-                    options={{
-                      maintainAspectRatio: false,
-                      scales: {
-                        y: {
-                          beginAtZero: true
-                        }
-                      }
-                    }} 
-                  />
-                ) : (
-                  <div className="h-full flex items-center justify-center">No data available</div>
-                )}
-              </CardContent>
-            </Card>
-            
-            <Card>
-              <CardHeader>
-                <CardTitle>Revenue by Category</CardTitle>
-                <CardDescription>
-                  Sales distribution across menu categories
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="h-80 flex items-center justify-center">
-                {revenueByCategory ? (
-                  <div className="h-64 w-64">
-                    <Pie 
-                      data={revenueByCategory} 
-                      options={{ 
-                        maintainAspectRatio: true,
-                        plugins: {
-                          legend: {
-                            position: 'right'
+          {can('analytics.revenue') && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Sales Trend</CardTitle>
+                  <CardDescription>
+                    Revenue trend for the selected period
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="h-80">
+                  {salesTrend ? (
+                    <Line 
+                      data={salesTrend} 
+                      options={{
+                        maintainAspectRatio: false,
+                        scales: {
+                          y: {
+                            beginAtZero: true
                           }
                         }
                       }} 
                     />
-                  </div>
-                ) : (
-                  <div>No category data available</div>
-                )}
-              </CardContent>
-            </Card>
-          </div>
+                  ) : (
+                    <div className="h-full flex items-center justify-center">No data available</div>
+                  )}
+                </CardContent>
+              </Card>
+            
+              <Card>
+                <CardHeader>
+                  <CardTitle>Revenue by Category</CardTitle>
+                  <CardDescription>
+                    Sales distribution across menu categories
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="h-80 flex items-center justify-center">
+                  {revenueByCategory ? (
+                    <div className="h-64 w-64">
+                      <Pie 
+                        data={revenueByCategory} 
+                        options={{ 
+                          maintainAspectRatio: true,
+                          plugins: {
+                            legend: {
+                              position: 'right'
+                            }
+                          }
+                        }} 
+                      />
+                    </div>
+                  ) : (
+                    <div>No category data available</div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
           
           {/* Top selling items */}
           <Card>
@@ -475,10 +527,12 @@ const SalesAnalytics = () => {
                         <div className="text-sm font-medium">{item.name}</div>
                         <div className="text-xs text-muted-foreground">Qty: {item.quantity}</div>
                       </div>
-                      <div className="text-right">
-                        <div className="font-medium">₹{item.revenue}</div>
-                        <div className="text-xs text-muted-foreground">Revenue</div>
-                      </div>
+                      {can('analytics.revenue') && (
+                        <div className="text-right">
+                          <div className="font-medium">₹{item.revenue}</div>
+                          <div className="text-xs text-muted-foreground">Revenue</div>
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -489,6 +543,43 @@ const SalesAnalytics = () => {
               )}
             </CardContent>
           </Card>
+          
+          {/* Promo codes used */}
+          {can('analytics.revenue') && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Promotions</CardTitle>
+                <CardDescription>
+                  ₹{(salesData?.totalDiscount ?? 0).toFixed(2)} given in discounts for the selected period
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {promotionUsage.length > 0 ? (
+                  <div className="space-y-4">
+                    {promotionUsage.map(usage => (
+                      <div key={usage.code} className="flex items-center">
+                        <div className="h-10 w-10 rounded-full bg-amber-50 flex items-center justify-center mr-3">
+                          <Tag size={20} className="text-cafe" />
+                        </div>
+                        <div className="flex-1">
+                          <div className="text-sm font-medium">{usage.code}</div>
+                          <div className="text-xs text-muted-foreground">Orders: {usage.orders}</div>
+                        </div>
+                        <div className="text-right">
+                          <div className="font-medium">₹{usage.discount.toFixed(2)}</div>
+                          <div className="text-xs text-muted-foreground">Discount</div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-center py-8 text-muted-foreground">
+                    No promo codes used in this period
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
         </>
       )}
     </div>
@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Banknote, CreditCard } from 'lucide-react';
+import { COUNTER_PAYMENT_METHODS, getQuickAmounts, PaymentMethod, PAYMENT_METHOD_LABELS } from '@/utils/paymentStatus';
+
+export type OpenTab = {
+  id: string;
+  location: string;
+  orders: number;
+  pending: number;
+  due: number;
+  // Split tabs are collected share by share instead
+  isSplit?: boolean;
+};
+
+interface SettleTabDialogProps {
+  tab: OpenTab | null;
+  onClose: () => void;
+  onConfirm: (tabId: string, method: PaymentMethod, amountTendered: number) => Promise<void> | void;
+}
+
+// One cash or card payment for every order on a table's tab
+const SettleTabDialog: React.FC<SettleTabDialogProps> = ({ tab, onClose, onConfirm }) => {
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [tendered, setTendered] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const due = tab ? tab.due : 0;
+  const isCash = method === 'cash';
+
+  // Card payments are always for the exact total
+  useEffect(() => {
+    if (tab) {
+      setTendered(isCash ? '' : due.toFixed(2));
+    }
+  }, [tab, isCash, due]);
+
+  const amount = Number(tendered);
+  const isValid = tendered !== '' && Number.isFinite(amount) && amount >= due;
+  const change = isValid ? amount - due : 0;
+
+  const handleConfirm = async () => {
+    if (!tab || !isValid || submitting) return;
+
+    setSubmitting(true);
+    try {
+      await onConfirm(tab.id, method, amount);
+      onClose();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={Boolean(tab)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Settle the tab for {tab?.location}</DialogTitle>
+          <DialogDescription>
+            {tab?.orders} {tab?.orders === 1 ? 'order' : 'orders'}, ₹{due.toFixed(2)} to pay
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-2">
+          {COUNTER_PAYMENT_METHODS.map(option => (
+            <Button
+              key={option}
+              type="button"
+              variant={method === option ? 'default' : 'outline'}
+              className={method === option ? 'bg-cafe hover:bg-cafe-dark' : ''}
+              onClick={() => setMethod(option)}
+            >
+              {option === 'card' ? <CreditCard size={14} className="mr-1" /> : <Banknote size={14} className="mr-1" />}
+              {PAYMENT_METHOD_LABELS[option]}
+            </Button>
+          ))}
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="tab-amount-tendered">Amount tendered (₹)</Label>
+          <Input
+            id="tab-amount-tendered"
+            type="number"
+            inputMode="decimal"
+            min={due}
+            step="0.01"
+            value={tendered}
+            onChange={(e) => setTendered(e.target.value)}
+            disabled={!isCash}
+          />
+          {isCash && (
+            <div className="flex flex-wrap gap-2">
+              {getQuickAmounts(due).map(value => (
+                <Button key={value} type="button" variant="outline" size="sm" onClick={() => setTendered(value.toFixed(2))}>
+                  ₹{Number.isInteger(value) ? value : value.toFixed(2)}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-between rounded-md bg-cafe/10 px-4 py-3 text-lg font-semibold text-cafe-dark">
+          <span>Change to give</span>
+          <span>₹{change.toFixed(2)}</span>
+        </div>
+
+        {tendered !== '' && !isValid && (
+          <p className="text-sm text-red-600">The amount tendered must cover the total.</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button className="bg-cafe hover:bg-cafe-dark" onClick={handleConfirm} disabled={!isValid || submitting}>
+            Settle tab
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SettleTabDialog;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { MAX_SIZE_NAME_LENGTH, MenuItemSize } from '@/utils/menuData';
+
+interface SizeEditorProps {
+  idPrefix: string;
+  sizes: MenuItemSize[];
+  onChange: (sizes: MenuItemSize[]) => void;
+  disabled?: boolean;
+}
+
+// Sizes or other variants with their own prices, e.g. Small/Large or Half/Full
+const SizeEditor: React.FC<SizeEditorProps> = ({ idPrefix, sizes, onChange, disabled }) => {
+  const updateSize = (index: number, changes: Partial<MenuItemSize>) => {
+    onChange(sizes.map((size, i) => (i === index ? { ...size, ...changes } : size)));
+  };
+
+  return (
+    <div className="grid gap-2">
+      <Label>Sizes</Label>
+      <p className="text-xs text-cafe-text/60">
+        Leave empty to sell the item at its price. The first size is preselected on the menu.
+      </p>
+
+      {sizes.map((size, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            id={`${idPrefix}_size_name_${index}`}
+            placeholder="Name, e.g. Large"
+            maxLength={MAX_SIZE_NAME_LENGTH}
+            value={size.name}
+            onChange={(e) => updateSize(index, { name: e.target.value })}
+            disabled={disabled}
+          />
+          <Input
+            id={`${idPrefix}_size_price_${index}`}
+            type="number"
+            min="0"
+            step="0.01"
+            className="w-28"
+            value={size.price}
+            onChange={(e) => updateSize(index, { price: e.target.value === '' ? 0 : parseFloat(e.target.value) })}
+            disabled={disabled}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(sizes.filter((_, i) => i !== index))}
+            disabled={disabled}
+            aria-label={`Remove ${size.name || 'size'}`}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="justify-self-start"
+        onClick={() => onChange([...sizes, { name: '', price: 0 }])}
+        disabled={disabled}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add size
+      </Button>
+    </div>
+  );
+};
+
+export default SizeEditor;
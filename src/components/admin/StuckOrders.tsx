@@ -0,0 +1,126 @@
+import React, { useState, useEffect } from 'react';
+import { AlertTriangle, Check } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/context/AuthContext';
+import { assertPermission } from '@/utils/permissions';
+import { PAYMENT_METHOD_LABELS, PaymentMethod } from '@/utils/paymentStatus';
+import { getOrderNumber } from '@/utils/orderNumber';
+
+type StuckOrder = Tables<'stuck_orders'>;
+
+type StuckOrderLine = { name: string; size?: string | null; quantity: number };
+
+// Orders a guest's phone has been unable to send, or that were refused once
+// they got through (reported from the order outbox), until someone deals with them
+const StuckOrders: React.FC = () => {
+  const { session, role, can } = useAuth();
+  const [stuckOrders, setStuckOrders] = useState<StuckOrder[]>([]);
+
+  const fetchStuckOrders = async () => {
+    const { data, error } = await supabase
+      .from('stuck_orders')
+      .select('*')
+      .is('resolved_at', null)
+      .order('reported_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching stuck orders:', error);
+      return;
+    }
+    setStuckOrders(data || []);
+  };
+
+  useEffect(() => {
+    fetchStuckOrders();
+
+    const subscription = supabase
+      .channel('stuck_orders_channel')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'stuck_orders' }, fetchStuckOrders)
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const handleResolve = async (orderId: string) => {
+    try {
+      assertPermission(role, 'orders.updateStatus');
+
+      const { error } = await supabase
+        .from('stuck_orders')
+        .update({ resolved_at: new Date().toISOString(), resolved_by: session?.user.id ?? null })
+        .eq('order_id', orderId);
+
+      if (error) throw error;
+
+      toast.success(`Order #${getOrderNumber({ id: orderId })} marked as dealt with`);
+      fetchStuckOrders();
+    } catch (error) {
+      console.error('Error resolving stuck order:', error);
+      toast.error('Failed to update the stuck order');
+    }
+  };
+
+  const formatTime = (dateString: string) =>
+    new Date(dateString).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+
+  if (stuckOrders.length === 0) return null;
+
+  return (
+    <section className="space-y-3">
+      <h3 className="text-lg font-semibold text-red-700 flex items-center gap-2">
+        <AlertTriangle size={18} />
+        Orders stuck on a guest's phone
+      </h3>
+
+      <div className="grid gap-3">
+        {stuckOrders.map(order => {
+          const lines: StuckOrderLine[] = Array.isArray(order.items) ? (order.items as StuckOrderLine[]) : [];
+
+          return (
+            <Card key={order.order_id} className="p-4 border-red-200 bg-red-50/50">
+              <div className="flex justify-between items-start gap-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    {/* Not placed yet, so it has no number: the guest sees the same short reference */}
+                    <h4 className="font-semibold">Order #{getOrderNumber({ id: order.order_id })}</h4>
+                    <Badge variant="outline">{order.attempts} {order.attempts === 1 ? 'try' : 'tries'}</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Queued at {formatTime(order.queued_at)}
+                    {order.location && ` · ${order.location}`}
+                    {order.customer_name && ` · ${order.customer_name}`}
+                    {` · ${PAYMENT_METHOD_LABELS[order.payment_method as PaymentMethod] ?? 'Tab'}`}
+                  </p>
+                  <ul className="mt-2 text-sm">
+                    {lines.map((line, index) => (
+                      <li key={index}>{line.quantity} × {line.size ? `${line.name} (${line.size})` : line.name}</li>
+                    ))}
+                  </ul>
+                  {order.last_error && <p className="mt-2 text-xs text-red-700">{order.last_error}</p>}
+                </div>
+                <div className="text-right">
+                  <p className="font-bold text-cafe-dark">₹{Number(order.total).toFixed(2)}</p>
+                  {can('orders.updateStatus') && (
+                    <Button variant="outline" size="sm" className="mt-2 h-8" onClick={() => handleResolve(order.order_id)}>
+                      <Check size={14} className="mr-1" />
+                      Dealt with
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </Card>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
+
+export default StuckOrders;
@@ -1,5 +1,9 @@
 import React, { forwardRef } from 'react';
 import { formatDate } from '@/utils/formatUtils';
+import { getOrderPricing, GSTIN } from '@/utils/pricing';
+import { formatOptions, getLineOptions } from '@/utils/modifiers';
+import { formatComboChildren, getLineChildren } from '@/utils/combos';
+import TaxBreakdown from '@/components/bill/TaxBreakdown';
 
 interface BillDisplayProps {
   orderId: string;
@@ -15,14 +19,13 @@ const BillDisplay = forwardRef<HTMLDivElement, BillDisplayProps>(
     // Make sure we have all required data with default values if missing
     const { 
       items = [], 
-      subtotal = 0, 
-      taxes = 0, 
-      total = 0, 
       payment_method = 'Cash', 
       created_at = new Date().toISOString(),
       customer_name,
-      room_number
+      room_number,
+      table_number
     } = orderData;
+    const pricing = getOrderPricing(orderData);
     
     return (
       <div ref={ref} className="bill-content">
@@ -30,6 +33,7 @@ const BillDisplay = forwardRef<HTMLDivElement, BillDisplayProps>(
           <h2 className="text-lg font-bold">Barista @ Star Hospital</h2>
           <p className="text-sm text-gray-500">Address: 1, Khajaguda - Nanakramguda Rd, Hyderabad, Makthakousarali, Telangana 500089</p>
           <p className="text-sm text-gray-500">Tel:+91 9701441539 </p>
+          {GSTIN && <p className="text-sm text-gray-500">GSTIN: {GSTIN}</p>}
         </div>
         
         <div className="border-t border-b border-dashed border-gray-200 py-2 mb-4">
@@ -49,6 +53,12 @@ const BillDisplay = forwardRef<HTMLDivElement, BillDisplayProps>(
               <span>{room_number}</span>
             </div>
           )}
+          {table_number && (
+            <div className="flex justify-between text-sm">
+              <span>Table:</span>
+              <span>{table_number}</span>
+            </div>
+          )}
           <div className="flex justify-between text-sm">
             <span>Date:</span>
             <span>{formatDate(created_at)}</span>
@@ -73,6 +83,12 @@ const BillDisplay = forwardRef<HTMLDivElement, BillDisplayProps>(
                 <td className="py-1">
                   {item.name}
                   {item.size && <span className="text-xs text-gray-500 ml-1">({item.size})</span>}
+                  {getLineOptions(item).length > 0 && (
+                    <div className="text-xs text-gray-500">{formatOptions(getLineOptions(item))}</div>
+                  )}
+                  {getLineChildren(item).length > 0 && (
+                    <div className="text-xs text-gray-500">{formatComboChildren(getLineChildren(item))}</div>
+                  )}
                 </td>
                 <td className="py-1 text-center">{item.quantity || 1}</td>
                 <td className="py-1 text-right">₹{((item.price || 0) * (item.quantity || 1)).toFixed(2)}</td>
@@ -84,11 +100,24 @@ const BillDisplay = forwardRef<HTMLDivElement, BillDisplayProps>(
         <div className="border-t border-gray-200 pt-2 mb-4">
           <div className="flex justify-between text-sm">
             <span>Subtotal:</span>
-            <span>₹{(typeof subtotal === 'number' ? subtotal : 0).toFixed(2)}</span>
+            <span>₹{pricing.subtotal.toFixed(2)}</span>
           </div>
+          {pricing.discount > 0 && (
+            <div className="flex justify-between text-sm">
+              <span>Discount{orderData.promo_code ? ` (${orderData.promo_code})` : ''}:</span>
+              <span>-₹{pricing.discount.toFixed(2)}</span>
+            </div>
+          )}
+          <TaxBreakdown pricing={pricing} />
+          {orderData.points_discount > 0 && (
+            <div className="flex justify-between text-sm">
+              <span>Paid with {orderData.points_redeemed} points:</span>
+              <span>-₹{Number(orderData.points_discount).toFixed(2)}</span>
+            </div>
+          )}
           <div className="flex justify-between font-bold mt-1 text-base">
             <span>Total:</span>
-            <span>₹{(typeof subtotal === 'number' ? subtotal : 0).toFixed(2)}</span>
+            <span>₹{pricing.total.toFixed(2)}</span>
           </div>
         </div>
         
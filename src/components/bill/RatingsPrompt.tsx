@@ -3,7 +3,7 @@ import React, { useState, useEffect } from 'react';
 import { Star, ExternalLink } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
-import { mockDB } from '@/integrations/supabase/client';
+import { supabase } from '@/integrations/supabase/client';
 
 type RatingSource = {
   id: string;
@@ -42,8 +42,7 @@ const RatingsPrompt: React.FC = () => {
   useEffect(() => {
     const fetchRatingSources = async () => {
       try {
-        // Try to get data from mockDB, explicitly specifying we want rating_sources
-        const result = await mockDB.from('rating_sources').select('*').order('display_order');
+        const result = await supabase.from('rating_sources').select('*').order('display_order');
         
         if (result.data && Array.isArray(result.data)) {
           // Verify and type-check each item to ensure it has the required properties
@@ -0,0 +1,180 @@
+import React, { useState, useEffect } from 'react';
+import { Banknote, CreditCard, Plus, X } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { PricedLine } from '@/utils/pricing';
+import { MAX_SPLIT_PEOPLE, previewSplit, SplitMode, SplitPaymentMethod, SplitRequest } from '@/utils/splitBill';
+
+type BillLine = PricedLine & { name: string; size?: string | null };
+
+type Person = { label: string; method: SplitPaymentMethod };
+
+interface SplitBillDialogProps {
+  open: boolean;
+  items: BillLine[];
+  due: number;
+  onClose: () => void;
+  onConfirm: (splits: SplitRequest[]) => Promise<void> | void;
+}
+
+const newPerson = (index: number): Person => ({ label: `Person ${index + 1}`, method: 'cash' });
+
+// Sets up a split: equal shares between N people, or each item given to whoever had it
+const SplitBillDialog: React.FC<SplitBillDialogProps> = ({ open, items, due, onClose, onConfirm }) => {
+  const [mode, setMode] = useState<SplitMode>('equal');
+  const [people, setPeople] = useState<Person[]>([newPerson(0), newPerson(1)]);
+  // Which person each item goes to, by index
+  const [assignments, setAssignments] = useState<number[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setMode('equal');
+      setPeople([newPerson(0), newPerson(1)]);
+      setAssignments(items.map(() => 0));
+    }
+  }, [open, items.length]);
+
+  const splits: SplitRequest[] = people.map((person, index) => ({
+    label: person.label.trim(),
+    method: person.method,
+    ...(mode === 'items' && { lines: assignments.flatMap((assignee, line) => (assignee === index ? [line] : [])) })
+  }));
+  const amounts = previewSplit(due, items, splits);
+
+  const isValid = splits.every(split => split.label.length > 0 && (!split.lines || split.lines.length > 0));
+
+  const updatePerson = (index: number, changes: Partial<Person>) => {
+    setPeople(current => current.map((person, i) => (i === index ? { ...person, ...changes } : person)));
+  };
+
+  // Items of a removed person go to the first person
+  const removePerson = (index: number) => {
+    setPeople(current => current.filter((_, i) => i !== index));
+    setAssignments(current => current.map(assignee => (assignee === index ? 0 : assignee > index ? assignee - 1 : assignee)));
+  };
+
+  const handleConfirm = async () => {
+    if (!isValid || submitting) return;
+
+    setSubmitting(true);
+    try {
+      await onConfirm(splits);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Split the bill</DialogTitle>
+          <DialogDescription>₹{due.toFixed(2)} shared between {people.length} people</DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={mode} onValueChange={(value) => setMode(value as SplitMode)}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="equal">Equal shares</TabsTrigger>
+            <TabsTrigger value="items">By item</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <div className="space-y-2">
+          {people.map((person, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={person.label}
+                maxLength={30}
+                onChange={(e) => updatePerson(index, { label: e.target.value })}
+                className="h-9 flex-1"
+                aria-label={`Name of person ${index + 1}`}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-9 w-20"
+                onClick={() => updatePerson(index, { method: person.method === 'cash' ? 'card' : 'cash' })}
+                title="Change payment method"
+              >
+                {person.method === 'card' ? <CreditCard size={14} className="mr-1" /> : <Banknote size={14} className="mr-1" />}
+                {person.method === 'card' ? 'Card' : 'Cash'}
+              </Button>
+              <span className="w-20 text-right text-sm font-medium">₹{amounts[index].toFixed(2)}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-9 w-9 p-0"
+                onClick={() => removePerson(index)}
+                disabled={people.length <= 2}
+                aria-label={`Remove ${person.label}`}
+              >
+                <X size={14} />
+              </Button>
+            </div>
+          ))}
+
+          {people.length < MAX_SPLIT_PEOPLE && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setPeople(current => [...current, newPerson(current.length)])}
+            >
+              <Plus size={14} className="mr-1" />
+              Add person
+            </Button>
+          )}
+        </div>
+
+        {mode === 'items' && (
+          <div className="space-y-2 border-t pt-3">
+            <h4 className="text-sm font-medium">Who had what</h4>
+            {items.map((item, line) => (
+              <div key={line} className="flex items-center justify-between gap-2 text-sm">
+                <span className="flex-1">
+                  {item.quantity} × {item.size ? `${item.name} (${item.size})` : item.name}
+                </span>
+                <Select
+                  value={String(assignments[line] ?? 0)}
+                  onValueChange={(value) => setAssignments(current => current.map((assignee, i) => (i === line ? Number(value) : assignee)))}
+                >
+                  <SelectTrigger className="h-8 w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {people.map((person, index) => (
+                      <SelectItem key={index} value={String(index)}>{person.label || `Person ${index + 1}`}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!isValid && (
+          <p className="text-sm text-red-600">
+            {mode === 'items' ? 'Give everyone a name and at least one item.' : 'Give everyone a name.'}
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button className="bg-cafe hover:bg-cafe-dark" onClick={handleConfirm} disabled={!isValid || submitting}>
+            Split bill
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SplitBillDialog;
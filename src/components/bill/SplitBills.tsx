@@ -0,0 +1,70 @@
+import React from 'react';
+import { Banknote, CreditCard, Users } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import type { Tables } from '@/integrations/supabase/types';
+import { PAYMENT_METHOD_LABELS, PaymentMethod } from '@/utils/paymentStatus';
+
+type BillLine = { name: string; size?: string | null; quantity: number };
+
+interface SplitBillsProps {
+  splits: Tables<'bill_splits'>[];
+  items: BillLine[];
+  onUndo?: () => void;
+}
+
+// One sub-bill per person, each paid at the counter on its own
+const SplitBills: React.FC<SplitBillsProps> = ({ splits, items, onUndo }) => {
+  const paid = splits.filter(split => split.payment_status === 'paid').length;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-md p-4 border border-amber-100">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-medium text-cafe-dark flex items-center gap-2">
+          <Users size={16} className="text-cafe" />
+          Split between {splits.length}
+        </h3>
+        <span className="text-xs text-cafe-text/60">{paid} of {splits.length} paid</span>
+      </div>
+
+      <div className="space-y-2">
+        {splits.map(split => (
+          <div key={split.id} className="rounded-lg border border-dashed border-gray-200 p-3">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">{split.label}</span>
+              <span className="font-bold">₹{Number(split.amount).toFixed(2)}</span>
+            </div>
+            <div className="mt-1 flex items-center justify-between gap-2 text-xs text-cafe-text/70">
+              <span className="flex items-center gap-1">
+                {split.payment_method === 'card' ? <CreditCard size={12} /> : <Banknote size={12} />}
+                {PAYMENT_METHOD_LABELS[split.payment_method as PaymentMethod] ?? split.payment_method} at the counter
+              </span>
+              <Badge variant={split.payment_status === 'paid' ? 'secondary' : 'outline'}>
+                {split.payment_status === 'paid' ? 'Paid' : 'Unpaid'}
+              </Badge>
+            </div>
+            {split.lines ? (
+              <ul className="mt-2 text-xs text-cafe-text/70">
+                {split.lines.map(line => items[line] && (
+                  <li key={line}>
+                    {items[line].quantity} × {items[line].size ? `${items[line].name} (${items[line].size})` : items[line].name}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="mt-2 text-xs text-cafe-text/70">Equal share</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {onUndo && paid === 0 && (
+        <Button variant="ghost" size="sm" className="mt-2 w-full" onClick={onUndo}>
+          Pay as one bill instead
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default SplitBills;
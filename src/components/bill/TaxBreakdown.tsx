@@ -0,0 +1,38 @@
+import React from 'react';
+import { formatSplitRate, OrderPricing } from '@/utils/pricing';
+
+interface TaxBreakdownProps {
+  pricing: OrderPricing;
+  className?: string;
+}
+
+// CGST and SGST lines for each GST rate on the order
+const TaxBreakdown: React.FC<TaxBreakdownProps> = ({ pricing, className = 'flex justify-between text-sm' }) => {
+  if (pricing.taxLines.length === 0) {
+    return pricing.taxes > 0 ? (
+      <div className={className}>
+        <span>Taxes:</span>
+        <span>₹{pricing.taxes.toFixed(2)}</span>
+      </div>
+    ) : null;
+  }
+
+  return (
+    <>
+      {pricing.taxLines.map(taxLine => (
+        <React.Fragment key={taxLine.rate}>
+          <div className={className}>
+            <span>CGST @ {formatSplitRate(taxLine.rate)}:</span>
+            <span>₹{taxLine.cgst.toFixed(2)}</span>
+          </div>
+          <div className={className}>
+            <span>SGST @ {formatSplitRate(taxLine.rate)}:</span>
+            <span>₹{taxLine.sgst.toFixed(2)}</span>
+          </div>
+        </React.Fragment>
+      ))}
+    </>
+  );
+};
+
+export default TaxBreakdown;
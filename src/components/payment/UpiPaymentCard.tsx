@@ -0,0 +1,110 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import QRCode from 'react-qr-code';
+import { CheckCircle2, ExternalLink, Loader2, QrCode as QrCodeIcon, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { buildUpiUri, PaymentIntent, PaymentProvider } from '@/integrations/payments';
+
+type UpiPaymentCardProps = {
+  amount: number;
+  intent: PaymentIntent | null;
+  provider: PaymentProvider;
+  onSimulate: (outcome: 'succeeded' | 'failed') => void;
+};
+
+const UpiPaymentCard: React.FC<UpiPaymentCardProps> = ({ amount, intent, provider, onSimulate }) => {
+  const upiUri = intent ? buildUpiUri(intent) : null;
+
+  return (
+    <motion.div
+      className="cafe-card mb-8 p-6 text-center"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+    >
+      <h3 className="mb-4 font-semibold">Scan to Pay</h3>
+      <div className="flex flex-col items-center">
+        {/* Price information above QR code */}
+        <div className="mb-3 rounded-md bg-cafe/10 px-4 py-2 text-center">
+          <p className="text-xl font-bold text-cafe">₹{Number(intent?.amount ?? amount).toFixed(2)}</p>
+          <p className="text-xs text-cafe-text/70">UPI Payment</p>
+        </div>
+
+        <div className="relative mx-auto flex h-52 w-52 items-center justify-center bg-white p-2">
+          {upiUri ? (
+            <QRCode value={upiUri} size={192} level="M" />
+          ) : (
+            <div className="flex flex-col items-center text-cafe-text/40">
+              <QrCodeIcon size={64} />
+              <p className="mt-2 text-xs">Your QR code appears here</p>
+            </div>
+          )}
+          {intent?.status === 'created' && (
+            <motion.div
+              className="absolute inset-0 border-2 border-cafe"
+              animate={{
+                opacity: [0.2, 1, 0.2],
+                scale: [0.95, 1, 0.95],
+              }}
+              transition={{ duration: 2, repeat: Infinity }}
+            />
+          )}
+        </div>
+      </div>
+
+      {!intent && (
+        <p className="mt-4 text-sm text-cafe-text/70">Tap "Pay with UPI" to get a QR code for this order</p>
+      )}
+
+      {intent && upiUri && (
+        <>
+          <a
+            href={upiUri}
+            className="mt-4 inline-flex items-center gap-1 text-sm font-medium text-cafe hover:underline"
+          >
+            <ExternalLink size={14} />
+            Open in UPI app
+          </a>
+
+          <div className="mt-3 flex items-center justify-center gap-2 text-sm">
+            {intent.status === 'created' && (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin text-cafe" />
+                <span className="text-cafe-text/70">Waiting for payment confirmation...</span>
+              </>
+            )}
+            {intent.status === 'succeeded' && (
+              <>
+                <CheckCircle2 className="h-4 w-4 text-green-600" />
+                <span className="text-green-700">Payment received</span>
+              </>
+            )}
+            {intent.status === 'failed' && (
+              <>
+                <XCircle className="h-4 w-4 text-red-600" />
+                <span className="text-red-700">Payment failed</span>
+              </>
+            )}
+          </div>
+        </>
+      )}
+
+      {/* The simulator settles the intent here instead of in a UPI app */}
+      {provider.simulate && intent?.status === 'created' && (
+        <div className="mt-4 rounded-md border border-dashed border-cafe/30 p-3">
+          <p className="mb-2 text-xs text-cafe-text/60">{provider.label}</p>
+          <div className="flex justify-center gap-2">
+            <Button size="sm" variant="outline" onClick={() => onSimulate('succeeded')}>
+              Simulate success
+            </Button>
+            <Button size="sm" variant="outline" className="text-red-600" onClick={() => onSimulate('failed')}>
+              Simulate failure
+            </Button>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default UpiPaymentCard;
@@ -0,0 +1,121 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { hasPermission, Permission } from '@/utils/permissions';
+
+export type StaffRole = Database['public']['Enums']['staff_role'];
+export type StaffMember = Database['public']['Tables']['staff']['Row'];
+
+export const STAFF_ROLES: StaffRole[] = ['owner', 'manager', 'barista', 'cashier'];
+
+type AuthContextType = {
+  session: Session | null;
+  staff: StaffMember | null;
+  role: StaffRole | null;
+  isLoading: boolean;
+  can: (permission: Permission) => boolean;
+  signIn: (email: string, password: string) => Promise<StaffMember>;
+  signOut: () => Promise<void>;
+};
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
+
+// Looks up the active staff row for a signed-in user, or null if they are not staff
+const fetchStaffMember = async (userId: string): Promise<StaffMember | null> => {
+  const { data, error } = await supabase
+    .from('staff')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('active', true)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading staff record:', error);
+    return null;
+  }
+
+  return data;
+};
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [staff, setStaff] = useState<StaffMember | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Follow the Supabase session and resolve the staff role whenever it changes
+  useEffect(() => {
+    let isMounted = true;
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+
+      if (!nextSession) {
+        setStaff(null);
+        setIsLoading(false);
+        return;
+      }
+
+      // Defer the query so it does not run inside the auth callback
+      setTimeout(async () => {
+        const member = await fetchStaffMember(nextSession.user.id);
+        if (isMounted) {
+          setStaff(member);
+          setIsLoading(false);
+        }
+      }, 0);
+    });
+
+    return () => {
+      isMounted = false;
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const signIn = async (email: string, password: string) => {
+    const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+
+    const member = await fetchStaffMember(data.user.id);
+    if (!member) {
+      // A valid Supabase account that is not on the staff list gets no access
+      await supabase.auth.signOut();
+      throw new Error('This account does not have staff access');
+    }
+
+    setSession(data.session);
+    setStaff(member);
+    return member;
+  };
+
+  const signOut = async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+    setSession(null);
+    setStaff(null);
+  };
+
+  return (
+    <AuthContext.Provider value={{
+      session,
+      staff,
+      role: staff?.role ?? null,
+      isLoading,
+      can: (permission: Permission) => hasPermission(staff?.role, permission),
+      signIn,
+      signOut
+    }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export default useAuth;
@@ -1,25 +1,40 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import { MenuItemType } from '@/utils/menuData';
+import { MenuItemSize, MenuItemType, upgradeLegacySize } from '@/utils/menuData';
+import { getOptionsKey, getOptionsPrice, SelectedOption } from '@/utils/modifiers';
+import { ComboChild, COMBO_CATEGORY, ComboType, getComboLineId } from '@/utils/combos';
+import { calculatePricing, OrderPricing } from '@/utils/pricing';
+import { applyPromotion, getPromotionError, Promotion } from '@/utils/promotions';
 import { toast } from 'sonner';
 
 export type CartItem = {
   id: string;
+  itemId?: string; // id of the menu row, without the size suffix
   name: string;
   price: number;
   category: string;
   quantity: number;
-  size?: 'S' | 'R' | 'L';
-  options?: Record<string, any>;
+  size?: MenuItemSize['name'];
+  options?: SelectedOption[];
+  comboId?: string; // set on combo lines, which carry the items picked as children
+  children?: ComboChild[];
 };
 type CartContextType = {
   items: CartItem[];
-  addItem: (item: MenuItemType, size?: 'S' | 'R' | 'L', quantity?: number, options?: Record<string, any>) => void;
-  removeItem: (id: string, size?: 'S' | 'R' | 'L') => void;
-  updateItemQuantity: (id: string, quantity: number, size?: 'S' | 'R' | 'L') => void;
+  addItem: (item: MenuItemType, size?: MenuItemSize, quantity?: number, options?: SelectedOption[]) => void;
+  addCombo: (combo: ComboType, picked: ComboChild[], quantity?: number) => void;
+  removeItem: (id: string) => void;
+  updateItemQuantity: (id: string, quantity: number) => void;
   clearCart: () => void;
+  restoreItems: (items: CartItem[]) => void;
+  promotion: Promotion | null;
+  promotionError: string | null; // why the promo code no longer applies, e.g. the cart dropped below its minimum
+  setPromotion: (promotion: Promotion) => void;
+  clearPromotion: () => void;
   totalItems: number;
   subtotal: number;
+  taxes: number;
   total: number;
+  pricing: OrderPricing;
 };
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
@@ -34,9 +49,11 @@ export const useCart = () => {
 
 export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [items, setItems] = useState<CartItem[]>([]);
+  const [promotion, setPromotion] = useState<Promotion | null>(null);
 
   // Fix the addItem implementation to properly handle cart items
-  const addItem = (item: MenuItemType, size?: 'S' | 'R' | 'L', quantity: number = 1, options?: Record<string, any>) => {
+  // Items with sizes are priced by the size picked, plus whatever the options add
+  const addItem = (item: MenuItemType, size?: MenuItemSize, quantity: number = 1, options?: SelectedOption[]) => {
     // Validate inputs to prevent invalid data
     if (!item || !item.id) {
       console.error("Cannot add invalid item to cart:", item);
@@ -46,29 +63,27 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     // Ensure quantity is a valid number
     const validQuantity = typeof quantity === 'number' && !isNaN(quantity) && quantity > 0 ? quantity : 1;
     
-    // Generate a consistent ID for the cart item, including size if present
-    const itemId = size ? `${item.id}-${size}` : item.id;
+    // Generate a consistent ID for the cart item, including size and options if present
+    const sizedId = size ? `${item.id}-${size.name}` : item.id;
+    const itemId = options?.length ? `${sizedId}~${getOptionsKey(options)}` : sizedId;
     
     // Create a normalized cart item to ensure all required properties are present
     const newItem: CartItem = {
       id: itemId,
+      itemId: item.id,
       name: typeof item.name === 'string' ? item.name : 'Unknown Item',
-      price: typeof item.price === 'number' && !isNaN(item.price) ? item.price : 0,
+      price: (size ? size.price : (typeof item.price === 'number' && !isNaN(item.price) ? item.price : 0)) + getOptionsPrice(options),
       category: typeof item.category === 'string' ? item.category : 'uncategorized',
       quantity: validQuantity,
-      size: size,
-      options: options
+      size: size?.name,
+      options: options?.length ? options : undefined
     };
     
     console.log("Adding item to cart:", newItem);
     
     setItems(currentItems => {
-      // Check if item already exists in cart with the same size and options
-      const existingItemIndex = currentItems.findIndex(
-        cartItem => 
-          cartItem.id === itemId && 
-          JSON.stringify(cartItem.options) === JSON.stringify(options)
-      );
+      // Check if item already exists in cart with the same size and options (both are part of the id)
+      const existingItemIndex = currentItems.findIndex(cartItem => cartItem.id === itemId);
       
       if (existingItemIndex > -1) {
         // Increase quantity of existing item
@@ -84,12 +99,41 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     });
   };
 
-  const removeItem = (id: string, size?: 'S' | 'R' | 'L') => {
+  // A combo goes in as one line at the bundle price, with the items picked as children
+  const addCombo = (combo: ComboType, picked: ComboChild[], quantity: number = 1) => {
+    const itemId = getComboLineId(combo.id, picked);
+    const newItem: CartItem = {
+      id: itemId,
+      comboId: combo.id,
+      name: combo.name,
+      price: combo.price,
+      category: COMBO_CATEGORY,
+      quantity,
+      children: picked
+    };
+
+    setItems(currentItems => {
+      const existingItemIndex = currentItems.findIndex(cartItem => cartItem.id === itemId);
+
+      if (existingItemIndex > -1) {
+        const updatedItems = [...currentItems];
+        updatedItems[existingItemIndex] = {
+          ...updatedItems[existingItemIndex],
+          quantity: updatedItems[existingItemIndex].quantity + quantity
+        };
+        return updatedItems;
+      }
+      return [...currentItems, newItem];
+    });
+    toast.success(`Added ${combo.name} to cart`);
+  };
+
+  const removeItem = (id: string) => {
     setItems(items.filter(item => item.id !== id));
     toast.info("Item removed from cart");
   };
 
-  const updateItemQuantity = (id: string, quantity: number, size?: 'S' | 'R' | 'L') => {
+  const updateItemQuantity = (id: string, quantity: number) => {
     if (quantity <= 0) {
       removeItem(id);
       return;
@@ -102,11 +146,24 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const clearCart = () => {
     setItems([]);
+    setPromotion(null);
     toast.info("Cart cleared");
   };
 
-  const subtotal = items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-  const total = subtotal; // No tax calculation for now
+  const clearPromotion = () => {
+    setPromotion(null);
+  };
+
+  // Replace the cart with items from an earlier order, e.g. to resubmit a rejected one
+  const restoreItems = (restored: CartItem[]) => {
+    setItems(restored.map(item => ({ ...item })));
+  };
+
+  // Same rules place_order charges with, so the cart total matches the order.
+  // A promo code that stops applying stays on the cart, undiscounted, until it applies again or is removed.
+  const promotionError = promotion && items.length > 0 ? getPromotionError(promotion, items) : null;
+  const pricing = calculatePricing(promotion && !promotionError ? applyPromotion(promotion, items) : items);
+  const { subtotal, taxes, total } = pricing;
   const totalItems = items.reduce((sum, item) => sum + item.quantity, 0);
 
   // Load cart from localStorage on component mount
@@ -114,11 +171,21 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     const savedCart = localStorage.getItem('cart');
     if (savedCart) {
       try {
-        setItems(JSON.parse(savedCart));
+        const savedItems: CartItem[] = JSON.parse(savedCart);
+        setItems(Array.isArray(savedItems) ? savedItems.map(upgradeLegacySize) : []);
       } catch (error) {
         console.error('Failed to parse cart from localStorage:', error);
       }
     }
+
+    const savedPromotion = localStorage.getItem('promotion');
+    if (savedPromotion) {
+      try {
+        setPromotion(JSON.parse(savedPromotion));
+      } catch (error) {
+        console.error('Failed to parse promotion from localStorage:', error);
+      }
+    }
   }, []);
 
   // Save cart to localStorage when it changes
@@ -126,16 +193,32 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     localStorage.setItem('cart', JSON.stringify(items));
   }, [items]);
 
+  useEffect(() => {
+    if (promotion) {
+      localStorage.setItem('promotion', JSON.stringify(promotion));
+    } else {
+      localStorage.removeItem('promotion');
+    }
+  }, [promotion]);
+
   return (
     <CartContext.Provider value={{
       items,
       addItem,
+      addCombo,
       removeItem,
       updateItemQuantity,
       clearCart,
+      restoreItems,
+      promotion,
+      promotionError,
+      setPromotion,
+      clearPromotion,
       totalItems,
       subtotal,
-      total
+      taxes,
+      total,
+      pricing
     }}>
       {children}
     </CartContext.Provider>
@@ -0,0 +1,87 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type CustomerProfile = Database['public']['Tables']['customers']['Row'];
+
+type CustomerContextType = {
+  token: string | null;
+  profile: CustomerProfile | null;
+  // Stores the session verify_customer_otp handed back and loads its profile
+  signIn: (token: string) => Promise<CustomerProfile | null>;
+  signOut: () => Promise<void>;
+  // Reloads the points balance, e.g. once an order has been accepted
+  refreshProfile: () => Promise<CustomerProfile | null>;
+};
+
+const TOKEN_KEY = 'customerToken';
+
+const CustomerContext = createContext<CustomerContextType | undefined>(undefined);
+
+export const useCustomer = () => {
+  const context = useContext(CustomerContext);
+  if (context === undefined) {
+    throw new Error('useCustomer must be used within a CustomerProvider');
+  }
+  return context;
+};
+
+// Guests who verified their phone number; everyone else orders anonymously
+export const CustomerProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [token, setToken] = useState<string | null>(() => localStorage.getItem(TOKEN_KEY));
+  const [profile, setProfile] = useState<CustomerProfile | null>(null);
+
+  const loadProfile = async (sessionToken: string | null) => {
+    if (!sessionToken) {
+      setProfile(null);
+      return null;
+    }
+
+    const { data, error } = await supabase.rpc('get_customer_profile', { p_token: sessionToken });
+
+    if (error) {
+      console.error('Error loading customer profile:', error);
+      // The session expired or was ended elsewhere: order anonymously again
+      if (error.code === 'P0001') {
+        localStorage.removeItem(TOKEN_KEY);
+        setToken(null);
+        setProfile(null);
+      }
+      return null;
+    }
+
+    setProfile(data);
+    return data;
+  };
+
+  useEffect(() => {
+    loadProfile(token);
+  }, []);
+
+  const signIn = async (sessionToken: string) => {
+    localStorage.setItem(TOKEN_KEY, sessionToken);
+    setToken(sessionToken);
+    return loadProfile(sessionToken);
+  };
+
+  const signOut = async () => {
+    if (token) {
+      const { error } = await supabase.rpc('end_customer_session', { p_token: token });
+      if (error) console.error('Error ending customer session:', error);
+    }
+
+    localStorage.removeItem(TOKEN_KEY);
+    setToken(null);
+    setProfile(null);
+  };
+
+  const refreshProfile = () => loadProfile(token);
+
+  return (
+    <CustomerContext.Provider value={{ token, profile, signIn, signOut, refreshProfile }}>
+      {children}
+    </CustomerContext.Provider>
+  );
+};
+
+export default useCustomer;
@@ -0,0 +1,196 @@
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import type { CartItem } from '@/context/CartContext';
+import {
+  addToOutbox,
+  getRetryDelay,
+  isDuplicateOrderError,
+  isRetryableError,
+  isStuck,
+  listOutbox,
+  OutboxEntry,
+  PlaceOrderArgs,
+  pruneOutbox,
+  removeOutboxEntry,
+  saveOutboxEntry
+} from '@/utils/orderOutbox';
+import { onOutboxSync, requestOutboxSync } from '@/utils/serviceWorker';
+import { getOrderNumber } from '@/utils/orderNumber';
+
+type OrderOutboxContextType = {
+  entries: OutboxEntry[];
+  // Saves an order whose first try failed; it is sent as soon as it can be
+  queueOrder: (request: PlaceOrderArgs, items: CartItem[], total: number, lastError: string | null) => Promise<OutboxEntry>;
+  // Tries every waiting order now instead of at its next retry
+  retryNow: () => void;
+  // Forgets an order the cafe refused, once the guest has dealt with it
+  discardOrder: (id: string) => Promise<void>;
+};
+
+const OrderOutboxContext = createContext<OrderOutboxContextType | undefined>(undefined);
+
+export const useOrderOutbox = () => {
+  const context = useContext(OrderOutboxContext);
+  if (context === undefined) {
+    throw new Error('useOrderOutbox must be used within an OrderOutboxProvider');
+  }
+  return context;
+};
+
+// Sends queued orders with backoff while the app is open, and again whenever
+// the connection comes back or the app is brought to the front
+export const OrderOutboxProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const isSyncing = useRef(false);
+
+  const loadEntries = async () => {
+    try {
+      setEntries(await listOutbox());
+    } catch (error) {
+      console.error('Error reading the order outbox:', error);
+    }
+  };
+
+  const sendEntry = async (entry: OutboxEntry) => {
+    await saveOutboxEntry({ ...entry, status: 'syncing' });
+    await loadEntries();
+
+    const { data, error } = await supabase.rpc('place_order', entry.request);
+
+    if (!error || isDuplicateOrderError(error)) {
+      // An earlier try got through: pick up the order it placed
+      let order = data ?? null;
+      if (!order) {
+        const { data: existing } = await supabase.from('orders').select('*').eq('id', entry.id).single();
+        order = existing ?? null;
+      }
+
+      await saveOutboxEntry({ ...entry, status: 'synced', syncedAt: Date.now(), order, lastError: null });
+      toast.success(`Order #${getOrderNumber(order ?? entry)} has been sent to the cafe`);
+      return;
+    }
+
+    console.error('Error sending queued order:', error);
+    const attempts = entry.attempts + 1;
+
+    if (isRetryableError(error)) {
+      await saveOutboxEntry({
+        ...entry,
+        status: 'queued',
+        attempts,
+        nextAttemptAt: Date.now() + getRetryDelay(attempts),
+        lastError: error.message || 'No connection'
+      });
+      return;
+    }
+
+    // Refused, e.g. an item sold out while the order was waiting
+    await saveOutboxEntry({ ...entry, status: 'failed', attempts, lastError: error.message || 'The order was refused' });
+    toast.error(`Order #${getOrderNumber(entry)} could not be placed: ${error.message || 'it was refused'}`);
+  };
+
+  // Lets staff know about an order that is taking too long or was refused
+  const reportEntry = async (entry: OutboxEntry) => {
+    const { error } = await supabase.rpc('report_stuck_order', {
+      p_order_id: entry.id,
+      p_items: entry.items.map(item => ({ name: item.name, size: item.size ?? null, quantity: item.quantity })),
+      p_total: entry.total,
+      p_payment_method: entry.request.p_payment_method,
+      p_customer_name: entry.request.p_customer_name ?? null,
+      p_location: entry.request.p_location ?? entry.request.p_room_number ?? null,
+      p_attempts: entry.attempts,
+      p_last_error: entry.lastError?.slice(0, 200) ?? null,
+      p_queued_at: new Date(entry.queuedAt).toISOString()
+    });
+
+    if (error) {
+      console.error('Error reporting stuck order:', error);
+      return;
+    }
+
+    await saveOutboxEntry({ ...entry, reported: true });
+  };
+
+  const syncOutbox = async (force = false) => {
+    if (isSyncing.current) return;
+    isSyncing.current = true;
+
+    try {
+      const now = Date.now();
+      // 'syncing' entries were cut off by a reload and are sent again
+      const due = (await listOutbox()).filter(entry =>
+        entry.status === 'syncing' || (entry.status === 'queued' && (force || entry.nextAttemptAt <= now))
+      );
+      for (const entry of due) {
+        await sendEntry(entry);
+      }
+
+      const unreported = (await listOutbox()).filter(entry => !entry.reported && isStuck(entry));
+      for (const entry of unreported) {
+        await reportEntry(entry);
+      }
+    } catch (error) {
+      console.error('Error syncing the order outbox:', error);
+    } finally {
+      isSyncing.current = false;
+      await loadEntries();
+    }
+  };
+
+  useEffect(() => {
+    pruneOutbox()
+      .catch(error => console.error('Error pruning the order outbox:', error))
+      .then(() => syncOutbox());
+
+    const handleOnline = () => syncOutbox(true);
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') syncOutbox();
+    };
+
+    window.addEventListener('online', handleOnline);
+    document.addEventListener('visibilitychange', handleVisibility);
+    const stopListening = onOutboxSync(handleOnline);
+
+    return () => {
+      stopListening();
+      window.removeEventListener('online', handleOnline);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, []);
+
+  // Wakes up for the next retry that is due
+  useEffect(() => {
+    const waiting = entries.filter(entry => entry.status === 'queued');
+    if (waiting.length === 0) return;
+
+    const nextAttemptAt = Math.min(...waiting.map(entry => entry.nextAttemptAt));
+    const timer = setTimeout(() => syncOutbox(), Math.max(nextAttemptAt - Date.now(), 0));
+
+    return () => clearTimeout(timer);
+  }, [entries]);
+
+  const queueOrder = async (request: PlaceOrderArgs, items: CartItem[], total: number, lastError: string | null) => {
+    const entry = await addToOutbox(request, items, total, lastError);
+    await loadEntries();
+    requestOutboxSync();
+    return entry;
+  };
+
+  const retryNow = () => {
+    syncOutbox(true);
+  };
+
+  const discardOrder = async (id: string) => {
+    await removeOutboxEntry(id);
+    await loadEntries();
+  };
+
+  return (
+    <OrderOutboxContext.Provider value={{ entries, queueOrder, retryNow, discardOrder }}>
+      {children}
+    </OrderOutboxContext.Provider>
+  );
+};
+
+export default useOrderOutbox;
@@ -3,12 +3,14 @@ import html2canvas from 'html2canvas';
 import { toast } from 'sonner';
 import { useNavigate } from 'react-router-dom';
 import { useCart } from '@/context/CartContext';
+import { getOrderNumber } from '@/utils/orderNumber';
 
 interface UseBillActionsProps {
   orderId: string;
   orderData?: {
     total?: number;
     subtotal?: number;
+    order_number?: string | null;
   };
 }
 
@@ -59,7 +61,7 @@ export const useBillActions = ({ orderId, orderData }: UseBillActionsProps) => {
       // Try to use Web Share API
       if (navigator.share) {
         await navigator.share({
-          title: `Barista @ Star Hospital - Bill ${orderId}`,
+          title: `Barista @ Star Hospital - Bill ${getOrderNumber({ id: orderId, order_number: orderData?.order_number })}`,
           text: `My bill from Barista @ Star Hospital totaling ₹${total.toFixed(2)}`,
           url: window.location.href
         });
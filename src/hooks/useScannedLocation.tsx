@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { clearSavedLocation, getSavedLocation, LocationKind, saveLocation, SignedLocation } from '@/utils/locations';
+
+// Picks up ?loc=...&sig=... from a table or room QR code, checks it with the
+// database and keeps the location for the orders placed from this device
+export const useScannedLocation = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [location, setLocation] = useState<SignedLocation | null>(() => getSavedLocation());
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const code = searchParams.get('loc');
+  const sig = searchParams.get('sig');
+
+  useEffect(() => {
+    if (!code) return;
+    let isCurrent = true;
+
+    const verify = async () => {
+      setIsVerifying(true);
+      try {
+        const { data, error } = await supabase.rpc('verify_location', { p_code: code, p_sig: sig ?? '' });
+        if (error) throw error;
+
+        const verified: SignedLocation = { code: data.code, name: data.name, kind: data.kind as LocationKind, sig: sig ?? '' };
+        saveLocation(verified);
+        if (isCurrent) setLocation(verified);
+        toast.success(`Ordering for ${verified.name}`);
+      } catch (error) {
+        console.error('Error verifying location:', error);
+        // A bad scan should not leave the guest ordering for the last table they sat at
+        clearSavedLocation();
+        if (isCurrent) setLocation(null);
+        toast.error(error?.code === 'P0001' ? error.message : 'Could not check the QR code');
+      } finally {
+        // The guest may have moved on to another page in the meantime
+        if (isCurrent) {
+          setIsVerifying(false);
+          // Keep the signature out of the address bar once it has been read
+          setSearchParams(params => {
+            params.delete('loc');
+            params.delete('sig');
+            return params;
+          }, { replace: true });
+        }
+      }
+    };
+
+    verify();
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [code, sig]);
+
+  return { location, isVerifying };
+};
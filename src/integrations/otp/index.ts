@@ -0,0 +1,25 @@
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+
+// Delivers the one-time code a guest types in to verify their phone number.
+// The code is always checked by verify_customer_otp, whichever sender sent it.
+export interface OtpSender {
+  id: 'stub';
+  label: string;
+  sendCode: (phone: string) => Promise<void>;
+}
+
+// Local stand-in for an SMS gateway: shows the code on screen instead of
+// texting it. Needs `app.otp_stub = 'on'` in the database.
+export const stubOtpSender: OtpSender = {
+  id: 'stub',
+  label: 'On-screen code',
+  sendCode: async (phone) => {
+    const { data: code, error } = await supabase.rpc('request_customer_otp', { p_phone: phone });
+    if (error) throw error;
+
+    toast.info(`Barista verification code: ${code}`, { duration: 15000 });
+  }
+};
+
+export const otpSender: OtpSender = stubOtpSender;
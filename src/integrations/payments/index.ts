@@ -0,0 +1,32 @@
+import { isMockDBEnabled, supabase } from '@/integrations/supabase/client';
+import { createSupabasePaymentProvider } from './supabaseProvider';
+import type { PaymentProvider, PaymentProviderId } from './types';
+
+export * from './types';
+export { buildUpiUri, upiPayee } from './upi';
+
+// Real UPI payments, confirmed by the provider's webhook
+export const upiProvider: PaymentProvider = createSupabasePaymentProvider('upi', 'UPI');
+
+// Local stand-in that lets you settle an intent from the payment screen
+export const simulatorProvider: PaymentProvider = {
+  ...createSupabasePaymentProvider('simulator', 'Payment simulator'),
+  simulate: async (intentId, outcome) => {
+    const { data, error } = await supabase.rpc('simulate_payment_result', {
+      p_intent_id: intentId,
+      p_outcome: outcome
+    });
+    if (error) throw error;
+    return data;
+  }
+};
+
+const providers: Record<PaymentProviderId, PaymentProvider> = {
+  upi: upiProvider,
+  simulator: simulatorProvider
+};
+
+// VITE_PAYMENT_PROVIDER picks the provider; the offline mock backend defaults to the simulator
+const configuredProvider = (import.meta.env.VITE_PAYMENT_PROVIDER || (isMockDBEnabled ? 'simulator' : 'upi')) as PaymentProviderId;
+
+export const paymentProvider: PaymentProvider = providers[configuredProvider] ?? upiProvider;
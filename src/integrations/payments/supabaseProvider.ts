@@ -0,0 +1,44 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { PaymentIntent, PaymentProvider, PaymentProviderId } from './types';
+
+// Intents live in the payment_intents table and are created by the
+// create_payment_intent RPC, which takes the amount from the order itself
+export const createSupabasePaymentProvider = (id: PaymentProviderId, label: string): PaymentProvider => ({
+  id,
+  label,
+
+  createIntent: async (orderId) => {
+    const { data, error } = await supabase.rpc('create_payment_intent', {
+      p_order_id: orderId,
+      p_provider: id
+    });
+    if (error) throw error;
+    return data;
+  },
+
+  getIntent: async (intentId) => {
+    const { data, error } = await supabase
+      .from('payment_intents')
+      .select('*')
+      .eq('id', intentId)
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  watchIntent: (intentId, onChange) => {
+    const channel = supabase
+      .channel(`payment-intent-${intentId}`)
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'payment_intents',
+        filter: `id=eq.${intentId}`
+      }, (payload) => onChange(payload.new as PaymentIntent))
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }
+});
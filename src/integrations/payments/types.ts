@@ -0,0 +1,20 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type PaymentIntent = Database['public']['Tables']['payment_intents']['Row'];
+
+export type PaymentIntentStatus = 'created' | 'succeeded' | 'failed' | 'cancelled';
+
+export type PaymentProviderId = 'upi' | 'simulator';
+
+// A source of truth for whether a payment went through. Intents are stored
+// against the order; providers only differ in how they get confirmed.
+export interface PaymentProvider {
+  id: PaymentProviderId;
+  label: string;
+  createIntent: (orderId: string) => Promise<PaymentIntent>;
+  getIntent: (intentId: string) => Promise<PaymentIntent>;
+  // Calls back whenever the intent changes; returns an unsubscribe function
+  watchIntent: (intentId: string, onChange: (intent: PaymentIntent) => void) => () => void;
+  // Only the simulator can settle its own intents
+  simulate?: (intentId: string, outcome: 'succeeded' | 'failed') => Promise<PaymentIntent>;
+}
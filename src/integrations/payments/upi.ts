@@ -0,0 +1,36 @@
+import type { PaymentIntent } from './types';
+
+export type UpiPayee = {
+  vpa: string;
+  name: string;
+};
+
+// Merchant UPI id the QR codes pay into
+export const upiPayee: UpiPayee = {
+  vpa: import.meta.env.VITE_UPI_VPA || 'barista@upi',
+  name: import.meta.env.VITE_UPI_PAYEE_NAME || 'Barista Cafe'
+};
+
+/**
+ * Builds a upi://pay intent for a payment intent, following the NPCI deep link
+ * format. `tn` carries the order id so it shows up in the customer's UPI app and
+ * `tr` the intent id so the provider can match the payment back to it.
+ */
+export const buildUpiUri = (intent: Pick<PaymentIntent, 'id' | 'order_id' | 'amount' | 'currency'>, payee: UpiPayee = upiPayee) => {
+  const params: Record<string, string> = {
+    pa: payee.vpa,
+    pn: payee.name,
+    am: Number(intent.amount).toFixed(2),
+    cu: intent.currency || 'INR',
+    tn: intent.order_id,
+    tr: intent.id
+  };
+
+  // Spaces become %20 rather than '+', and the @ in the UPI id stays readable;
+  // not every UPI app decodes form-style query strings
+  const query = Object.entries(params)
+    .map(([key, value]) => `${key}=${encodeURIComponent(value).replace(/%40/g, '@')}`)
+    .join('&');
+
+  return `upi://pay?${query}`;
+};
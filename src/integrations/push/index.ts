@@ -0,0 +1,82 @@
+import { isMockDBEnabled, supabase } from '@/integrations/supabase/client';
+import { showLocalPush } from '@/utils/serviceWorker';
+import type { OrderPushMessage, PushProvider, PushProviderId } from './types';
+
+export * from './types';
+
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY || '';
+
+// The VAPID key is base64url; the push manager wants the raw bytes
+const decodeKey = (key: string) => {
+  const base64 = key.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - (key.length % 4)) % 4);
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+};
+
+// Real Web Push, delivered by the push sender through the browser's push
+// service even when the app is closed. Needs the service worker, so only
+// production builds can subscribe.
+export const webPushProvider: PushProvider = {
+  id: 'web_push',
+  isSupported: () =>
+    Boolean(VAPID_PUBLIC_KEY) && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window,
+  subscribe: async (orderId) => {
+    const registration = await navigator.serviceWorker.getRegistration();
+    if (!registration) throw new Error('The service worker is not running');
+
+    const subscription = await registration.pushManager.getSubscription()
+      ?? await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: decodeKey(VAPID_PUBLIC_KEY) });
+    const { endpoint, keys } = subscription.toJSON();
+
+    const { error } = await supabase.rpc('save_push_subscription', {
+      p_order_id: orderId,
+      p_provider: 'web_push',
+      p_endpoint: endpoint ?? '',
+      p_p256dh: keys?.p256dh ?? null,
+      p_auth: keys?.auth ?? null
+    });
+    if (error) throw error;
+  }
+};
+
+// Local stand-in with no push sender: an open page follows the order's
+// messages over realtime and hands them to the service worker as a push would
+export const localPushProvider: PushProvider = {
+  id: 'local',
+  isSupported: () => 'Notification' in window,
+  subscribe: async (orderId) => {
+    const { error } = await supabase.rpc('save_push_subscription', {
+      p_order_id: orderId,
+      p_provider: 'local',
+      p_endpoint: 'local'
+    });
+    if (error) throw error;
+  },
+  deliver: (orderId) => {
+    const channel = supabase
+      .channel(`order-push-${orderId}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'order_push_messages',
+        filter: `order_id=eq.${orderId}`
+      }, (payload) => {
+        const message = payload.new as OrderPushMessage;
+        showLocalPush({ orderId: message.order_id, status: message.status, title: message.title, body: message.body });
+      })
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }
+};
+
+const providers: Record<PushProviderId, PushProvider> = {
+  web_push: webPushProvider,
+  local: localPushProvider
+};
+
+// VITE_PUSH_PROVIDER picks the provider; the offline mock backend defaults to the local stand-in
+const configuredProvider = (import.meta.env.VITE_PUSH_PROVIDER || (isMockDBEnabled ? 'local' : 'web_push')) as PushProviderId;
+
+export const pushProvider: PushProvider = providers[configuredProvider] ?? webPushProvider;
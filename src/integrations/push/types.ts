@@ -0,0 +1,21 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type OrderPushMessage = Database['public']['Tables']['order_push_messages']['Row'];
+
+// What a push carries and the service worker shows, as the push sender sends it
+export type OrderPushPayload = Pick<OrderPushMessage, 'status' | 'title' | 'body'> & { orderId: string };
+
+export type PushProviderId = 'web_push' | 'local';
+
+// Gets a guest's order updates to them while the app is closed. Messages are
+// queued against the order by the database; providers only differ in how
+// they reach the browser.
+export interface PushProvider {
+  id: PushProviderId;
+  isSupported: () => boolean;
+  // Stores this browser's subscription against the order
+  subscribe: (orderId: string) => Promise<void>;
+  // Only the local stand-in delivers messages itself, while a page is open;
+  // returns a function that stops it
+  deliver?: (orderId: string) => () => void;
+}
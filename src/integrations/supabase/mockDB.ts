@@ -0,0 +1,1969 @@
+// In-memory stand-in for the Supabase client, enabled with VITE_USE_MOCK_DB=true.
+// It implements the slice of the query builder, realtime and auth APIs the app
+// uses, persists to localStorage and mirrors changes to other tabs so the
+// customer and admin screens can run side by side without a Supabase project.
+
+import { parseMenuSizes } from '@/utils/menuData';
+import { ComboChild, COMBO_CATEGORY, isInSlot, parseCombo } from '@/utils/combos';
+import { getItemModifierGroups, getMaxSelect, getOptionsPrice, parseModifierGroup, sortOptions } from '@/utils/modifiers';
+import { canTransition, OPEN_STATUSES, OrderStatus, STATUS_TIMESTAMP_COLUMNS } from '@/utils/orderStatus';
+import { getPointsEarned, getPointsValue, getRedeemablePoints } from '@/utils/loyalty';
+import { calculatePricing, getTaxRate, roundCurrency } from '@/utils/pricing';
+import { applyPromotion, getPromotionError, normalizePromoCode, parsePromotion } from '@/utils/promotions';
+import { isBillable } from '@/utils/tabs';
+import { MAX_SPLIT_PEOPLE, previewSplit, SPLIT_PAYMENT_METHOD, SplitPaymentMethod } from '@/utils/splitBill';
+import { formatOrderNumber, getBusinessDate } from '@/utils/orderNumber';
+
+type Row = Record<string, unknown>;
+type Tables = Record<string, Row[]>;
+
+type MockError = {
+  message: string;
+  code: string;
+  details: string | null;
+  hint: string | null;
+};
+
+type MockResponse = {
+  data: unknown;
+  error: MockError | null;
+  count: number | null;
+  status: number;
+  statusText: string;
+};
+
+type ChangeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+
+type ChangePayload = {
+  schema: string;
+  table: string;
+  eventType: ChangeEvent;
+  new: Row;
+  old: Row;
+  commit_timestamp: string;
+  errors: null;
+};
+
+const STORAGE_KEY = 'mockDB';
+const BROADCAST_NAME = 'mockDB-changes';
+
+// Seed data used the first time the mock database is opened on a device
+const seedData: Tables = {
+  'menu': [
+    { id: 1, item_name: 'Cappuccino', price: 120, category: 'coffee', description: 'Espresso with steamed milk foam', is_available: true, sizes: [{ name: 'Small', price: 102 }, { name: 'Regular', price: 120 }, { name: 'Large', price: 144 }], created_at: '2023-04-01T08:00:00Z' },
+    { id: 2, item_name: 'Espresso', price: 100, category: 'coffee', description: 'A short, strong shot', is_available: true, sizes: [{ name: 'Small', price: 85 }, { name: 'Regular', price: 100 }, { name: 'Large', price: 120 }], created_at: '2023-04-01T08:00:00Z' },
+    { id: 3, item_name: 'Latte', price: 130, category: 'coffee', description: 'Espresso with plenty of steamed milk', is_available: true, sizes: [{ name: 'Small', price: 111 }, { name: 'Regular', price: 130 }, { name: 'Large', price: 156 }], created_at: '2023-04-01T08:00:00Z' },
+    { id: 4, item_name: 'Iced Coffee', price: 130, category: 'ice-coffee', description: null, is_available: true, sizes: [{ name: 'Small', price: 111 }, { name: 'Regular', price: 130 }, { name: 'Large', price: 156 }], created_at: '2023-04-01T08:00:00Z' },
+    { id: 5, item_name: 'Masala Tea', price: 60, category: 'tea', description: 'Spiced Indian chai', is_available: true, sizes: [{ name: 'Small', price: 51 }, { name: 'Regular', price: 60 }, { name: 'Large', price: 72 }], created_at: '2023-04-01T08:00:00Z' },
+    { id: 6, item_name: 'Lemon Ice Tea', price: 110, category: 'ice-tea', description: null, is_available: true, sizes: [{ name: 'Small', price: 94 }, { name: 'Regular', price: 110 }, { name: 'Large', price: 132 }], created_at: '2023-04-01T08:00:00Z' },
+    { id: 7, item_name: 'Triple Berry', price: 160, category: 'smoothies', description: 'Strawberry, blueberry and raspberry', is_available: true, sizes: [], created_at: '2023-04-01T08:00:00Z' },
+    { id: 8, item_name: 'Chicken Tikka Sandwich', price: 180, category: 'snacks', description: null, is_available: true, sizes: [], created_at: '2023-04-01T08:00:00Z' },
+    { id: 9, item_name: 'Tandoori Burger', price: 190, category: 'burger', description: null, is_available: true, sizes: [], created_at: '2023-04-01T08:00:00Z' },
+    { id: 10, item_name: 'Chicken Tikka Pizza', price: 260, category: 'pizza', description: null, is_available: false, sizes: [], created_at: '2023-04-01T08:00:00Z' },
+    { id: 11, item_name: 'English Breakfast', price: 220, category: 'breakfast', description: 'Eggs, toast, beans and sausage', is_available: true, sizes: [], created_at: '2023-04-01T08:00:00Z' }
+  ],
+  // Same combos as supabase/migrations/20250331000000_combos.sql
+  'combos': [
+    { id: 'breakfast-coffee', name: 'Breakfast + Coffee', description: 'Any breakfast with any coffee', price: 249, slots: [{ name: 'Breakfast', category: 'breakfast' }, { name: 'Coffee', category: 'coffee' }], is_available: true, created_at: '2023-04-01T08:00:00Z' },
+    { id: 'burger-meal', name: 'Burger Meal', description: 'Any burger with an iced tea', price: 279, slots: [{ name: 'Burger', category: 'burger' }, { name: 'Drink', category: 'ice-tea' }], is_available: true, created_at: '2023-04-01T08:00:00Z' }
+  ],
+  // Same promotions as supabase/migrations/20250401000000_promotions.sql
+  'promotions': [
+    { id: 'promo-welcome10', code: 'WELCOME10', description: '10% off your order, up to ₹100', discount_type: 'percent', discount_value: 10, max_discount: 100, min_order_value: 0, categories: null, starts_at: null, ends_at: null, happy_hour_start: null, happy_hour_end: null, usage_limit: null, times_used: 0, is_active: true, created_at: '2023-04-01T08:00:00Z' },
+    { id: 'promo-flat50', code: 'FLAT50', description: '₹50 off orders of ₹300 or more', discount_type: 'flat', discount_value: 50, max_discount: null, min_order_value: 300, categories: null, starts_at: null, ends_at: null, happy_hour_start: null, happy_hour_end: null, usage_limit: null, times_used: 0, is_active: true, created_at: '2023-04-01T08:00:00Z' },
+    { id: 'promo-happyhour', code: 'HAPPYHOUR', description: '20% off coffee from 3pm to 6pm', discount_type: 'percent', discount_value: 20, max_discount: null, min_order_value: 0, categories: ['coffee', 'ice-coffee'], starts_at: null, ends_at: null, happy_hour_start: '15:00:00', happy_hour_end: '18:00:00', usage_limit: null, times_used: 0, is_active: true, created_at: '2023-04-01T08:00:00Z' }
+  ],
+  // Same locations as supabase/migrations/20250403000000_locations.sql, with the zones from 20250404000000_location_registry.sql
+  'locations': [
+    { code: 'T1', name: 'Table 1', kind: 'table', zone: 'Cafe floor', is_active: true, created_at: '2023-04-01T08:00:00Z' },
+    { code: 'T2', name: 'Table 2', kind: 'table', zone: 'Cafe floor', is_active: true, created_at: '2023-04-01T08:00:00Z' },
+    { code: 'T3', name: 'Table 3', kind: 'table', zone: 'Cafe floor', is_active: true, created_at: '2023-04-01T08:00:00Z' },
+    { code: 'T4', name: 'Table 4', kind: 'table', zone: 'Cafe floor', is_active: true, created_at: '2023-04-01T08:00:00Z' },
+    { code: '101', name: 'Room 101', kind: 'room', zone: 'First floor', is_active: true, created_at: '2023-04-01T08:00:00Z' },
+    { code: '204', name: 'Room 204', kind: 'room', zone: 'Second floor', is_active: true, created_at: '2023-04-01T08:00:00Z' }
+  ],
+  // Same groups as supabase/migrations/20250330000000_modifiers.sql
+  'modifier_groups': [
+    { id: 'mod-coffee-milk', name: 'Milk', selection: 'single', min_select: 1, max_select: null, options: [{ name: 'Regular milk', price: 0 }, { name: 'Oat milk', price: 40 }, { name: 'Almond milk', price: 40 }, { name: 'Skimmed milk', price: 0 }], menu_item_id: null, category: 'coffee', sort_order: 1, created_at: '2023-04-01T08:00:00Z' },
+    { id: 'mod-coffee-extras', name: 'Extras', selection: 'multi', min_select: 0, max_select: 3, options: [{ name: 'Extra shot', price: 30 }, { name: 'Whipped cream', price: 20 }, { name: 'Caramel syrup', price: 25 }], menu_item_id: null, category: 'coffee', sort_order: 2, created_at: '2023-04-01T08:00:00Z' },
+    { id: 'mod-coffee-sugar', name: 'Sugar', selection: 'single', min_select: 0, max_select: null, options: [{ name: 'No sugar', price: 0 }, { name: 'Less sugar', price: 0 }, { name: 'Extra sugar', price: 0 }], menu_item_id: null, category: 'coffee', sort_order: 3, created_at: '2023-04-01T08:00:00Z' },
+    { id: 'mod-hot-milk', name: 'Milk', selection: 'single', min_select: 1, max_select: null, options: [{ name: 'Regular milk', price: 0 }, { name: 'Oat milk', price: 40 }, { name: 'Almond milk', price: 40 }, { name: 'Skimmed milk', price: 0 }], menu_item_id: null, category: 'hot', sort_order: 1, created_at: '2023-04-01T08:00:00Z' },
+    { id: 'mod-hot-extras', name: 'Extras', selection: 'multi', min_select: 0, max_select: 3, options: [{ name: 'Extra shot', price: 30 }, { name: 'Whipped cream', price: 20 }, { name: 'Caramel syrup', price: 25 }], menu_item_id: null, category: 'hot', sort_order: 2, created_at: '2023-04-01T08:00:00Z' },
+    { id: 'mod-hot-sugar', name: 'Sugar', selection: 'single', min_select: 0, max_select: null, options: [{ name: 'No sugar', price: 0 }, { name: 'Less sugar', price: 0 }, { name: 'Extra sugar', price: 0 }], menu_item_id: null, category: 'hot', sort_order: 3, created_at: '2023-04-01T08:00:00Z' },
+    { id: 'mod-ice-coffee-milk', name: 'Milk', selection: 'single', min_select: 1, max_select: null, options: [{ name: 'Regular milk', price: 0 }, { name: 'Oat milk', price: 40 }, { name: 'Almond milk', price: 40 }, { name: 'Skimmed milk', price: 0 }], menu_item_id: null, category: 'ice-coffee', sort_order: 1, created_at: '2023-04-01T08:00:00Z' },
+    { id: 'mod-ice-coffee-extras', name: 'Extras', selection: 'multi', min_select: 0, max_select: 3, options: [{ name: 'Extra shot', price: 30 }, { name: 'Whipped cream', price: 20 }, { name: 'Caramel syrup', price: 25 }], menu_item_id: null, category: 'ice-coffee', sort_order: 2, created_at: '2023-04-01T08:00:00Z' },
+    { id: 'mod-ice-coffee-sugar', name: 'Sugar', selection: 'single', min_select: 0, max_select: null, options: [{ name: 'No sugar', price: 0 }, { name: 'Less sugar', price: 0 }, { name: 'Extra sugar', price: 0 }], menu_item_id: null, category: 'ice-coffee', sort_order: 3, created_at: '2023-04-01T08:00:00Z' },
+    { id: 'mod-tea-sugar', name: 'Sugar', selection: 'single', min_select: 0, max_select: null, options: [{ name: 'No sugar', price: 0 }, { name: 'Less sugar', price: 0 }, { name: 'Extra sugar', price: 0 }], menu_item_id: null, category: 'tea', sort_order: 1, created_at: '2023-04-01T08:00:00Z' },
+    { id: 'mod-ice-tea-sugar', name: 'Sugar', selection: 'single', min_select: 0, max_select: null, options: [{ name: 'No sugar', price: 0 }, { name: 'Less sugar', price: 0 }, { name: 'Extra sugar', price: 0 }], menu_item_id: null, category: 'ice-tea', sort_order: 1, created_at: '2023-04-01T08:00:00Z' },
+    { id: 'mod-smoothies-sugar', name: 'Sugar', selection: 'single', min_select: 0, max_select: null, options: [{ name: 'No sugar', price: 0 }, { name: 'Less sugar', price: 0 }, { name: 'Extra sugar', price: 0 }], menu_item_id: null, category: 'smoothies', sort_order: 1, created_at: '2023-04-01T08:00:00Z' },
+    { id: 'mod-ice-coffee-ice', name: 'Ice', selection: 'single', min_select: 0, max_select: null, options: [{ name: 'No ice', price: 0 }, { name: 'Less ice', price: 0 }], menu_item_id: null, category: 'ice-coffee', sort_order: 4, created_at: '2023-04-01T08:00:00Z' },
+    { id: 'mod-ice-tea-ice', name: 'Ice', selection: 'single', min_select: 0, max_select: null, options: [{ name: 'No ice', price: 0 }, { name: 'Less ice', price: 0 }], menu_item_id: null, category: 'ice-tea', sort_order: 2, created_at: '2023-04-01T08:00:00Z' },
+    { id: 'mod-smoothies-ice', name: 'Ice', selection: 'single', min_select: 0, max_select: null, options: [{ name: 'No ice', price: 0 }, { name: 'Less ice', price: 0 }], menu_item_id: null, category: 'smoothies', sort_order: 2, created_at: '2023-04-01T08:00:00Z' }
+  ],
+  'orders': [
+    {
+      id: 'ORD230401',
+      items: [
+        { id: '1-Regular', name: 'Cappuccino', price: 120, quantity: 2, size: 'Regular', category: 'coffee' },
+        { id: '8', name: 'Chicken Tikka Sandwich', price: 180, quantity: 1, category: 'snacks' }
+      ],
+      subtotal: 420,
+      taxes: 0,
+      total: 420,
+      status: 'completed',
+      payment_method: 'cash',
+      customer_name: 'Walk-in',
+      room_number: '101',
+      table_number: null,
+      created_at: '2023-04-01T10:30:00Z',
+      accepted_at: '2023-04-01T10:32:00Z',
+      preparing_at: '2023-04-01T10:33:00Z',
+      ready_at: '2023-04-01T10:41:00Z',
+      delivered_at: '2023-04-01T10:46:00Z',
+      completed_at: '2023-04-01T10:55:00Z',
+      payment_status: 'paid',
+      paid_at: '2023-04-01T10:31:00Z',
+      amount_tendered: 500,
+      change_given: 80,
+      refunded_amount: 0,
+      payment_recorded_by: 'mock-cashier',
+      business_date: '2023-04-01',
+      order_number: 'A-001'
+    },
+    {
+      id: 'ORD230402',
+      items: [
+        { id: '3-Large', name: 'Latte', price: 130, quantity: 1, size: 'Large', category: 'coffee' }
+      ],
+      subtotal: 130,
+      taxes: 0,
+      total: 130,
+      status: 'pending',
+      payment_method: 'qr',
+      customer_name: 'Guest',
+      room_number: '204',
+      table_number: null,
+      created_at: '2023-04-01T16:45:00Z',
+      payment_status: 'unpaid',
+      paid_at: null,
+      amount_tendered: null,
+      change_given: null,
+      refunded_amount: 0,
+      payment_recorded_by: null,
+      business_date: '2023-04-01',
+      order_number: 'A-002'
+    }
+  ],
+  'order_number_counters': [
+    { business_date: '2023-04-01', last_number: 2 }
+  ],
+  'payment_intents': [],
+  'tabs': [],
+  'bill_splits': [],
+  'stuck_orders': [],
+  'push_subscriptions': [],
+  'order_push_messages': [],
+  'rating_sources': [
+    {
+      id: '1',
+      name: 'Google',
+      url: 'https://g.page/r/CZ6RuTYHzAQZEB0/review',
+      icon: null,
+      display_order: 1
+    },
+    {
+      id: '2',
+      name: 'Zomato',
+      url: 'https://www.zomato.com/review',
+      icon: null,
+      display_order: 2
+    },
+    {
+      id: '3',
+      name: 'Swiggy',
+      url: 'https://www.swiggy.com/review',
+      icon: null,
+      display_order: 3
+    }
+  ],
+  'staff': [
+    { user_id: 'mock-owner', email: 'owner@barista.local', display_name: 'Owner', role: 'owner', active: true, created_at: '2023-04-01T08:00:00Z' },
+    { user_id: 'mock-manager', email: 'manager@barista.local', display_name: 'Manager', role: 'manager', active: true, created_at: '2023-04-01T08:00:00Z' },
+    { user_id: 'mock-barista', email: 'barista@barista.local', display_name: 'Barista', role: 'barista', active: true, created_at: '2023-04-01T08:00:00Z' },
+    { user_id: 'mock-cashier', email: 'cashier@barista.local', display_name: 'Cashier', role: 'cashier', active: true, created_at: '2023-04-01T08:00:00Z' }
+  ],
+  'faqs': [
+    {
+      id: '1',
+      question: 'What are your opening hours?',
+      answer: 'We are open from 8:00 AM to 10:00 PM every day.'
+    },
+    {
+      id: '2',
+      question: 'Do you serve decaf coffee?',
+      answer: 'Yes, we offer decaffeinated options for most of our coffee drinks.'
+    },
+    {
+      id: '3',
+      question: 'Is there WiFi available?',
+      answer: 'Yes, we provide free WiFi. Please ask our staff for the password.'
+    }
+  ]
+};
+
+// Default column values applied on insert, mirroring the table defaults in Supabase
+const columnDefaults: Record<string, (rows: Row[]) => Row> = {
+  'menu': (rows) => ({
+    id: rows.reduce((max, row) => Math.max(max, Number(row.id) || 0), 0) + 1,
+    description: null,
+    is_available: true,
+    sizes: [],
+    created_at: new Date().toISOString()
+  }),
+  'combos': () => ({
+    id: Math.random().toString(36).substring(2, 10),
+    description: null,
+    is_available: true,
+    created_at: new Date().toISOString()
+  }),
+  'modifier_groups': () => ({
+    id: Math.random().toString(36).substring(2, 10),
+    selection: 'single',
+    min_select: 0,
+    max_select: null,
+    menu_item_id: null,
+    category: null,
+    sort_order: 0,
+    created_at: new Date().toISOString()
+  }),
+  'promotions': () => ({
+    id: Math.random().toString(36).substring(2, 10),
+    description: null,
+    max_discount: null,
+    min_order_value: 0,
+    categories: null,
+    starts_at: null,
+    ends_at: null,
+    happy_hour_start: null,
+    happy_hour_end: null,
+    usage_limit: null,
+    times_used: 0,
+    is_active: true,
+    created_at: new Date().toISOString()
+  }),
+  'locations': () => ({
+    zone: null,
+    is_active: true,
+    created_at: new Date().toISOString()
+  }),
+  'orders': () => ({
+    status: 'pending',
+    discount: 0,
+    promo_code: null,
+    customer_id: null,
+    points_redeemed: 0,
+    points_discount: 0,
+    taxes: 0,
+    accepted_at: null,
+    preparing_at: null,
+    ready_at: null,
+    served_at: null,
+    delivered_at: null,
+    completed_at: null,
+    rejected_at: null,
+    cancelled_at: null,
+    done_items: [],
+    rejection_code: null,
+    rejection_reason: null,
+    customer_name: null,
+    room_number: null,
+    table_number: null,
+    payment_status: 'unpaid',
+    paid_at: null,
+    amount_tendered: null,
+    change_given: null,
+    refunded_amount: 0,
+    payment_recorded_by: null,
+    tab_id: null,
+    created_at: new Date().toISOString()
+  }),
+  'tabs': () => ({
+    id: typeof crypto !== 'undefined' && crypto.randomUUID
+      ? crypto.randomUUID()
+      : Math.random().toString(36).substring(2, 14),
+    status: 'open',
+    opened_at: new Date().toISOString(),
+    closed_at: null,
+    payment_method: null,
+    amount_tendered: null,
+    change_given: null,
+    closed_by: null
+  }),
+  'bill_splits': () => ({
+    id: typeof crypto !== 'undefined' && crypto.randomUUID
+      ? crypto.randomUUID()
+      : Math.random().toString(36).substring(2, 14),
+    order_id: null,
+    tab_id: null,
+    lines: null,
+    payment_status: 'unpaid',
+    paid_at: null,
+    amount_tendered: null,
+    change_given: null,
+    payment_recorded_by: null,
+    created_at: new Date().toISOString()
+  }),
+  'stuck_orders': () => ({
+    items: [],
+    customer_name: null,
+    location: null,
+    attempts: 0,
+    last_error: null,
+    reported_at: new Date().toISOString(),
+    resolved_at: null,
+    resolved_by: null
+  }),
+  'push_subscriptions': () => ({
+    id: Math.random().toString(36).substring(2, 10),
+    p256dh: null,
+    auth: null,
+    created_at: new Date().toISOString()
+  }),
+  'order_push_messages': () => ({
+    id: Math.random().toString(36).substring(2, 10),
+    created_at: new Date().toISOString(),
+    sent_at: null
+  }),
+  'payment_intents': () => ({
+    id: typeof crypto !== 'undefined' && crypto.randomUUID
+      ? crypto.randomUUID()
+      : Math.random().toString(36).substring(2, 14),
+    currency: 'INR',
+    status: 'created',
+    provider_ref: null,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString()
+  })
+};
+
+const clone = <T,>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+const loadTables = (): Tables => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return { ...clone(seedData), ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.error('Failed to load mock database, reseeding:', error);
+  }
+  return clone(seedData);
+};
+
+let tables: Tables = loadTables();
+
+const saveTables = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(tables));
+  } catch (error) {
+    console.error('Failed to persist mock database:', error);
+  }
+};
+
+const getTable = (tableName: string): Row[] => {
+  if (!tables[tableName]) {
+    tables[tableName] = [];
+  }
+  return tables[tableName];
+};
+
+const makeError = (message: string, code: string): MockError => ({
+  message,
+  code,
+  details: null,
+  hint: null
+});
+
+const compareValues = (a: unknown, b: unknown): number => {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return (a as string | number) > (b as string | number) ? 1 : -1;
+};
+
+// Turns a SQL LIKE pattern into a regular expression
+const likeToRegExp = (pattern: string, caseInsensitive: boolean) => {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped.replace(/%/g, '.*').replace(/_/g, '.')}$`, caseInsensitive ? 'i' : '');
+};
+
+// Applies a column list such as "id, total, created_at" to a row
+const projectRow = (row: Row, columns: string): Row => {
+  const names = columns.split(',').map(column => column.trim()).filter(Boolean);
+  if (names.length === 0 || names.includes('*')) {
+    return clone(row);
+  }
+  return names.reduce<Row>((projected, name) => {
+    projected[name] = clone(row[name]);
+    return projected;
+  }, {});
+};
+
+/* ------------------------------------------------------------------ */
+/* Realtime                                                           */
+/* ------------------------------------------------------------------ */
+
+type ChannelBinding = {
+  event: ChangeEvent | '*';
+  table?: string;
+  filter?: (row: Row) => boolean;
+  callback: (payload: ChangePayload) => void;
+};
+
+type MockChannel = ReturnType<typeof createChannel>;
+
+const activeChannels = new Set<MockChannel>();
+
+// Parses a realtime filter such as "id=eq.ORD123" or "status=in.(pending,accepted)"
+const parseRealtimeFilter = (filter?: string) => {
+  if (!filter) return undefined;
+  const match = filter.match(/^([^=]+)=(eq|neq|gt|gte|lt|lte|in)\.(.*)$/);
+  if (!match) return undefined;
+
+  const [, column, operator, rawValue] = match;
+  if (operator === 'in') {
+    const values = rawValue.replace(/^\(|\)$/g, '').split(',').map(value => value.trim());
+    return (row: Row) => values.includes(String(row[column]));
+  }
+  return (row: Row) => {
+    const value = row[column];
+    const comparison = compareValues(typeof value === 'number' ? value : String(value), typeof value === 'number' ? Number(rawValue) : rawValue);
+    switch (operator) {
+      case 'eq': return comparison === 0;
+      case 'neq': return comparison !== 0;
+      case 'gt': return comparison > 0;
+      case 'gte': return comparison >= 0;
+      case 'lt': return comparison < 0;
+      default: return comparison <= 0;
+    }
+  };
+};
+
+const createChannel = (name: string) => {
+  const bindings: ChannelBinding[] = [];
+
+  const channel = {
+    topic: `realtime:${name}`,
+    on: (
+      type: string,
+      config: { event: ChangeEvent | '*'; schema?: string; table?: string; filter?: string },
+      callback: (payload: ChangePayload) => void
+    ) => {
+      if (type === 'postgres_changes') {
+        bindings.push({
+          event: config.event,
+          table: config.table,
+          filter: parseRealtimeFilter(config.filter),
+          callback
+        });
+      }
+      return channel;
+    },
+    subscribe: (callback?: (status: string) => void) => {
+      activeChannels.add(channel);
+      setTimeout(() => callback?.('SUBSCRIBED'), 0);
+      return channel;
+    },
+    unsubscribe: async () => {
+      activeChannels.delete(channel);
+      return 'ok' as const;
+    },
+    dispatch: (payload: ChangePayload) => {
+      bindings.forEach(binding => {
+        if (binding.event !== '*' && binding.event !== payload.eventType) return;
+        if (binding.table && binding.table !== payload.table) return;
+        const row = payload.eventType === 'DELETE' ? payload.old : payload.new;
+        if (binding.filter && !binding.filter(row)) return;
+        try {
+          binding.callback(payload);
+        } catch (error) {
+          console.error('Mock realtime callback failed:', error);
+        }
+      });
+    }
+  };
+
+  return channel;
+};
+
+const dispatchLocally = (payload: ChangePayload) => {
+  // Deliver asynchronously, as the real socket would
+  setTimeout(() => {
+    activeChannels.forEach(channel => channel.dispatch(payload));
+  }, 0);
+};
+
+const broadcast = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(BROADCAST_NAME) : null;
+
+// Another tab wrote to the mock database: reload it and replay the event here
+broadcast?.addEventListener('message', (event: MessageEvent<ChangePayload>) => {
+  tables = loadTables();
+  dispatchLocally(event.data);
+});
+
+const emitChange = (table: string, eventType: ChangeEvent, newRow: Row, oldRow: Row) => {
+  const payload: ChangePayload = {
+    schema: 'public',
+    table,
+    eventType,
+    new: clone(newRow),
+    old: clone(oldRow),
+    commit_timestamp: new Date().toISOString(),
+    errors: null
+  };
+  dispatchLocally(payload);
+  broadcast?.postMessage(payload);
+};
+
+/* ------------------------------------------------------------------ */
+/* Query builder                                                      */
+/* ------------------------------------------------------------------ */
+
+type Operation = 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+
+const createQueryBuilder = (tableName: string) => {
+  let operation: Operation = 'select';
+  let payload: Row | Row[] | null = null;
+  let columns = '*';
+  let returning = false;
+  let countMode: 'exact' | null = null;
+  let headOnly = false;
+  let resultMode: 'many' | 'single' | 'maybeSingle' = 'many';
+  let limitCount: number | null = null;
+  let rangeFrom: number | null = null;
+  let rangeTo: number | null = null;
+  const filters: ((row: Row) => boolean)[] = [];
+  const ordering: { column: string; ascending: boolean }[] = [];
+
+  const applyFilters = (rows: Row[]) => rows.filter(row => filters.every(filter => filter(row)));
+
+  const shapeRows = (rows: Row[]) => {
+    let shaped = [...rows];
+    if (ordering.length > 0) {
+      shaped.sort((a, b) => {
+        for (const { column, ascending } of ordering) {
+          const comparison = compareValues(a[column], b[column]);
+          if (comparison !== 0) return ascending ? comparison : -comparison;
+        }
+        return 0;
+      });
+    }
+    if (rangeFrom !== null) {
+      shaped = shaped.slice(rangeFrom, (rangeTo ?? shaped.length - 1) + 1);
+    }
+    if (limitCount !== null) {
+      shaped = shaped.slice(0, limitCount);
+    }
+    return shaped.map(row => projectRow(row, columns));
+  };
+
+  const respond = (rows: Row[] | null, totalCount: number | null, status: number): MockResponse => {
+    if (rows === null) {
+      return { data: null, error: null, count: totalCount, status, statusText: 'OK' };
+    }
+    if (resultMode === 'single' || resultMode === 'maybeSingle') {
+      if (rows.length > 1 || (rows.length === 0 && resultMode === 'single')) {
+        return {
+          data: null,
+          error: makeError('JSON object requested, multiple (or no) rows returned', 'PGRST116'),
+          count: null,
+          status: 406,
+          statusText: 'Not Acceptable'
+        };
+      }
+      return { data: rows[0] ?? null, error: null, count: totalCount, status, statusText: 'OK' };
+    }
+    return { data: headOnly ? null : rows, error: null, count: totalCount, status, statusText: 'OK' };
+  };
+
+  const runSelect = () => {
+    const matched = applyFilters(getTable(tableName));
+    return respond(shapeRows(matched), countMode ? matched.length : null, 200);
+  };
+
+  const runInsert = (upsert: boolean) => {
+    const table = getTable(tableName);
+    const values = Array.isArray(payload) ? payload : [payload as Row];
+    const written: Row[] = [];
+
+    if (!upsert && values.some(value => value.id !== undefined && table.some(row => row.id === value.id))) {
+      return {
+        data: null,
+        error: makeError(`duplicate key value violates unique constraint "${tableName}_pkey"`, '23505'),
+        count: null,
+        status: 409,
+        statusText: 'Conflict'
+      };
+    }
+
+    for (const value of values) {
+      const existingIndex = value.id !== undefined ? table.findIndex(row => row.id === value.id) : -1;
+
+      if (existingIndex !== -1) {
+        const oldRow = table[existingIndex];
+        const updated = { ...oldRow, ...clone(value) };
+        table[existingIndex] = updated;
+        written.push(updated);
+        emitChange(tableName, 'UPDATE', updated, oldRow);
+      } else {
+        const defaults = columnDefaults[tableName]?.(table) ?? { id: Math.random().toString(36).substring(2, 10) };
+        const trigger = beforeInsertTriggers[tableName];
+        const inserted = trigger ? trigger({ ...defaults, ...clone(value) }) : { ...defaults, ...clone(value) };
+        table.push(inserted);
+        written.push(inserted);
+        emitChange(tableName, 'INSERT', inserted, {});
+      }
+    }
+
+    saveTables();
+    return respond(returning ? shapeRows(written) : null, countMode ? written.length : null, 201);
+  };
+
+  const runUpdate = () => {
+    const table = getTable(tableName);
+    const trigger = beforeUpdateTriggers[tableName];
+
+    // Run triggers for every row first so a rejected row leaves the table untouched
+    const changes = table
+      .map((row, index) => ({ row, index }))
+      .filter(({ row }) => filters.every(filter => filter(row)))
+      .map(({ row, index }) => {
+        const merged = { ...row, ...clone(payload as Row) };
+        return { row, index, updated: trigger ? trigger(row, merged) : merged };
+      });
+
+    const updatedRows = changes.map(({ row, index, updated }) => {
+      table[index] = updated;
+      afterUpdateTriggers[tableName]?.(row, updated);
+      emitChange(tableName, 'UPDATE', updated, row);
+      return updated;
+    });
+
+    saveTables();
+    return respond(returning ? shapeRows(updatedRows) : null, countMode ? updatedRows.length : null, 200);
+  };
+
+  const runDelete = () => {
+    const table = getTable(tableName);
+    const removed = applyFilters(table);
+    tables[tableName] = table.filter(row => !removed.includes(row));
+    removed.forEach(row => emitChange(tableName, 'DELETE', {}, row));
+
+    saveTables();
+    return respond(returning ? shapeRows(removed) : null, countMode ? removed.length : null, 200);
+  };
+
+  const execute = async (): Promise<MockResponse> => {
+    try {
+      if (operation !== 'select') {
+        const matched = operation === 'update' || operation === 'delete' ? applyFilters(getTable(tableName)) : [];
+        const denied = checkWritePolicy(tableName, operation, matched, payload);
+        if (denied) {
+          return { data: null, error: denied, count: null, status: 403, statusText: 'Forbidden' };
+        }
+      }
+
+      switch (operation) {
+        case 'insert': return runInsert(false);
+        case 'upsert': return runInsert(true);
+        case 'update': return runUpdate();
+        case 'delete': return runDelete();
+        default: return runSelect();
+      }
+    } catch (error) {
+      if (isMockError(error)) {
+        return { data: null, error, count: null, status: 400, statusText: 'Bad Request' };
+      }
+      return {
+        data: null,
+        error: makeError(`Mock query on ${tableName} failed: ${error}`, 'MOCK'),
+        count: null,
+        status: 500,
+        statusText: 'Internal Error'
+      };
+    }
+  };
+
+  const addFilter = (filter: (row: Row) => boolean) => {
+    filters.push(filter);
+    return builder;
+  };
+
+  const builder = {
+    select: (selectColumns: string = '*', options: { count?: 'exact' | 'planned' | 'estimated'; head?: boolean } = {}) => {
+      columns = selectColumns;
+      if (operation === 'select') {
+        countMode = options.count ? 'exact' : null;
+        headOnly = Boolean(options.head);
+      } else {
+        returning = true;
+      }
+      return builder;
+    },
+    insert: (values: Row | Row[]) => {
+      operation = 'insert';
+      payload = values;
+      return builder;
+    },
+    upsert: (values: Row | Row[]) => {
+      operation = 'upsert';
+      payload = values;
+      return builder;
+    },
+    update: (values: Row) => {
+      operation = 'update';
+      payload = values;
+      return builder;
+    },
+    delete: () => {
+      operation = 'delete';
+      return builder;
+    },
+    eq: (column: string, value: unknown) => addFilter(row => row[column] === value || String(row[column]) === String(value)),
+    neq: (column: string, value: unknown) => addFilter(row => row[column] !== value && String(row[column]) !== String(value)),
+    // Comparisons with null are never true in SQL
+    gt: (column: string, value: unknown) => addFilter(row => row[column] != null && compareValues(row[column], value) > 0),
+    gte: (column: string, value: unknown) => addFilter(row => row[column] != null && compareValues(row[column], value) >= 0),
+    lt: (column: string, value: unknown) => addFilter(row => row[column] != null && compareValues(row[column], value) < 0),
+    lte: (column: string, value: unknown) => addFilter(row => row[column] != null && compareValues(row[column], value) <= 0),
+    in: (column: string, values: unknown[]) => addFilter(row => values.map(String).includes(String(row[column]))),
+    is: (column: string, value: null | boolean) => addFilter(row => (row[column] ?? null) === value),
+    like: (column: string, pattern: string) => addFilter(row => likeToRegExp(pattern, false).test(String(row[column] ?? ''))),
+    ilike: (column: string, pattern: string) => addFilter(row => likeToRegExp(pattern, true).test(String(row[column] ?? ''))),
+    match: (query: Row) => addFilter(row => Object.entries(query).every(([column, value]) => row[column] === value)),
+    order: (column: string, { ascending = true }: { ascending?: boolean } = {}) => {
+      ordering.push({ column, ascending });
+      return builder;
+    },
+    limit: (count: number) => {
+      limitCount = count;
+      return builder;
+    },
+    range: (from: number, to: number) => {
+      rangeFrom = from;
+      rangeTo = to;
+      return builder;
+    },
+    single: () => {
+      resultMode = 'single';
+      return builder;
+    },
+    maybeSingle: () => {
+      resultMode = 'maybeSingle';
+      return builder;
+    },
+    then: <TResult1 = MockResponse, TResult2 = never>(
+      onfulfilled?: ((value: MockResponse) => TResult1 | PromiseLike<TResult1>) | null,
+      onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+    ) => execute().then(onfulfilled, onrejected)
+  };
+
+  return builder;
+};
+
+/* ------------------------------------------------------------------ */
+/* Auth                                                               */
+/* ------------------------------------------------------------------ */
+
+const SESSION_KEY = 'mockDB-session';
+
+// Demo sign-ins for the staff rows seeded above. They only exist in the mock
+// backend and grant nothing against a real Supabase project.
+const mockAuthUsers = [
+  { id: 'mock-owner', email: 'owner@barista.local', password: 'owner-demo-1' },
+  { id: 'mock-manager', email: 'manager@barista.local', password: 'manager-demo-1' },
+  { id: 'mock-barista', email: 'barista@barista.local', password: 'barista-demo-1' },
+  { id: 'mock-cashier', email: 'cashier@barista.local', password: 'cashier-demo-1' }
+];
+
+type MockSession = {
+  access_token: string;
+  refresh_token: string;
+  token_type: 'bearer';
+  expires_in: number;
+  expires_at: number;
+  user: {
+    id: string;
+    email: string;
+    aud: 'authenticated';
+    role: 'authenticated';
+    app_metadata: Row;
+    user_metadata: Row;
+    created_at: string;
+  };
+};
+
+type AuthListener = (event: string, session: MockSession | null) => void;
+
+const authListeners = new Set<AuthListener>();
+
+const readSession = (): MockSession | null => {
+  try {
+    const stored = localStorage.getItem(SESSION_KEY);
+    const session: MockSession | null = stored ? JSON.parse(stored) : null;
+    if (session && session.expires_at * 1000 > Date.now()) {
+      return session;
+    }
+  } catch (error) {
+    console.error('Failed to read mock session:', error);
+  }
+  return null;
+};
+
+const writeSession = (session: MockSession | null, event: string) => {
+  if (session) {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(SESSION_KEY);
+  }
+  authListeners.forEach(listener => setTimeout(() => listener(event, session), 0));
+};
+
+const authError = (message: string) => ({ name: 'AuthApiError', message, status: 400 });
+
+const mockAuth = {
+  getSession: async () => ({ data: { session: readSession() }, error: null }),
+  getUser: async () => {
+    const session = readSession();
+    return session
+      ? { data: { user: session.user }, error: null }
+      : { data: { user: null }, error: authError('Auth session missing!') };
+  },
+  signInWithPassword: async ({ email, password }: { email: string; password: string }) => {
+    const account = mockAuthUsers.find(user => user.email === email.trim().toLowerCase() && user.password === password);
+    if (!account) {
+      return { data: { user: null, session: null }, error: authError('Invalid login credentials') };
+    }
+
+    const expiresIn = 8 * 60 * 60;
+    const session: MockSession = {
+      access_token: `mock-${account.id}-${Date.now()}`,
+      refresh_token: `mock-refresh-${account.id}`,
+      token_type: 'bearer',
+      expires_in: expiresIn,
+      expires_at: Math.floor(Date.now() / 1000) + expiresIn,
+      user: {
+        id: account.id,
+        email: account.email,
+        aud: 'authenticated',
+        role: 'authenticated',
+        app_metadata: {},
+        user_metadata: {},
+        created_at: '2023-04-01T08:00:00Z'
+      }
+    };
+    writeSession(session, 'SIGNED_IN');
+    return { data: { user: session.user, session }, error: null };
+  },
+  signOut: async () => {
+    writeSession(null, 'SIGNED_OUT');
+    return { error: null };
+  },
+  onAuthStateChange: (callback: AuthListener) => {
+    authListeners.add(callback);
+    setTimeout(() => callback('INITIAL_SESSION', readSession()), 0);
+    return {
+      data: {
+        subscription: {
+          id: Math.random().toString(36).substring(2, 10),
+          callback,
+          unsubscribe: () => {
+            authListeners.delete(callback);
+          }
+        }
+      }
+    };
+  }
+};
+
+/* ------------------------------------------------------------------ */
+/* Row-level security                                                 */
+/* ------------------------------------------------------------------ */
+
+// Order columns only managers and owners may change (see the
+// enforce_order_update_permissions trigger)
+const PROTECTED_ORDER_COLUMNS = [
+  'items', 'subtotal', 'discount', 'promo_code', 'taxes', 'total', 'payment_method',
+  'customer_name', 'room_number', 'table_number', 'created_at',
+  'customer_id', 'points_redeemed', 'points_discount', 'tab_id'
+];
+
+// Order columns only the payment functions may change (see the
+// orders_protect_payment trigger)
+const PAYMENT_ORDER_COLUMNS = [
+  'payment_status', 'paid_at', 'amount_tendered', 'change_given',
+  'refunded_amount', 'payment_recorded_by'
+];
+
+// Stand-in for `set_config('app.recording_payment', 'on', true)`. The payment
+// functions are security definer, so RLS does not apply to them either.
+let recordingPayment = false;
+
+const asPaymentRecorder = async <T,>(fn: () => PromiseLike<T>): Promise<T> => {
+  recordingPayment = true;
+  try {
+    return await fn();
+  } finally {
+    recordingPayment = false;
+  }
+};
+
+// Insert on orders is revoked from anon and authenticated
+// (supabase/migrations/20250320000000_place_order.sql); only place_order,
+// which is security definer, can add orders
+let placingOrder = false;
+
+const asOrderPlacer = async <T,>(fn: () => PromiseLike<T>): Promise<T> => {
+  placingOrder = true;
+  try {
+    return await fn();
+  } finally {
+    placingOrder = false;
+  }
+};
+
+const currentStaffRole = (): string | null => {
+  const session = readSession();
+  const member = session && getTable('staff').find(row => row.user_id === session.user.id && row.active);
+  return member ? String(member.role) : null;
+};
+
+// Local version of the policies in supabase/migrations/*_staff_*.sql
+const checkWritePolicy = (
+  tableName: string,
+  operation: Operation,
+  matchedRows: Row[],
+  values: Row | Row[] | null
+): MockError | null => {
+  const role = currentStaffRole();
+  const isManager = role === 'owner' || role === 'manager';
+  const denied = makeError(`new row violates row-level security policy for table "${tableName}"`, '42501');
+
+  switch (tableName) {
+    case 'menu':
+    case 'combos':
+    case 'modifier_groups':
+    case 'promotions':
+    case 'locations':
+      return isManager ? null : denied;
+    case 'staff':
+      return role === 'owner' ? null : denied;
+    // Only changed through the loyalty and tab functions
+    case 'tabs':
+    case 'customers':
+    case 'loyalty_transactions':
+    case 'customer_otps':
+    case 'customer_sessions':
+      return denied;
+    // Only changed through split_bill and record_split_payment
+    case 'bill_splits':
+      return recordingPayment ? null : denied;
+    // Only the orders_assign_number trigger hands out numbers
+    case 'order_number_counters':
+      return denied;
+    // Saved through save_push_subscription and queued by the orders_queue_push trigger
+    case 'push_subscriptions':
+    case 'order_push_messages':
+      return denied;
+    // Reported through report_stuck_order; staff only mark them dealt with
+    case 'stuck_orders':
+      return operation === 'update' && role ? null : denied;
+    case 'orders':
+      if (recordingPayment) return null;
+      if (operation === 'insert' || operation === 'upsert') {
+        return placingOrder ? null : makeError('permission denied for table orders', '42501');
+      }
+      if (operation === 'delete') return role === 'owner' ? null : denied;
+      if (operation !== 'update') return null;
+      if (!role) return denied;
+      if (!isManager && matchedRows.some(row =>
+        PROTECTED_ORDER_COLUMNS.some(column =>
+          column in (values as Row) && JSON.stringify((values as Row)[column]) !== JSON.stringify(row[column])
+        )
+      )) {
+        return makeError('Only managers and owners can change order details', '42501');
+      }
+      return null;
+    default:
+      return null;
+  }
+};
+
+/* ------------------------------------------------------------------ */
+/* Triggers                                                           */
+/* ------------------------------------------------------------------ */
+
+// Local version of the orders_assign_number trigger in
+// supabase/migrations/20250408000000_order_numbers.sql
+const beforeInsertTriggers: Record<string, (newRow: Row) => Row> = {
+  'orders': (newRow) => {
+    const businessDate = getBusinessDate();
+    const counters = getTable('order_number_counters');
+    let counter = counters.find(row => row.business_date === businessDate);
+    if (counter) {
+      counter.last_number = Number(counter.last_number) + 1;
+    } else {
+      counter = { business_date: businessDate, last_number: 1 };
+      counters.push(counter);
+    }
+
+    return { ...newRow, business_date: businessDate, order_number: formatOrderNumber(Number(counter.last_number)) };
+  }
+};
+
+// Local version of the orders_protect_payment, orders_keep_number and
+// orders_track_status triggers: payment columns and order numbers stay
+// untouched, only allowed status moves, each one stamped in its own column,
+// and rejections must carry a reason
+const beforeUpdateTriggers: Record<string, (oldRow: Row, newRow: Row) => Row> = {
+  'orders': (oldRow, newRow) => {
+    if (!recordingPayment && PAYMENT_ORDER_COLUMNS.some(column =>
+      JSON.stringify(newRow[column]) !== JSON.stringify(oldRow[column])
+    )) {
+      throw makeError('Payments can only be recorded through record_counter_payment or refund_order_payment', '42501');
+    }
+    if (newRow.order_number !== oldRow.order_number || newRow.business_date !== oldRow.business_date) {
+      throw makeError('Order numbers cannot be changed', '42501');
+    }
+
+    if (newRow.status === oldRow.status) return newRow;
+
+    const from = oldRow.status as OrderStatus;
+    const to = newRow.status as OrderStatus;
+    if (!canTransition(from, to)) {
+      throw makeError(`Cannot move an order from ${from} to ${to}`, '22023');
+    }
+    if (to === 'rejected' && !String(newRow.rejection_reason ?? '').trim()) {
+      throw makeError('new row for relation "orders" violates check constraint "orders_rejection_reason_check"', '23514');
+    }
+
+    return { ...newRow, [STATUS_TIMESTAMP_COLUMNS[to]]: new Date().toISOString() };
+  }
+};
+
+// Local version of the orders_apply_loyalty_points trigger in
+// supabase/migrations/20250402000000_loyalty.sql
+const applyLoyaltyPoints = (oldRow: Row, newRow: Row) => {
+  if (!newRow.customer_id || newRow.status === oldRow.status) return;
+
+  const customer = getTable('customers').find(row => row.id === newRow.customer_id);
+  const ledger = getTable('loyalty_transactions');
+  if (!customer) return;
+
+  const record = (kind: string, points: number) => {
+    if (points === 0 || ledger.some(row => row.order_id === newRow.id && row.kind === kind)) return;
+    ledger.push({
+      id: Math.random().toString(36).substring(2, 10),
+      customer_id: customer.id,
+      order_id: newRow.id,
+      kind,
+      points,
+      created_at: new Date().toISOString()
+    });
+    customer.points_balance = Number(customer.points_balance) + points;
+  };
+
+  if (newRow.status === 'accepted') {
+    record('earn', getPointsEarned(Number(newRow.total)));
+  } else if (newRow.status === 'rejected' || newRow.status === 'cancelled') {
+    record('refund', Number(newRow.points_redeemed) || 0);
+    const earned = ledger.find(row => row.order_id === newRow.id && row.kind === 'earn');
+    if (earned) record('reverse', -Math.min(Number(earned.points), Number(customer.points_balance)));
+  }
+};
+
+// Local version of the orders_release_promotion_use trigger in
+// supabase/migrations/20250412000000_release_promotion_uses.sql
+const releasePromotionUse = (oldRow: Row, newRow: Row) => {
+  const isClosed = (status: unknown) => status === 'rejected' || status === 'cancelled';
+  if (!newRow.promo_code || !isClosed(newRow.status) || isClosed(oldRow.status)) return;
+
+  const promotion = getTable('promotions').find(row => row.code === newRow.promo_code);
+  if (promotion) promotion.times_used = Math.max(Number(promotion.times_used) - 1, 0);
+};
+
+// Local version of the orders_queue_push trigger in
+// supabase/migrations/20250409000000_order_push.sql
+const ORDER_PUSH_BODIES: Partial<Record<OrderStatus, (order: Row) => string>> = {
+  accepted: () => 'Your order has been accepted.',
+  preparing: () => "We're preparing your order.",
+  ready: () => 'Your order is ready!',
+  served: () => 'Your order has been served. Enjoy!',
+  delivered: () => 'Your order has been delivered. Enjoy!',
+  rejected: (order) => order.rejection_reason ? `Your order was rejected: ${order.rejection_reason}` : 'Your order has been rejected.',
+  cancelled: () => 'Your order has been cancelled.'
+};
+
+const queueOrderPush = (oldRow: Row, newRow: Row) => {
+  const body = ORDER_PUSH_BODIES[newRow.status as OrderStatus];
+  if (newRow.status === oldRow.status || !body) return;
+  if (!getTable('push_subscriptions').some(row => row.order_id === newRow.id)) return;
+
+  const message: Row = {
+    ...columnDefaults['order_push_messages']([]),
+    order_id: newRow.id,
+    status: newRow.status,
+    title: `Order ${newRow.order_number}`,
+    body: body(newRow)
+  };
+  getTable('order_push_messages').push(message);
+  emitChange('order_push_messages', 'INSERT', clone(message), {});
+};
+
+const afterUpdateTriggers: Record<string, (oldRow: Row, newRow: Row) => void> = {
+  'orders': (oldRow, newRow) => {
+    applyLoyaltyPoints(oldRow, newRow);
+    releasePromotionUse(oldRow, newRow);
+    queueOrderPush(oldRow, newRow);
+  }
+};
+
+/* ------------------------------------------------------------------ */
+/* RPC stand-ins                                                      */
+/* ------------------------------------------------------------------ */
+
+// Mirrors `raise exception` in plpgsql, which PostgREST reports as P0001
+function raise(message: string): never {
+  throw makeError(message, 'P0001');
+}
+
+const isMockError = (error: unknown): error is MockError =>
+  typeof error === 'object' && error !== null && 'code' in error && 'message' in error;
+
+// Local version of price_item_line in supabase/migrations/20250331000000_combos.sql
+const priceItemLine = (line: Row) => {
+  const menu = getTable('menu');
+  const modifierGroups = getTable('modifier_groups').map(parseModifierGroup);
+
+  const quantity = Number(line.quantity);
+  const size = typeof line.size === 'string' && line.size ? line.size : null;
+  const picked = line.options ?? [];
+
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > 20) raise(`Invalid quantity for item ${line.item_id}`);
+  if (!Array.isArray(picked)) raise(`Invalid options for item ${line.item_id}`);
+
+  const menuItem = menu.find(row => String(row.id) === String(line.item_id));
+  if (!menuItem) raise(`Item ${line.item_id} is not on the menu`);
+  if (!menuItem.is_available) raise(`Item unavailable: ${menuItem.item_name}`);
+
+  // Sized items are priced by the size picked, everything else by `price`
+  const sizes = parseMenuSizes(menuItem.sizes);
+  let price = Number(menuItem.price);
+  if (sizes.length > 0) {
+    if (!size) raise(`Choose a size for ${menuItem.item_name}`);
+    const picked = sizes.find(option => option.name === size);
+    if (!picked) raise(`Invalid size ${size} for item ${menuItem.item_name}`);
+    price = picked.price;
+  } else if (size) {
+    raise(`Item ${menuItem.item_name} does not come in sizes`);
+  }
+
+  // Options must come from the item's groups, within each group's limits
+  const groups = getItemModifierGroups(modifierGroups, { id: String(menuItem.id), category: menuItem.category as string });
+  const pickedOptions = (picked as Row[]).map(option => ({ groupId: String(option.group_id), name: String(option.name) }));
+  if (pickedOptions.some(option =>
+    !groups.some(group => group.id === option.groupId && group.options.some(choice => choice.name === option.name))
+  )) {
+    raise(`Invalid options for item ${menuItem.item_name}`);
+  }
+
+  for (const group of groups) {
+    const names = pickedOptions.filter(option => option.groupId === group.id).map(option => option.name);
+    if (new Set(names).size < names.length) raise(`Invalid options for item ${menuItem.item_name}`);
+    if (names.length < group.min_select) raise(`Choose ${group.name.toLowerCase()} for ${menuItem.item_name}`);
+    if (names.length > getMaxSelect(group)) raise(`Too many ${group.name.toLowerCase()} options for ${menuItem.item_name}`);
+  }
+
+  const options = sortOptions(groups, pickedOptions);
+  price += getOptionsPrice(options);
+
+  return {
+    id: size ? `${menuItem.id}-${size}` : String(menuItem.id),
+    itemId: String(menuItem.id),
+    name: menuItem.item_name,
+    category: menuItem.category as string,
+    price,
+    quantity,
+    size,
+    options,
+    tax_rate: getTaxRate(menuItem.category as string)
+  };
+};
+
+// Local version of price_combo_line in supabase/migrations/20250331000000_combos.sql
+const priceComboLine = (line: Row) => {
+  const quantity = Number(line.quantity);
+  const choices = line.choices ?? [];
+
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > 20) raise(`Invalid quantity for combo ${line.combo_id}`);
+
+  const combo = getTable('combos').find(row => String(row.id) === String(line.combo_id));
+  if (!combo) raise(`Combo ${line.combo_id} is not on the menu`);
+  if (!combo.is_available) raise(`Combo unavailable: ${combo.name}`);
+
+  const { slots } = parseCombo(combo);
+  if (
+    !Array.isArray(choices) ||
+    choices.length !== slots.length ||
+    new Set((choices as Row[]).map(choice => String(choice.slot))).size !== slots.length
+  ) {
+    raise(`Choose one item for every part of ${combo.name}`);
+  }
+
+  const children: ComboChild[] = slots.map((slot, index) => {
+    const choice = (choices as Row[]).find(option => String(option.slot) === String(index));
+    if (!choice) raise(`Choose one item for every part of ${combo.name}`);
+
+    const menuItem = getTable('menu').find(row => String(row.id) === String(choice.item_id));
+    if (!menuItem || !isInSlot(slot, { id: String(menuItem.id), category: menuItem.category as string })) {
+      raise(`Invalid ${slot.name.toLowerCase()} choice for ${combo.name}`);
+    }
+    if (!menuItem.is_available) raise(`Item unavailable: ${menuItem.item_name}`);
+
+    const size = parseMenuSizes(menuItem.sizes)[0];
+    return {
+      slot: index,
+      slotName: slot.name,
+      itemId: String(menuItem.id),
+      name: menuItem.item_name as string,
+      category: menuItem.category as string,
+      size: size?.name ?? null,
+      price: size ? size.price : Number(menuItem.price)
+    };
+  });
+
+  return {
+    id: `combo-${combo.id}`,
+    comboId: String(combo.id),
+    name: combo.name,
+    category: COMBO_CATEGORY,
+    price: Number(combo.price),
+    quantity,
+    children,
+    tax_rate: getTaxRate(COMBO_CATEGORY)
+  };
+};
+
+// Customer signed in with this session token, as customer_from_token finds it
+const findCustomer = (token: unknown) => {
+  const session = getTable('customer_sessions').find(row =>
+    row.token_hash === token && new Date(String(row.expires_at)) > new Date()
+  );
+  const customer = session && getTable('customers').find(row => row.id === session.customer_id);
+  if (!customer) raise('Please verify your phone number again');
+  return customer;
+};
+
+// Active promotion with this code, whatever case it was typed in
+const findPromotion = (code: unknown) => {
+  const normalized = normalizePromoCode(String(code ?? ''));
+  const promotion = getTable('promotions').find(row => row.code === normalized && row.is_active);
+  if (!promotion) raise(`Promo code ${normalized} is not valid`);
+  return promotion;
+};
+
+// Stands in for the signing key the database keeps; the mock only runs locally
+const MOCK_LOCATION_KEY = 'barista-mock-location-key';
+
+// Local version of location_signature in supabase/migrations/20250403000000_locations.sql
+const locationSignature = async (code: string) => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(MOCK_LOCATION_KEY), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(code)));
+  return Array.from(signature.slice(0, 8), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const verifyLocation = async (code: unknown, sig: unknown) => {
+  const location = getTable('locations').find(row => row.code === String(code ?? '').trim().toUpperCase());
+  if (!location || sig !== await locationSignature(String(location.code))) {
+    raise('This QR code is not valid. Please ask a member of staff for help');
+  }
+  if (!location.is_active) raise(`${location.name} is not taking orders right now`);
+  return location;
+};
+
+// The orders a split covers: one order, or every round on a tab
+const isOnBill = (row: Row, orderId: unknown, tabId: unknown) =>
+  (orderId != null && row.order_id === orderId) || (tabId != null && row.tab_id === tabId);
+
+const getBillOrders = (orderId: unknown, tabId: unknown) =>
+  getTable('orders')
+    .filter(row => (orderId != null && row.id === orderId) || (tabId != null && row.tab_id === tabId))
+    .sort((a, b) => String(a.created_at).localeCompare(String(b.created_at)) || String(a.id).localeCompare(String(b.id)));
+
+const rpcHandlers: Record<string, (args: Row) => Promise<unknown>> = {
+  current_staff_role: async () => currentStaffRole(),
+  // Local version of get_promotion in supabase/migrations/20250401000000_promotions.sql
+  get_promotion: async (args) => clone(findPromotion(args.p_code)),
+  get_location_links: async () => {
+    const role = currentStaffRole();
+    if (role !== 'owner' && role !== 'manager') {
+      throw makeError('Only managers can print QR codes', '42501');
+    }
+
+    const locations = [...getTable('locations')].sort((a, b) =>
+      String(a.kind).localeCompare(String(b.kind)) || String(a.code).localeCompare(String(b.code))
+    );
+    return Promise.all(locations.map(async row => ({ code: row.code, sig: await locationSignature(String(row.code)) })));
+  },
+  verify_location: async (args) => clone(await verifyLocation(args.p_code, args.p_sig)),
+  // Local version of supabase/migrations/20250404000000_location_registry.sql
+  close_location: async (args) => {
+    const role = currentStaffRole();
+    if (!role || !['owner', 'manager', 'cashier'].includes(role)) {
+      throw makeError('Only cashiers and managers can close a table', '42501');
+    }
+
+    const location = getTable('locations').find(row => row.code === args.p_code);
+    if (!location) raise(`Location ${args.p_code} not found`);
+
+    const open = getTable('orders').filter(row =>
+      (row.table_number || row.room_number) === location.code && OPEN_STATUSES.includes(row.status as OrderStatus)
+    );
+    const inKitchen = open.filter(row => row.status !== 'served' && row.status !== 'delivered').length;
+    const unpaid = open.filter(row => (row.payment_status ?? 'unpaid') === 'unpaid').length;
+    if (inKitchen > 0) raise(`${location.name} still has ${inKitchen} order(s) in the kitchen`);
+    if (unpaid > 0) raise(`${location.name} has ${unpaid} unpaid order(s). Record the payments first`);
+    // A tab left with nothing to pay is closed along with the table
+    const orders = getTable('orders');
+    getTable('tabs')
+      .filter(tab => tab.location_code === location.code && tab.status === 'open')
+      .filter(tab => !orders.some(row => row.tab_id === tab.id && isBillable(row) && (row.payment_status ?? 'unpaid') === 'unpaid'))
+      .forEach(tab => {
+        Object.assign(tab, { status: 'closed', closed_at: new Date().toISOString(), closed_by: readSession()?.user.id ?? null });
+      });
+    saveTables();
+
+    if (open.length === 0) return 0;
+
+    const { error } = await createQueryBuilder('orders')
+      .update({ status: 'completed' })
+      .in('id', open.map(row => row.id));
+
+    if (error) throw error;
+    return open.length;
+  },
+  // Local version of supabase/migrations/20250405000000_tabs.sql
+  settle_tab: async (args) => {
+    const role = currentStaffRole();
+    if (!role || !['owner', 'manager', 'cashier'].includes(role)) {
+      throw makeError('Only cashiers and managers can settle tabs', '42501');
+    }
+
+    const tab = getTable('tabs').find(row => row.id === args.p_tab_id);
+    if (!tab) raise('Tab not found');
+    if (tab.status !== 'open') raise('This tab is already closed');
+    if (getTable('bill_splits').some(row => row.tab_id === tab.id)) raise('This tab is split. Collect each share instead');
+
+    const method = String(args.p_payment_method ?? '');
+    if (method !== 'cash' && method !== 'card') raise('Tabs are settled by cash or card');
+
+    const orders = getTable('orders').filter(row => row.tab_id === tab.id);
+    const pending = orders.filter(row => row.status === 'pending').length;
+    if (pending > 0) raise(`${pending} order(s) on this tab are still waiting to be accepted`);
+
+    const unpaid = orders
+      .filter(row => isBillable(row) && (row.payment_status ?? 'unpaid') === 'unpaid')
+      .sort((a, b) => String(a.created_at).localeCompare(String(b.created_at)) || String(a.id).localeCompare(String(b.id)));
+    const due = unpaid.reduce((sum, row) => sum + Number(row.total), 0);
+    const tendered = Number(args.p_amount_tendered);
+    if (!Number.isFinite(tendered) || tendered < due) raise(`Amount tendered must be at least ${due}`);
+    if (method === 'card' && tendered !== due) raise('Card payments must be for the exact total');
+
+    // Each order is paid for its own total; the change goes on the latest one
+    const change = tendered - due;
+    const lastOrder = unpaid[unpaid.length - 1];
+    for (const order of unpaid) {
+      const orderChange = order === lastOrder ? change : 0;
+      const { error } = await asPaymentRecorder(() => createQueryBuilder('orders')
+        .update({
+          payment_method: method,
+          payment_status: 'paid',
+          paid_at: new Date().toISOString(),
+          amount_tendered: Number(order.total) + orderChange,
+          change_given: orderChange,
+          payment_recorded_by: readSession()?.user.id ?? null
+        })
+        .eq('id', order.id));
+
+      if (error) throw error;
+    }
+
+    Object.assign(tab, {
+      status: 'closed',
+      closed_at: new Date().toISOString(),
+      payment_method: method,
+      amount_tendered: tendered,
+      change_given: change,
+      closed_by: readSession()?.user.id ?? null
+    });
+    saveTables();
+    return clone(tab);
+  },
+  // Local version of place_order in supabase/migrations/20250405000000_tabs.sql
+  place_order: async (args) => {
+    const orderId = String(args.p_order_id ?? '');
+    const lines = args.p_items;
+    const paymentMethod = args.p_payment_method as string;
+
+    if (!/^[A-Za-z0-9-]{4,32}$/.test(orderId)) raise('Invalid order id');
+    if (!Array.isArray(lines) || lines.length === 0) raise('An order must contain at least one item');
+    if (!['qr', 'card', 'cash', 'tab'].includes(paymentMethod)) raise(`Unsupported payment method: ${paymentMethod}`);
+
+    const redeemPoints = Number(args.p_redeem_points ?? 0);
+    if (!Number.isInteger(redeemPoints) || redeemPoints < 0) raise('Invalid number of points');
+
+    // A scanned QR code decides the table or room; otherwise the guest typed it in
+    const location = args.p_location != null ? await verifyLocation(args.p_location, args.p_location_sig) : null;
+    if (paymentMethod === 'tab' && !location) raise('Scan the QR code on your table to order on a tab');
+
+    // Orders from a verified phone number earn points once accepted
+    const customer = args.p_customer_token ? findCustomer(args.p_customer_token) : null;
+    if (!customer && redeemPoints > 0) raise('Verify your phone number to redeem points');
+
+    let items = (lines as Row[]).map(line => ('combo_id' in line ? priceComboLine(line) : priceItemLine(line)));
+
+    let promotionRow: Row | null = null;
+    let promoCode: string | null = null;
+    if (typeof args.p_promo_code === 'string' && args.p_promo_code.trim()) {
+      promotionRow = findPromotion(args.p_promo_code);
+      const promotion = parsePromotion(promotionRow);
+      const refused = getPromotionError(promotion, items);
+      if (refused) raise(refused);
+
+      items = applyPromotion(promotion, items);
+      promoCode = promotion.code;
+    }
+
+    const { subtotal, discount, taxes, total } = calculatePricing(items);
+
+    // Points come off what is left to pay, for at most half of it
+    if (redeemPoints > Number(customer?.points_balance ?? 0)) raise(`You only have ${customer?.points_balance ?? 0} points`);
+    const maxPoints = getRedeemablePoints(Infinity, total);
+    if (redeemPoints > maxPoints) raise(`You can redeem at most ${maxPoints} points on this order`);
+    const pointsDiscount = getPointsValue(redeemPoints);
+
+    // Joins the location's open tab, opening one for the first round
+    let tab: Row | null = null;
+    if (paymentMethod === 'tab') {
+      tab = getTable('tabs').find(row => row.location_code === location.code && row.status === 'open') ?? null;
+      if (!tab) {
+        tab = { ...columnDefaults['tabs']([]), location_code: location.code };
+        getTable('tabs').push(tab);
+      }
+    }
+
+    const { data, error } = await asOrderPlacer(() => createQueryBuilder('orders')
+      .insert({
+        id: orderId,
+        items,
+        subtotal,
+        discount,
+        promo_code: promoCode,
+        taxes,
+        total: total - pointsDiscount,
+        status: 'pending',
+        payment_method: paymentMethod,
+        customer_name: typeof args.p_customer_name === 'string' ? args.p_customer_name.slice(0, 50) : null,
+        room_number: location
+          ? (location.kind === 'room' ? location.code : null)
+          : typeof args.p_room_number === 'string' ? args.p_room_number.slice(0, 10) : null,
+        table_number: location?.kind === 'table' ? location.code : null,
+        customer_id: customer?.id ?? null,
+        points_redeemed: redeemPoints,
+        points_discount: pointsDiscount,
+        tab_id: tab?.id ?? null
+      })
+      .select()
+      .single());
+
+    if (error) throw error;
+
+    // Local version of the orders_resolve_stuck_order trigger
+    const stuck = getTable('stuck_orders').find(row => row.order_id === orderId && row.resolved_at === null);
+    if (stuck) {
+      const oldRow = clone(stuck);
+      stuck.resolved_at = new Date().toISOString();
+      emitChange('stuck_orders', 'UPDATE', clone(stuck), oldRow);
+    }
+
+    if (promotionRow) {
+      promotionRow.times_used = Number(promotionRow.times_used) + 1;
+    }
+    if (customer && redeemPoints > 0) {
+      customer.points_balance = Number(customer.points_balance) - redeemPoints;
+      getTable('loyalty_transactions').push({
+        id: Math.random().toString(36).substring(2, 10),
+        customer_id: customer.id,
+        order_id: orderId,
+        kind: 'redeem',
+        points: -redeemPoints,
+        created_at: new Date().toISOString()
+      });
+    }
+    saveTables();
+    return data;
+  },
+  // Local version of report_stuck_order in supabase/migrations/20250407000000_order_outbox.sql
+  report_stuck_order: async (args) => {
+    const orderId = String(args.p_order_id ?? '');
+    if (getTable('orders').some(row => row.id === orderId)) return null;
+    if (!/^[A-Za-z0-9-]{4,32}$/.test(orderId)) raise('Invalid order id');
+
+    const existing = getTable('stuck_orders').find(row => row.order_id === orderId);
+    if (existing) {
+      if (existing.resolved_at === null) {
+        const oldRow = clone(existing);
+        Object.assign(existing, {
+          attempts: Math.max(Number(args.p_attempts ?? 0), 0),
+          last_error: typeof args.p_last_error === 'string' ? args.p_last_error.slice(0, 200) : null,
+          reported_at: new Date().toISOString()
+        });
+        emitChange('stuck_orders', 'UPDATE', clone(existing), oldRow);
+      }
+    } else {
+      const queuedAt = new Date(String(args.p_queued_at ?? ''));
+      const row: Row = {
+        ...columnDefaults['stuck_orders']([]),
+        order_id: orderId,
+        items: Array.isArray(args.p_items) ? args.p_items.slice(0, 50) : [],
+        total: Number(args.p_total ?? 0),
+        payment_method: String(args.p_payment_method ?? ''),
+        customer_name: typeof args.p_customer_name === 'string' ? args.p_customer_name.slice(0, 50) : null,
+        location: typeof args.p_location === 'string' ? args.p_location.slice(0, 32) : null,
+        attempts: Math.max(Number(args.p_attempts ?? 0), 0),
+        last_error: typeof args.p_last_error === 'string' ? args.p_last_error.slice(0, 200) : null,
+        queued_at: isNaN(queuedAt.getTime()) || queuedAt > new Date() ? new Date().toISOString() : queuedAt.toISOString()
+      };
+      getTable('stuck_orders').push(row);
+      emitChange('stuck_orders', 'INSERT', clone(row), {});
+    }
+    saveTables();
+    return null;
+  },
+  // Local version of save_push_subscription in supabase/migrations/20250409000000_order_push.sql
+  save_push_subscription: async (args) => {
+    const orderId = String(args.p_order_id ?? '');
+    const provider = String(args.p_provider ?? '');
+    const endpoint = String(args.p_endpoint ?? '');
+    const p256dh = typeof args.p_p256dh === 'string' ? args.p_p256dh : null;
+    const auth = typeof args.p_auth === 'string' ? args.p_auth : null;
+
+    if (!getTable('orders').some(row => row.id === orderId)) raise(`Order ${orderId} not found`);
+    if (provider !== 'web_push' && provider !== 'local') raise(`Unknown push provider ${provider}`);
+    if (!endpoint || endpoint.length > 1000) raise('Invalid push endpoint');
+    if (provider === 'web_push' && (!p256dh || !auth)) raise('Web Push subscriptions need their keys');
+
+    const subscriptions = getTable('push_subscriptions');
+    const existing = subscriptions.find(row => row.order_id === orderId && row.endpoint === endpoint);
+    if (existing) {
+      Object.assign(existing, { provider, p256dh, auth });
+    } else {
+      subscriptions.push({ ...columnDefaults['push_subscriptions']([]), order_id: orderId, provider, endpoint, p256dh, auth });
+    }
+    saveTables();
+    return null;
+  },
+  // Local versions of the phone sign-in functions in supabase/migrations/20250402000000_loyalty.sql.
+  // The stub sender is always on here, and codes and tokens are kept as they are rather than hashed.
+  request_customer_otp: async (args) => {
+    const phone = String(args.p_phone ?? '');
+    if (!/^\+91[6-9]\d{9}$/.test(phone)) raise('Enter a valid 10-digit mobile number');
+
+    const otps = getTable('customer_otps');
+    const existing = otps.find(row => row.phone === phone);
+    if (existing && Date.now() - new Date(String(existing.created_at)).getTime() < 30000) {
+      raise('Please wait a few seconds before asking for another code');
+    }
+
+    const code = String(Math.floor(Math.random() * 1000000)).padStart(6, '0');
+    tables['customer_otps'] = otps.filter(row => row.phone !== phone).concat({
+      phone,
+      code_hash: code,
+      attempts: 0,
+      expires_at: new Date(Date.now() + 10 * 60000).toISOString(),
+      created_at: new Date().toISOString()
+    });
+    saveTables();
+    return code;
+  },
+  verify_customer_otp: async (args) => {
+    const phone = String(args.p_phone ?? '');
+    const otp = getTable('customer_otps').find(row => row.phone === phone);
+
+    if (!otp || new Date(String(otp.expires_at)) <= new Date()) raise('The code has expired, ask for a new one');
+    if (Number(otp.attempts) >= 5) raise('Too many attempts, ask for a new code');
+    if (otp.code_hash !== String(args.p_code ?? '')) {
+      otp.attempts = Number(otp.attempts) + 1;
+      saveTables();
+      return null;
+    }
+
+    tables['customer_otps'] = getTable('customer_otps').filter(row => row !== otp);
+
+    const customers = getTable('customers');
+    let customer = customers.find(row => row.phone === phone);
+    const name = typeof args.p_name === 'string' ? args.p_name.trim().slice(0, 50) : '';
+    if (!customer) {
+      customer = {
+        id: Math.random().toString(36).substring(2, 10),
+        phone,
+        name: name || null,
+        points_balance: 0,
+        created_at: new Date().toISOString()
+      };
+      customers.push(customer);
+    } else if (!customer.name && name) {
+      customer.name = name;
+    }
+
+    const token = Array.from({ length: 4 }, () => Math.random().toString(36).substring(2, 10)).join('');
+    getTable('customer_sessions').push({
+      token_hash: token,
+      customer_id: customer.id,
+      expires_at: new Date(Date.now() + 90 * 86400000).toISOString(),
+      created_at: new Date().toISOString()
+    });
+    saveTables();
+    return token;
+  },
+  get_customer_profile: async (args) => clone(findCustomer(args.p_token)),
+  end_customer_session: async (args) => {
+    tables['customer_sessions'] = getTable('customer_sessions').filter(row => row.token_hash !== args.p_token);
+    saveTables();
+    return null;
+  },
+  // Local version of supabase/migrations/20250326000000_payment_intents.sql
+  create_payment_intent: async (args) => {
+    const orderId = String(args.p_order_id ?? '');
+    const provider = String(args.p_provider ?? '');
+
+    if (!['upi', 'simulator'].includes(provider)) raise(`Unsupported payment provider: ${provider}`);
+
+    const order = getTable('orders').find(row => row.id === orderId);
+    if (!order) raise(`Order ${orderId} not found`);
+    if (order.payment_method !== 'qr') raise(`Order ${orderId} is not a UPI order`);
+    if (order.status === 'rejected' || order.status === 'cancelled') raise(`Order ${orderId} is ${order.status}`);
+
+    const existing = getTable('payment_intents').filter(row => row.order_id === orderId);
+    if (existing.some(row => row.status === 'succeeded')) raise(`Order ${orderId} is already paid`);
+
+    // Only the newest QR code for an order can be paid
+    if (existing.some(row => row.status === 'created')) {
+      await createQueryBuilder('payment_intents')
+        .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+        .eq('order_id', orderId)
+        .eq('status', 'created');
+    }
+
+    const { data, error } = await createQueryBuilder('payment_intents')
+      .insert({ order_id: orderId, provider, amount: order.total })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+  // The mock backend always has the simulator switched on
+  simulate_payment_result: async (args) => {
+    const outcome = String(args.p_outcome ?? '');
+    if (!['succeeded', 'failed'].includes(outcome)) raise(`Unsupported outcome: ${outcome}`);
+
+    const { data, error } = await createQueryBuilder('payment_intents')
+      .update({
+        status: outcome,
+        provider_ref: `SIM-${Math.random().toString(36).substring(2, 12).toUpperCase()}`,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', args.p_intent_id)
+      .eq('provider', 'simulator')
+      .eq('status', 'created')
+      .select();
+
+    if (error) throw error;
+    if (!data || (data as Row[]).length === 0) raise(`Payment intent ${args.p_intent_id} cannot be confirmed`);
+
+    // Stand-in for the payment_intents_apply trigger
+    const intent = (data as Row[])[0];
+    if (intent.status === 'succeeded') {
+      await asPaymentRecorder(() => createQueryBuilder('orders')
+        .update({
+          payment_status: 'paid',
+          paid_at: new Date().toISOString(),
+          amount_tendered: intent.amount,
+          change_given: 0
+        })
+        .eq('id', intent.order_id)
+        .eq('payment_status', 'unpaid'));
+    }
+
+    return intent;
+  },
+  // Local versions of supabase/migrations/20250406000000_bill_splits.sql
+  split_bill: async (args) => {
+    const orderId = args.p_order_id ?? null;
+    const tabId = args.p_tab_id ?? null;
+    if ((orderId === null) === (tabId === null)) raise('Split either an order or a tab');
+
+    // Staff can split any bill; a guest only one they ordered on while signed in
+    if (!currentStaffRole()) {
+      const customer = args.p_customer_token ? findCustomer(args.p_customer_token) : null;
+      if (!customer || !getBillOrders(orderId, tabId).some(row => row.customer_id === customer.id)) {
+        throw makeError('Only staff or the guest who ordered can split this bill', '42501');
+      }
+    }
+
+    const orders = getBillOrders(orderId, tabId);
+    if (orders.length === 0) raise('Bill not found');
+    if (tabId !== null && !getTable('tabs').some(row => row.id === tabId && row.status === 'open')) raise('This tab is already closed');
+    if (orderId !== null && orders[0].tab_id) raise('This order is on a tab. Split the tab instead');
+
+    const billable = orders.filter(isBillable);
+    if (billable.some(row => (row.payment_status ?? 'unpaid') !== 'unpaid' || row.payment_method === 'qr')) {
+      raise('This bill has already been paid');
+    }
+
+    const existing = getTable('bill_splits').filter(row => isOnBill(row, orderId, tabId));
+    if (existing.some(row => row.payment_status === 'paid')) {
+      raise('Part of this bill has already been paid. Collect the remaining shares');
+    }
+
+    const { error: deleteError } = await asPaymentRecorder(() => createQueryBuilder('bill_splits')
+      .delete()
+      .in('id', existing.map(row => row.id)));
+    if (deleteError) throw deleteError;
+
+    const splits = Array.isArray(args.p_splits) ? (args.p_splits as Row[]) : [];
+    if (splits.length === 0) return [];
+    if (splits.length < 2 || splits.length > MAX_SPLIT_PEOPLE) raise(`A bill can be split between 2 and ${MAX_SPLIT_PEOPLE} people`);
+
+    const items = billable.flatMap(row => (Array.isArray(row.items) ? row.items : []));
+    const due = billable.reduce((sum, row) => sum + Number(row.total), 0);
+    if (items.length === 0 || due <= 0) raise('There is nothing to pay on this bill');
+
+    const byItems = 'lines' in splits[0];
+    const assigned = new Set<number>();
+    splits.forEach(split => {
+      const label = String(split.label ?? '').trim();
+      if (label.length < 1 || label.length > 30) raise('Give each person a name of up to 30 characters');
+      if (split.method !== 'cash' && split.method !== 'card') raise('Each share is paid by cash or card');
+      if (('lines' in split) !== byItems) raise('Split either equally or by item, not both');
+      if (!byItems) return;
+
+      const lines = split.lines;
+      if (!Array.isArray(lines) || lines.length === 0) raise(`${label} has no items`);
+      lines.forEach(line => {
+        if (!Number.isInteger(line) || line < 0 || line >= items.length || assigned.has(line)) raise('Each item goes to exactly one person');
+        assigned.add(line);
+      });
+    });
+    if (byItems && assigned.size !== items.length) raise('Each item goes to exactly one person');
+
+    const requests = splits.map(split => ({
+      label: String(split.label).trim(),
+      method: split.method as SplitPaymentMethod,
+      lines: byItems ? (split.lines as number[]) : undefined
+    }));
+    const amounts = previewSplit(due, items, requests);
+
+    const { data, error } = await asPaymentRecorder(() => createQueryBuilder('bill_splits')
+      .insert(requests.map((split, position) => ({
+        order_id: orderId,
+        tab_id: tabId,
+        position,
+        label: split.label,
+        lines: split.lines ?? null,
+        amount: amounts[position],
+        payment_method: split.method
+      })))
+      .select());
+
+    if (error) throw error;
+    return data;
+  },
+  record_split_payment: async (args) => {
+    const role = currentStaffRole();
+    if (!role || !['owner', 'manager', 'cashier'].includes(role)) {
+      throw makeError('Only cashiers and managers can record payments', '42501');
+    }
+
+    const split = getTable('bill_splits').find(row => row.id === args.p_split_id);
+    if (!split) raise('Share not found');
+    if (split.payment_status !== 'unpaid') raise(`${split.label} has already paid`);
+
+    const billable = getBillOrders(split.order_id, split.tab_id).filter(isBillable);
+    if (billable.some(row => (row.payment_status ?? 'unpaid') !== 'unpaid')) raise('This bill has already been paid');
+
+    // A round added or rejected since the split changes what is owed
+    const shares = getTable('bill_splits').filter(row => isOnBill(row, split.order_id, split.tab_id));
+    const due = roundCurrency(billable.reduce((sum, row) => sum + Number(row.total), 0));
+    if (roundCurrency(shares.reduce((sum, row) => sum + Number(row.amount), 0)) !== due) {
+      raise('The bill has changed since it was split. Split it again');
+    }
+
+    const amount = Number(split.amount);
+    const tendered = Number(args.p_amount_tendered);
+    if (!Number.isFinite(tendered) || tendered < amount) raise(`Amount tendered must be at least ${amount}`);
+    if (split.payment_method === 'card' && tendered !== amount) raise('Card payments must be for the exact total');
+
+    const { data, error } = await asPaymentRecorder(() => createQueryBuilder('bill_splits')
+      .update({
+        payment_status: 'paid',
+        paid_at: new Date().toISOString(),
+        amount_tendered: tendered,
+        change_given: roundCurrency(tendered - amount),
+        payment_recorded_by: readSession()?.user.id ?? null
+      })
+      .eq('id', split.id)
+      .select()
+      .single());
+
+    if (error) throw error;
+
+    // Change was given on the shares, so each order is recorded at its total
+    if (shares.every(row => row.id === split.id || row.payment_status === 'paid')) {
+      for (const order of billable) {
+        const { error: orderError } = await asPaymentRecorder(() => createQueryBuilder('orders')
+          .update({
+            payment_method: SPLIT_PAYMENT_METHOD,
+            payment_status: 'paid',
+            paid_at: new Date().toISOString(),
+            amount_tendered: order.total,
+            change_given: 0,
+            payment_recorded_by: readSession()?.user.id ?? null
+          })
+          .eq('id', order.id));
+
+        if (orderError) throw orderError;
+      }
+
+      const tab = getTable('tabs').find(row => row.id === split.tab_id);
+      if (tab) {
+        Object.assign(tab, { status: 'closed', closed_at: new Date().toISOString(), payment_method: SPLIT_PAYMENT_METHOD, closed_by: readSession()?.user.id ?? null });
+        saveTables();
+      }
+    }
+
+    return data;
+  },
+  // Local version of supabase/migrations/20250327000000_payment_state.sql
+  record_counter_payment: async (args) => {
+    const role = currentStaffRole();
+    if (!role || !['owner', 'manager', 'cashier'].includes(role)) {
+      throw makeError('Only cashiers and managers can record payments', '42501');
+    }
+
+    const orderId = String(args.p_order_id ?? '');
+    const tendered = Number(args.p_amount_tendered);
+    const order = getTable('orders').find(row => row.id === orderId);
+    if (!order) raise(`Order ${orderId} not found`);
+
+    const total = Number(order.total);
+    if (order.payment_method !== 'cash' && order.payment_method !== 'card') raise(`Order ${orderId} is not paid at the counter`);
+    if ((order.payment_status ?? 'unpaid') !== 'unpaid') raise(`Order ${orderId} is already ${order.payment_status}`);
+    if (getTable('bill_splits').some(row => row.order_id === orderId)) raise(`Order ${orderId} is split. Collect each share instead`);
+    if (!Number.isFinite(tendered) || tendered < total) raise(`Amount tendered must be at least ${total}`);
+    if (order.payment_method === 'card' && tendered !== total) raise('Card payments must be for the exact total');
+
+    const { data, error } = await asPaymentRecorder(() => createQueryBuilder('orders')
+      .update({
+        payment_status: 'paid',
+        paid_at: new Date().toISOString(),
+        amount_tendered: tendered,
+        change_given: tendered - total,
+        payment_recorded_by: readSession()?.user.id ?? null
+      })
+      .eq('id', orderId)
+      .select()
+      .single());
+
+    if (error) throw error;
+    return data;
+  },
+  refund_order_payment: async (args) => {
+    const role = currentStaffRole();
+    if (role !== 'owner' && role !== 'manager') {
+      throw makeError('Only managers can refund payments', '42501');
+    }
+
+    const orderId = String(args.p_order_id ?? '');
+    const amount = Number(args.p_amount);
+    const order = getTable('orders').find(row => row.id === orderId);
+    if (!order) raise(`Order ${orderId} not found`);
+    if (order.payment_status !== 'paid' && order.payment_status !== 'partially_refunded') {
+      raise(`Order ${orderId} has no payment to refund`);
+    }
+
+    const total = Number(order.total);
+    const alreadyRefunded = Number(order.refunded_amount ?? 0);
+    const refunded = alreadyRefunded + amount;
+    if (!Number.isFinite(amount) || amount <= 0 || refunded > total) {
+      raise(`Refund must be between 0 and ${total - alreadyRefunded}`);
+    }
+
+    const { data, error } = await asPaymentRecorder(() => createQueryBuilder('orders')
+      .update({
+        refunded_amount: refunded,
+        payment_status: refunded === total ? 'refunded' : 'partially_refunded'
+      })
+      .eq('id', orderId)
+      .select()
+      .single());
+
+    if (error) throw error;
+    return data;
+  }
+};
+
+const callRpc = async (fn: string, args: Row = {}): Promise<MockResponse> => {
+  const handler = rpcHandlers[fn];
+  if (!handler) {
+    return {
+      data: null,
+      error: makeError(`Could not find the function public.${fn} in the schema cache`, 'PGRST202'),
+      count: null,
+      status: 404,
+      statusText: 'Not Found'
+    };
+  }
+
+  try {
+    return { data: await handler(args), error: null, count: null, status: 200, statusText: 'OK' };
+  } catch (error) {
+    return {
+      data: null,
+      error: isMockError(error) ? error : makeError(`Mock RPC ${fn} failed: ${error}`, 'MOCK'),
+      count: null,
+      status: 400,
+      statusText: 'Bad Request'
+    };
+  }
+};
+
+/* ------------------------------------------------------------------ */
+/* Client                                                             */
+/* ------------------------------------------------------------------ */
+
+export const mockDB = {
+  from: (tableName: string) => createQueryBuilder(tableName),
+  rpc: (fn: string, args?: Row) => callRpc(fn, args),
+  channel: (name: string) => createChannel(name),
+  removeChannel: async (channel: MockChannel) => channel.unsubscribe(),
+  getChannels: () => Array.from(activeChannels),
+  auth: mockAuth,
+  // Clears everything written on this device and restores the seed data
+  reset: () => {
+    tables = clone(seedData);
+    saveTables();
+  }
+};
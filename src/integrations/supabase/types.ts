@@ -9,16 +9,1112 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
-      [_ in never]: never
+      bill_splits: {
+        Row: {
+          amount: number
+          amount_tendered: number | null
+          change_given: number | null
+          created_at: string
+          id: string
+          label: string
+          lines: number[] | null
+          order_id: string | null
+          paid_at: string | null
+          payment_method: string
+          payment_recorded_by: string | null
+          payment_status: string
+          position: number
+          tab_id: string | null
+        }
+        Insert: {
+          amount: number
+          amount_tendered?: number | null
+          change_given?: number | null
+          created_at?: string
+          id?: string
+          label: string
+          lines?: number[] | null
+          order_id?: string | null
+          paid_at?: string | null
+          payment_method: string
+          payment_recorded_by?: string | null
+          payment_status?: string
+          position: number
+          tab_id?: string | null
+        }
+        Update: {
+          amount?: number
+          amount_tendered?: number | null
+          change_given?: number | null
+          created_at?: string
+          id?: string
+          label?: string
+          lines?: number[] | null
+          order_id?: string | null
+          paid_at?: string | null
+          payment_method?: string
+          payment_recorded_by?: string | null
+          payment_status?: string
+          position?: number
+          tab_id?: string | null
+        }
+        Relationships: []
+      }
+      combos: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          is_available: boolean
+          name: string
+          price: number
+          slots: Json
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_available?: boolean
+          name: string
+          price: number
+          slots: Json
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_available?: boolean
+          name?: string
+          price?: number
+          slots?: Json
+        }
+        Relationships: []
+      }
+      customer_otps: {
+        Row: {
+          attempts: number
+          code_hash: string
+          created_at: string
+          expires_at: string
+          phone: string
+        }
+        Insert: {
+          attempts?: number
+          code_hash: string
+          created_at?: string
+          expires_at: string
+          phone: string
+        }
+        Update: {
+          attempts?: number
+          code_hash?: string
+          created_at?: string
+          expires_at?: string
+          phone?: string
+        }
+        Relationships: []
+      }
+      customer_sessions: {
+        Row: {
+          created_at: string
+          customer_id: string
+          expires_at: string
+          token_hash: string
+        }
+        Insert: {
+          created_at?: string
+          customer_id: string
+          expires_at: string
+          token_hash: string
+        }
+        Update: {
+          created_at?: string
+          customer_id?: string
+          expires_at?: string
+          token_hash?: string
+        }
+        Relationships: []
+      }
+      customers: {
+        Row: {
+          created_at: string
+          id: string
+          name: string | null
+          phone: string
+          points_balance: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name?: string | null
+          phone: string
+          points_balance?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string | null
+          phone?: string
+          points_balance?: number
+        }
+        Relationships: []
+      }
+      faqs: {
+        Row: {
+          answer: string
+          id: string
+          question: string
+        }
+        Insert: {
+          answer: string
+          id?: string
+          question: string
+        }
+        Update: {
+          answer?: string
+          id?: string
+          question?: string
+        }
+        Relationships: []
+      }
+      location_signing_key: {
+        Row: {
+          id: boolean
+          secret: string
+        }
+        Insert: {
+          id?: boolean
+          secret?: string
+        }
+        Update: {
+          id?: boolean
+          secret?: string
+        }
+        Relationships: []
+      }
+      locations: {
+        Row: {
+          code: string
+          created_at: string
+          is_active: boolean
+          kind: string
+          name: string
+          zone: string | null
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          is_active?: boolean
+          kind: string
+          name: string
+          zone?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          is_active?: boolean
+          kind?: string
+          name?: string
+          zone?: string | null
+        }
+        Relationships: []
+      }
+      loyalty_transactions: {
+        Row: {
+          created_at: string
+          customer_id: string
+          id: string
+          kind: string
+          order_id: string | null
+          points: number
+        }
+        Insert: {
+          created_at?: string
+          customer_id: string
+          id?: string
+          kind: string
+          order_id?: string | null
+          points: number
+        }
+        Update: {
+          created_at?: string
+          customer_id?: string
+          id?: string
+          kind?: string
+          order_id?: string | null
+          points?: number
+        }
+        Relationships: []
+      }
+      menu: {
+        Row: {
+          category: string
+          created_at: string
+          description: string | null
+          id: number
+          is_available: boolean
+          item_name: string
+          price: number
+          sizes: Json
+        }
+        Insert: {
+          category: string
+          created_at?: string
+          description?: string | null
+          id?: number
+          is_available?: boolean
+          item_name: string
+          price: number
+          sizes?: Json
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          description?: string | null
+          id?: number
+          is_available?: boolean
+          item_name?: string
+          price?: number
+          sizes?: Json
+        }
+        Relationships: []
+      }
+      modifier_groups: {
+        Row: {
+          category: string | null
+          created_at: string
+          id: string
+          max_select: number | null
+          menu_item_id: number | null
+          min_select: number
+          name: string
+          options: Json
+          selection: string
+          sort_order: number
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string
+          id?: string
+          max_select?: number | null
+          menu_item_id?: number | null
+          min_select?: number
+          name: string
+          options: Json
+          selection?: string
+          sort_order?: number
+        }
+        Update: {
+          category?: string | null
+          created_at?: string
+          id?: string
+          max_select?: number | null
+          menu_item_id?: number | null
+          min_select?: number
+          name?: string
+          options?: Json
+          selection?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      order_number_counters: {
+        Row: {
+          business_date: string
+          last_number: number
+        }
+        Insert: {
+          business_date: string
+          last_number: number
+        }
+        Update: {
+          business_date?: string
+          last_number?: number
+        }
+        Relationships: []
+      }
+      order_push_messages: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          order_id: string
+          sent_at: string | null
+          status: string
+          title: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          order_id: string
+          sent_at?: string | null
+          status: string
+          title: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          order_id?: string
+          sent_at?: string | null
+          status?: string
+          title?: string
+        }
+        Relationships: []
+      }
+      orders: {
+        Row: {
+          accepted_at: string | null
+          amount_tendered: number | null
+          business_date: string
+          cancelled_at: string | null
+          change_given: number | null
+          completed_at: string | null
+          created_at: string
+          customer_id: string | null
+          customer_name: string | null
+          delivered_at: string | null
+          discount: number
+          done_items: number[]
+          id: string
+          items: Json
+          order_number: string
+          paid_at: string | null
+          payment_method: string | null
+          payment_recorded_by: string | null
+          payment_status: string
+          points_discount: number
+          points_redeemed: number
+          preparing_at: string | null
+          promo_code: string | null
+          ready_at: string | null
+          refunded_amount: number
+          rejected_at: string | null
+          rejection_code: string | null
+          rejection_reason: string | null
+          room_number: string | null
+          served_at: string | null
+          status: string
+          subtotal: number
+          tab_id: string | null
+          table_number: string | null
+          taxes: number
+          total: number
+        }
+        Insert: {
+          accepted_at?: string | null
+          amount_tendered?: number | null
+          business_date?: string
+          cancelled_at?: string | null
+          change_given?: number | null
+          completed_at?: string | null
+          created_at?: string
+          customer_id?: string | null
+          customer_name?: string | null
+          delivered_at?: string | null
+          discount?: number
+          done_items?: number[]
+          id: string
+          items: Json
+          order_number?: string
+          paid_at?: string | null
+          payment_method?: string | null
+          payment_recorded_by?: string | null
+          payment_status?: string
+          points_discount?: number
+          points_redeemed?: number
+          preparing_at?: string | null
+          promo_code?: string | null
+          ready_at?: string | null
+          refunded_amount?: number
+          rejected_at?: string | null
+          rejection_code?: string | null
+          rejection_reason?: string | null
+          room_number?: string | null
+          served_at?: string | null
+          status?: string
+          subtotal: number
+          tab_id: string | null
+          table_number?: string | null
+          taxes?: number
+          total: number
+        }
+        Update: {
+          accepted_at?: string | null
+          amount_tendered?: number | null
+          business_date?: string
+          cancelled_at?: string | null
+          change_given?: number | null
+          completed_at?: string | null
+          created_at?: string
+          customer_id?: string | null
+          customer_name?: string | null
+          delivered_at?: string | null
+          discount?: number
+          done_items?: number[]
+          id?: string
+          items?: Json
+          order_number?: string
+          paid_at?: string | null
+          payment_method?: string | null
+          payment_recorded_by?: string | null
+          payment_status?: string
+          points_discount?: number
+          points_redeemed?: number
+          preparing_at?: string | null
+          promo_code?: string | null
+          ready_at?: string | null
+          refunded_amount?: number
+          rejected_at?: string | null
+          rejection_code?: string | null
+          rejection_reason?: string | null
+          room_number?: string | null
+          served_at?: string | null
+          status?: string
+          subtotal?: number
+          tab_id?: string | null
+          table_number?: string | null
+          taxes?: number
+          total?: number
+        }
+        Relationships: []
+      }
+      payment_intents: {
+        Row: {
+          amount: number
+          created_at: string
+          currency: string
+          id: string
+          order_id: string
+          provider: string
+          provider_ref: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          currency?: string
+          id?: string
+          order_id: string
+          provider: string
+          provider_ref?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          currency?: string
+          id?: string
+          order_id?: string
+          provider?: string
+          provider_ref?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      promotions: {
+        Row: {
+          categories: string[] | null
+          code: string
+          created_at: string
+          description: string | null
+          discount_type: string
+          discount_value: number
+          ends_at: string | null
+          happy_hour_end: string | null
+          happy_hour_start: string | null
+          id: string
+          is_active: boolean
+          max_discount: number | null
+          min_order_value: number
+          starts_at: string | null
+          times_used: number
+          usage_limit: number | null
+        }
+        Insert: {
+          categories?: string[] | null
+          code: string
+          created_at?: string
+          description?: string | null
+          discount_type: string
+          discount_value: number
+          ends_at?: string | null
+          happy_hour_end?: string | null
+          happy_hour_start?: string | null
+          id?: string
+          is_active?: boolean
+          max_discount?: number | null
+          min_order_value?: number
+          starts_at?: string | null
+          times_used?: number
+          usage_limit?: number | null
+        }
+        Update: {
+          categories?: string[] | null
+          code?: string
+          created_at?: string
+          description?: string | null
+          discount_type?: string
+          discount_value?: number
+          ends_at?: string | null
+          happy_hour_end?: string | null
+          happy_hour_start?: string | null
+          id?: string
+          is_active?: boolean
+          max_discount?: number | null
+          min_order_value?: number
+          starts_at?: string | null
+          times_used?: number
+          usage_limit?: number | null
+        }
+        Relationships: []
+      }
+      push_subscriptions: {
+        Row: {
+          auth: string | null
+          created_at: string
+          endpoint: string
+          id: string
+          order_id: string
+          p256dh: string | null
+          provider: string
+        }
+        Insert: {
+          auth?: string | null
+          created_at?: string
+          endpoint: string
+          id?: string
+          order_id: string
+          p256dh?: string | null
+          provider: string
+        }
+        Update: {
+          auth?: string | null
+          created_at?: string
+          endpoint?: string
+          id?: string
+          order_id?: string
+          p256dh?: string | null
+          provider?: string
+        }
+        Relationships: []
+      }
+      rating_sources: {
+        Row: {
+          display_order: number | null
+          icon: string | null
+          id: string
+          name: string
+          url: string
+        }
+        Insert: {
+          display_order?: number | null
+          icon?: string | null
+          id?: string
+          name: string
+          url: string
+        }
+        Update: {
+          display_order?: number | null
+          icon?: string | null
+          id?: string
+          name?: string
+          url?: string
+        }
+        Relationships: []
+      }
+      staff: {
+        Row: {
+          active: boolean
+          created_at: string
+          display_name: string | null
+          email: string
+          role: Database["public"]["Enums"]["staff_role"]
+          user_id: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          display_name?: string | null
+          email: string
+          role: Database["public"]["Enums"]["staff_role"]
+          user_id: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          display_name?: string | null
+          email?: string
+          role?: Database["public"]["Enums"]["staff_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      stuck_orders: {
+        Row: {
+          attempts: number
+          customer_name: string | null
+          items: Json
+          last_error: string | null
+          location: string | null
+          order_id: string
+          payment_method: string
+          queued_at: string
+          reported_at: string
+          resolved_at: string | null
+          resolved_by: string | null
+          total: number
+        }
+        Insert: {
+          attempts?: number
+          customer_name?: string | null
+          items?: Json
+          last_error?: string | null
+          location?: string | null
+          order_id: string
+          payment_method: string
+          queued_at: string
+          reported_at?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          total: number
+        }
+        Update: {
+          attempts?: number
+          customer_name?: string | null
+          items?: Json
+          last_error?: string | null
+          location?: string | null
+          order_id?: string
+          payment_method?: string
+          queued_at?: string
+          reported_at?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          total?: number
+        }
+        Relationships: []
+      }
+      tabs: {
+        Row: {
+          amount_tendered: number | null
+          change_given: number | null
+          closed_at: string | null
+          closed_by: string | null
+          id: string
+          location_code: string
+          opened_at: string
+          payment_method: string | null
+          status: string
+        }
+        Insert: {
+          amount_tendered?: number | null
+          change_given?: number | null
+          closed_at?: string | null
+          closed_by?: string | null
+          id?: string
+          location_code: string
+          opened_at?: string
+          payment_method?: string | null
+          status?: string
+        }
+        Update: {
+          amount_tendered?: number | null
+          change_given?: number | null
+          closed_at?: string | null
+          closed_by?: string | null
+          id?: string
+          location_code?: string
+          opened_at?: string
+          payment_method?: string | null
+          status?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      bill_line_amount: {
+        Args: {
+          p_line: Json
+        }
+        Returns: number
+      }
+      close_location: {
+        Args: {
+          p_code: string
+        }
+        Returns: number
+      }
+      create_payment_intent: {
+        Args: {
+          p_order_id: string
+          p_provider: string
+        }
+        Returns: {
+          amount: number
+          created_at: string
+          currency: string
+          id: string
+          order_id: string
+          provider: string
+          provider_ref: string | null
+          status: string
+          updated_at: string
+        }
+      }
+      customer_from_token: {
+        Args: {
+          p_token: string
+        }
+        Returns: string
+      }
+      current_staff_role: {
+        Args: Record<PropertyKey, never>
+        Returns: Database["public"]["Enums"]["staff_role"]
+      }
+      end_customer_session: {
+        Args: {
+          p_token: string
+        }
+        Returns: undefined
+      }
+      format_order_number: {
+        Args: {
+          p_number: number
+        }
+        Returns: string
+      }
+      get_customer_profile: {
+        Args: {
+          p_token: string
+        }
+        Returns: {
+          created_at: string
+          id: string
+          name: string | null
+          phone: string
+          points_balance: number
+        }
+      }
+      get_location_links: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          code: string
+          sig: string
+        }[]
+      }
+      get_promotion: {
+        Args: {
+          p_code: string
+        }
+        Returns: {
+          categories: string[] | null
+          code: string
+          created_at: string
+          description: string | null
+          discount_type: string
+          discount_value: number
+          ends_at: string | null
+          happy_hour_end: string | null
+          happy_hour_start: string | null
+          id: string
+          is_active: boolean
+          max_discount: number | null
+          min_order_value: number
+          starts_at: string | null
+          times_used: number
+          usage_limit: number | null
+        }
+      }
+      location_signature: {
+        Args: {
+          p_code: string
+        }
+        Returns: string
+      }
+      place_order: {
+        Args: {
+          p_order_id: string
+          p_items: Json
+          p_payment_method: string
+          p_customer_name?: string | null
+          p_room_number?: string | null
+          p_promo_code?: string | null
+          p_customer_token?: string | null
+          p_redeem_points?: number
+          p_location?: string | null
+          p_location_sig?: string | null
+        }
+        Returns: {
+          accepted_at: string | null
+          amount_tendered: number | null
+          business_date: string
+          cancelled_at: string | null
+          change_given: number | null
+          completed_at: string | null
+          created_at: string
+          customer_id: string | null
+          customer_name: string | null
+          delivered_at: string | null
+          discount: number
+          done_items: number[]
+          id: string
+          items: Json
+          order_number: string
+          paid_at: string | null
+          payment_method: string | null
+          payment_recorded_by: string | null
+          payment_status: string
+          points_discount: number
+          points_redeemed: number
+          preparing_at: string | null
+          promo_code: string | null
+          ready_at: string | null
+          refunded_amount: number
+          rejected_at: string | null
+          rejection_code: string | null
+          rejection_reason: string | null
+          room_number: string | null
+          served_at: string | null
+          status: string
+          subtotal: number
+          tab_id: string | null
+          table_number: string | null
+          taxes: number
+          total: number
+        }
+      }
+      record_counter_payment: {
+        Args: {
+          p_amount_tendered: number
+          p_order_id: string
+        }
+        Returns: {
+          accepted_at: string | null
+          amount_tendered: number | null
+          business_date: string
+          cancelled_at: string | null
+          change_given: number | null
+          completed_at: string | null
+          created_at: string
+          customer_id: string | null
+          customer_name: string | null
+          delivered_at: string | null
+          discount: number
+          done_items: number[]
+          id: string
+          items: Json
+          order_number: string
+          paid_at: string | null
+          payment_method: string | null
+          payment_recorded_by: string | null
+          payment_status: string
+          points_discount: number
+          points_redeemed: number
+          preparing_at: string | null
+          promo_code: string | null
+          ready_at: string | null
+          refunded_amount: number
+          rejected_at: string | null
+          rejection_code: string | null
+          rejection_reason: string | null
+          room_number: string | null
+          served_at: string | null
+          status: string
+          subtotal: number
+          tab_id: string | null
+          table_number: string | null
+          taxes: number
+          total: number
+        }
+      }
+      record_split_payment: {
+        Args: {
+          p_amount_tendered: number
+          p_split_id: string
+        }
+        Returns: {
+          amount: number
+          amount_tendered: number | null
+          change_given: number | null
+          created_at: string
+          id: string
+          label: string
+          lines: number[] | null
+          order_id: string | null
+          paid_at: string | null
+          payment_method: string
+          payment_recorded_by: string | null
+          payment_status: string
+          position: number
+          tab_id: string | null
+        }
+      }
+      refund_order_payment: {
+        Args: {
+          p_amount: number
+          p_order_id: string
+        }
+        Returns: {
+          accepted_at: string | null
+          amount_tendered: number | null
+          business_date: string
+          cancelled_at: string | null
+          change_given: number | null
+          completed_at: string | null
+          created_at: string
+          customer_id: string | null
+          customer_name: string | null
+          delivered_at: string | null
+          discount: number
+          done_items: number[]
+          id: string
+          items: Json
+          order_number: string
+          paid_at: string | null
+          payment_method: string | null
+          payment_recorded_by: string | null
+          payment_status: string
+          points_discount: number
+          points_redeemed: number
+          preparing_at: string | null
+          promo_code: string | null
+          ready_at: string | null
+          refunded_amount: number
+          rejected_at: string | null
+          rejection_code: string | null
+          rejection_reason: string | null
+          room_number: string | null
+          served_at: string | null
+          status: string
+          subtotal: number
+          tab_id: string | null
+          table_number: string | null
+          taxes: number
+          total: number
+        }
+      }
+      report_stuck_order: {
+        Args: {
+          p_order_id: string
+          p_items: Json
+          p_total: number
+          p_payment_method: string
+          p_customer_name: string | null
+          p_location: string | null
+          p_attempts: number
+          p_last_error: string | null
+          p_queued_at: string
+        }
+        Returns: undefined
+      }
+      request_customer_otp: {
+        Args: {
+          p_phone: string
+        }
+        Returns: string
+      }
+      save_push_subscription: {
+        Args: {
+          p_order_id: string
+          p_provider: string
+          p_endpoint: string
+          p_p256dh?: string | null
+          p_auth?: string | null
+        }
+        Returns: undefined
+      }
+      settle_tab: {
+        Args: {
+          p_amount_tendered: number
+          p_payment_method: string
+          p_tab_id: string
+        }
+        Returns: {
+          amount_tendered: number | null
+          change_given: number | null
+          closed_at: string | null
+          closed_by: string | null
+          id: string
+          location_code: string
+          opened_at: string
+          payment_method: string | null
+          status: string
+        }
+      }
+      simulate_payment_result: {
+        Args: {
+          p_intent_id: string
+          p_outcome: string
+        }
+        Returns: {
+          amount: number
+          created_at: string
+          currency: string
+          id: string
+          order_id: string
+          provider: string
+          provider_ref: string | null
+          status: string
+          updated_at: string
+        }
+      }
+      split_bill: {
+        Args: {
+          p_customer_token?: string
+          p_order_id?: string
+          p_splits?: Json
+          p_tab_id?: string
+        }
+        Returns: {
+          amount: number
+          amount_tendered: number | null
+          change_given: number | null
+          created_at: string
+          id: string
+          label: string
+          lines: number[] | null
+          order_id: string | null
+          paid_at: string | null
+          payment_method: string
+          payment_recorded_by: string | null
+          payment_status: string
+          position: number
+          tab_id: string | null
+        }[]
+      }
+      verify_customer_otp: {
+        Args: {
+          p_phone: string
+          p_code: string
+          p_name?: string | null
+        }
+        Returns: string | null
+      }
+      verify_location: {
+        Args: {
+          p_code: string
+          p_sig: string
+        }
+        Returns: {
+          code: string
+          created_at: string
+          is_active: boolean
+          kind: string
+          name: string
+          zone: string | null
+        }
+      }
     }
     Enums: {
-      [_ in never]: never
+      staff_role: "owner" | "manager" | "barista" | "cashier"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Lock, User, ShieldAlert, Coffee, AlertTriangle } from 'lucide-react';
+import { Lock, Mail, ShieldAlert, Coffee, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormMessage } from '@/components/ui/form';
@@ -11,10 +11,11 @@ import { toast } from 'sonner';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
+import { useAuth } from '@/context/AuthContext';
 
 // Form validation schema with stronger password requirements
 const loginSchema = z.object({
-  username: z.string().min(1, 'Username is required'),
+  email: z.string().min(1, 'Email is required').email('Enter a valid email address'),
   password: z.string().min(8, 'Password must be at least 8 characters'),
 });
 
@@ -25,6 +26,7 @@ const LOCKOUT_TIME = 10 * 60 * 1000; // 10 minutes
 const Admin = () => {
   const navigate = useNavigate();
   const location = useLocation();
+  const { signIn } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
   const [redirectMessage, setRedirectMessage] = useState<string | null>(null);
   const [loginAttempts, setLoginAttempts] = useState(0);
@@ -34,7 +36,7 @@ const Admin = () => {
   const form = useForm<z.infer<typeof loginSchema>>({
     resolver: zodResolver(loginSchema),
     defaultValues: {
-      username: '',
+      email: '',
       password: '',
     },
   });
@@ -44,11 +46,10 @@ const Admin = () => {
     // Extract redirected state if it exists
     const fromProtected = location.state?.fromProtected;
     
-    if (fromProtected) {
+    if (location.state?.forbidden) {
+      setRedirectMessage('Your staff role does not have access to that page');
+    } else if (fromProtected) {
       setRedirectMessage('Authentication required to access the admin dashboard');
-      
-      // Clear admin status to force re-authentication
-      localStorage.removeItem('isAdmin');
     }
     
     // Load stored login attempts and lockout time
@@ -93,7 +94,7 @@ const Admin = () => {
         toast.error(`Too many login attempts. Please try again in 10 minutes.`);
       } else {
         const remaining = MAX_LOGIN_ATTEMPTS - newAttempts;
-        toast.error(`Invalid admin credentials. ${remaining} attempts remaining.`);
+        toast.error(`Login failed. ${remaining} attempts remaining.`);
       }
       return false;
     }
@@ -122,22 +123,14 @@ const Admin = () => {
     setIsLoading(true);
     
     try {
-      // Check for admin credentials with new secure password
-      if (values.username !== 'admin' || values.password !== 'barista@4444') {
-        setIsLoading(false);
-        updateLoginAttempts(false);
-        return;
-      }
+      // Sign in with Supabase Auth; signIn also checks the account is active staff
+      const member = await signIn(values.email, values.password);
       
       // Update login attempts counter
       updateLoginAttempts(true);
-      
-      // Simply store admin status without session timeout info
-      localStorage.setItem('isAdmin', 'true');
-      localStorage.setItem('adminSecurityKey', 'barista-secured-dashboard-key');
 
-      toast.success('Login successful');
-      navigate('/admin/dashboard1');
+      toast.success(`Welcome, ${member.display_name || member.email}`);
+      navigate(location.state?.from || '/admin/dashboard1', { replace: true });
     } catch (error: any) {
       toast.error(error.message || 'Login failed');
       updateLoginAttempts(false);
@@ -161,7 +154,7 @@ const Admin = () => {
           
           <h1 className="mb-2 text-center text-2xl font-bold text-cafe-dark">Admin Login</h1>
           <p className="mb-6 text-center text-sm text-cafe-text/60">
-            Enter credentials to access the admin panel
+            Sign in with your staff account to access the admin panel
           </p>
           
           {redirectMessage && (
@@ -179,14 +172,16 @@ const Admin = () => {
             <form onSubmit={form.handleSubmit(handleLogin)} className="space-y-4">
               <FormField
                 control={form.control}
-                name="username"
+                name="email"
                 render={({ field }) => (
                   <FormItem>
                     <div className="relative">
-                      <User className="absolute left-3 top-3 h-4 w-4 text-cafe-text/40" />
+                      <Mail className="absolute left-3 top-3 h-4 w-4 text-cafe-text/40" />
                       <FormControl>
                         <Input 
-                          placeholder="Username" 
+                          type="email"
+                          autoComplete="username"
+                          placeholder="Staff email" 
                           className="pl-10" 
                           {...field} 
                         />
@@ -207,6 +202,7 @@ const Admin = () => {
                       <FormControl>
                         <Input 
                           type="password" 
+                          autoComplete="current-password"
                           placeholder="Password" 
                           className="pl-10" 
                           {...field} 
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef, forwardRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Receipt, List, Menu, BarChart4, FileText, Download, MessageSquare } from 'lucide-react';
+import { Receipt, List, Menu, BarChart4, FileText, Download, MessageSquare, Wallet, MapPin } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import PageTransition from '@/components/PageTransition';
@@ -9,6 +9,14 @@ import { supabase } from '@/integrations/supabase/client';
 import { LogOut } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import Logo from '@/components/Logo';
+import { useAuth } from '@/context/AuthContext';
+import { assertPermission } from '@/utils/permissions';
+import { OrderStatus, ORDER_STATUS_LABELS } from '@/utils/orderStatus';
+import { formatSplitRate, getOrderPricing, GSTIN } from '@/utils/pricing';
+import { formatOptions, getLineOptions, SelectedOption } from '@/utils/modifiers';
+import { ComboChild, formatComboChildren, getLineChildren } from '@/utils/combos';
+import { getOrderNumber } from '@/utils/orderNumber';
+import TaxBreakdown from '@/components/bill/TaxBreakdown';
 
 // Import the admin components
 import AdminHeader from '@/components/admin/AdminHeader';
@@ -16,29 +24,55 @@ import InventoryManagement from '@/components/admin/InventoryManagement';
 import OrderManagement from '@/components/admin/OrderManagement';
 import SalesAnalytics from '@/components/admin/SalesAnalytics';
 import ContactMessages from '@/components/admin/ContactMessages';
+import CashierPanel from '@/components/admin/CashierPanel';
+import LocationManagement from '@/components/admin/LocationManagement';
 
 // Define types for the order item
 export type OrderItemType = {
   id: string;
+  itemId?: string;
   name: string;
   price: number;
   quantity: number;
   size?: string;
   category?: string;
-  options?: Record<string, any>;
+  options?: SelectedOption[];
+  comboId?: string;
+  children?: ComboChild[];
+  discount?: number; // share of the order's promo code discount
 };
 
 // Define types for the order
 export type OrderType = {
   id: string;
+  order_number?: string;
   items: OrderItemType[];
   subtotal: number;
+  discount?: number;
+  promo_code?: string | null;
+  points_redeemed?: number;
+  points_discount?: number;
   taxes: number;
   total: number;
-  status: string;
+  status: OrderStatus;
   payment_method: string | null;
   created_at: string;
-  approved_at: string | null;
+  accepted_at?: string | null;
+  preparing_at?: string | null;
+  ready_at?: string | null;
+  served_at?: string | null;
+  delivered_at?: string | null;
+  completed_at?: string | null;
+  rejected_at?: string | null;
+  cancelled_at?: string | null;
+  done_items?: number[];
+  rejection_code?: string | null;
+  rejection_reason?: string | null;
+  payment_status?: string;
+  paid_at?: string | null;
+  amount_tendered?: number | null;
+  change_given?: number | null;
+  refunded_amount?: number;
   table_number?: string;
   room_number?: string;
   customer_name?: string;
@@ -58,7 +92,8 @@ const BillDisplay = forwardRef<HTMLDivElement, BillDisplayProps>(({ order, isGen
     <div ref={ref} className="p-4 bg-white rounded-lg">
       <div className="text-center mb-4 pb-2 border-b">
         <h3 className="font-bold text-lg">Cafe Receipt</h3>
-        <p className="text-sm text-gray-500">Order #{order.id}</p>
+        {GSTIN && <p className="text-sm text-gray-500">GSTIN: {GSTIN}</p>}
+        <p className="text-sm text-gray-500">Order #{getOrderNumber(order)}</p>
         <p className="text-sm text-gray-500">Date: {formatDate(order.created_at)}</p>
         <p className="text-sm text-gray-500">Room: {order.room_number || order.table_number || 'Not specified'}</p>
         {order.customer_name && (
@@ -67,7 +102,9 @@ const BillDisplay = forwardRef<HTMLDivElement, BillDisplayProps>(({ order, isGen
         <p className="text-sm text-gray-500">
           Payment: {order.payment_method === 'card' ? 'Card' : 
                     order.payment_method === 'cash' ? 'Cash' : 
-                    order.payment_method === 'qr' ? 'QR / UPI' : 'Unknown'}
+                    order.payment_method === 'qr' ? 'QR / UPI' :
+                    order.payment_method === 'tab' ? 'Tab' :
+                    order.payment_method === 'split' ? 'Split bill' : 'Unknown'}
         </p>
       </div>
       
@@ -81,6 +118,12 @@ const BillDisplay = forwardRef<HTMLDivElement, BillDisplayProps>(({ order, isGen
                   <span className="font-medium">{item.quantity} x </span>
                   <span>{item.name}</span>
                   {item.size && <span className="text-xs ml-1">({item.size})</span>}
+                  {getLineOptions(item).length > 0 && (
+                    <div className="text-xs text-gray-500">{formatOptions(getLineOptions(item))}</div>
+                  )}
+                  {getLineChildren(item).length > 0 && (
+                    <div className="text-xs text-gray-500">{formatComboChildren(getLineChildren(item))}</div>
+                  )}
                 </div>
                 <span>₹{(item.price * item.quantity).toFixed(2)}</span>
               </div>
@@ -96,10 +139,19 @@ const BillDisplay = forwardRef<HTMLDivElement, BillDisplayProps>(({ order, isGen
           <span>Subtotal:</span>
           <span>₹{order.subtotal.toFixed(2)}</span>
         </div>
-        <div className="flex justify-between text-sm">
-          <span>Taxes:</span>
-          <span>₹{order.taxes.toFixed(2)}</span>
-        </div>
+        {order.discount > 0 && (
+          <div className="flex justify-between text-sm">
+            <span>Discount{order.promo_code ? ` (${order.promo_code})` : ''}:</span>
+            <span>-₹{order.discount.toFixed(2)}</span>
+          </div>
+        )}
+        <TaxBreakdown pricing={getOrderPricing(order)} />
+        {order.points_discount > 0 && (
+          <div className="flex justify-between text-sm">
+            <span>Paid with {order.points_redeemed} points:</span>
+            <span>-₹{order.points_discount.toFixed(2)}</span>
+          </div>
+        )}
         <div className="flex justify-between font-bold mt-2 pt-2 border-t">
           <span>Total:</span>
           <span>₹{order.total.toFixed(2)}</span>
@@ -111,33 +163,12 @@ const BillDisplay = forwardRef<HTMLDivElement, BillDisplayProps>(({ order, isGen
 
 const AdminDashboard = () => {
   const navigate = useNavigate();
+  const { role, can } = useAuth();
   const [selectedOrder, setSelectedOrder] = useState<OrderType | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [isGeneratingBill, setIsGeneratingBill] = useState(false);
   const billRefObject = useRef<HTMLDivElement>(null);
   
-  // Check if user is authenticated with security key
-  useEffect(() => {
-    const checkAuth = async () => {
-      const isAdmin = localStorage.getItem('isAdmin');
-      const securityKey = localStorage.getItem('adminSecurityKey');
-      
-      if (isAdmin !== 'true' || securityKey !== 'barista-secured-dashboard-key') {
-        navigate('/admin');
-        toast.error('Please login first');
-      }
-    };
-    
-    checkAuth();
-  }, [navigate]);
-  
-  const handleLogout = () => {
-    localStorage.removeItem('isAdmin');
-    localStorage.removeItem('adminSecurityKey');
-    toast.success('Logged out successfully');
-    navigate('/admin');
-  };
-  
   // Format date
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString('en-US', {
@@ -166,22 +197,19 @@ const AdminDashboard = () => {
     setDialogOpen(true);
   };
 
-  const handleOrderStatusChange = async (orderId: string, status: 'approved' | 'rejected') => {
+  const handleOrderStatusChange = async (orderId: string, status: OrderStatus) => {
     try {
-      // Include approved_at timestamp when approving
-      const updateData = {
-        status,
-        approved_at: status === 'approved' ? new Date().toISOString() : null
-      };
-      
+      assertPermission(role, 'orders.updateStatus');
+
+      // The database stamps the matching *_at column for the new status
       const { error } = await supabase
         .from('orders')
-        .update(updateData)
+        .update({ status })
         .eq('id', orderId);
       
       if (error) throw error;
       
-      toast.success(`Order ${status === 'approved' ? 'approved' : 'rejected'} successfully`);
+      toast.success(`Order marked as ${ORDER_STATUS_LABELS[status].toLowerCase()}`);
     } catch (error) {
       console.error('Error updating order status:', error);
       toast.error('Failed to update order status');
@@ -219,12 +247,15 @@ const AdminDashboard = () => {
   const generateBillText = (order: OrderType): string => {
     let text = '';
     text += '======== CAFE RECEIPT ========\n\n';
-    text += `Order: #${order.id}\n`;
+    if (GSTIN) text += `GSTIN: ${GSTIN}\n`;
+    text += `Order: #${getOrderNumber(order)}\n`;
     text += `Date: ${formatDate(order.created_at)}\n`;
     text += `Table: ${order.table_number || 'Takeaway'}\n`;
     text += `Payment: ${order.payment_method === 'card' ? 'Card' : 
               order.payment_method === 'cash' ? 'Cash' : 
-              order.payment_method === 'qr' ? 'QR / UPI' : 'Unknown'}\n\n`;
+              order.payment_method === 'qr' ? 'QR / UPI' :
+              order.payment_method === 'tab' ? 'Tab' :
+              order.payment_method === 'split' ? 'Split bill' : 'Unknown'}\n\n`;
     
     text += '----------- ITEMS ------------\n\n';
     
@@ -233,6 +264,8 @@ const AdminDashboard = () => {
         text += `${item.quantity} x ${item.name}`;
         if (item.size) text += ` (${item.size})`;
         text += `\t₹${(item.price * item.quantity).toFixed(2)}\n`;
+        if (getLineOptions(item).length > 0) text += `  ${formatOptions(getLineOptions(item))}\n`;
+        if (getLineChildren(item).length > 0) text += `  ${formatComboChildren(getLineChildren(item))}\n`;
       });
     } else {
       text += 'No items found\n';
@@ -240,53 +273,115 @@ const AdminDashboard = () => {
     
     text += '\n-----------------------------\n\n';
     text += `Subtotal:\t₹${order.subtotal.toFixed(2)}\n`;
-    text += `Taxes:\t\t₹${order.taxes.toFixed(2)}\n`;
+    if (order.discount > 0) {
+      text += `Discount${order.promo_code ? ` (${order.promo_code})` : ''}:\t-₹${order.discount.toFixed(2)}\n`;
+    }
+    getOrderPricing(order).taxLines.forEach(taxLine => {
+      text += `CGST @ ${formatSplitRate(taxLine.rate)}:\t₹${taxLine.cgst.toFixed(2)}\n`;
+      text += `SGST @ ${formatSplitRate(taxLine.rate)}:\t₹${taxLine.sgst.toFixed(2)}\n`;
+    });
+    if (order.points_discount > 0) {
+      text += `Paid with ${order.points_redeemed} points:\t-₹${order.points_discount.toFixed(2)}\n`;
+    }
     text += `TOTAL:\t\t₹${order.total.toFixed(2)}\n\n`;
     text += '========= THANK YOU =========\n';
     
     return text;
   };
 
+  // Only show the tabs the signed-in role is allowed to use
+  const visibleTabCount = [
+    can('menu.view'),
+    can('orders.view'),
+    can('payments.collect'),
+    can('analytics.view'),
+    can('messages.view'),
+    can('locations.view')
+  ].filter(Boolean).length;
+
   return (
     <PageTransition className="min-h-screen bg-cafe-bg">
       <AdminHeader />
       
       <main className="container mx-auto max-w-4xl p-4 pb-20">
         <Tabs defaultValue="orders" className="w-full">
-          <TabsList className="grid grid-cols-4 mb-6">
-            <TabsTrigger value="inventory" className="flex items-center gap-2">
-              <List size={16} />
-              Inventory
-            </TabsTrigger>
-            <TabsTrigger value="orders" className="flex items-center gap-2">
-              <Receipt size={16} />
-              Orders
-            </TabsTrigger>
-            <TabsTrigger value="analytics" className="flex items-center gap-2">
-              <BarChart4 size={16} />
-              Analytics
-            </TabsTrigger>
-            <TabsTrigger value="messages" className="flex items-center gap-2">
-              <MessageSquare size={16} />
-              Messages
-            </TabsTrigger>
+          <TabsList
+            className="grid mb-6"
+            style={{ gridTemplateColumns: `repeat(${visibleTabCount}, minmax(0, 1fr))` }}
+          >
+            {can('menu.view') && (
+              <TabsTrigger value="inventory" className="flex items-center gap-2">
+                <List size={16} />
+                Inventory
+              </TabsTrigger>
+            )}
+            {can('orders.view') && (
+              <TabsTrigger value="orders" className="flex items-center gap-2">
+                <Receipt size={16} />
+                Orders
+              </TabsTrigger>
+            )}
+            {can('payments.collect') && (
+              <TabsTrigger value="payments" className="flex items-center gap-2">
+                <Wallet size={16} />
+                Payments
+              </TabsTrigger>
+            )}
+            {can('analytics.view') && (
+              <TabsTrigger value="analytics" className="flex items-center gap-2">
+                <BarChart4 size={16} />
+                Analytics
+              </TabsTrigger>
+            )}
+            {can('messages.view') && (
+              <TabsTrigger value="messages" className="flex items-center gap-2">
+                <MessageSquare size={16} />
+                Messages
+              </TabsTrigger>
+            )}
+            {can('locations.view') && (
+              <TabsTrigger value="locations" className="flex items-center gap-2">
+                <MapPin size={16} />
+                Tables
+              </TabsTrigger>
+            )}
           </TabsList>
           
-          <TabsContent value="inventory">
-            <InventoryManagement />
-          </TabsContent>
+          {can('menu.view') && (
+            <TabsContent value="inventory">
+              <InventoryManagement />
+            </TabsContent>
+          )}
+          
+          {can('orders.view') && (
+            <TabsContent value="orders">
+              <OrderManagement onViewBill={viewOrderDetails} onOrderStatusChange={handleOrderStatusChange} />
+            </TabsContent>
+          )}
           
-          <TabsContent value="orders">
-            <OrderManagement onViewBill={viewOrderDetails} onOrderStatusChange={handleOrderStatusChange} />
-          </TabsContent>
+          {can('payments.collect') && (
+            <TabsContent value="payments">
+              <CashierPanel />
+            </TabsContent>
+          )}
           
-          <TabsContent value="analytics">
-            <SalesAnalytics />
-          </TabsContent>
+          {can('analytics.view') && (
+            <TabsContent value="analytics">
+              <SalesAnalytics />
+            </TabsContent>
+          )}
           
-          <TabsContent value="messages">
-            <ContactMessages />
-          </TabsContent>
+          {can('messages.view') && (
+            <TabsContent value="messages">
+              <ContactMessages />
+            </TabsContent>
+          )}
+          
+          {can('locations.view') && (
+            <TabsContent value="locations">
+              <LocationManagement />
+            </TabsContent>
+          )}
         </Tabs>
       </main>
       
@@ -294,7 +389,7 @@ const AdminDashboard = () => {
       <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
         <DialogContent className="max-w-md">
           <DialogHeader>
-            <DialogTitle>Order #{selectedOrder?.id}</DialogTitle>
+            <DialogTitle>Order #{selectedOrder && getOrderNumber(selectedOrder)}</DialogTitle>
           </DialogHeader>
           
           {selectedOrder && (
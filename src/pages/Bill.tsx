@@ -1,15 +1,29 @@
 import React, { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { Check, ArrowRight, Download, Share2, Printer } from 'lucide-react';
+import { Check, ArrowRight, Download, Share2, Printer, Gift, Receipt, Users } from 'lucide-react';
 import PageTransition from '@/components/PageTransition';
 import { useBillActions } from '@/hooks/useBillActions';
 import { useCart } from '@/context/CartContext';
+import { useCustomer } from '@/context/CustomerContext';
+import { useAuth } from '@/context/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import Logo from '@/components/Logo';
 import { Button } from '@/components/ui/button';
 import BillDisplayComponent from '@/components/bill/BillDisplay';
+import SplitBillDialog from '@/components/bill/SplitBillDialog';
+import SplitBills from '@/components/bill/SplitBills';
+import { formatSplitRate, getOrderPricing, GSTIN } from '@/utils/pricing';
+import { formatOptions, getLineOptions } from '@/utils/modifiers';
+import { formatComboChildren, getLineChildren } from '@/utils/combos';
+import { getPointsEarned, getPointsValue } from '@/utils/loyalty';
+import { combineTabOrders, getTabDue, TabOrder, TAB_PAYMENT_METHOD } from '@/utils/tabs';
+import { getOrderLocation } from '@/utils/locations';
+import { getOrderNumber } from '@/utils/orderNumber';
+import type { Tables } from '@/integrations/supabase/types';
+import { isCounterPayment } from '@/utils/paymentStatus';
+import { SPLIT_PAYMENT_METHOD, SplitRequest } from '@/utils/splitBill';
 
 // Missing component: Success Message
 const SuccessMessage = () => (
@@ -24,6 +38,44 @@ const SuccessMessage = () => (
   </div>
 );
 
+// Points this order earned and the guest's balance, for guests who signed in with their phone
+const LoyaltyBalance = ({ pointsEarned, balance }: { pointsEarned: number; balance: number }) => (
+  <div className="bg-amber-50 border border-amber-100 rounded-lg p-4 flex items-center">
+    <div className="bg-amber-100 rounded-full p-1 mr-3">
+      <Gift className="h-5 w-5 text-cafe" />
+    </div>
+    <div>
+      <h3 className="text-cafe-dark font-medium">
+        {pointsEarned > 0 ? `You earned ${pointsEarned} points` : 'Loyalty points'}
+      </h3>
+      <p className="text-cafe-text/70 text-sm">
+        Balance: {balance} points, worth ₹{getPointsValue(balance).toFixed(2)} off your next order
+      </p>
+    </div>
+  </div>
+);
+
+// The running bill for every round ordered on the table's tab
+const TabSummary = ({ tab, rounds, due, location }: { tab: Tables<'tabs'>; rounds: number; due: number; location: string | null }) => (
+  <div className="bg-amber-50 border border-amber-100 rounded-lg p-4 flex items-center">
+    <div className="bg-amber-100 rounded-full p-1 mr-3">
+      <Receipt className="h-5 w-5 text-cafe" />
+    </div>
+    <div>
+      <h3 className="text-cafe-dark font-medium">
+        {tab.status === 'open' ? 'Your running tab' : 'Tab settled'}{location ? ` for ${location}` : ''}
+      </h3>
+      <p className="text-cafe-text/70 text-sm">
+        {tab.status === 'open'
+          ? `${rounds} ${rounds === 1 ? 'order' : 'orders'} so far. ₹${due.toFixed(2)} to pay at the counter when you leave`
+          : tab.payment_method === SPLIT_PAYMENT_METHOD
+            ? `${rounds} ${rounds === 1 ? 'order' : 'orders'}, split and paid share by share`
+            : `${rounds} ${rounds === 1 ? 'order' : 'orders'}, paid by ${tab.payment_method}`}
+      </p>
+    </div>
+  </div>
+);
+
 // Missing component: Ratings Prompt
 const RatingsPrompt = () => (
   <div className="bg-amber-50 rounded-xl p-4 border border-amber-100">
@@ -66,7 +118,7 @@ const BillDisplay = React.forwardRef<HTMLDivElement, { orderId: string, orderDat
       <div className="text-sm mb-4">
         <div className="flex justify-between">
           <span>Receipt #:</span>
-          <span className="font-medium">{orderId.slice(0, 8).toUpperCase()}</span>
+          <span className="font-medium">{getOrderNumber({ id: orderId, order_number: orderData.order_number })}</span>
         </div>
         <div className="flex justify-between">
           <span>Date:</span>
@@ -82,6 +134,12 @@ const BillDisplay = React.forwardRef<HTMLDivElement, { orderId: string, orderDat
             <span>{orderData.room_number}</span>
           </div>
         )}
+        {orderData.table_number && (
+          <div className="flex justify-between">
+            <span>Table:</span>
+            <span>{orderData.table_number}</span>
+          </div>
+        )}
         {orderData.customer_name && (
           <div className="flex justify-between">
             <span>Customer:</span>
@@ -99,6 +157,8 @@ const Bill: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const { clearCart } = useCart();
+  const { token, profile, refreshProfile } = useCustomer();
+  const { role } = useAuth();
   
   // Log the incoming state immediately
   console.log("Bill page mounted with location state:", location.state);
@@ -144,6 +204,10 @@ const Bill: React.FC = () => {
   const [isLoading, setIsLoading] = useState(!initialOrderData);
   const [fetchError, setFetchError] = useState<string | null>(null);
   const [hasFetched, setHasFetched] = useState(false);
+  const [tab, setTab] = useState<Tables<'tabs'> | null>(null);
+  const [tabOrders, setTabOrders] = useState<TabOrder[]>([]);
+  const [splits, setSplits] = useState<Tables<'bill_splits'>[]>([]);
+  const [showSplitDialog, setShowSplitDialog] = useState(false);
   
   const {
     billRef,
@@ -245,27 +309,165 @@ const Bill: React.FC = () => {
     // to prevent refresh issues
   }, [orderId, clearCart, orderData, hasFetched, navigate]);
 
+  // Points are added when the order is accepted, so reload the balance for this receipt
+  useEffect(() => {
+    if (orderData?.customer_id) refreshProfile();
+  }, [orderData?.customer_id]);
+
+  // Orders on a tab are billed together, so load every round on it
+  useEffect(() => {
+    const tabId = orderData?.tab_id;
+    if (!tabId) return;
+
+    const fetchTab = async () => {
+      try {
+        const { data: tabRow, error } = await supabase
+          .from('tabs')
+          .select('*')
+          .eq('id', tabId)
+          .single();
+
+        if (error) throw error;
+
+        const { data: rounds, error: roundsError } = await supabase
+          .from('orders')
+          .select('*')
+          .eq('tab_id', tabId);
+
+        if (roundsError) throw roundsError;
+
+        setTab(tabRow);
+        setTabOrders(rounds || []);
+      } catch (error) {
+        console.error('Error fetching tab:', error);
+        toast.error('Could not load your tab');
+      }
+    };
+
+    fetchTab();
+
+    // New rounds and the final payment show up while the bill is open
+    const subscription = supabase
+      .channel(`tab_${tabId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'orders', filter: `tab_id=eq.${tabId}` }, fetchTab)
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [orderData?.tab_id]);
+
+  // A tab's bill covers all its rounds; it is paid by cash or card once settled
+  const billData = tab && tabOrders.length > 0
+    ? {
+        ...orderData,
+        ...combineTabOrders(tabOrders),
+        payment_method: tab.status === 'open' ? TAB_PAYMENT_METHOD : tab.payment_method
+      }
+    : orderData;
+  const isTabBill = Boolean(tab) && tabOrders.length > 0;
+  const billNumber = isTabBill
+    ? [...tabOrders]
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .map(order => getOrderNumber(order))
+        .join(', ')
+    : getOrderNumber({ id: orderId, order_number: orderData?.order_number });
+
+  // A tab is split as a whole; other orders on their own
+  const splitTarget = tab ? { column: 'tab_id' as const, id: tab.id } : orderData && !orderData.tab_id
+    ? { column: 'order_id' as const, id: orderData.id as string }
+    : null;
+  // split_bill only takes staff, or a guest who ordered on the bill while signed in
+  const isOwnBill = Boolean(profile) && (tab
+    ? tabOrders.some(order => order.customer_id === profile?.id)
+    : orderData?.customer_id === profile?.id);
+  const canSplit = Boolean(splitTarget) && (Boolean(role) || isOwnBill) && (tab
+    ? tab.status === 'open' && getTabDue(tabOrders) > 0
+    : orderData?.payment_status === 'unpaid' && isCounterPayment(orderData?.payment_method)
+      && orderData?.status !== 'rejected' && orderData?.status !== 'cancelled');
+
+  useEffect(() => {
+    if (!splitTarget) return;
+
+    const fetchSplits = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('bill_splits')
+          .select('*')
+          .eq(splitTarget.column, splitTarget.id)
+          .order('position');
+
+        if (error) throw error;
+        setSplits(data || []);
+      } catch (error) {
+        console.error('Error fetching bill splits:', error);
+      }
+    };
+
+    fetchSplits();
+
+    // Shares are marked paid as the cashier collects them
+    const subscription = supabase
+      .channel(`splits_${splitTarget.id}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'bill_splits', filter: `${splitTarget.column}=eq.${splitTarget.id}` }, fetchSplits)
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [splitTarget?.column, splitTarget?.id]);
+
+  // Saves the split, or with no shares turns it back into one bill
+  const saveSplit = async (shares: SplitRequest[]) => {
+    if (!splitTarget) return;
+
+    try {
+      const { data, error } = await supabase.rpc('split_bill', {
+        [splitTarget.column === 'tab_id' ? 'p_tab_id' : 'p_order_id']: splitTarget.id,
+        p_splits: shares,
+        p_customer_token: token ?? undefined
+      });
+
+      if (error) throw error;
+
+      setSplits(data || []);
+      setShowSplitDialog(false);
+      toast.success(shares.length > 0 ? `Bill split between ${shares.length} people` : 'Back to one bill');
+    } catch (error) {
+      console.error('Error splitting bill:', error);
+      toast.error(error?.code === 'P0001' ? error.message : 'Could not split the bill');
+    }
+  };
+
   // Implement share functionality
   const handleShare = async () => {
-    if (!orderData) return;
+    if (!billData) return;
 
     const receiptText = `
 Barista @ Star Hospital - Receipt
+${GSTIN ? `GSTIN: ${GSTIN}` : ''}
 ---------------------------
-Order #${orderId.slice(0, 8).toUpperCase()}
-Date: ${new Date(orderData.created_at).toLocaleDateString()}
-Time: ${new Date(orderData.created_at).toLocaleTimeString()}
-${orderData.customer_name ? `Customer: ${orderData.customer_name}` : ''}
-${orderData.room_number ? `Room/Ward: ${orderData.room_number}` : ''}
+${isTabBill ? `Orders: ${billNumber}` : `Order #${billNumber}`}
+Date: ${new Date(billData.created_at).toLocaleDateString()}
+Time: ${new Date(billData.created_at).toLocaleTimeString()}
+${billData.customer_name ? `Customer: ${billData.customer_name}` : ''}
+${billData.room_number ? `Room/Ward: ${billData.room_number}` : ''}
+${billData.table_number ? `Table: ${billData.table_number}` : ''}
 ---------------------------
 Items:
-${orderData.items.map((item: any) => 
-  `${item.name} x${item.quantity || 1} - ₹${((item.price || 0) * (item.quantity || 1)).toFixed(2)}`
+${billData.items.map((item: any) => 
+  `${item.name} x${item.quantity || 1} - ₹${((item.price || 0) * (item.quantity || 1)).toFixed(2)}` +
+  (getLineOptions(item).length > 0 ? `\n  ${formatOptions(getLineOptions(item))}` : '') +
+  (getLineChildren(item).length > 0 ? `\n  ${formatComboChildren(getLineChildren(item))}` : '')
 ).join('\n')}
 ---------------------------
-Subtotal: ₹${orderData.subtotal.toFixed(2)}
-${orderData.taxes ? `Taxes: ₹${orderData.taxes.toFixed(2)}` : ''}
-Total: ₹${orderData.total.toFixed(2)}
+Subtotal: ₹${billData.subtotal.toFixed(2)}${billData.discount > 0
+  ? `\nDiscount${billData.promo_code ? ` (${billData.promo_code})` : ''}: -₹${Number(billData.discount).toFixed(2)}`
+  : ''}
+${getOrderPricing(billData).taxLines.map(taxLine =>
+  `CGST @ ${formatSplitRate(taxLine.rate)}: ₹${taxLine.cgst.toFixed(2)}\nSGST @ ${formatSplitRate(taxLine.rate)}: ₹${taxLine.sgst.toFixed(2)}`
+).join('\n')}
+${billData.points_discount > 0 ? `Paid with ${billData.points_redeemed} points: -₹${Number(billData.points_discount).toFixed(2)}\n` : ''}Total: ₹${billData.total.toFixed(2)}
 ---------------------------
 Thank you for visiting Barista @ Star Hospital!
 `.trim();
@@ -317,7 +519,7 @@ Thank you for visiting Barista @ Star Hospital!
         printWindow.document.write(`
           <html>
             <head>
-              <title>Barista @ Star Hospital - Receipt #${orderId}</title>
+              <title>Barista @ Star Hospital - Receipt #${billNumber}</title>
               <style>
                 body { font-family: Arial, sans-serif; padding: 20px; }
                 .bill-content { max-width: 400px; margin: 0 auto; }
@@ -430,6 +632,28 @@ Thank you for visiting Barista @ Star Hospital!
           <SuccessMessage />
         </motion.div>
         
+        {orderData.customer_id && profile?.id === orderData.customer_id && (
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            transition={{ type: "spring", stiffness: 300, damping: 25, delay: 0.4 }}
+            className="mb-6"
+          >
+            <LoyaltyBalance pointsEarned={getPointsEarned(orderData.total)} balance={profile.points_balance} />
+          </motion.div>
+        )}
+        
+        {tab && tabOrders.length > 0 && (
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            transition={{ type: "spring", stiffness: 300, damping: 25, delay: 0.4 }}
+            className="mb-6"
+          >
+            <TabSummary tab={tab} rounds={billData.rounds} due={getTabDue(tabOrders)} location={getOrderLocation(orderData)} />
+          </motion.div>
+        )}
+        
         {/* Bill display with paper effect */}
         <motion.div
           className="relative mb-6"
@@ -442,12 +666,33 @@ Thank you for visiting Barista @ Star Hospital!
           <div className="bg-white rounded-2xl shadow-md p-6 relative z-10 border border-amber-100">
             <BillDisplayComponent 
               ref={billRef}
-              orderId={orderData.id}
-              orderData={orderData}
+              orderId={billNumber}
+              orderData={billData}
             />
           </div>
         </motion.div>
         
+        {splits.length > 0 ? (
+          <div className="mb-6">
+            <SplitBills splits={splits} items={billData.items} onUndo={canSplit ? () => saveSplit([]) : undefined} />
+          </div>
+        ) : canSplit && (
+          <div className="mb-6 flex justify-center">
+            <Button variant="outline" className="border-cafe/20 hover:border-cafe/40 hover:bg-amber-50" onClick={() => setShowSplitDialog(true)}>
+              <Users className="h-4 w-4 mr-2 text-cafe" />
+              Split the bill
+            </Button>
+          </div>
+        )}
+        
+        <SplitBillDialog
+          open={showSplitDialog}
+          items={billData.items}
+          due={Number(billData.total)}
+          onClose={() => setShowSplitDialog(false)}
+          onConfirm={saveSplit}
+        />
+        
         {/* Bill actions with enhanced buttons */}
         <motion.div
           className="space-y-4 mb-8"
@@ -524,7 +769,7 @@ Thank you for visiting Barista @ Star Hospital!
           animate={{ opacity: 1 }}
           transition={{ delay: 1.2 }}
         >
-          <p>Order #{orderData.id} • {new Date(orderData.created_at).toLocaleDateString()}</p>
+          <p>Order #{getOrderNumber(orderData)} • {new Date(orderData.created_at).toLocaleDateString()}</p>
           <p className="mt-1">Thank you for visiting Barista @ Star Hospital</p>
         </motion.footer>
       </div>
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Link } from 'react-router-dom';
-import { ChevronLeft, ShoppingCart, Trash2, Building, User } from 'lucide-react';
+import { ChevronLeft, ShoppingCart, Trash2, Building, User, MapPin } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -17,15 +17,20 @@ import {
 } from "@/components/ui/alert-dialog";
 import Logo from '@/components/Logo';
 import CartItem from '@/components/CartItem';
+import PromoCodeField from '@/components/PromoCodeField';
+import LoyaltySignIn from '@/components/LoyaltySignIn';
+import TaxBreakdown from '@/components/bill/TaxBreakdown';
 import PageTransition from '@/components/PageTransition';
 import { useCart } from '@/context/CartContext';
+import { clearSavedLocation, getSavedLocation } from '@/utils/locations';
 import { toast } from 'sonner';
 
 const Cart = () => {
-  const { items, totalItems, subtotal, total, clearCart } = useCart();
+  const { items, totalItems, subtotal, total, pricing, promotion, clearCart } = useCart();
   const [clearDialogOpen, setClearDialogOpen] = useState(false);
   const [roomNumber, setRoomNumber] = useState('');
   const [customerName, setCustomerName] = useState('');
+  const [location, setLocation] = useState(() => getSavedLocation());
 
   // Load delivery info from localStorage if exists
   useEffect(() => {
@@ -74,7 +79,7 @@ const Cart = () => {
   };
 
   const handleProceedToPayment = () => {
-    if (!roomNumber && items.length > 0) {
+    if (!location && !roomNumber && items.length > 0) {
       toast.warning("Please enter your room number for delivery");
       return false;
     }
@@ -162,34 +167,69 @@ const Cart = () => {
                 </div>
               </div>
               
-              <div className="mb-4">
-                <Label htmlFor="roomNumber" className="text-sm text-cafe-text/70 mb-1 block">
-                  Room/Ward Number <span className="text-red-500">*</span>
-                </Label>
-                <div className="relative">
-                  <Building className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                  <Input
-                    id="roomNumber"
-                    placeholder="Enter room or ward number"
-                    value={roomNumber}
-                    onChange={handleRoomNumberChange}
-                    className="pl-10"
-                    required
-                  />
+              {location ? (
+                <div className="mb-4 flex items-center justify-between gap-2 rounded-lg bg-cafe/5 p-3">
+                  <div className="flex items-center gap-2">
+                    <MapPin size={16} className="text-cafe" />
+                    <div>
+                      <p className="text-sm font-semibold">{location.name}</p>
+                      <p className="text-xs text-cafe-text/70">From the QR code on your {location.kind}</p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      clearSavedLocation();
+                      setLocation(null);
+                    }}
+                  >
+                    Change
+                  </Button>
                 </div>
-                <p className="text-xs text-cafe-text/60 mt-1">
-                  Required for delivery in the hospital
-                </p>
-              </div>
+              ) : (
+                <div className="mb-4">
+                  <Label htmlFor="roomNumber" className="text-sm text-cafe-text/70 mb-1 block">
+                    Room/Ward Number <span className="text-red-500">*</span>
+                  </Label>
+                  <div className="relative">
+                    <Building className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                    <Input
+                      id="roomNumber"
+                      placeholder="Enter room or ward number"
+                      value={roomNumber}
+                      onChange={handleRoomNumberChange}
+                      className="pl-10"
+                      required
+                    />
+                  </div>
+                  <p className="text-xs text-cafe-text/60 mt-1">
+                    Required for delivery in the hospital
+                  </p>
+                </div>
+              )}
+              
+              <LoyaltySignIn customerName={customerName} />
               
               <h3 className="mb-3 font-semibold">Order Summary</h3>
               
+              <PromoCodeField />
+              
               <div className="space-y-2 text-sm">
                 <div className="flex justify-between">
                   <span className="text-cafe-text/70">Subtotal</span>
                   <span>₹{(typeof subtotal === 'number' && !isNaN(subtotal) ? subtotal : 0).toFixed(2)}</span>
                 </div>
                 
+                {pricing.discount > 0 && (
+                  <div className="flex justify-between text-green-700">
+                    <span>Discount ({promotion?.code})</span>
+                    <span>-₹{pricing.discount.toFixed(2)}</span>
+                  </div>
+                )}
+                
+                <TaxBreakdown pricing={pricing} className="flex justify-between text-cafe-text/70" />
+                
                 <div className="pt-2 border-t border-cafe/10 flex justify-between font-semibold">
                   <span>Total</span>
                   <span>₹{(typeof total === 'number' && !isNaN(total) ? total : 0).toFixed(2)}</span>
@@ -0,0 +1,287 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AnimatePresence, motion } from 'framer-motion';
+import { ArrowLeft, Check, ChefHat, Clock, RefreshCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import PageTransition from '@/components/PageTransition';
+import Logo from '@/components/Logo';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/context/AuthContext';
+import { OrderType } from '@/pages/AdminDashboard';
+import { assertPermission } from '@/utils/permissions';
+import { getNextStatus, IN_PROGRESS_STATUSES, OrderStatus, ORDER_STATUS_LABELS } from '@/utils/orderStatus';
+import { formatOptions, getLineOptions } from '@/utils/modifiers';
+import { getLineChildren } from '@/utils/combos';
+import { getOrderNumber } from '@/utils/orderNumber';
+
+// One column per kitchen stage
+const KITCHEN_COLUMNS: { status: OrderStatus; title: string }[] = [
+  { status: 'accepted', title: 'New' },
+  { status: 'preparing', title: 'Preparing' },
+  { status: 'ready', title: 'Ready' }
+];
+
+// Tickets are grouped and coloured by how long the customer has been waiting
+const AGE_GROUPS = [
+  { label: 'Over 10 min', minMinutes: 10, className: 'border-red-500 bg-red-50', textClassName: 'text-red-600' },
+  { label: '5–10 min', minMinutes: 5, className: 'border-amber-400 bg-amber-50', textClassName: 'text-amber-600' },
+  { label: 'Under 5 min', minMinutes: 0, className: 'border-green-500 bg-white', textClassName: 'text-green-700' }
+];
+
+const getAgeGroup = (minutes: number) => AGE_GROUPS.find(group => minutes >= group.minMinutes) ?? AGE_GROUPS[AGE_GROUPS.length - 1];
+
+const Kitchen = () => {
+  const navigate = useNavigate();
+  const { role, can } = useAuth();
+  const [orders, setOrders] = useState<OrderType[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [now, setNow] = useState(Date.now());
+
+  // Fetch every order the kitchen is working on, oldest first
+  const fetchOrders = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('orders')
+        .select('*')
+        .in('status', IN_PROGRESS_STATUSES)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      setOrders((data || []).map(order => ({
+        ...order,
+        status: order.status as OrderStatus,
+        done_items: order.done_items ?? [],
+        items: typeof order.items === 'string' ? JSON.parse(order.items) : order.items
+      })));
+    } catch (error) {
+      console.error('Error fetching kitchen orders:', error);
+      toast.error('Failed to load kitchen orders');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchOrders();
+
+    // Same realtime channel as the order list in the dashboard
+    const subscription = supabase
+      .channel('orders_channel')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'orders' }, fetchOrders)
+      .subscribe();
+
+    // Re-age the tickets every 15 seconds
+    const clockInterval = setInterval(() => setNow(Date.now()), 15000);
+
+    return () => {
+      subscription.unsubscribe();
+      clearInterval(clockInterval);
+    };
+  }, []);
+
+  // Tick an item off (or back on) for every kitchen screen
+  const toggleItemDone = async (order: OrderType, index: number) => {
+    const doneItems = order.done_items ?? [];
+    const nextDoneItems = doneItems.includes(index)
+      ? doneItems.filter(itemIndex => itemIndex !== index)
+      : [...doneItems, index].sort((a, b) => a - b);
+
+    try {
+      assertPermission(role, 'orders.updateStatus');
+
+      setOrders(prev => prev.map(o => (o.id === order.id ? { ...o, done_items: nextDoneItems } : o)));
+
+      const { error } = await supabase
+        .from('orders')
+        .update({ done_items: nextDoneItems })
+        .eq('id', order.id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error updating ticket items:', error);
+      toast.error('Failed to update item');
+      fetchOrders();
+    }
+  };
+
+  // Move the whole ticket to its next stage
+  const bumpOrder = async (order: OrderType) => {
+    const nextStatus = getNextStatus(order);
+    if (!nextStatus) return;
+
+    try {
+      assertPermission(role, 'orders.updateStatus');
+
+      const { error } = await supabase
+        .from('orders')
+        .update({ status: nextStatus })
+        .eq('id', order.id);
+
+      if (error) throw error;
+
+      toast.success(`Order #${getOrderNumber(order)} marked as ${ORDER_STATUS_LABELS[nextStatus].toLowerCase()}`);
+      fetchOrders();
+    } catch (error) {
+      console.error('Error bumping order:', error);
+      toast.error('Failed to bump order');
+    }
+  };
+
+  const getWaitMinutes = (order: OrderType) => Math.max(0, Math.floor((now - new Date(order.created_at).getTime()) / 60000));
+
+  const renderTicket = (order: OrderType) => {
+    const minutes = getWaitMinutes(order);
+    const ageGroup = getAgeGroup(minutes);
+    const nextStatus = getNextStatus(order);
+    const doneItems = order.done_items ?? [];
+    const items = Array.isArray(order.items) ? order.items : [];
+    const allDone = items.length > 0 && items.every((_, index) => doneItems.includes(index));
+
+    return (
+      <motion.div
+        key={order.id}
+        layout
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className={`rounded-lg border-l-8 shadow-sm p-4 ${ageGroup.className}`}
+      >
+        <div className="flex items-start justify-between mb-3">
+          <div>
+            <h3 className="text-xl font-bold text-cafe-dark">#{getOrderNumber(order)}</h3>
+            <p className="text-sm text-cafe-text/70">
+              {order.room_number ? `Room ${order.room_number}` : order.table_number ? `Table ${order.table_number}` : 'Counter'}
+              {order.customer_name && ` · ${order.customer_name}`}
+            </p>
+          </div>
+          <span className={`flex items-center gap-1 text-lg font-semibold ${ageGroup.textClassName}`}>
+            <Clock size={18} />
+            {minutes}m
+          </span>
+        </div>
+
+        <ul className="space-y-2 mb-4">
+          {items.map((item, index) => {
+            const isDone = doneItems.includes(index);
+
+            return (
+              <li key={index}>
+                <button
+                  type="button"
+                  onClick={() => toggleItemDone(order, index)}
+                  disabled={!can('orders.updateStatus')}
+                  className={`w-full flex items-start gap-3 rounded-md p-2 text-left transition-colors
+                    ${isDone ? 'bg-green-100/70 text-cafe-text/50' : 'bg-white/70 hover:bg-cafe/10'}`}
+                >
+                  <span className={`mt-1 flex h-6 w-6 shrink-0 items-center justify-center rounded border-2
+                    ${isDone ? 'border-green-600 bg-green-600 text-white' : 'border-cafe/40'}`}
+                  >
+                    {isDone && <Check size={16} />}
+                  </span>
+                  <span className="flex-1">
+                    <span className={`block text-2xl font-bold ${isDone ? 'line-through' : 'text-cafe-dark'}`}>
+                      {item.quantity} × {item.name}
+                      {item.size && <span className="ml-2 rounded bg-cafe px-2 py-0.5 text-xl text-white">{item.size}</span>}
+                    </span>
+                    {getLineOptions(item).length > 0 && (
+                      <span className="block text-lg font-medium text-cafe-text">
+                        {formatOptions(getLineOptions(item), false)}
+                      </span>
+                    )}
+                    {getLineChildren(item).map(child => (
+                      <span key={child.slot} className="block text-lg font-medium text-cafe-text">
+                        • {child.name}{child.size && ` (${child.size})`}
+                      </span>
+                    ))}
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+
+        {nextStatus && can('orders.updateStatus') && (
+          <Button
+            className={`w-full h-12 text-lg ${allDone ? 'bg-green-600 hover:bg-green-700' : 'bg-cafe hover:bg-cafe-dark'}`}
+            onClick={() => bumpOrder(order)}
+          >
+            Bump to {ORDER_STATUS_LABELS[nextStatus]}
+          </Button>
+        )}
+      </motion.div>
+    );
+  };
+
+  return (
+    <PageTransition className="min-h-screen bg-cafe-bg">
+      <header className="sticky top-0 z-10 bg-white/90 backdrop-blur-md shadow-sm">
+        <div className="mx-auto p-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Logo size="sm" />
+            <span className="flex items-center gap-2 text-xl font-bold text-cafe-dark">
+              <ChefHat size={22} />
+              Kitchen
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={fetchOrders} disabled={loading}>
+              <RefreshCcw size={14} className={`mr-1 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => navigate('/admin/dashboard1')}>
+              <ArrowLeft size={16} className="mr-1" />
+              Dashboard
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="p-4">
+        {loading ? (
+          <div className="text-center py-16 text-cafe-text">Loading tickets...</div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            {KITCHEN_COLUMNS.map(column => {
+              const columnOrders = orders.filter(order => order.status === column.status);
+
+              return (
+                <section key={column.status} className="rounded-xl bg-white/50 p-3">
+                  <h2 className="mb-3 flex items-center justify-between text-lg font-semibold text-cafe-dark">
+                    {column.title}
+                    <span className="rounded-full bg-cafe/10 px-3 py-0.5 text-sm">{columnOrders.length}</span>
+                  </h2>
+
+                  {columnOrders.length === 0 ? (
+                    <p className="py-8 text-center text-sm text-cafe-text/50">No tickets</p>
+                  ) : (
+                    AGE_GROUPS.map(group => {
+                      const groupOrders = columnOrders.filter(order => getAgeGroup(getWaitMinutes(order)) === group);
+                      if (groupOrders.length === 0) return null;
+
+                      return (
+                        <div key={group.label} className="mb-4">
+                          <h3 className={`mb-2 text-xs font-semibold uppercase tracking-wide ${group.textClassName}`}>
+                            {group.label}
+                          </h3>
+                          <div className="space-y-3">
+                            <AnimatePresence>
+                              {groupOrders.map(renderTicket)}
+                            </AnimatePresence>
+                          </div>
+                        </div>
+                      );
+                    })
+                  )}
+                </section>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </PageTransition>
+  );
+};
+
+export default Kitchen;
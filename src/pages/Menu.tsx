@@ -1,15 +1,20 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence, useScroll, useTransform } from 'framer-motion';
 import { Link } from 'react-router-dom';
-import { ShoppingBag, Search, X, Coffee, CupSoda, Dessert, Soup, Fish, ChevronDown } from 'lucide-react';
+import { ShoppingBag, Search, X, Coffee, CupSoda, Dessert, Soup, Fish, ChevronDown, History, MapPin, CloudOff } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import Logo from '@/components/Logo';
 import MenuCategory from '@/components/MenuCategory';
 import RecommendedItems from '@/components/RecommendedItems';
+import ComboDeals from '@/components/ComboDeals';
 import PageTransition from '@/components/PageTransition';
 import { useCart } from '@/context/CartContext';
-import { MenuItemType, MenuCategoryType } from '@/utils/menuData';
+import { useScannedLocation } from '@/hooks/useScannedLocation';
+import { MenuItemType, MenuCategoryType, parseMenuSizes } from '@/utils/menuData';
+import { getItemModifierGroups, parseModifierGroup } from '@/utils/modifiers';
+import { ComboType, parseCombo } from '@/utils/combos';
+import { formatSnapshotAge, getMenuSnapshot, isSnapshotStale, MenuSnapshot, saveMenuSnapshot } from '@/utils/menuCache';
 import FAQButton from '@/components/FAQButton'; 
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
@@ -18,14 +23,18 @@ import { Loader2 } from 'lucide-react';
 const Menu: React.FC = () => {
   // References and state
   const { totalItems, items: cartItems } = useCart();
+  const { location } = useScannedLocation();
   const [searchQuery, setSearchQuery] = useState('');
   const [filteredMenu, setFilteredMenu] = useState<MenuCategoryType[]>([]);
   const [menuItems, setMenuItems] = useState<MenuCategoryType[]>([]);
   const [recommendedItems, setRecommendedItems] = useState<MenuItemType[]>([]);
+  const [combos, setCombos] = useState<ComboType[]>([]);
   const [activeCategory, setActiveCategory] = useState<string | null>(null);
   const [showCategoryDropdown, setShowCategoryDropdown] = useState(false);
   const [isSearchFocused, setIsSearchFocused] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  // When the menu comes from the offline cache, the time it was fetched
+  const [cachedMenuAt, setCachedMenuAt] = useState<string | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
   const { scrollY } = useScroll();
   
@@ -37,19 +46,58 @@ const Menu: React.FC = () => {
   
   // Fetch menu data from menu table (only available items)
   useEffect(() => {
-    const fetchMenuData = async () => {
-      setIsLoading(true);
-      try {
-        // Fetch all available menu items from menu table
-        const { data: menuData, error } = await supabase
-          .from('menu')
+    const fetchMenuRows = async (): Promise<MenuSnapshot> => {
+      // Fetch all available menu items from menu table
+      const { data: menuData, error } = await supabase
+        .from('menu')
+      .select('*')
+        .eq('is_available', true) // Only available items
+        .order('item_name');
+        
+      if (error) {
+        throw error;
+      }
+
+      const { data: groupRows, error: groupsError } = await supabase
+        .from('modifier_groups')
+        .select('*');
+
+      if (groupsError) {
+        throw groupsError;
+      }
+
+      const { data: comboRows, error: combosError } = await supabase
+        .from('combos')
         .select('*')
-          .eq('is_available', true) // Only available items
-          .order('item_name');
-          
-        if (error) {
-          throw error;
+        .eq('is_available', true)
+        .order('name');
+
+      if (combosError) {
+        throw combosError;
+      }
+
+      return { menu: menuData || [], modifierGroups: groupRows || [], combos: comboRows || [], fetchedAt: new Date().toISOString() };
+    };
+
+    const fetchMenuData = async (showLoader = true) => {
+      if (showLoader) setIsLoading(true);
+      try {
+        let rows: MenuSnapshot;
+        try {
+          rows = await fetchMenuRows();
+          saveMenuSnapshot(rows);
+          setCachedMenuAt(null);
+        } catch (error) {
+          // Offline: show the menu as it was last fetched
+          const cached = getMenuSnapshot();
+          if (!cached) throw error;
+          console.error('Error fetching menu data, showing the cached menu:', error);
+          rows = cached;
+          setCachedMenuAt(cached.fetchedAt);
         }
+
+        const { menu: menuData, combos: comboRows } = rows;
+        const modifierGroups = rows.modifierGroups.map(parseModifierGroup);
         
         // Transform menu items into menu format
         const categorizedItems: { [category: string]: MenuItemType[] } = {};
@@ -64,6 +112,8 @@ const Menu: React.FC = () => {
             id: item.id.toString(),
             name: item.item_name,
             price: item.price,
+            sizes: parseMenuSizes(item.sizes),
+            modifierGroups: getItemModifierGroups(modifierGroups, { id: item.id, category }),
             category: category,
             description: item.description,
             image: '' // Set a default empty string since image_url doesn't exist in the database
@@ -106,6 +156,7 @@ const Menu: React.FC = () => {
         setMenuItems(menuCategories);
         setFilteredMenu(menuCategories);
         setRecommendedItems(recommended);
+        setCombos((comboRows || []).map(parseCombo));
         
         // Set active category to first category if any exist
         if (menuCategories.length > 0 && !activeCategory) {
@@ -120,6 +171,14 @@ const Menu: React.FC = () => {
     };
     
     fetchMenuData();
+
+    // Swap the cached menu for the live one once the connection is back
+    const handleOnline = () => fetchMenuData(false);
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+    };
   }, []);
   
   // Filter menu items based on search query
@@ -228,6 +287,12 @@ const Menu: React.FC = () => {
             
             <div className="flex items-center gap-3">
               <FAQButton />
+
+              <Link to="/orders" aria-label="My orders">
+                <motion.div whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}>
+                  <History size={20} className="text-cafe" />
+                </motion.div>
+              </Link>
               
               <Link to="/cart" className="relative">
                 <motion.div
@@ -247,6 +312,25 @@ const Menu: React.FC = () => {
             </div>
           </div>
           
+          {location && (
+            <p className="mt-2 flex items-center gap-1 text-xs text-cafe-text/70">
+              <MapPin size={12} className="text-cafe" />
+              Ordering for {location.name}
+            </p>
+          )}
+          
+          {cachedMenuAt && (
+            <p
+              className={`mt-2 inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs ${
+                isSnapshotStale(cachedMenuAt) ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-800'
+              }`}
+            >
+              <CloudOff size={12} />
+              Offline · menu from {formatSnapshotAge(cachedMenuAt)}
+              {isSnapshotStale(cachedMenuAt) && ', prices may have changed'}
+            </p>
+          )}
+          
           <motion.div 
             initial={{ opacity: 0, y: -10 }}
             animate={{ opacity: 1, y: 0 }}
@@ -314,6 +398,7 @@ const Menu: React.FC = () => {
             transition={{ delay: 0.4 }}
           >
             <RecommendedItems items={recommendedItems} />
+            <ComboDeals combos={combos} menuItems={menuItems.flatMap(category => category.items)} />
           </motion.div>
         )}
         
@@ -0,0 +1,258 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Link, useNavigate } from 'react-router-dom';
+import { ChevronLeft, History, Loader2, RotateCcw, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import Logo from '@/components/Logo';
+import PageTransition from '@/components/PageTransition';
+import { useCart } from '@/context/CartContext';
+import { useCustomer } from '@/context/CustomerContext';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { MenuItemType, parseMenuSizes } from '@/utils/menuData';
+import { getItemModifierGroups, getLineOptions, formatOptions, parseModifierGroup } from '@/utils/modifiers';
+import { formatComboChildren, getLineChildren, parseCombo } from '@/utils/combos';
+import { getRememberedOrderIds, PastOrderLine, planReorder, ReorderPlan } from '@/utils/orderHistory';
+import { OrderStatus, ORDER_STATUS_LABELS } from '@/utils/orderStatus';
+import { getOrderNumber } from '@/utils/orderNumber';
+import { toast } from 'sonner';
+
+type OrderRow = Database['public']['Tables']['orders']['Row'];
+
+// Orders placed from this device, plus the signed-in guest's orders from anywhere
+const MyOrders: React.FC = () => {
+  const navigate = useNavigate();
+  const { addItem, addCombo } = useCart();
+  const { profile } = useCustomer();
+  const [orders, setOrders] = useState<OrderRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reorderingId, setReorderingId] = useState<string | null>(null);
+  const [reorderNotes, setReorderNotes] = useState<{ orderId: string; plan: ReorderPlan } | null>(null);
+
+  useEffect(() => {
+    const fetchOrders = async () => {
+      setIsLoading(true);
+      try {
+        const found: OrderRow[] = [];
+        const rememberedIds = getRememberedOrderIds();
+
+        if (rememberedIds.length > 0) {
+          const { data, error } = await supabase
+            .from('orders')
+            .select('*')
+            .in('id', rememberedIds);
+
+          if (error) throw error;
+          found.push(...(data || []));
+        }
+
+        if (profile) {
+          const { data, error } = await supabase
+            .from('orders')
+            .select('*')
+            .eq('customer_id', profile.id)
+            .order('created_at', { ascending: false })
+            .limit(30);
+
+          if (error) throw error;
+          found.push(...(data || []).filter(order => !found.some(known => known.id === order.id)));
+        }
+
+        setOrders(found.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()));
+      } catch (error) {
+        console.error('Error fetching past orders:', error);
+        toast.error('Could not load your orders');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchOrders();
+  }, [profile?.id]);
+
+  // Rebuilds the cart from today's menu, so prices and availability are current
+  const handleOrderAgain = async (order: OrderRow) => {
+    setReorderingId(order.id);
+    setReorderNotes(null);
+    try {
+      const { data: menuRows, error } = await supabase
+        .from('menu')
+        .select('*')
+        .eq('is_available', true);
+
+      if (error) throw error;
+
+      const { data: groupRows, error: groupsError } = await supabase
+        .from('modifier_groups')
+        .select('*');
+
+      if (groupsError) throw groupsError;
+
+      const { data: comboRows, error: combosError } = await supabase
+        .from('combos')
+        .select('*')
+        .eq('is_available', true);
+
+      if (combosError) throw combosError;
+
+      const modifierGroups = (groupRows || []).map(parseModifierGroup);
+      const menuItems: MenuItemType[] = (menuRows || []).map(item => ({
+        id: item.id.toString(),
+        name: item.item_name,
+        price: item.price,
+        sizes: parseMenuSizes(item.sizes),
+        modifierGroups: getItemModifierGroups(modifierGroups, { id: item.id, category: item.category || 'other' }),
+        category: item.category || 'other',
+        description: item.description,
+        image: ''
+      }));
+
+      const plan = planReorder((order.items || []) as PastOrderLine[], menuItems, (comboRows || []).map(parseCombo));
+
+      plan.lines.forEach(line => {
+        if (line.kind === 'combo') {
+          addCombo(line.combo, line.picked, line.quantity);
+        } else {
+          addItem(line.item, line.size, line.quantity, line.options);
+        }
+      });
+
+      if (plan.lines.length === 0) {
+        toast.error('Nothing from this order is available right now');
+      }
+
+      // Anything left out or repriced is listed on the order before going to the cart
+      if (plan.skipped.length > 0 || plan.repriced.length > 0) {
+        setReorderNotes({ orderId: order.id, plan });
+      } else {
+        navigate('/cart');
+      }
+    } catch (error) {
+      console.error('Error reordering:', error);
+      toast.error('Could not add this order to your cart');
+    } finally {
+      setReorderingId(null);
+    }
+  };
+
+  return (
+    <PageTransition className="min-h-screen coffee-pattern">
+      <header className="sticky top-0 z-10 bg-white/80 backdrop-blur-md shadow-sm">
+        <div className="container max-w-md mx-auto p-4">
+          <div className="flex items-center justify-between">
+            <Link to="/menu" className="flex items-center gap-1 text-cafe-text hover:text-cafe">
+              <ChevronLeft size={18} />
+              <span>Back to Menu</span>
+            </Link>
+
+            <Logo withText={false} />
+          </div>
+
+          <div className="mt-3 flex items-center justify-center">
+            <h1 className="text-xl font-semibold text-cafe-text">My Orders</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="container max-w-md mx-auto p-4">
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-cafe" />
+          </div>
+        ) : orders.length > 0 ? (
+          orders.map(order => {
+            const notes = reorderNotes?.orderId === order.id ? reorderNotes.plan : null;
+
+            return (
+              <motion.div
+                key={order.id}
+                className="cafe-card mb-3 p-4"
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className="font-semibold">Order #{getOrderNumber(order)}</p>
+                    <p className="text-xs text-cafe-text/60">{new Date(order.created_at).toLocaleString()}</p>
+                  </div>
+                  <Badge variant="outline">{ORDER_STATUS_LABELS[order.status as OrderStatus] ?? order.status}</Badge>
+                </div>
+
+                <ul className="mt-3 space-y-1 text-sm">
+                  {((order.items || []) as PastOrderLine[]).map((line, index) => {
+                    const details = getLineChildren(line).length > 0
+                      ? formatComboChildren(getLineChildren(line))
+                      : formatOptions(getLineOptions(line), false);
+
+                    return (
+                      <li key={index} className="flex justify-between gap-2">
+                        <span>
+                          {line.quantity} × {line.size ? `${line.name} (${line.size})` : line.name}
+                          {details && <span className="block text-xs text-cafe-text/60">{details}</span>}
+                        </span>
+                        <span className="whitespace-nowrap">₹{(line.price * line.quantity).toFixed(2)}</span>
+                      </li>
+                    );
+                  })}
+                </ul>
+
+                <div className="mt-3 flex items-center justify-between border-t border-cafe/10 pt-3">
+                  <span className="font-semibold">₹{Number(order.total).toFixed(2)}</span>
+                  <Button
+                    size="sm"
+                    className="bg-cafe hover:bg-cafe-dark"
+                    onClick={() => handleOrderAgain(order)}
+                    disabled={reorderingId !== null}
+                  >
+                    {reorderingId === order.id
+                      ? <Loader2 size={14} className="mr-1 animate-spin" />
+                      : <RotateCcw size={14} className="mr-1" />}
+                    Order again
+                  </Button>
+                </div>
+
+                {notes && (
+                  <div className="mt-3 rounded-lg bg-amber-50 p-3 text-sm text-amber-900">
+                    <div className="mb-1 flex items-center gap-1 font-semibold">
+                      <AlertCircle size={14} />
+                      Some items have changed
+                    </div>
+                    <ul className="space-y-0.5 text-xs">
+                      {notes.skipped.map((note, index) => (
+                        <li key={`skipped-${index}`}>{note.name}: not added, {note.reason}</li>
+                      ))}
+                      {notes.repriced.map((note, index) => (
+                        <li key={`repriced-${index}`}>{note.name}: now ₹{note.now.toFixed(2)} (was ₹{note.was.toFixed(2)})</li>
+                      ))}
+                    </ul>
+                    {notes.lines.length > 0 && (
+                      <Button asChild size="sm" variant="outline" className="mt-2">
+                        <Link to="/cart">Go to cart</Link>
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </motion.div>
+            );
+          })
+        ) : (
+          <div className="cafe-card mt-10 p-8 text-center">
+            <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-cafe/10">
+              <History size={24} className="text-cafe" />
+            </div>
+            <h3 className="text-xl font-semibold">No orders yet</h3>
+            <p className="mt-2 text-muted-foreground">
+              Orders you place from this device{profile ? ' or with your phone number' : ''} show up here
+            </p>
+            <Button asChild className="mt-6 bg-cafe hover:bg-cafe-dark">
+              <Link to="/menu">Browse Menu</Link>
+            </Button>
+          </div>
+        )}
+      </main>
+    </PageTransition>
+  );
+};
+
+export default MyOrders;
@@ -1,17 +1,32 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { Link, useNavigate } from 'react-router-dom';
-import { ChevronLeft, Banknote, CreditCard, QrCode as QrCodeIcon, Loader2, AlertCircle } from 'lucide-react';
+import { ChevronLeft, Banknote, CreditCard, QrCode as QrCodeIcon, Loader2, AlertCircle, Gift, Receipt } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
 import Logo from '@/components/Logo';
 import PageTransition from '@/components/PageTransition';
 import { useCart } from '@/context/CartContext';
+import { useCustomer } from '@/context/CustomerContext';
+import { useOrderOutbox } from '@/context/OrderOutboxContext';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
+import { OrderStatus } from '@/utils/orderStatus';
+import { paymentProvider, PaymentIntent } from '@/integrations/payments';
+import UpiPaymentCard from '@/components/payment/UpiPaymentCard';
+import type { Database } from '@/integrations/supabase/types';
+import { getPointsValue, getRedeemablePoints } from '@/utils/loyalty';
+import { rememberOrder } from '@/utils/orderHistory';
+import { getSavedLocation } from '@/utils/locations';
+import { isRetryableError } from '@/utils/orderOutbox';
+import { generateOrderId } from '@/utils/formatUtils';
+import { getOrderNumber } from '@/utils/orderNumber';
+import { getLineItemId } from '@/utils/menuData';
 
-type PaymentMethod = 'qr' | 'card' | 'cash';
-type OrderStatus = 'pending' | 'approved' | 'rejected';
+type PaymentMethod = 'qr' | 'card' | 'cash' | 'tab';
+type PlacedOrder = Database['public']['Functions']['place_order']['Returns'];
 
 // Define order type to store in database
 export type Order = {
@@ -21,123 +36,219 @@ export type Order = {
   payment_method: PaymentMethod;
   status: OrderStatus;
   created_at: string;
-  approved_at?: string | null;
+  accepted_at?: string | null;
   customer_name?: string;
   table_number?: string;
   subtotal: number;
+  discount?: number;
+  promo_code?: string | null;
+  points_redeemed?: number;
+  points_discount?: number;
   taxes: number;
   room_number: string;
 }
 
 const Payment = () => {
   const navigate = useNavigate();
-  const { total, items, clearCart } = useCart();
+  const { total: cartTotal, taxes, pricing, items, promotion, promotionError, clearCart } = useCart();
+  const { token: customerToken, profile, refreshProfile } = useCustomer();
+  const { queueOrder } = useOrderOutbox();
   const [selectedMethod, setSelectedMethod] = useState<PaymentMethod>('qr');
   const [isProcessing, setIsProcessing] = useState(false);
   const [showCounterDialog, setShowCounterDialog] = useState(false);
-  const [orderId] = useState(`ORD${Date.now().toString().slice(-6)}`);
+  const [orderId] = useState(generateOrderId);
   const [error, setError] = useState<string | null>(null);
   
-  // Generate payment data for QR code
-  const paymentData = JSON.stringify({
-    amount: total.toFixed(2),
-    currency: 'INR',
-    merchantId: 'CAFE123',
-    orderId: orderId,
-    timestamp: new Date().toISOString()
-  });
+  const [placedOrder, setPlacedOrder] = useState<PlacedOrder | null>(null);
+  const [paymentIntent, setPaymentIntent] = useState<PaymentIntent | null>(null);
+  const [usePoints, setUsePoints] = useState(false);
   
-  const handlePayment = () => {
+  // A scanned table or room QR code takes the place of the typed-in room number
+  const location = getSavedLocation();
+  
+  // Loyalty points come off the total after GST, for up to half of it
+  const redeemablePoints = profile ? getRedeemablePoints(profile.points_balance, cartTotal) : 0;
+  const pointsToRedeem = usePoints ? redeemablePoints : 0;
+  const pointsDiscount = getPointsValue(pointsToRedeem);
+  const total = cartTotal - pointsDiscount;
+  
+  // Once an order has been placed its payment method is fixed
+  const selectMethod = (method: PaymentMethod) => {
+    if (!placedOrder) setSelectedMethod(method);
+  };
+  
+  const handlePayment = async () => {
     if (selectedMethod === 'card' || selectedMethod === 'cash') {
       setShowCounterDialog(true);
       return;
     }
     
-    // For QR payment
-    setIsProcessing(true);
-    toast.loading("Checking payment status...");
+    // Tab orders are paid for together when the table settles up
+    if (selectedMethod === 'tab') {
+      setIsProcessing(true);
+      try {
+        const order = await placeOrder();
+        if (order) finishOrder(order);
+      } finally {
+        setIsProcessing(false);
+      }
+      return;
+    }
     
-    // Simulate QR payment processing
-    setTimeout(() => {
+    // For QR payment: place the order, then ask the provider for a payment intent
+    setIsProcessing(true);
+    try {
+      const order = placedOrder ?? await placeOrder();
+      if (!order) return;
+      setPlacedOrder(order);
+      
+      const intent = await paymentProvider.createIntent(order.id);
+      setPaymentIntent(intent);
+    } catch (error) {
+      console.error('Error creating payment intent:', error);
+      toast.error(error?.message || "Could not start the UPI payment");
+    } finally {
       setIsProcessing(false);
-      toast.dismiss();
-      saveOrderToDatabase();
-    }, 2000);
+    }
+  };
+  
+  // Follow the intent until the provider confirms or fails it
+  useEffect(() => {
+    if (!paymentIntent || paymentIntent.status !== 'created') return;
+    
+    const stopWatching = paymentProvider.watchIntent(paymentIntent.id, setPaymentIntent);
+    
+    // Poll as well, in case a realtime update is missed
+    const pollInterval = setInterval(async () => {
+      try {
+        setPaymentIntent(await paymentProvider.getIntent(paymentIntent.id));
+      } catch (error) {
+        console.error('Error checking payment status:', error);
+      }
+    }, 5000);
+    
+    return () => {
+      stopWatching();
+      clearInterval(pollInterval);
+    };
+  }, [paymentIntent?.id, paymentIntent?.status]);
+  
+  useEffect(() => {
+    if (!paymentIntent || !placedOrder) return;
+    
+    if (paymentIntent.status === 'succeeded') {
+      toast.success("Payment received!");
+      finishOrder(placedOrder);
+    } else if (paymentIntent.status === 'failed') {
+      toast.error("Payment failed. Please try again.");
+    }
+  }, [paymentIntent?.status]);
+  
+  const handleSimulatePayment = async (outcome: 'succeeded' | 'failed') => {
+    if (!paymentIntent || !paymentProvider.simulate) return;
+    try {
+      setPaymentIntent(await paymentProvider.simulate(paymentIntent.id, outcome));
+    } catch (error) {
+      console.error('Error simulating payment:', error);
+      toast.error(error?.message || "Could not simulate the payment");
+    }
   };
 
-  const handleCounterPayment = () => {
+  // The order is placed unpaid; the cashier marks it paid once the money is taken
+  const handleCounterPayment = async () => {
     setShowCounterDialog(false);
-    toast.loading("Checking payment status...");
-    setTimeout(() => {
-      toast.dismiss();
-      saveOrderToDatabase();
-    }, 1500);
+    const order = await placeOrder();
+    if (order) finishOrder(order);
   };
 
-  const saveOrderToDatabase = async () => {
-    let order: Order;
+  // Places the order through place_order; returns null if it was not placed
+  const placeOrder = async (): Promise<PlacedOrder | null> => {
+    // Only ids, sizes, options, combo picks and quantities are sent; place_order looks up the prices
+    const orderRequest = {
+      p_order_id: orderId,
+      p_items: items.map(item => item.comboId ? {
+        combo_id: item.comboId,
+        choices: (item.children ?? []).map(child => ({ slot: child.slot, item_id: child.itemId })),
+        quantity: item.quantity
+      } : {
+        item_id: getLineItemId(item),
+        size: item.size || null,
+        options: (item.options ?? []).map(option => ({ group_id: option.groupId, name: option.name })),
+        quantity: item.quantity
+      }),
+      p_payment_method: selectedMethod,
+      p_customer_name: localStorage.getItem('customerName') || null,
+      p_room_number: location ? null : localStorage.getItem('roomNumber') || 'Unknown',
+      // A code that no longer applies to this cart is left off rather than refused
+      p_promo_code: promotion && !promotionError ? promotion.code : null,
+      p_customer_token: customerToken,
+      p_redeem_points: pointsToRedeem,
+      p_location: location?.code ?? null,
+      p_location_sig: location?.sig ?? null,
+    };
     
     try {
-      // Calculate taxes (for example, 5% of the subtotal)
-      const subtotal = typeof total === 'number' && !isNaN(total) ? total : 0;
-      const totalWithTax = subtotal; // Remove tax calculation
-      
-      // Create order object
-      order = {
-        id: orderId,
-        items: items.map(item => ({
-          ...item,
-          price: typeof item.price === 'number' && !isNaN(item.price) 
-            ? item.price 
-            : typeof item.price === 'string' 
-              ? parseFloat(item.price) || 0 
-              : 0
-        })),
-        total: totalWithTax,
-        subtotal: subtotal,
-        taxes: 0, // Set taxes to 0
-        payment_method: selectedMethod,
-        status: 'pending',
-        created_at: new Date().toISOString(),
-        room_number: localStorage.getItem('roomNumber') || 'Unknown',
-      };
-      
-      // Save order to Supabase
-      const { data, error } = await supabase
-        .from('orders')
-        .insert([order])
-        .select();
+      const { data: order, error } = await supabase.rpc('place_order', orderRequest);
       
       if (error) {
         console.error('Error saving order:', error);
         throw error;
       }
       
-      // Clear cart after saving order
-      clearCart();
-      
-      // Show waiting message
-      toast.success("Order placed successfully!");
+      // The server total is authoritative; let the guest know if it moved
+      if (Math.abs(order.total - total) > 0.009) {
+        toast.info(`Prices were updated. Your order total is ₹${order.total.toFixed(2)}`);
+      }
       
-      // Navigate to waiting page with order ID
-      navigate('/waiting', { state: { orderId } });
+      // Redeemed points are taken off the balance straight away
+      if (order.points_redeemed > 0) refreshProfile();
       
+      return order;
     } catch (error) {
       console.error('Error saving order:', error);
-      toast.error("Error processing order");
       
-      // Check if order was defined before the error occurred
-      if (order) {
-        // Fallback to localStorage if database fails
-        const existingOrders = JSON.parse(localStorage.getItem('pendingOrders') || '[]');
-        const updatedOrders = [...existingOrders, order];
-        localStorage.setItem('pendingOrders', JSON.stringify(updatedOrders));
+      // The order was refused (e.g. an item became unavailable): keep the cart so it can be fixed
+      if (error?.code === 'P0001') {
+        toast.error(error.message || "Your order could not be placed");
+        return null;
       }
       
-      // Still proceed to waiting page
+      // UPI has to reach the cafe to take the payment, so only counter and tab orders can wait
+      if (!isRetryableError(error) || selectedMethod === 'qr') {
+        toast.error(selectedMethod === 'qr'
+          ? "Could not reach the cafe. Check your connection, or pay at the counter"
+          : "Error processing order");
+        return null;
+      }
+      
+      // Keep the order on this device and send it once the connection is back
+      try {
+        await queueOrder(orderRequest, items, total, error?.message ?? null);
+      } catch (queueError) {
+        console.error('Error queueing order:', queueError);
+        toast.error("Error processing order");
+        return null;
+      }
+      
+      clearCart();
+      rememberOrder(orderId);
+      toast.info("You're offline. Your order will be sent as soon as the connection is back");
       navigate('/waiting', { state: { orderId } });
+      return null;
     }
   };
+  
+  const finishOrder = (order: PlacedOrder) => {
+    // Clear cart after saving order
+    clearCart();
+    rememberOrder(order.id);
+    
+    // Show waiting message
+    toast.success(`Order #${getOrderNumber(order)} placed successfully!`);
+    
+    // Navigate to waiting page with the canonical order row
+    navigate('/waiting', { state: { orderId: order.id, orderData: order } });
+  };
 
   return (
     <PageTransition className="min-h-screen coffee-pattern">
@@ -162,9 +273,35 @@ const Payment = () => {
         <div className="cafe-card mb-6 p-4">
           <h3 className="font-semibold">Order Total</h3>
           <p className="mt-1 text-2xl font-bold text-cafe">₹{total.toFixed(2)}</p>
-          <p className="text-xs text-cafe-text/70 mt-1">Order ID: {orderId}</p>
+          {pricing.discount > 0 && (
+            <p className="text-xs text-green-700">You save ₹{pricing.discount.toFixed(2)} with {promotion?.code}</p>
+          )}
+          {taxes > 0 && <p className="text-xs text-cafe-text/70">Includes ₹{taxes.toFixed(2)} GST</p>}
+          {pointsDiscount > 0 && (
+            <p className="text-xs text-green-700">₹{pointsDiscount.toFixed(2)} paid with {pointsToRedeem} points</p>
+          )}
         </div>
         
+        {redeemablePoints > 0 && (
+          <div className="cafe-card mb-6 flex items-center gap-3 p-4">
+            <Checkbox
+              id="use-points"
+              checked={usePoints}
+              disabled={Boolean(placedOrder)}
+              onCheckedChange={(checked) => setUsePoints(checked === true)}
+            />
+            <Label htmlFor="use-points" className="flex-1 cursor-pointer">
+              <span className="flex items-center gap-1 font-medium">
+                <Gift size={14} className="text-cafe" />
+                Use {redeemablePoints} points
+              </span>
+              <span className="text-xs font-normal text-cafe-text/70">
+                ₹{getPointsValue(redeemablePoints).toFixed(2)} off · you have {profile?.points_balance} points
+              </span>
+            </Label>
+          </div>
+        )}
+        
         <div className="mb-8">
           <h3 className="mb-3 font-semibold">Select Payment Method</h3>
           
@@ -175,7 +312,7 @@ const Payment = () => {
               title="Scan QR Code"
               description="Pay using any UPI app"
               selected={selectedMethod === 'qr'}
-              onSelect={() => setSelectedMethod('qr')}
+              onSelect={() => selectMethod('qr')}
             />
             
             <PaymentOption
@@ -184,7 +321,7 @@ const Payment = () => {
               title="Card Payment"
               description="Credit or Debit card"
               selected={selectedMethod === 'card'}
-              onSelect={() => setSelectedMethod('card')}
+              onSelect={() => selectMethod('card')}
             />
             
             <PaymentOption
@@ -193,65 +330,58 @@ const Payment = () => {
               title="Cash Payment"
               description="Pay at counter"
               selected={selectedMethod === 'cash'}
-              onSelect={() => setSelectedMethod('cash')}
+              onSelect={() => selectMethod('cash')}
             />
+            
+            {location && (
+              <PaymentOption
+                method="tab"
+                icon={<Receipt size={20} />}
+                title="Add to Tab"
+                description={`Pay for everything when you leave ${location.name}`}
+                selected={selectedMethod === 'tab'}
+                onSelect={() => selectMethod('tab')}
+              />
+            )}
           </div>
         </div>
         
         {selectedMethod === 'qr' && (
-          <motion.div 
-            className="cafe-card mb-8 p-6 text-center"
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.4 }}
-          >
-            <h3 className="mb-4 font-semibold">Scan to Pay</h3>
-            <div className="flex flex-col items-center">
-              {/* Price information above QR code */}
-              <div className="mb-3 rounded-md bg-cafe/10 px-4 py-2 text-center">
-                <p className="text-xl font-bold text-cafe">₹{total.toFixed(2)}</p>
-                <p className="text-xs text-cafe-text/70">UPI Payment</p>
-              </div>
-              
-              {/* QR code container without overlay */}
-              <div className="relative mx-auto h-52 w-52">
-                {/* Static QR code image */}
-                <img
-                  src="/logos/scanner.png"
-                  alt="Payment QR Code"
-                  className="h-full w-full object-contain"
-                />
-                <motion.div
-                  className="absolute inset-0 border-2 border-cafe"
-                  animate={{
-                    opacity: [0.2, 1, 0.2],
-                    scale: [0.9, 1, 0.9],
-                  }}
-                  transition={{ duration: 2, repeat: Infinity }}
-                />
-              </div>
-            </div>
-            <p className="mt-4 text-sm text-cafe-text/70">Scan with any UPI app</p>
-          </motion.div>
+          <UpiPaymentCard
+            amount={placedOrder?.total ?? total}
+            intent={paymentIntent}
+            provider={paymentProvider}
+            onSimulate={handleSimulatePayment}
+          />
         )}
         
         <Button 
           className="w-full bg-cafe hover:bg-cafe-dark py-6"
           onClick={handlePayment}
-          disabled={isProcessing}
+          disabled={isProcessing || paymentIntent?.status === 'created' || paymentIntent?.status === 'succeeded'}
         >
           {isProcessing ? (
             <span className="flex items-center gap-2">
               <Loader2 className="h-4 w-4 animate-spin" />
               Processing...
             </span>
-          ) : (
+          ) : selectedMethod === 'tab' ? (
+            'Add to Tab'
+          ) : selectedMethod !== 'qr' ? (
             'Complete Payment'
+          ) : paymentIntent?.status === 'failed' ? (
+            'Try Again'
+          ) : paymentIntent ? (
+            'Waiting for Payment...'
+          ) : (
+            'Pay with UPI'
           )}
         </Button>
         
         <p className="mt-4 text-center text-sm text-cafe-text/70">
-          After payment, your order will be sent for staff approval
+          {selectedMethod === 'tab'
+            ? 'Your order will be sent for staff approval and added to your running bill'
+            : 'After payment, your order will be sent for staff approval'}
         </p>
       </main>
       
@@ -267,7 +397,7 @@ const Payment = () => {
               For {selectedMethod === 'card' ? 'card' : 'cash'} payments, please proceed to the counter to complete your transaction.
               <div className="mt-3 p-3 bg-cafe/5 rounded-md">
                 <p className="font-medium">Order Total: <span className="font-bold text-cafe">₹{total.toFixed(2)}</span></p>
-                <p className="text-xs mt-1">Order ID: {orderId}</p>
+                <p className="text-xs mt-1">Your order number will be on the next screen</p>
               </div>
             </DialogDescription>
           </DialogHeader>
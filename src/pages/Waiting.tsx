@@ -1,7 +1,7 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useLocation, useNavigate } from 'react-router-dom';
-import { Clock, Check, X, Printer, RefreshCcw } from 'lucide-react';
+import { Clock, Check, X, Printer, RefreshCcw, Receipt, Pencil, CreditCard, CloudOff, CloudUpload, Loader2, Bell, BellRing } from 'lucide-react';
 import PageTransition from '@/components/PageTransition';
 import Logo from '@/components/Logo';
 import { toast } from 'sonner';
@@ -9,6 +9,28 @@ import FAQButton from '@/components/FAQButton';
 import { supabase } from '@/integrations/supabase/client'; 
 import BillDisplay from '@/components/bill/BillDisplay';
 import { Button } from '@/components/ui/button';
+import OrderProgressTracker from '@/components/OrderProgressTracker';
+import { ACCEPTED_STATUSES, IN_PROGRESS_STATUSES, OrderStatus } from '@/utils/orderStatus';
+import { isCounterPayment } from '@/utils/paymentStatus';
+import { getOrderLocation } from '@/utils/locations';
+import { TAB_PAYMENT_METHOD } from '@/utils/tabs';
+import { getLineOptions, getOptionsKey } from '@/utils/modifiers';
+import { COMBO_CATEGORY, getComboLineId, getLineChildren } from '@/utils/combos';
+import { CartItem, useCart } from '@/context/CartContext';
+import { useOrderOutbox } from '@/context/OrderOutboxContext';
+import type { OrderItemType } from '@/pages/AdminDashboard';
+import type { Tables } from '@/integrations/supabase/types';
+import { getOrderNumber } from '@/utils/orderNumber';
+import { getLineItemId } from '@/utils/menuData';
+import { pushProvider } from '@/integrations/push';
+import {
+  getAlertOrderIds,
+  getNotificationPermission,
+  playStatusCue,
+  rememberAlertOrder,
+  requestNotificationPermission,
+  unlockStatusCue
+} from '@/utils/orderAlerts';
 
 const coffeeFacts = [
   "Coffee is the second most traded commodity in the world after oil.",
@@ -21,18 +43,92 @@ const coffeeFacts = [
   "Coffee was discovered by a goat herder in Ethiopia."
 ];
 
+// Heading and explanation shown for each order status
+const STATUS_COPY: Record<OrderStatus, { title: string; description: string }> = {
+  pending: {
+    title: "Waiting for approval",
+    description: "Your order is being reviewed by the staff. Please wait a moment."
+  },
+  accepted: {
+    title: "Order accepted!",
+    description: "Your order has been accepted and will be started shortly."
+  },
+  preparing: {
+    title: "Preparing your order",
+    description: "Our baristas are making your order right now."
+  },
+  ready: {
+    title: "Your order is ready!",
+    description: "Your order is ready and on its way to you."
+  },
+  served: {
+    title: "Enjoy your order!",
+    description: "Your order has been served. Enjoy!"
+  },
+  delivered: {
+    title: "Order delivered",
+    description: "Your order has been delivered to your room. Enjoy!"
+  },
+  completed: {
+    title: "Order completed",
+    description: "Thank you for visiting! Your bill is ready below."
+  },
+  rejected: {
+    title: "Order rejected",
+    description: "Your order could not be processed. Please try again or speak to the staff."
+  },
+  cancelled: {
+    title: "Order cancelled",
+    description: "Your order has been cancelled. Please speak to the staff if this is unexpected."
+  }
+};
+
+// Toast shown when the order moves to a new status while the customer is watching
+const STATUS_TOASTS: Partial<Record<OrderStatus, (order: { rejection_reason?: string | null }) => void>> = {
+  accepted: () => toast.success("Your order has been accepted!"),
+  preparing: () => toast.info("We're preparing your order."),
+  ready: () => toast.success("Your order is ready!"),
+  served: () => toast.success("Your order has been served."),
+  delivered: () => toast.success("Your order has been delivered."),
+  rejected: (order) => toast.error(
+    order.rejection_reason ? `Your order was rejected: ${order.rejection_reason}` : "Your order has been rejected."
+  ),
+  cancelled: () => toast.error("Your order has been cancelled.")
+};
+
+type OrderRow = Tables<'orders'>;
+
 const Waiting = () => {
   const location = useLocation();
   const navigate = useNavigate();
-  const orderId = location.state?.orderId || "Unknown";
-  const [orderStatus, setOrderStatus] = useState<'pending' | 'approved' | 'rejected'>('pending');
+  const { restoreItems } = useCart();
+  const { entries: outboxEntries, retryNow, discardOrder } = useOrderOutbox();
+  // A notification opens /waiting?order=<id>
+  const orderId = location.state?.orderId || new URLSearchParams(location.search).get('order') || "Unknown";
+  const [orderStatus, setOrderStatus] = useState<OrderStatus>('pending');
   const [factIndex, setFactIndex] = useState(0);
   const [timeRemaining, setTimeRemaining] = useState(600); // 600 seconds = 10 minutes
   const [error, setError] = useState<string | null>(null);
-  const [orderData, setOrderData] = useState<any>(null);
-  const [showBill, setShowBill] = useState(false);
+  const [orderData, setOrderData] = useState<OrderRow | null>(location.state?.orderData ?? null);
+  // Whether the order's status has been read from the database yet
+  const [hasLoadedStatus, setHasLoadedStatus] = useState(false);
   const [lastRefreshed, setLastRefreshed] = useState<Date>(new Date());
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [alertsOn, setAlertsOn] = useState(() => getAlertOrderIds().includes(orderId));
+  const [isEnablingAlerts, setIsEnablingAlerts] = useState(false);
+
+  const isClosed = orderStatus === 'rejected' || orderStatus === 'cancelled';
+  const isAccepted = ACCEPTED_STATUSES.includes(orderStatus);
+  const isBeingMade = orderStatus === 'pending' || IN_PROGRESS_STATUSES.includes(orderStatus);
+
+  // An order placed while offline waits on this device until it gets through
+  const outboxEntry = outboxEntries.find(entry => entry.id === orderId);
+  const isQueued = !!outboxEntry && outboxEntry.status !== 'synced';
+  const isQueuedRef = useRef(isQueued);
+  isQueuedRef.current = isQueued;
+  // Read by the countdown, which is set up once per order
+  const orderStatusRef = useRef(orderStatus);
+  orderStatusRef.current = orderStatus;
 
   // Format the time since last refresh
   const getTimeSinceRefresh = () => {
@@ -47,91 +143,180 @@ const Waiting = () => {
     }
   };
 
-  // Fetch complete order data
-  const fetchOrderData = async (id: string) => {
+  // Check order status using Supabase
+  const fetchOrderStatus = async () => {
+    setIsRefreshing(true);
     try {
       const { data, error } = await supabase
         .from('orders')
         .select('*')
-        .eq('id', id)
+        .eq('id', orderId)
         .single();
       
       if (error) throw error;
       
-      if (data) {
-        console.log("Order data retrieved:", data);
-        
-        // Process the data to ensure dates are properly formatted as Date objects
-        const processedData = {
-          ...data,
-          created_at: new Date(data.created_at),
-          approved_at: data.approved_at ? new Date(data.approved_at) : null,
-          items: typeof data.items === 'string' ? JSON.parse(data.items) : data.items
+      if (!data) {
+        // Handle case when order doesn't exist
+        console.log(`Order ${orderId} not found`);
+        setError("Order not found");
+        return;
+      }
+      
+      setOrderData(data);
+      setOrderStatus(data.status as OrderStatus);
+      setHasLoadedStatus(true);
+      setError(null);
+      setLastRefreshed(new Date());
+    } catch (error) {
+      console.error("Error fetching order status:", error);
+      setError("Failed to fetch order status");
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  // Open the bill for an accepted order
+  const viewBill = () => {
+    localStorage.setItem('lastApprovedOrderId', orderId);
+    localStorage.setItem('currentOrderData', JSON.stringify(orderData));
+    
+    navigate('/bill', { 
+      state: { 
+        orderId,
+        orderData,
+        fromWaiting: true // Add a flag to know where we came from
+      }
+    });
+  };
+
+  // Put a rejected order back in the cart so the customer can fix it and place it again
+  const resubmitOrder = async (destination: '/cart' | '/payment') => {
+    const orderItems: OrderItemType[] = Array.isArray(orderData?.items) ? orderData.items as unknown as OrderItemType[] : [];
+    let cartItems: CartItem[] = orderItems.map(item => {
+      const options = getLineOptions(item);
+      const children = getLineChildren(item);
+
+      if (item.comboId) {
+        return {
+          id: getComboLineId(item.comboId, children),
+          comboId: item.comboId,
+          name: item.name,
+          price: item.price,
+          category: item.category || COMBO_CATEGORY,
+          quantity: item.quantity,
+          children
         };
-        
-        setOrderData(processedData);
-        return processedData; // Return the processed data for promise chaining
+      }
+
+      return {
+        // Same ids the cart gives lines with a size and options
+        id: options.length ? `${item.id}~${getOptionsKey(options)}` : String(item.id),
+        itemId: getLineItemId(item),
+        name: item.name,
+        price: item.price,
+        category: item.category || 'uncategorized',
+        quantity: item.quantity,
+        size: item.size,
+        options: options.length ? options : undefined
+      };
+    });
+
+    // Leave out anything that is still unavailable
+    try {
+      const { data: menuRows, error } = await supabase
+        .from('menu')
+        .select('id, is_available')
+        .in('id', cartItems
+          .flatMap(item => item.comboId ? (item.children ?? []).map(child => child.itemId) : [item.itemId])
+          .map(Number)
+          .filter(id => !isNaN(id)));
+
+      if (error) throw error;
+
+      // A combo goes if any item picked for it has gone
+      const unavailable = new Set((menuRows || []).filter(row => !row.is_available).map(row => String(row.id)));
+      const isUnavailable = (item: CartItem) => item.comboId
+        ? (item.children ?? []).some(child => unavailable.has(child.itemId))
+        : unavailable.has(item.itemId);
+      const removed = cartItems.filter(isUnavailable);
+      cartItems = cartItems.filter(item => !isUnavailable(item));
+
+      if (removed.length > 0) {
+        toast.info(`Removed unavailable items: ${removed.map(item => item.name).join(', ')}`);
       }
     } catch (error) {
-      console.error("Error fetching order data:", error);
-      setError("Failed to fetch order data");
-      throw error; // Re-throw the error for promise handling
+      console.error("Error checking item availability:", error);
+    }
+
+    if (cartItems.length === 0) {
+      toast.error("None of these items are available right now.");
+      navigate('/menu');
+      return;
     }
+
+    restoreItems(cartItems);
+    navigate(destination);
   };
 
-  // Check order status using Supabase
-  useEffect(() => {
-    const fetchOrderStatus = async () => {
-      setIsRefreshing(true);
-      try {
-        const { data, error } = await supabase
-          .from('orders')
-          .select('*')  // Changed to select all fields, not just status
-          .eq('id', orderId)
-          .single();
-        
-        if (error) throw error;
-        
-        if (!data) {
-          // Handle case when order doesn't exist
-          console.log(`Order ${orderId} not found`);
-          setError("Order not found");
-          return;
-        }
-        
-        setOrderData(data);
-        const newStatus = data.status as 'pending' | 'approved' | 'rejected';
-        setOrderStatus(newStatus);
-        setLastRefreshed(new Date());
-        
-        // If order is already approved when we load the page, show bill directly
-        if (newStatus === 'approved') {
-          console.log("Order already approved, navigating to bill");
-          localStorage.setItem('lastApprovedOrderId', orderId);
-          
-          // Store the order data in localStorage before navigating
-          localStorage.setItem('currentOrderData', JSON.stringify(data));
-          
-          // Use replace:true to prevent back button issues
-          navigate('/bill', { 
-            state: { 
-              orderId,
-              orderData: data,
-              fromWaiting: true // Add a flag to know where we came from
-            },
-            replace: true
-          });
-        } else if (newStatus === 'rejected') {
-          toast.error("Your order has been rejected.");
-        }
-      } catch (error) {
-        console.error("Error fetching order status:", error);
-        setError("Failed to fetch order status");
-      } finally {
-        setIsRefreshing(false);
+  // The cafe refused a queued order: put it back in the cart to fix
+  const editQueuedOrder = async () => {
+    if (!outboxEntry) return;
+    restoreItems(outboxEntry.items);
+    await discardOrder(outboxEntry.id);
+    navigate('/cart');
+  };
+
+  // Notifications for when the phone is locked or the guest switches apps
+  const enableAlerts = async () => {
+    unlockStatusCue();
+    setIsEnablingAlerts(true);
+    try {
+      const permission = await requestNotificationPermission();
+      if (permission !== 'granted') {
+        toast.error("Notifications are blocked. You'll still hear a chime while this page is open.");
+        return;
       }
-    };
 
+      await pushProvider.subscribe(orderId);
+      rememberAlertOrder(orderId);
+      setAlertsOn(true);
+      toast.success("We'll let you know when your order moves on");
+    } catch (error) {
+      console.error('Error turning on order notifications:', error);
+      toast.error("Could not turn on notifications");
+    } finally {
+      setIsEnablingAlerts(false);
+    }
+  };
+
+  // The local push stand-in delivers its messages from here
+  useEffect(() => {
+    if (!alertsOn || !pushProvider.deliver) return;
+    return pushProvider.deliver(orderId);
+  }, [alertsOn, orderId]);
+
+  // Announce each move the order makes while the page is open, but not the
+  // status it already had when the page first loaded it
+  const announcedStatusRef = useRef<OrderStatus | null>(null);
+  useEffect(() => {
+    if (!hasLoadedStatus) return;
+    const previousStatus = announcedStatusRef.current;
+    announcedStatusRef.current = orderStatus;
+    if (!previousStatus || previousStatus === orderStatus) return;
+
+    STATUS_TOASTS[orderStatus]?.(orderData ?? {});
+    playStatusCue(orderStatus);
+  }, [orderStatus, hasLoadedStatus, orderData]);
+
+  // Pick the order up as soon as the outbox gets it through
+  useEffect(() => {
+    if (outboxEntry?.status !== 'synced') return;
+    if (outboxEntry.order) setOrderData(outboxEntry.order);
+    setTimeRemaining(600);
+    fetchOrderStatus();
+  }, [outboxEntry?.status]);
+
+  useEffect(() => {
     fetchOrderStatus();
 
     // Set up real-time subscription to order status changes
@@ -142,61 +327,14 @@ const Waiting = () => {
         schema: 'public', 
         table: 'orders',
         filter: `id=eq.${orderId}`
-      }, async (payload) => {
+      }, (payload) => {
         console.log("Order status changed:", payload.new);
-        const newStatus = payload.new.status as 'pending' | 'approved' | 'rejected';
-        setOrderStatus(newStatus);
+        const order = payload.new as OrderRow;
+
+        setOrderData(order);
+        setOrderStatus(order.status as OrderStatus);
+        setHasLoadedStatus(true);
         setLastRefreshed(new Date());
-        
-        // Update the order data and show bill
-        if (newStatus === 'approved') {
-          console.log("Order just approved, navigating to bill");
-          toast.success("Your order has been approved!");
-          
-          // Store the order ID for reference
-          localStorage.setItem('lastApprovedOrderId', orderId);
-          
-          // Ensure we have the complete order data
-          try {
-            const { data, error } = await supabase
-              .from('orders')
-              .select('*')
-              .eq('id', orderId)
-              .single();
-            
-            if (error) throw error;
-            
-            // Store the complete order data in localStorage
-            localStorage.setItem('currentOrderData', JSON.stringify(data));
-            
-            // Navigate with the fresh data and replace the current page
-            navigate('/bill', { 
-              state: { 
-                orderId,
-                orderData: data,
-                fromWaiting: true // Add a flag to know where we came from
-              },
-              replace: true // Use replace to prevent back navigation issues
-            });
-          } catch (err) {
-            console.error("Error fetching complete order data:", err);
-            
-            // Fallback to using payload data if fetch fails
-            const fallbackData = payload.new;
-            localStorage.setItem('currentOrderData', JSON.stringify(fallbackData));
-            
-            navigate('/bill', { 
-              state: { 
-                orderId,
-                orderData: fallbackData,
-                fromWaiting: true
-              },
-              replace: true
-            });
-          }
-        } else if (newStatus === 'rejected') {
-          toast.error("Your order has been rejected.");
-        }
       })
       .subscribe();
       
@@ -214,11 +352,13 @@ const Waiting = () => {
     // Countdown timer for 10 minutes
     const timerInterval = setInterval(() => {
       setTimeRemaining(prevTime => {
+        // The approval clock only runs while the cafe has the order and hasn't answered
+        if (isQueuedRef.current || orderStatusRef.current !== 'pending') return prevTime;
         if (prevTime <= 1) {
           // Time's up, check status one last time
           fetchOrderStatus();
 
-          if (orderStatus === 'pending') {
+          if (orderStatusRef.current === 'pending') {
             toast.error("Your order timed out. Please try again or speak to staff.");
             navigate('/menu');
           }
@@ -254,53 +394,7 @@ const Waiting = () => {
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={() => {
-                  const fetchOrderStatus = async () => {
-                    setIsRefreshing(true);
-                    try {
-                      const { data, error } = await supabase
-                        .from('orders')
-                        .select('*')
-                        .eq('id', orderId)
-                        .single();
-                      
-                      if (error) throw error;
-                      
-                      if (!data) {
-                        console.log(`Order ${orderId} not found`);
-                        setError("Order not found");
-                        return;
-                      }
-                      
-                      setOrderData(data);
-                      const newStatus = data.status as 'pending' | 'approved' | 'rejected';
-                      setOrderStatus(newStatus);
-                      setLastRefreshed(new Date());
-                      
-                      if (newStatus === 'approved') {
-                        console.log("Order already approved, navigating to bill");
-                        localStorage.setItem('lastApprovedOrderId', orderId);
-                        localStorage.setItem('currentOrderData', JSON.stringify(data));
-                        navigate('/bill', { 
-                          state: { 
-                            orderId,
-                            orderData: data,
-                            fromWaiting: true
-                          },
-                          replace: true
-                        });
-                      } else if (newStatus === 'rejected') {
-                        toast.error("Your order has been rejected.");
-                      }
-                    } catch (error) {
-                      console.error("Error fetching order status:", error);
-                      setError("Failed to fetch order status");
-                    } finally {
-                      setIsRefreshing(false);
-                    }
-                  };
-                  fetchOrderStatus();
-                }}
+                onClick={fetchOrderStatus}
                 disabled={isRefreshing}
                 className="h-8"
               >
@@ -318,13 +412,13 @@ const Waiting = () => {
           animate={{ opacity: 1, y: 0 }}
         >
           <h2 className="text-xl font-semibold text-cafe-text mb-8">
-            {orderStatus === 'pending' && "Waiting for approval"}
-            {orderStatus === 'approved' && "Order approved!"}
-            {orderStatus === 'rejected' && "Order rejected"}
+            {outboxEntry?.status === 'failed'
+              ? "Order not placed"
+              : isQueued ? "Order saved on your phone" : STATUS_COPY[orderStatus]?.title}
           </h2>
           
           {/* Show countdown timer */}
-          {orderStatus === 'pending' && (
+          {orderStatus === 'pending' && !isQueued && (
             <div className="mb-4 flex justify-center items-center gap-2 text-cafe">
               <Clock size={20} />
               <span className="font-mono">{formatTime(timeRemaining)}</span>
@@ -332,11 +426,11 @@ const Waiting = () => {
           )}
           
           <div className="flex justify-center mb-8">
-            {orderStatus === 'pending' && (
+            {orderStatus === 'pending' && outboxEntry?.status !== 'failed' && (
               <CoffeeMug />
             )}
             
-            {orderStatus === 'approved' && (
+            {isAccepted && (
               <motion.div
                 initial={{ scale: 0 }}
                 animate={{ scale: 1 }}
@@ -346,7 +440,7 @@ const Waiting = () => {
               </motion.div>
             )}
             
-            {orderStatus === 'rejected' && (
+            {(isClosed || outboxEntry?.status === 'failed') && (
               <motion.div
                 initial={{ scale: 0 }}
                 animate={{ scale: 1 }}
@@ -358,15 +452,128 @@ const Waiting = () => {
           </div>
           
           <div className="mb-8">
-            <p className="text-cafe-text mb-2">Order ID: <span className="font-semibold">{orderId}</span></p>
-            <p className="text-cafe-text/70 text-sm">
-              {orderStatus === 'pending' && "Your order is being reviewed by the staff. Please wait a moment."}
-              {orderStatus === 'approved' && "Your order has been approved! Redirecting to your bill..."}
-              {orderStatus === 'rejected' && "Your order could not be processed. Please try again or speak to the staff."}
-            </p>
+            {orderData?.order_number ? (
+              <>
+                <p className="text-sm text-cafe-text/70">Your order number</p>
+                <p className="text-4xl font-bold text-cafe-dark mb-2">{orderData.order_number}</p>
+              </>
+            ) : (
+              <p className="text-cafe-text mb-2">
+                Reference: <span className="font-semibold">{getOrderNumber({ id: orderId })}</span>
+                {outboxEntry && outboxEntry.status !== 'synced' && (
+                  <span className="block text-xs text-cafe-text/60">You'll get an order number once it reaches the cafe</span>
+                )}
+              </p>
+            )}
+            {!isQueued && (
+              <p className="text-cafe-text/70 text-sm">
+                {STATUS_COPY[orderStatus]?.description}
+              </p>
+            )}
+            {error && !isQueued && <p className="text-red-600 text-xs mt-2">{error}</p>}
           </div>
+
+          {/* Notifications once the order is with the cafe */}
+          {orderData && !isQueued && isBeingMade && pushProvider.isSupported() && (
+            alertsOn ? (
+              <p className="mb-4 flex items-center justify-center gap-2 text-sm text-green-700">
+                <BellRing size={16} />
+                We'll notify you when your order moves on
+              </p>
+            ) : getNotificationPermission() === 'denied' ? (
+              <p className="mb-4 text-xs text-cafe-text/60">
+                Notifications are blocked in your browser settings. Keep this page open to hear when your order is ready.
+              </p>
+            ) : (
+              <Button variant="outline" className="mb-4" onClick={enableAlerts} disabled={isEnablingAlerts}>
+                {isEnablingAlerts ? <Loader2 size={16} className="mr-2 animate-spin" /> : <Bell size={16} className="mr-2" />}
+                Notify me when it's ready
+              </Button>
+            )
+          )}
+          
+          {/* Orders placed offline: queued, syncing, synced or refused */}
+          {outboxEntry && (outboxEntry.status === 'queued' || outboxEntry.status === 'syncing') && (
+            <div className="bg-amber-50 rounded-lg p-4 mb-4 text-left">
+              <h3 className="font-medium text-amber-800 mb-1 flex items-center gap-2">
+                {outboxEntry.status === 'syncing'
+                  ? <Loader2 size={16} className="animate-spin" />
+                  : <CloudOff size={16} />}
+                {outboxEntry.status === 'syncing' ? "Sending your order..." : "Queued: waiting for a connection"}
+              </h3>
+              <p className="text-sm text-amber-800/80">
+                Your order is saved on this phone and will be sent to the cafe automatically.
+                {outboxEntry.attempts > 1 && ` Tried ${outboxEntry.attempts} times so far.`}
+              </p>
+              <ul className="mt-2 text-sm text-amber-800/80">
+                {outboxEntry.items.map(item => (
+                  <li key={item.id}>{item.quantity} × {item.size ? `${item.name} (${item.size})` : item.name}</li>
+                ))}
+              </ul>
+              {outboxEntry.status === 'queued' && (
+                <Button variant="outline" size="sm" className="mt-3" onClick={retryNow}>
+                  <RefreshCcw size={14} className="mr-1" />
+                  Try now
+                </Button>
+              )}
+            </div>
+          )}
           
-          {orderStatus === 'pending' && (
+          {outboxEntry?.status === 'synced' && (
+            <p className="mb-4 flex items-center justify-center gap-1 text-xs text-green-700">
+              <CloudUpload size={14} />
+              Synced: sent to the cafe after your connection came back
+            </p>
+          )}
+          
+          {outboxEntry?.status === 'failed' && (
+            <div className="bg-red-50 rounded-lg p-4 mb-4 text-left">
+              <h3 className="font-medium text-red-700 mb-1">The cafe could not take this order</h3>
+              <p className="text-sm text-red-700/80">{outboxEntry.lastError}</p>
+              <Button className="mt-3 bg-cafe hover:bg-cafe-dark" size="sm" onClick={editQueuedOrder}>
+                <Pencil size={14} className="mr-1" />
+                Edit order and resubmit
+              </Button>
+            </div>
+          )}
+          
+          {orderStatus === 'rejected' && (
+            <div className="bg-red-50 rounded-lg p-4 mb-4 text-left">
+              <h3 className="font-medium text-red-700 mb-1">Reason</h3>
+              <p className="text-sm text-red-700/80">
+                {orderData?.rejection_reason || "No reason was given. Please speak to the staff."}
+              </p>
+            </div>
+          )}
+          
+          {/* Counter orders stay unpaid until the cashier takes the money */}
+          {!isClosed && orderData?.payment_status === 'unpaid' && isCounterPayment(orderData?.payment_method) && (
+            <div className="bg-amber-50 rounded-lg p-4 mb-4 text-left">
+              <h3 className="font-medium text-amber-800 mb-1">Please pay at the counter</h3>
+              <p className="text-sm text-amber-800/80">
+                ₹{Number(orderData.total).toFixed(2)} by {orderData.payment_method === 'card' ? 'card' : 'cash'}. Quote order #{getOrderNumber(orderData)}.
+              </p>
+            </div>
+          )}
+          
+          {/* Tab orders are paid for together when the table settles up */}
+          {!isClosed && orderData?.payment_status === 'unpaid' && orderData?.payment_method === TAB_PAYMENT_METHOD && (
+            <div className="bg-amber-50 rounded-lg p-4 mb-4 text-left">
+              <h3 className="font-medium text-amber-800 mb-1">Added to your tab</h3>
+              <p className="text-sm text-amber-800/80">
+                ₹{Number(orderData.total).toFixed(2)} goes on the bill for {getOrderLocation(orderData)}. Pay for everything at the counter when you leave.
+              </p>
+            </div>
+          )}
+          
+          {/* Live progress through the kitchen stages */}
+          {!isClosed && !isQueued && (
+            <div className="bg-cafe/5 rounded-lg p-4 mb-4">
+              <OrderProgressTracker order={orderData ? { ...orderData, status: orderStatus } : { status: orderStatus }} />
+            </div>
+          )}
+          
+          {orderStatus === 'pending' && outboxEntry?.status !== 'failed' && (
             <div className="bg-cafe/10 rounded-lg p-4 mb-4">
               <h3 className="font-medium text-cafe mb-2">While you wait...</h3>
               <AnimatePresence mode="wait">
@@ -384,10 +591,38 @@ const Waiting = () => {
             </div>
           )}
           
-          {orderStatus === 'rejected' && (
-            <div className="mt-4">
+          {isAccepted && orderData && (
+            <Button 
+              className="mt-2 bg-cafe hover:bg-cafe-dark"
+              onClick={viewBill}
+            >
+              <Receipt size={16} className="mr-2" />
+              View Bill
+            </Button>
+          )}
+          
+          {isClosed && (
+            <div className="mt-4 flex flex-col items-center gap-2">
+              {orderStatus === 'rejected' && orderData?.rejection_code !== 'kitchen_closed' && (
+                <Button 
+                  className="bg-cafe hover:bg-cafe-dark"
+                  onClick={() => resubmitOrder('/cart')}
+                >
+                  <Pencil size={16} className="mr-2" />
+                  Edit order and resubmit
+                </Button>
+              )}
+              {orderStatus === 'rejected' && orderData?.rejection_code === 'payment_not_received' && (
+                <Button 
+                  variant="outline"
+                  onClick={() => resubmitOrder('/payment')}
+                >
+                  <CreditCard size={16} className="mr-2" />
+                  Try payment again
+                </Button>
+              )}
               <button 
-                className="px-4 py-2 bg-cafe text-white rounded-md hover:bg-cafe-dark"
+                className="px-4 py-2 text-cafe hover:underline"
                 onClick={() => navigate('/menu')}
               >
                 Return to Menu
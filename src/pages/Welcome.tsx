@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import Logo from '@/components/Logo';
 import PageTransition from '@/components/PageTransition';
 import FAQButton from '@/components/FAQButton'; 
+import { useScannedLocation } from '@/hooks/useScannedLocation';
 
 interface LogoProps {
   size?: 'sm' | 'md' | 'lg';
@@ -15,6 +16,7 @@ interface LogoProps {
 const Welcome = () => {
   const navigate = useNavigate();
   const [showSplash, setShowSplash] = useState(true);
+  const { location } = useScannedLocation();
   
   // Remove cursor tracking for cup rotation
   const containerRef = useRef<HTMLDivElement>(null);
@@ -409,7 +411,7 @@ const Welcome = () => {
                 animate={{ opacity: 1 }}
                 transition={{ delay: 1.3 }}
               >
-                Tap to explore our menu
+                {location ? `Ordering for ${location.name}` : 'Tap to explore our menu'}
               </motion.p>
             </motion.div>
           </div>
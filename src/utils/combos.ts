@@ -0,0 +1,113 @@
+// Combo meals: a bundle price for one item picked in each slot, e.g. any
+// breakfast with any coffee. Combos live in the combos table; price_combo_line
+// in supabase/migrations/20250331000000_combos.sql checks the picks and builds
+// the order line with the same shape as here.
+import { roundCurrency } from '@/utils/pricing';
+
+// One part of a combo, filled from a category or from a list of menu item ids
+export type ComboSlot = {
+  name: string;
+  category?: string;
+  item_ids?: number[];
+};
+
+export type ComboType = {
+  id: string;
+  name: string;
+  description?: string | null;
+  price: number;
+  slots: ComboSlot[];
+};
+
+// The item picked for a slot. `price` is its list price in the size it is made
+// in, used to split the bundle price in sales reports.
+export type ComboChild = {
+  slot: number;
+  slotName: string;
+  itemId: string;
+  name: string;
+  category?: string;
+  size?: string | null;
+  price: number;
+};
+
+export const COMBO_CATEGORY = 'combo';
+
+// Reads a combos row, dropping slots that offer nothing
+export const parseCombo = (row: Record<string, unknown>): ComboType => ({
+  id: String(row.id),
+  name: String(row.name),
+  description: typeof row.description === 'string' ? row.description : null,
+  price: Number(row.price) || 0,
+  slots: Array.isArray(row.slots)
+    ? row.slots
+        .filter(slot => slot && typeof slot.name === 'string' && (typeof slot.category === 'string' || Array.isArray(slot.item_ids)))
+        .map(slot => ({
+          name: slot.name,
+          category: typeof slot.category === 'string' ? slot.category : undefined,
+          item_ids: Array.isArray(slot.item_ids) ? slot.item_ids.map(Number) : undefined
+        }))
+    : []
+});
+
+export const isInSlot = (slot: ComboSlot, item: { id: string | number; category?: string }) =>
+  (slot.category !== undefined && item.category === slot.category) ||
+  (slot.item_ids ?? []).some(id => String(id) === String(item.id));
+
+// Cart line id for a combo; the same combo with different picks makes a separate line
+export const getComboLineId = (comboId: string, children: ComboChild[]) =>
+  `combo-${comboId}~${children.map(child => `${child.slot}:${child.itemId}`).join('|')}`;
+
+// Children saved on an order or cart line; lines that are not combos have none
+export const getLineChildren = (line: { children?: unknown }): ComboChild[] =>
+  Array.isArray(line.children) ? (line.children as ComboChild[]) : [];
+
+// e.g. "Masala Omelette, Cappuccino (Small)"
+export const formatComboChildren = (children: ComboChild[]) =>
+  children.map(child => (child.size ? `${child.name} (${child.size})` : child.name)).join(', ');
+
+export type SoldLine = {
+  id: string;
+  name: string;
+  category: string;
+  quantity: number;
+  revenue: number;
+};
+
+// What an order line sold, item by item, net of any promo code discount. A combo
+// counts as one of each item in it, with the bundle price split between them in
+// proportion to their list prices.
+export const getSoldItems = (line: {
+  id: string;
+  name: string;
+  category?: string;
+  price: number;
+  quantity: number;
+  discount?: number | null;
+  children?: unknown;
+}): SoldLine[] => {
+  const children = getLineChildren(line);
+  const revenue = roundCurrency(line.price * line.quantity - (Number(line.discount) || 0));
+
+  if (children.length === 0) {
+    return [{ id: line.id, name: line.name, category: line.category || 'uncategorized', quantity: line.quantity, revenue }];
+  }
+
+  const listTotal = children.reduce((sum, child) => sum + child.price, 0);
+  let allocated = 0;
+
+  return children.map((child, index) => {
+    const share = index === children.length - 1
+      ? roundCurrency(revenue - allocated)
+      : roundCurrency(listTotal > 0 ? (revenue * child.price) / listTotal : revenue / children.length);
+    allocated = roundCurrency(allocated + share);
+
+    return {
+      id: child.size ? `${child.itemId}-${child.size}` : child.itemId,
+      name: child.name,
+      category: child.category || 'uncategorized',
+      quantity: line.quantity,
+      revenue: share
+    };
+  });
+};
@@ -18,10 +18,13 @@ export const formatDate = (date: any): string => {
 };
 
 /**
- * Generates a sequential order ID with ORD prefix and date component
+ * Generates a random order ID (32 hex characters), so orders placed on
+ * different devices at the same moment never collide. People see the order
+ * number from src/utils/orderNumber.ts instead; only an order still waiting
+ * in the outbox, which has no number yet, shows the first 8 characters.
  */
 export const generateOrderId = (): string => {
-  return `ORD${Date.now().toString().slice(-6)}${Math.floor(Math.random() * 1000)}`;
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
 };
 
 /**
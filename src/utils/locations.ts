@@ -0,0 +1,52 @@
+// Tables and rooms with QR codes. A code opens /menu?loc=T4&sig=..., where sig
+// is signed by the database (supabase/migrations/20250403000000_locations.sql);
+// once verify_location accepts it the location is kept on this device and sent
+// with every order instead of a typed-in room number.
+
+export type LocationKind = 'table' | 'room';
+
+// Tables without a zone are listed under this heading
+export const NO_ZONE = 'Other';
+
+export type SignedLocation = {
+  code: string;
+  name: string;
+  kind: LocationKind;
+  sig: string;
+};
+
+export const LOCATION_KINDS: Record<LocationKind, string> = {
+  table: 'Table',
+  room: 'Room'
+};
+
+// Same rule as the locations.code check constraint
+export const LOCATION_CODE_PATTERN = /^[A-Z0-9-]{1,10}$/;
+
+const LOCATION_KEY = 'location';
+
+export const getSavedLocation = (): SignedLocation | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LOCATION_KEY) || 'null');
+    return saved && typeof saved.code === 'string' && typeof saved.sig === 'string' ? saved : null;
+  } catch (error) {
+    console.error('Failed to parse location from localStorage:', error);
+    return null;
+  }
+};
+
+export const saveLocation = (location: SignedLocation) => {
+  localStorage.setItem(LOCATION_KEY, JSON.stringify(location));
+};
+
+export const clearSavedLocation = () => {
+  localStorage.removeItem(LOCATION_KEY);
+};
+
+// The table or room an order is for: the code of a registered location, or whatever room number the guest typed
+export const getOrderLocation = (order: { table_number?: string | null; room_number?: string | null }) =>
+  order.table_number || order.room_number || null;
+
+// The link a location's QR code opens
+export const getLocationLink = (code: string, sig: string, origin = window.location.origin) =>
+  `${origin}/menu?${new URLSearchParams({ loc: code, sig }).toString()}`;
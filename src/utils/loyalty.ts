@@ -0,0 +1,41 @@
+// Loyalty points for guests who verify their phone number. Points are earned
+// when an order is accepted and can pay for part of a later order.
+// supabase/migrations/20250402000000_loyalty.sql applies the same rules
+// server-side, so keep the two in step.
+import { roundCurrency } from '@/utils/pricing';
+
+// One point for every ₹10 paid
+export const POINTS_PER_RUPEE = 0.1;
+
+// Rupees off for each point redeemed
+export const POINT_VALUE = 0.5;
+
+// Points can pay for at most half of an order
+export const MAX_POINTS_SHARE = 0.5;
+
+// Indian mobile numbers only, stored as +91XXXXXXXXXX
+const PHONE_PATTERN = /^\+91[6-9]\d{9}$/;
+
+// "98765 43210", "098765-43210" or "+91 9876543210" -> "+919876543210"; null if it is not a mobile number
+export const normalizePhone = (input: string): string | null => {
+  const digits = input.replace(/\D/g, '');
+  const local = digits.length === 12 && digits.startsWith('91')
+    ? digits.slice(2)
+    : digits.length === 11 && digits.startsWith('0') ? digits.slice(1) : digits;
+  const phone = `+91${local}`;
+
+  return PHONE_PATTERN.test(phone) ? phone : null;
+};
+
+// e.g. "+91 98765 43210"
+export const formatPhone = (phone: string) =>
+  PHONE_PATTERN.test(phone) ? `+91 ${phone.slice(3, 8)} ${phone.slice(8)}` : phone;
+
+// Points an order earns on what was paid for it
+export const getPointsEarned = (amountPaid: number) => Math.floor(amountPaid * POINTS_PER_RUPEE + 1e-9);
+
+export const getPointsValue = (points: number) => roundCurrency(points * POINT_VALUE);
+
+// The most points that can go towards an order with this total
+export const getRedeemablePoints = (balance: number, orderTotal: number) =>
+  Math.max(0, Math.min(balance, Math.floor((orderTotal * MAX_POINTS_SHARE) / POINT_VALUE + 1e-9)));
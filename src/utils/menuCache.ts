@@ -0,0 +1,58 @@
+// The last menu fetched from the database, kept so the menu still opens when
+// the connection drops. Prices on a cached menu may be out of date; place_order
+// prices every order from the database, so the guest is never charged from it.
+import type { Tables } from '@/integrations/supabase/types';
+
+const MENU_CACHE_KEY = 'menuSnapshot';
+
+// A cached menu older than this is flagged as possibly out of date
+export const MENU_STALE_AFTER_MS = 6 * 60 * 60000;
+
+export type MenuSnapshot = {
+  menu: Tables<'menu'>[];
+  modifierGroups: Tables<'modifier_groups'>[];
+  combos: Tables<'combos'>[];
+  fetchedAt: string;
+};
+
+export const saveMenuSnapshot = (snapshot: MenuSnapshot) => {
+  try {
+    localStorage.setItem(MENU_CACHE_KEY, JSON.stringify(snapshot));
+  } catch (error) {
+    // Storage full or disabled: the menu just won't be there offline
+    console.error('Failed to cache the menu in localStorage:', error);
+  }
+};
+
+export const getMenuSnapshot = (): MenuSnapshot | null => {
+  try {
+    const snapshot = JSON.parse(localStorage.getItem(MENU_CACHE_KEY) || 'null');
+    if (!snapshot || !Array.isArray(snapshot.menu) || typeof snapshot.fetchedAt !== 'string') return null;
+
+    return {
+      menu: snapshot.menu,
+      modifierGroups: Array.isArray(snapshot.modifierGroups) ? snapshot.modifierGroups : [],
+      combos: Array.isArray(snapshot.combos) ? snapshot.combos : [],
+      fetchedAt: snapshot.fetchedAt
+    };
+  } catch (error) {
+    console.error('Failed to parse the cached menu from localStorage:', error);
+    return null;
+  }
+};
+
+export const isSnapshotStale = (fetchedAt: string, now = Date.now()) =>
+  now - new Date(fetchedAt).getTime() > MENU_STALE_AFTER_MS;
+
+// "just now", "5 min ago", "3 h ago", "2 days ago"
+export const formatSnapshotAge = (fetchedAt: string, now = Date.now()) => {
+  const minutes = Math.floor((now - new Date(fetchedAt).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+
+  const days = Math.floor(hours / 24);
+  return `${days} ${days === 1 ? 'day' : 'days'} ago`;
+};
@@ -1,3 +1,5 @@
+import type { ModifierGroup } from '@/utils/modifiers';
+
 export type MenuItemType = {
   id: string;
   name: string;
@@ -8,11 +10,61 @@ export type MenuItemType = {
   veg?: boolean;
   recommended?: boolean;
   image?: string;
-  prices?: {
-    S?: number;
-    R?: number;
-    L?: number;
-  };
+  sizes?: MenuItemSize[];
+  modifierGroups?: ModifierGroup[];
+};
+
+// A size or other variant of a menu item with its own price, e.g. Large or
+// Half. Stored in the `sizes` column of the menu table; order lines keep the
+// size name. The first size is the one preselected on the menu.
+export type MenuItemSize = {
+  name: string;
+  price: number;
+};
+
+export const MAX_SIZE_NAME_LENGTH = 20;
+
+// Reads the `sizes` column, dropping anything that is not a usable size
+export const parseMenuSizes = (value: unknown): MenuItemSize[] =>
+  Array.isArray(value)
+    ? value
+        .filter(size => size && typeof size.name === 'string' && typeof size.price === 'number')
+        .map(size => ({ name: size.name, price: size.price }))
+    : [];
+
+export const getDefaultSize = (item: Pick<MenuItemType, 'sizes'>): MenuItemSize | undefined => item.sizes?.[0];
+
+// Before items had their own sizes every sized line was S, R or L. Orders
+// saved then are renamed by 20250411000000_legacy_order_sizes.sql; carts
+// saved on a device go through upgradeLegacySize when they are read.
+export const LEGACY_SIZE_NAMES: Record<string, string> = {
+  S: 'Small',
+  R: 'Regular',
+  L: 'Large'
+};
+
+// Renames a legacy size on a cart or order line, and in its line id
+export const upgradeLegacySize = <T extends { id: string; size?: string | null }>(line: T): T => {
+  if (!line.size || !(line.size in LEGACY_SIZE_NAMES)) return line;
+  const size = LEGACY_SIZE_NAMES[line.size];
+  return { ...line, size, id: line.id.replace(new RegExp(`-${line.size}(?=~|$)`), `-${size}`) };
+};
+
+// The menu id of a cart or order line. Lines carry it as itemId; ones saved
+// before that have only their line id, which is the menu id followed by
+// `-size` and `~options` when those were picked.
+export const getLineItemId = (line: { id: string | number; itemId?: string | number | null }): string =>
+  String(line.itemId ?? String(line.id).split(/[-~]/)[0]);
+
+// Same rules as valid_menu_sizes() in the database; returns what is wrong, if anything
+export const validateMenuSizes = (sizes: MenuItemSize[]): string | null => {
+  const names = sizes.map(size => size.name.trim());
+
+  if (names.some(name => !name)) return 'Every size needs a name';
+  if (names.some(name => name.length > MAX_SIZE_NAME_LENGTH)) return `Size names can be at most ${MAX_SIZE_NAME_LENGTH} characters`;
+  if (new Set(names).size !== names.length) return 'Size names must be different';
+  if (sizes.some(size => !Number.isFinite(size.price) || size.price < 0)) return 'Size prices cannot be negative';
+  return null;
 };
 
 export type MenuCategoryType = {
@@ -0,0 +1,105 @@
+// Modifier groups (milk type, extras, sugar level, ...) and the options picked
+// from them. Groups live in the modifier_groups table and apply to one menu
+// item or to a whole category; place_order in
+// supabase/migrations/20250330000000_modifiers.sql checks and prices the
+// options with the same rules, so keep the two in step.
+
+export type ModifierSelection = 'single' | 'multi';
+
+// An option with the amount it adds to the unit price
+export type ModifierOption = {
+  name: string;
+  price: number;
+};
+
+export type ModifierGroup = {
+  id: string;
+  name: string;
+  selection: ModifierSelection;
+  min_select: number;
+  max_select: number | null;
+  options: ModifierOption[];
+  menu_item_id: number | null;
+  category: string | null;
+  sort_order: number;
+};
+
+// An option picked for a cart or order line
+export type SelectedOption = {
+  groupId: string;
+  group: string;
+  name: string;
+  price: number;
+};
+
+// Reads a modifier_groups row, dropping options that are not usable
+export const parseModifierGroup = (row: Record<string, unknown>): ModifierGroup => ({
+  id: String(row.id),
+  name: String(row.name),
+  selection: row.selection === 'multi' ? 'multi' : 'single',
+  min_select: Number(row.min_select) || 0,
+  max_select: row.max_select == null ? null : Number(row.max_select),
+  options: Array.isArray(row.options)
+    ? row.options
+        .filter(option => option && typeof option.name === 'string' && typeof option.price === 'number')
+        .map(option => ({ name: option.name, price: option.price }))
+    : [],
+  menu_item_id: row.menu_item_id == null ? null : Number(row.menu_item_id),
+  category: typeof row.category === 'string' ? row.category : null,
+  sort_order: Number(row.sort_order) || 0
+});
+
+// Groups offered on an item: its own groups first, then its category's
+export const getItemModifierGroups = (groups: ModifierGroup[], item: { id: string | number; category?: string }) =>
+  groups
+    .filter(group => String(group.menu_item_id) === String(item.id) || (group.category && group.category === item.category))
+    .sort((a, b) =>
+      Number(a.menu_item_id === null) - Number(b.menu_item_id === null) ||
+      a.sort_order - b.sort_order ||
+      a.name.localeCompare(b.name)
+    );
+
+export const getMaxSelect = (group: ModifierGroup) =>
+  group.selection === 'single' ? 1 : group.max_select ?? group.options.length;
+
+// Options picked by default: the first option of every group that needs one
+export const getDefaultOptions = (groups: ModifierGroup[]): SelectedOption[] =>
+  groups
+    .filter(group => group.selection === 'single' && group.min_select > 0 && group.options.length > 0)
+    .map(group => ({ groupId: group.id, group: group.name, ...group.options[0] }));
+
+// Returns what is wrong with the picked options, if anything
+export const validateOptions = (groups: ModifierGroup[], selected: SelectedOption[]): string | null => {
+  for (const group of groups) {
+    const count = selected.filter(option => option.groupId === group.id).length;
+    if (count < group.min_select) return `Choose ${group.name.toLowerCase()}`;
+    if (count > getMaxSelect(group)) return `Choose at most ${getMaxSelect(group)} ${group.name.toLowerCase()}`;
+  }
+  return null;
+};
+
+// Picked options with their group names and prices, in the order the groups list them
+export const sortOptions = (groups: ModifierGroup[], selected: Pick<SelectedOption, 'groupId' | 'name'>[]): SelectedOption[] =>
+  groups.flatMap(group =>
+    group.options
+      .filter(option => selected.some(picked => picked.groupId === group.id && picked.name === option.name))
+      .map(option => ({ groupId: group.id, group: group.name, ...option }))
+  );
+
+export const getOptionsPrice = (options?: SelectedOption[]) =>
+  (options ?? []).reduce((sum, option) => sum + option.price, 0);
+
+// Stable key for a set of options, used to keep differently customised lines apart
+export const getOptionsKey = (options?: SelectedOption[]) =>
+  (options ?? []).map(option => `${option.groupId}:${option.name}`).join('|');
+
+// Options saved on an order line; orders placed before modifiers have none
+export const getLineOptions = (line: { options?: unknown }): SelectedOption[] =>
+  Array.isArray(line.options) ? (line.options as SelectedOption[]) : [];
+
+// e.g. "Oat milk, Extra shot (+₹70)"; the price part is left out when showPrice is false
+export const formatOptions = (options: SelectedOption[], showPrice = true) => {
+  const names = options.map(option => option.name).join(', ');
+  const extra = getOptionsPrice(options);
+  return showPrice && extra > 0 ? `${names} (+₹${extra})` : names;
+};
@@ -0,0 +1,96 @@
+// Ways of telling a guest their order moved on: notifications for when the
+// app is in the background (src/integrations/push) and a sound and buzz for
+// when the waiting page is open.
+import type { OrderStatus } from '@/utils/orderStatus';
+
+const ALERT_ORDERS_KEY = 'notifyOrderIds';
+
+// Older orders drop off the list once there are more than this
+const MAX_ALERT_ORDERS = 20;
+
+// Orders this device has turned notifications on for, newest first
+export const getAlertOrderIds = (): string[] => {
+  try {
+    const ids = JSON.parse(localStorage.getItem(ALERT_ORDERS_KEY) || '[]');
+    return Array.isArray(ids) ? ids.filter(id => typeof id === 'string') : [];
+  } catch (error) {
+    console.error('Failed to parse notification orders from localStorage:', error);
+    return [];
+  }
+};
+
+export const rememberAlertOrder = (orderId: string) => {
+  const ids = [orderId, ...getAlertOrderIds().filter(id => id !== orderId)].slice(0, MAX_ALERT_ORDERS);
+  localStorage.setItem(ALERT_ORDERS_KEY, JSON.stringify(ids));
+};
+
+export const getNotificationPermission = (): NotificationPermission =>
+  'Notification' in window ? Notification.permission : 'denied';
+
+// Only asks when the guest hasn't answered yet
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  const permission = getNotificationPermission();
+  if (permission !== 'default') return permission;
+  return Notification.requestPermission();
+};
+
+type StatusCue = {
+  notes: number[]; // Hz, played one after another
+  vibration: number[]; // ms on, off, on...
+};
+
+const STATUS_CUES: Partial<Record<OrderStatus, StatusCue>> = {
+  accepted: { notes: [660, 880], vibration: [150] },
+  preparing: { notes: [660], vibration: [100] },
+  ready: { notes: [660, 880, 1320], vibration: [300, 100, 300, 100, 600] },
+  served: { notes: [880, 660], vibration: [150] },
+  delivered: { notes: [880, 660], vibration: [150] },
+  rejected: { notes: [440, 330], vibration: [400, 150, 400] },
+  cancelled: { notes: [440, 330], vibration: [400, 150, 400] }
+};
+
+let audioContext: AudioContext | null = null;
+
+// Browsers only let a page make sound once the guest has tapped something on
+// it, so this is also called from the button that turns alerts on
+export const unlockStatusCue = () => {
+  try {
+    audioContext = audioContext ?? new AudioContext();
+    return audioContext.resume();
+  } catch (error) {
+    console.error('Sound is not available:', error);
+    return Promise.resolve();
+  }
+};
+
+const playChime = async (notes: number[]) => {
+  await unlockStatusCue();
+  const context = audioContext;
+  if (!context || context.state !== 'running') return;
+
+  notes.forEach((frequency, index) => {
+    const start = context.currentTime + index * 0.18;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+
+    oscillator.type = 'sine';
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.0001, start);
+    gain.gain.exponentialRampToValueAtTime(0.3, start + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.4);
+
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.45);
+  });
+};
+
+// A short chime and buzz for the order's new stage; silently skipped where
+// the browser doesn't allow either
+export const playStatusCue = (status: OrderStatus) => {
+  const cue = STATUS_CUES[status];
+  if (!cue) return;
+
+  playChime(cue.notes).catch(error => console.error('Error playing order sound:', error));
+  if ('vibrate' in navigator) navigator.vibrate(cue.vibration);
+};
@@ -0,0 +1,133 @@
+// Orders placed from this device, for the My orders page, and the rules for
+// ordering one of them again from today's menu.
+import { getDefaultSize, getLineItemId, MenuItemSize, MenuItemType, upgradeLegacySize } from '@/utils/menuData';
+import { getLineOptions, getOptionsPrice, SelectedOption, sortOptions, validateOptions } from '@/utils/modifiers';
+import { ComboChild, ComboType, getLineChildren, isInSlot } from '@/utils/combos';
+import { roundCurrency } from '@/utils/pricing';
+
+const HISTORY_KEY = 'orderHistory';
+
+// Older orders drop off the list once there are more than this
+const MAX_REMEMBERED_ORDERS = 30;
+
+// Ids of orders placed here, newest first
+export const getRememberedOrderIds = (): string[] => {
+  try {
+    const ids = JSON.parse(localStorage.getItem(HISTORY_KEY) || '[]');
+    return Array.isArray(ids) ? ids.filter(id => typeof id === 'string') : [];
+  } catch (error) {
+    console.error('Failed to parse order history from localStorage:', error);
+    return [];
+  }
+};
+
+export const rememberOrder = (orderId: string) => {
+  const ids = [orderId, ...getRememberedOrderIds().filter(id => id !== orderId)].slice(0, MAX_REMEMBERED_ORDERS);
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(ids));
+};
+
+// A line of a past order, as place_order saved it
+export type PastOrderLine = {
+  id: string;
+  itemId?: string;
+  name: string;
+  price: number;
+  quantity: number;
+  size?: string | null;
+  options?: unknown;
+  comboId?: string;
+  children?: unknown;
+};
+
+export type ReorderLine =
+  | { kind: 'item'; item: MenuItemType; size?: MenuItemSize; quantity: number; options: SelectedOption[] }
+  | { kind: 'combo'; combo: ComboType; picked: ComboChild[]; quantity: number };
+
+export type ReorderPlan = {
+  lines: ReorderLine[];
+  // Left out of the cart, with the reason
+  skipped: { name: string; reason: string }[];
+  // Added at today's unit price
+  repriced: { name: string; was: number; now: number }[];
+};
+
+const getLineName = (line: PastOrderLine) => (line.size ? `${line.name} (${line.size})` : line.name);
+
+// Works out what of a past order can go back in the cart. `menuItems` and
+// `combos` are what is on sale now, with each item's modifier groups.
+export const planReorder = (lines: PastOrderLine[], menuItems: MenuItemType[], combos: ComboType[]): ReorderPlan => {
+  const plan: ReorderPlan = { lines: [], skipped: [], repriced: [] };
+
+  const notePrice = (line: PastOrderLine, now: number) => {
+    if (roundCurrency(now) !== roundCurrency(Number(line.price))) {
+      plan.repriced.push({ name: getLineName(line), was: Number(line.price), now });
+    }
+  };
+
+  for (const savedLine of lines) {
+    // Sizes saved as S, R or L are looked up by today's names
+    const line = upgradeLegacySize(savedLine);
+    if (line.comboId) {
+      const combo = combos.find(candidate => candidate.id === String(line.comboId));
+      if (!combo) {
+        plan.skipped.push({ name: line.name, reason: 'no longer available' });
+        continue;
+      }
+
+      // Same picks as last time, in the size each item is made in today
+      const children = getLineChildren(line);
+      const picked = combo.slots.map((slot, index) => {
+        const previous = children.find(child => child.slot === index);
+        const item = previous && menuItems.find(menuItem => menuItem.id === String(previous.itemId));
+        if (!item || !isInSlot(slot, item)) return null;
+
+        const size = getDefaultSize(item);
+        return {
+          slot: index,
+          slotName: slot.name,
+          itemId: item.id,
+          name: item.name,
+          category: item.category,
+          size: size?.name ?? null,
+          price: size ? size.price : item.price
+        };
+      });
+
+      if (picked.some(child => !child)) {
+        plan.skipped.push({ name: line.name, reason: 'an item in it is no longer available' });
+        continue;
+      }
+
+      notePrice(line, combo.price);
+      plan.lines.push({ kind: 'combo', combo, picked, quantity: line.quantity });
+      continue;
+    }
+
+    const item = menuItems.find(menuItem => menuItem.id === getLineItemId(line));
+    if (!item) {
+      plan.skipped.push({ name: getLineName(line), reason: 'no longer available' });
+      continue;
+    }
+
+    // Orders from before the item came in sizes get its default size
+    const size = line.size ? item.sizes?.find(choice => choice.name === line.size) : getDefaultSize(item);
+    if (line.size && !size) {
+      plan.skipped.push({ name: getLineName(line), reason: 'size no longer offered' });
+      continue;
+    }
+
+    // Options are matched by group and name, at today's prices
+    const groups = item.modifierGroups ?? [];
+    const previousOptions = getLineOptions(line);
+    const options = sortOptions(groups, previousOptions);
+    if (options.length !== previousOptions.length || validateOptions(groups, options)) {
+      plan.skipped.push({ name: getLineName(line), reason: 'its options have changed' });
+      continue;
+    }
+
+    notePrice(line, (size ? size.price : item.price) + getOptionsPrice(options));
+    plan.lines.push({ kind: 'item', item, size, quantity: line.quantity, options });
+  }
+
+  return plan;
+};
@@ -0,0 +1,28 @@
+// Order numbers like A-042, handed out per day by the database when an order
+// is placed (supabase/migrations/20250408000000_order_numbers.sql). They are
+// what staff call out and guests quote; orders.id stays the key underneath.
+
+const NUMBERS_PER_LETTER = 999;
+
+// Numbering starts again at A-001 each day in the cafe's local time
+export const ORDER_NUMBER_TIME_ZONE = 'Asia/Kolkata';
+
+// The day an order placed at `now` is numbered under, e.g. "2025-04-08"
+export const getBusinessDate = (now = new Date()) =>
+  new Intl.DateTimeFormat('en-CA', {
+    timeZone: ORDER_NUMBER_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(now);
+
+// Mirrors format_order_number(): 1 -> A-001, 999 -> A-999, 1000 -> B-001
+export const formatOrderNumber = (position: number) => {
+  const letter = String.fromCharCode(65 + (Math.floor((position - 1) / NUMBERS_PER_LETTER) % 26));
+  return `${letter}-${String(((position - 1) % NUMBERS_PER_LETTER) + 1).padStart(3, '0')}`;
+};
+
+// The number to show for an order. One still waiting in the outbox has none
+// yet, so a short reference from its id stands in.
+export const getOrderNumber = (order: { id: string; order_number?: string | null }) =>
+  order.order_number || order.id.slice(0, 8).toUpperCase();
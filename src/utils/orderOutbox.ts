@@ -0,0 +1,145 @@
+// Orders that could not reach place_order wait here, in IndexedDB so they
+// survive a reload or a closed tab, until OrderOutboxProvider gets them through.
+// There is one entry per order id, so the same order is never queued twice.
+import type { Database } from '@/integrations/supabase/types';
+import type { CartItem } from '@/context/CartContext';
+
+export type PlaceOrderArgs = Database['public']['Functions']['place_order']['Args'];
+export type PlacedOrder = Database['public']['Functions']['place_order']['Returns'];
+
+// queued: waiting for its next try; syncing: being sent now; synced: placed;
+// failed: the cafe refused it, so trying again will not help
+export type OutboxStatus = 'queued' | 'syncing' | 'synced' | 'failed';
+
+export type OutboxEntry = {
+  id: string;
+  request: PlaceOrderArgs;
+  // The cart as it was, to show on the waiting page and to put back if refused
+  items: CartItem[];
+  total: number;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  queuedAt: number;
+  syncedAt: number | null;
+  order: PlacedOrder | null;
+  // Whether staff have been told about it (report_stuck_order)
+  reported: boolean;
+};
+
+const DB_NAME = 'barista-outbox';
+const STORE = 'orders';
+
+// Retries start after 2 seconds and double up to 5 minutes
+const FIRST_RETRY_DELAY = 2000;
+const MAX_RETRY_DELAY = 5 * 60000;
+
+// Staff hear about an order once it has been tried this often or waited this long
+export const STUCK_AFTER_ATTEMPTS = 5;
+export const STUCK_AFTER_MS = 2 * 60000;
+
+// Placed orders are kept a day so the waiting page can still show them as sent
+const KEEP_SYNCED_MS = 24 * 60 * 60000;
+
+export const getRetryDelay = (attempts: number) =>
+  Math.min(FIRST_RETRY_DELAY * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY);
+
+// A request that never got an answer from the database is worth trying again.
+// An answer with a SQLSTATE means it was looked at and refused, apart from
+// connection, resource and serialization problems on the database's side.
+export const isRetryableError = (error: { code?: string } | null | undefined) => {
+  const code = error?.code ?? '';
+  // PGRST0xx: the API could not reach the database; other PGRST codes are refusals
+  if (code.startsWith('PGRST')) return code.startsWith('PGRST0');
+  if (!/^[0-9A-Z]{5}$/.test(code)) return true;
+  return ['08', '40', '53', '57'].includes(code.slice(0, 2));
+};
+
+// The order id is already taken: an earlier try got through but its answer was lost
+export const isDuplicateOrderError = (error: { code?: string } | null | undefined) => error?.code === '23505';
+
+export const isStuck = (entry: OutboxEntry, now = Date.now()) =>
+  entry.status === 'failed' ||
+  (entry.status !== 'synced' && (entry.attempts >= STUCK_AFTER_ATTEMPTS || now - entry.queuedAt >= STUCK_AFTER_MS));
+
+const openOutbox = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `action` in one transaction and resolves once it has been committed
+const withStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T> | void) => {
+  const db = await openOutbox();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = action(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const listOutbox = async () =>
+  ((await withStore<OutboxEntry[]>('readonly', store => store.getAll())) ?? [])
+    .sort((a, b) => a.queuedAt - b.queuedAt);
+
+export const getOutboxEntry = async (id: string) =>
+  (await withStore<OutboxEntry>('readonly', store => store.get(id))) ?? null;
+
+export const saveOutboxEntry = async (entry: OutboxEntry) => {
+  await withStore('readwrite', store => store.put(entry));
+  return entry;
+};
+
+export const removeOutboxEntry = async (id: string) => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+// Queues an order after its first try failed; an order already queued is left as it is
+export const addToOutbox = async (
+  request: PlaceOrderArgs,
+  items: CartItem[],
+  total: number,
+  lastError: string | null
+) => {
+  const existing = await getOutboxEntry(request.p_order_id);
+  if (existing) return existing;
+
+  const now = Date.now();
+  return saveOutboxEntry({
+    id: request.p_order_id,
+    request,
+    items,
+    total,
+    status: 'queued',
+    attempts: 1,
+    nextAttemptAt: now + getRetryDelay(1),
+    lastError,
+    queuedAt: now,
+    syncedAt: null,
+    order: null,
+    reported: false
+  });
+};
+
+// Drops placed orders older than a day
+export const pruneOutbox = async () => {
+  const cutoff = Date.now() - KEEP_SYNCED_MS;
+  const stale = (await listOutbox()).filter(entry => entry.status === 'synced' && (entry.syncedAt ?? 0) < cutoff);
+  await Promise.all(stale.map(entry => removeOutboxEntry(entry.id)));
+};
@@ -0,0 +1,117 @@
+export type OrderStatus =
+  | 'pending'
+  | 'accepted'
+  | 'preparing'
+  | 'ready'
+  | 'served'
+  | 'delivered'
+  | 'completed'
+  | 'rejected'
+  | 'cancelled';
+
+export type OrderTimestampColumn =
+  | 'accepted_at'
+  | 'preparing_at'
+  | 'ready_at'
+  | 'served_at'
+  | 'delivered_at'
+  | 'completed_at'
+  | 'rejected_at'
+  | 'cancelled_at';
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  preparing: 'Preparing',
+  ready: 'Ready',
+  served: 'Served',
+  delivered: 'Delivered',
+  completed: 'Completed',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled'
+};
+
+// Allowed moves between statuses. The orders_track_status trigger in
+// supabase/migrations/20250323000000_order_lifecycle.sql enforces the same graph.
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['accepted', 'rejected', 'cancelled'],
+  accepted: ['preparing', 'cancelled'],
+  preparing: ['ready', 'cancelled'],
+  ready: ['served', 'delivered', 'cancelled'],
+  served: ['completed'],
+  delivered: ['completed'],
+  completed: [],
+  rejected: [],
+  cancelled: []
+};
+
+// Column stamped by the database when an order enters each status
+export const STATUS_TIMESTAMP_COLUMNS: Record<Exclude<OrderStatus, 'pending'>, OrderTimestampColumn> = {
+  accepted: 'accepted_at',
+  preparing: 'preparing_at',
+  ready: 'ready_at',
+  served: 'served_at',
+  delivered: 'delivered_at',
+  completed: 'completed_at',
+  rejected: 'rejected_at',
+  cancelled: 'cancelled_at'
+};
+
+export type RejectionCode = 'out_of_stock' | 'payment_not_received' | 'kitchen_closed' | 'other';
+
+// Preset reasons staff pick from when rejecting an order
+export const REJECTION_REASONS: { code: RejectionCode; label: string }[] = [
+  { code: 'out_of_stock', label: 'Item out of stock' },
+  { code: 'payment_not_received', label: 'Payment not received' },
+  { code: 'kitchen_closed', label: 'Kitchen closed' },
+  { code: 'other', label: 'Other' }
+];
+
+// Orders the kitchen has taken on and not yet handed over
+export const IN_PROGRESS_STATUSES: OrderStatus[] = ['accepted', 'preparing', 'ready'];
+
+// Orders that count towards sales (everything accepted and not cancelled)
+export const ACCEPTED_STATUSES: OrderStatus[] = ['accepted', 'preparing', 'ready', 'served', 'delivered', 'completed'];
+
+// Orders still open on a table or room: everything not completed, rejected or cancelled
+export const OPEN_STATUSES: OrderStatus[] = ['pending', ...IN_PROGRESS_STATUSES, 'served', 'delivered'];
+
+export const isFinalStatus = (status: OrderStatus) => ORDER_TRANSITIONS[status].length === 0;
+
+export const canTransition = (from: OrderStatus, to: OrderStatus) => ORDER_TRANSITIONS[from]?.includes(to) ?? false;
+
+// The forward step staff take next; room orders are delivered, table orders are served
+export const getNextStatus = (order: { status: string; room_number?: string | null }): OrderStatus | null => {
+  switch (order.status as OrderStatus) {
+    case 'pending': return 'accepted';
+    case 'accepted': return 'preparing';
+    case 'preparing': return 'ready';
+    case 'ready': return order.room_number ? 'delivered' : 'served';
+    case 'served':
+    case 'delivered': return 'completed';
+    default: return null;
+  }
+};
+
+// Steps shown in the customer progress tracker
+export type OrderStage = {
+  status: OrderStatus;
+  label: string;
+};
+
+export const getOrderStages = (order: { room_number?: string | null }): OrderStage[] => [
+  { status: 'pending', label: 'Received' },
+  { status: 'accepted', label: 'Accepted' },
+  { status: 'preparing', label: 'Preparing' },
+  { status: 'ready', label: 'Ready' },
+  order.room_number
+    ? { status: 'delivered', label: 'Delivered' }
+    : { status: 'served', label: 'Served' },
+  { status: 'completed', label: 'Completed' }
+];
+
+// Position of a status in the tracker, treating served and delivered as the same step
+export const getStageIndex = (status: OrderStatus) => {
+  const sequence: OrderStatus[] = ['pending', 'accepted', 'preparing', 'ready', 'served', 'completed'];
+  return sequence.indexOf(status === 'delivered' ? 'served' : status);
+};
@@ -0,0 +1,73 @@
+export type PaymentStatus = 'unpaid' | 'paid' | 'refunded' | 'partially_refunded';
+
+export type PaymentMethod = 'qr' | 'card' | 'cash';
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  unpaid: 'Unpaid',
+  paid: 'Paid',
+  refunded: 'Refunded',
+  partially_refunded: 'Partially refunded'
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  qr: 'UPI',
+  card: 'Card',
+  cash: 'Cash'
+};
+
+// Methods a cashier collects in person; UPI orders are paid by their intent
+export const COUNTER_PAYMENT_METHODS: PaymentMethod[] = ['cash', 'card'];
+
+// Payment states where money was taken at some point
+export const COLLECTED_PAYMENT_STATUSES: PaymentStatus[] = ['paid', 'partially_refunded', 'refunded'];
+
+export const isCounterPayment = (method?: string | null) => COUNTER_PAYMENT_METHODS.includes(method as PaymentMethod);
+
+// Notes a customer is likely to hand over for a given total
+export const getQuickAmounts = (total: number) =>
+  Array.from(new Set([total, ...[50, 100, 500].map(note => Math.ceil(total / note) * note)]))
+    .sort((a, b) => a - b);
+
+export type PaymentRecord = {
+  payment_method?: string | null;
+  payment_status?: string | null;
+  total: number;
+  amount_tendered?: number | null;
+  change_given?: number | null;
+  refunded_amount?: number | null;
+};
+
+export type ReconciliationLine = {
+  method: PaymentMethod;
+  orders: number;
+  collected: number;
+  tendered: number;
+  changeGiven: number;
+  refunded: number;
+  net: number;
+};
+
+// Totals per payment method for an end-of-shift count. For cash, `net` is what
+// should be left in the drawer: tendered minus change minus refunds.
+export const summarizePayments = (orders: PaymentRecord[]): ReconciliationLine[] =>
+  (Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(method => {
+    const paid = orders.filter(order =>
+      order.payment_method === method &&
+      COLLECTED_PAYMENT_STATUSES.includes(order.payment_status as PaymentStatus)
+    );
+
+    const collected = paid.reduce((sum, order) => sum + Number(order.total), 0);
+    const tendered = paid.reduce((sum, order) => sum + Number(order.amount_tendered ?? order.total), 0);
+    const changeGiven = paid.reduce((sum, order) => sum + Number(order.change_given ?? 0), 0);
+    const refunded = paid.reduce((sum, order) => sum + Number(order.refunded_amount ?? 0), 0);
+
+    return {
+      method,
+      orders: paid.length,
+      collected,
+      tendered,
+      changeGiven,
+      refunded,
+      net: collected - refunded
+    };
+  });
@@ -0,0 +1,102 @@
+import type { StaffRole } from '@/context/AuthContext';
+
+export type Permission =
+  | 'orders.view'
+  | 'orders.updateStatus'
+  | 'orders.delete'
+  | 'kitchen.view'
+  | 'menu.view'
+  | 'menu.toggleAvailability'
+  | 'menu.editPrices'
+  | 'menu.manageItems'
+  | 'analytics.view'
+  | 'analytics.revenue'
+  | 'analytics.export'
+  | 'payments.collect'
+  | 'payments.refund'
+  | 'payments.reconcile'
+  | 'messages.view'
+  | 'locations.view'
+  | 'locations.close'
+  | 'locations.manage';
+
+// What each staff role may do in the admin dashboard. The database enforces the
+// same rules (supabase/migrations/20250322000000_staff_permissions.sql), except
+// 'analytics.revenue', which only hides the revenue figures in the dashboard.
+// Every staff role can still read order totals, since orders are worked and
+// paid from them, so it is a matter of display and not a security boundary.
+export const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  owner: [
+    'orders.view',
+    'orders.updateStatus',
+    'orders.delete',
+    'kitchen.view',
+    'menu.view',
+    'menu.toggleAvailability',
+    'menu.editPrices',
+    'menu.manageItems',
+    'analytics.view',
+    'analytics.revenue',
+    'analytics.export',
+    'payments.collect',
+    'payments.refund',
+    'payments.reconcile',
+    'messages.view',
+    'locations.view',
+    'locations.close',
+    'locations.manage'
+  ],
+  manager: [
+    'orders.view',
+    'orders.updateStatus',
+    'kitchen.view',
+    'menu.view',
+    'menu.toggleAvailability',
+    'menu.editPrices',
+    'menu.manageItems',
+    'analytics.view',
+    'payments.collect',
+    'payments.refund',
+    'payments.reconcile',
+    'messages.view',
+    'locations.view',
+    'locations.close',
+    'locations.manage'
+  ],
+  barista: [
+    'orders.view',
+    'orders.updateStatus',
+    'kitchen.view',
+    'locations.view'
+  ],
+  cashier: [
+    'orders.view',
+    'orders.updateStatus',
+    'payments.collect',
+    'payments.reconcile',
+    'locations.view',
+    'locations.close'
+  ]
+};
+
+export const hasPermission = (role: StaffRole | null | undefined, permission: Permission): boolean => {
+  if (!role) return false;
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+};
+
+export class PermissionError extends Error {
+  permission: Permission;
+
+  constructor(permission: Permission) {
+    super('You do not have permission to do this');
+    this.name = 'PermissionError';
+    this.permission = permission;
+  }
+}
+
+// Throws before a request is sent if the signed-in role may not perform it
+export const assertPermission = (role: StaffRole | null | undefined, permission: Permission) => {
+  if (!hasPermission(role, permission)) {
+    throw new PermissionError(permission);
+  }
+};
@@ -0,0 +1,118 @@
+// Shared pricing: tax rules and order totals for the cart, the mock backend and
+// every bill. The gst_rate() and place_order functions in
+// supabase/migrations/20250328000000_gst.sql apply the same rules server-side,
+// so keep the two in step.
+
+// The GST rates below are repeated in public.gst_rate() (20250328000000_gst.sql),
+// which prices orders in the database. Change a rate in both places, with a new
+// migration for the SQL side, or carts and bills will disagree with the charge.
+
+// GST (percent) on restaurant service, used for every category without its own rate
+export const DEFAULT_GST_RATE = 5;
+
+// Categories taxed at a different rate, e.g. packaged goods sold as they are
+export const GST_RATES_BY_CATEGORY: Record<string, number> = {
+  'packaged-beverages': 18,
+  'packaged-snacks': 12
+};
+
+// Printed on receipts; bills show no GSTIN when it is not configured
+export const GSTIN: string | undefined = import.meta.env.VITE_GSTIN || undefined;
+
+export const getTaxRate = (category?: string | null): number =>
+  category && category in GST_RATES_BY_CATEGORY ? GST_RATES_BY_CATEGORY[category] : DEFAULT_GST_RATE;
+
+// Rounds to paise the way Postgres round(x, 2) does for positive amounts
+export const roundCurrency = (amount: number) => Math.round((amount + Number.EPSILON) * 100) / 100;
+
+export type PricedLine = {
+  price: number;
+  quantity: number;
+  category?: string | null;
+  // Rate stored on the order line when it was placed; wins over today's rules
+  tax_rate?: number | null;
+  // Share of a promo code discount taken off this line
+  discount?: number | null;
+};
+
+// Tax for every line charged at the same rate. CGST and SGST are each half of the GST rate.
+export type TaxLine = {
+  rate: number;
+  taxable: number;
+  cgst: number;
+  sgst: number;
+};
+
+export type OrderPricing = {
+  subtotal: number;
+  discount: number;
+  cgst: number;
+  sgst: number;
+  taxes: number;
+  total: number;
+  taxLines: TaxLine[];
+};
+
+export const getLineTaxRate = (line: PricedLine) =>
+  typeof line.tax_rate === 'number' ? line.tax_rate : getTaxRate(line.category);
+
+// What GST is charged on: the line amount less its share of any discount
+export const getLineTaxable = (line: PricedLine) => line.price * line.quantity - (Number(line.discount) || 0);
+
+// CGST (or SGST) on one line, rounded per line like place_order does
+export const getLineHalfTax = (line: PricedLine) =>
+  roundCurrency((getLineTaxable(line) * getLineTaxRate(line)) / 200);
+
+export const calculatePricing = (lines: PricedLine[]): OrderPricing => {
+  const byRate = new Map<number, TaxLine>();
+
+  lines.forEach(line => {
+    const rate = getLineTaxRate(line);
+    const half = getLineHalfTax(line);
+    const taxLine = byRate.get(rate) ?? { rate, taxable: 0, cgst: 0, sgst: 0 };
+
+    taxLine.taxable = roundCurrency(taxLine.taxable + getLineTaxable(line));
+    taxLine.cgst = roundCurrency(taxLine.cgst + half);
+    taxLine.sgst = roundCurrency(taxLine.sgst + half);
+    byRate.set(rate, taxLine);
+  });
+
+  const taxLines = Array.from(byRate.values()).sort((a, b) => a.rate - b.rate);
+  const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.price * line.quantity, 0));
+  const discount = roundCurrency(lines.reduce((sum, line) => sum + (Number(line.discount) || 0), 0));
+  const cgst = roundCurrency(taxLines.reduce((sum, taxLine) => sum + taxLine.cgst, 0));
+  const sgst = roundCurrency(taxLines.reduce((sum, taxLine) => sum + taxLine.sgst, 0));
+  const taxes = roundCurrency(cgst + sgst);
+
+  return { subtotal, discount, cgst, sgst, taxes, total: roundCurrency(subtotal - discount + taxes), taxLines };
+};
+
+// Breakdown for a saved order. Orders placed before taxes were charged keep
+// their stored totals and show no tax lines.
+export const getOrderPricing = (order: {
+  items?: unknown;
+  subtotal?: number;
+  discount?: number | null;
+  taxes?: number;
+  total?: number;
+}): OrderPricing => {
+  const items = Array.isArray(order.items) ? (order.items as PricedLine[]) : [];
+  const pricing = calculatePricing(items);
+  const discount = Number(order.discount ?? pricing.discount);
+
+  if (!order.taxes) {
+    const subtotal = Number(order.subtotal ?? pricing.subtotal);
+    return { subtotal, discount, cgst: 0, sgst: 0, taxes: 0, total: Number(order.total ?? subtotal - discount), taxLines: [] };
+  }
+
+  return {
+    ...pricing,
+    subtotal: Number(order.subtotal ?? pricing.subtotal),
+    discount,
+    taxes: Number(order.taxes),
+    total: Number(order.total ?? pricing.total)
+  };
+};
+
+// The CGST or SGST share of a GST rate, e.g. 5 -> "2.5%"
+export const formatSplitRate = (rate: number) => `${Number((rate / 2).toFixed(2))}%`;
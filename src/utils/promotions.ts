@@ -0,0 +1,144 @@
+// Promo codes: percentage or flat discounts, optionally limited to some
+// categories, a minimum order, a date range, a daily happy hour and a number of
+// uses. Promotions live in the promotions table; place_order in
+// supabase/migrations/20250401000000_promotions.sql applies them with the same
+// rules and messages as here, so keep the two in step.
+import { PricedLine, roundCurrency } from '@/utils/pricing';
+
+export type DiscountType = 'percent' | 'flat';
+
+export type Promotion = {
+  code: string;
+  description?: string | null;
+  discount_type: DiscountType;
+  discount_value: number;
+  max_discount: number | null;
+  min_order_value: number;
+  categories: string[] | null; // null means every category
+  starts_at: string | null;
+  ends_at: string | null;
+  happy_hour_start: string | null; // time of day in PROMOTION_TIME_ZONE, e.g. "15:00:00"
+  happy_hour_end: string | null;
+  usage_limit: number | null;
+  times_used: number;
+};
+
+// Happy hours are set in the cafe's local time
+export const PROMOTION_TIME_ZONE = 'Asia/Kolkata';
+
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase();
+
+const toNumberOrNull = (value: unknown) =>
+  value === null || value === undefined || value === '' ? null : Number(value);
+
+// Reads a promotions row (or get_promotion result)
+export const parsePromotion = (row: Record<string, unknown>): Promotion => ({
+  code: String(row.code),
+  description: typeof row.description === 'string' ? row.description : null,
+  discount_type: row.discount_type === 'flat' ? 'flat' : 'percent',
+  discount_value: Number(row.discount_value) || 0,
+  max_discount: toNumberOrNull(row.max_discount),
+  min_order_value: Number(row.min_order_value) || 0,
+  categories: Array.isArray(row.categories) && row.categories.length > 0 ? row.categories.map(String) : null,
+  starts_at: typeof row.starts_at === 'string' ? row.starts_at : null,
+  ends_at: typeof row.ends_at === 'string' ? row.ends_at : null,
+  happy_hour_start: typeof row.happy_hour_start === 'string' ? row.happy_hour_start : null,
+  happy_hour_end: typeof row.happy_hour_end === 'string' ? row.happy_hour_end : null,
+  usage_limit: toNumberOrNull(row.usage_limit),
+  times_used: Number(row.times_used) || 0
+});
+
+// "15:00" or "15:00:00" -> "15:00:00", so times compare as strings
+const toTimeOfDay = (time: string) => (time.length === 5 ? `${time}:00` : time.slice(0, 8));
+
+const getLocalTimeOfDay = (now: Date) =>
+  new Intl.DateTimeFormat('en-GB', {
+    timeZone: PROMOTION_TIME_ZONE,
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+  }).format(now);
+
+// Happy hours may run past midnight, e.g. 22:00 to 02:00
+export const isInHappyHour = (promotion: Promotion, now: Date = new Date()) => {
+  if (!promotion.happy_hour_start || !promotion.happy_hour_end) return true;
+
+  const time = getLocalTimeOfDay(now);
+  const start = toTimeOfDay(promotion.happy_hour_start);
+  const end = toTimeOfDay(promotion.happy_hour_end);
+
+  return start <= end ? time >= start && time < end : time >= start || time < end;
+};
+
+// e.g. "15:00 to 18:00"
+export const formatHappyHour = (promotion: Promotion) =>
+  promotion.happy_hour_start && promotion.happy_hour_end
+    ? `${promotion.happy_hour_start.slice(0, 5)} to ${promotion.happy_hour_end.slice(0, 5)}`
+    : null;
+
+const isEligible = (promotion: Promotion, line: PricedLine) =>
+  !promotion.categories || promotion.categories.includes(String(line.category));
+
+const getLineAmount = (line: PricedLine) => line.price * line.quantity;
+
+// Why the promotion cannot be used on these lines right now, or null if it can
+export const getPromotionError = (promotion: Promotion, lines: PricedLine[], now: Date = new Date()): string | null => {
+  const { code } = promotion;
+  const subtotal = roundCurrency(lines.reduce((sum, line) => sum + getLineAmount(line), 0));
+  const eligible = lines.filter(line => isEligible(promotion, line));
+
+  if (promotion.starts_at && new Date(promotion.starts_at) > now) return `Promo code ${code} is not valid yet`;
+  if (promotion.ends_at && new Date(promotion.ends_at) <= now) return `Promo code ${code} has expired`;
+  if (promotion.usage_limit !== null && promotion.times_used >= promotion.usage_limit) {
+    return `Promo code ${code} has been fully redeemed`;
+  }
+  if (!isInHappyHour(promotion, now)) return `Promo code ${code} is only valid from ${formatHappyHour(promotion)}`;
+  if (subtotal < promotion.min_order_value) {
+    return `Promo code ${code} needs an order of at least ₹${promotion.min_order_value}`;
+  }
+  if (eligible.length === 0) return `Promo code ${code} does not apply to the items in your order`;
+
+  return null;
+};
+
+// The discount on the lines the promotion covers, capped at max_discount
+export const getPromotionDiscount = (promotion: Promotion, lines: PricedLine[]) => {
+  const eligibleAmount = roundCurrency(
+    lines.filter(line => isEligible(promotion, line)).reduce((sum, line) => sum + getLineAmount(line), 0)
+  );
+  const discount = promotion.discount_type === 'percent'
+    ? roundCurrency((eligibleAmount * promotion.discount_value) / 100)
+    : Math.min(promotion.discount_value, eligibleAmount);
+
+  return promotion.max_discount !== null ? Math.min(discount, promotion.max_discount) : discount;
+};
+
+// Spreads the discount over the lines it covers in proportion to their
+// amounts, the last one taking the remainder, so GST is charged on what is paid
+export const applyPromotion = <T extends PricedLine>(promotion: Promotion, lines: T[]): T[] => {
+  const discount = getPromotionDiscount(promotion, lines);
+  const eligible = lines.filter(line => isEligible(promotion, line));
+  const eligibleAmount = eligible.reduce((sum, line) => sum + getLineAmount(line), 0);
+  const lastEligible = eligible[eligible.length - 1];
+  let allocated = 0;
+
+  return lines.map(line => {
+    if (!isEligible(promotion, line)) return line;
+
+    const share = line === lastEligible
+      ? roundCurrency(discount - allocated)
+      : roundCurrency((discount * getLineAmount(line)) / eligibleAmount);
+    allocated = roundCurrency(allocated + share);
+
+    return { ...line, discount: share };
+  });
+};
+
+// e.g. "20% off coffee" or "₹50 off"
+export const describePromotion = (promotion: Promotion) => {
+  if (promotion.description) return promotion.description;
+
+  const amount = promotion.discount_type === 'percent' ? `${promotion.discount_value}%` : `₹${promotion.discount_value}`;
+  return promotion.categories ? `${amount} off ${promotion.categories.join(', ')}` : `${amount} off`;
+};
@@ -0,0 +1,65 @@
+// Registers public/sw.js, which makes the app installable and lets it open
+// offline. Only production builds use it, so the dev server is never cached.
+import type { OrderPushPayload } from '@/integrations/push/types';
+
+// Must match OUTBOX_SYNC_TAG in public/sw.js
+export const OUTBOX_SYNC_TAG = 'order-outbox';
+
+// Must match LOCAL_PUSH_TYPE in public/sw.js
+export const LOCAL_PUSH_TYPE = 'local-push';
+
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register: (tag: string) => Promise<void> };
+};
+
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error('Error registering the service worker:', error);
+    });
+  });
+};
+
+// Asks the service worker to wake the app once the connection is back, where
+// the browser supports Background Sync; the app also retries on its own
+export const requestOutboxSync = async () => {
+  if (!('serviceWorker' in navigator) || !navigator.serviceWorker.controller) return;
+
+  try {
+    const registration = await navigator.serviceWorker.ready as SyncRegistration;
+    await registration.sync?.register(OUTBOX_SYNC_TAG);
+  } catch (error) {
+    console.error('Error requesting background sync:', error);
+  }
+};
+
+// Calls `onSync` when the service worker says queued orders can go
+export const onOutboxSync = (onSync: () => void) => {
+  if (!('serviceWorker' in navigator)) return () => {};
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === OUTBOX_SYNC_TAG) onSync();
+  };
+
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+};
+
+// Shows an order update the way a Web Push would be: through the service
+// worker, or straight from the page where there is none (the dev server).
+// Either way nothing is shown while the app is on screen.
+export const showLocalPush = (payload: OrderPushPayload) => {
+  if ('serviceWorker' in navigator && navigator.serviceWorker.controller) {
+    navigator.serviceWorker.controller.postMessage({ type: LOCAL_PUSH_TYPE, payload });
+    return;
+  }
+
+  if (!('Notification' in window) || Notification.permission !== 'granted' || document.visibilityState === 'visible') return;
+  new Notification(payload.title, {
+    body: payload.body,
+    tag: `order-${payload.orderId}`,
+    icon: '/icons/icon-192.png'
+  });
+};
@@ -0,0 +1,47 @@
+// Splitting a bill into per-person shares, equally or by item. split_bill in
+// supabase/migrations/20250406000000_bill_splits.sql works the shares out the
+// same way; this copy is for the preview before the split is saved.
+import { getLineHalfTax, getLineTaxable, PricedLine, roundCurrency } from '@/utils/pricing';
+
+// Orders paid share by share are marked with this method once every share is in
+export const SPLIT_PAYMENT_METHOD = 'split';
+
+export type SplitMode = 'equal' | 'items';
+
+export type SplitPaymentMethod = 'cash' | 'card';
+
+// The most people a bill can be split between
+export const MAX_SPLIT_PEOPLE = 20;
+
+// One person's share as sent to split_bill; lines are indexes into the bill's items
+export type SplitRequest = {
+  label: string;
+  method: SplitPaymentMethod;
+  lines?: number[];
+};
+
+// What one line comes to: its amount less its discount, plus GST
+export const getLineAmount = (line: PricedLine) => roundCurrency(getLineTaxable(line) + 2 * getLineHalfTax(line));
+
+// Shares of `due` in proportion to `weights`, the last share taking the rounding
+export const allocateShares = (due: number, weights: number[]) => {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  let allocated = 0;
+
+  return weights.map((weight, index) => {
+    const amount = index === weights.length - 1
+      ? roundCurrency(due - allocated)
+      : roundCurrency(totalWeight > 0 ? (due * weight) / totalWeight : due / weights.length);
+    allocated = roundCurrency(allocated + amount);
+    return amount;
+  });
+};
+
+// The amount each person pays for the shares as they are set up
+export const previewSplit = (due: number, items: PricedLine[], splits: SplitRequest[]) =>
+  allocateShares(
+    due,
+    splits.map(split => (split.lines
+      ? split.lines.reduce((sum, index) => sum + (items[index] ? getLineAmount(items[index]) : 0), 0)
+      : 1))
+  );
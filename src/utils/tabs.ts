@@ -0,0 +1,56 @@
+// Open tabs: orders placed from a scanned table with the 'tab' payment method
+// join the table's open tab and are paid together when it is settled
+// (supabase/migrations/20250405000000_tabs.sql).
+
+export const TAB_PAYMENT_METHOD = 'tab';
+
+export type TabStatus = 'open' | 'closed';
+
+export type TabOrder = {
+  id: string;
+  status: string;
+  created_at: string;
+  items?: unknown;
+  subtotal?: number | null;
+  discount?: number | null;
+  promo_code?: string | null;
+  taxes?: number | null;
+  total: number;
+  points_redeemed?: number | null;
+  points_discount?: number | null;
+  payment_status?: string | null;
+  order_number?: string | null;
+  customer_id?: string | null;
+};
+
+// Rejected and cancelled rounds are left off the bill
+export const isBillable = (order: { status?: unknown }) => order.status !== 'rejected' && order.status !== 'cancelled';
+
+// What is still owed on a tab, as settle_tab works it out
+export const getTabDue = (orders: TabOrder[]) =>
+  orders
+    .filter(order => isBillable(order) && (order.payment_status ?? 'unpaid') === 'unpaid')
+    .reduce((sum, order) => sum + Number(order.total), 0);
+
+// Every round on the tab as one bill, in the shape BillDisplay takes for a single order
+export const combineTabOrders = (orders: TabOrder[]) => {
+  const rounds = orders
+    .filter(isBillable)
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime() || a.id.localeCompare(b.id));
+  const sum = (pick: (order: TabOrder) => number | null | undefined) =>
+    rounds.reduce((total, order) => total + Number(pick(order) ?? 0), 0);
+  const promoCodes = Array.from(new Set(rounds.map(order => order.promo_code).filter(Boolean)));
+
+  return {
+    rounds: rounds.length,
+    items: rounds.flatMap(order => (Array.isArray(order.items) ? order.items : [])),
+    subtotal: sum(order => order.subtotal),
+    discount: sum(order => order.discount),
+    promo_code: promoCodes.length > 0 ? promoCodes.join(', ') : null,
+    taxes: sum(order => order.taxes),
+    total: sum(order => order.total),
+    points_redeemed: sum(order => order.points_redeemed),
+    points_discount: sum(order => order.points_discount),
+    created_at: rounds[0]?.created_at ?? new Date().toISOString()
+  };
+};
@@ -1 +1,17 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  readonly VITE_USE_MOCK_DB?: string;
+  readonly VITE_PAYMENT_PROVIDER?: 'upi' | 'simulator';
+  readonly VITE_UPI_VPA?: string;
+  readonly VITE_UPI_PAYEE_NAME?: string;
+  readonly VITE_GSTIN?: string;
+  readonly VITE_PUSH_PROVIDER?: 'web_push' | 'local';
+  readonly VITE_VAPID_PUBLIC_KEY?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
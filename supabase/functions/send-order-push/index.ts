@@ -0,0 +1,140 @@
+// Push sender for order notifications (Supabase Edge Function).
+//
+// Sends every queued order_push_messages row to the order's 'web_push'
+// subscriptions and stamps sent_at. It is called by the database after each
+// message is queued and once a minute while any are left over
+// (supabase/migrations/20250410000000_order_push_sender.sql). Subscriptions
+// the push service no longer knows (404/410) are deleted; other failures
+// leave the message queued for the next call.
+//
+// Deploy with `supabase functions deploy send-order-push --no-verify-jwt`
+// and set its secrets:
+//
+//   supabase secrets set VAPID_PUBLIC_KEY=... VAPID_PRIVATE_KEY=... \
+//     VAPID_SUBJECT=mailto:you@example.com PUSH_SENDER_SECRET=...
+//
+// SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are provided by Supabase.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import webpush from 'npm:web-push@3.6.7';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+webpush.setVapidDetails(
+  Deno.env.get('VAPID_SUBJECT') ?? '',
+  Deno.env.get('VAPID_PUBLIC_KEY') ?? '',
+  Deno.env.get('VAPID_PRIVATE_KEY') ?? ''
+);
+
+const PUSH_SENDER_SECRET = Deno.env.get('PUSH_SENDER_SECRET') ?? '';
+
+// Most messages sent per call; anything left waits for the next one
+const BATCH_SIZE = 100;
+
+type PushMessage = {
+  id: string;
+  order_id: string;
+  status: string;
+  title: string;
+  body: string;
+};
+
+type PushSubscriptionRow = {
+  id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+};
+
+// Sends one message to every browser following its order. Returns false if
+// any of them should be tried again later.
+const sendMessage = async (message: PushMessage) => {
+  const { data: subscriptions, error } = await supabase
+    .from('push_subscriptions')
+    .select('id, endpoint, p256dh, auth')
+    .eq('order_id', message.order_id)
+    .eq('provider', 'web_push');
+
+  if (error) {
+    console.error('Error reading push subscriptions:', error);
+    return false;
+  }
+
+  const payload = JSON.stringify({
+    orderId: message.order_id,
+    status: message.status,
+    title: message.title,
+    body: message.body
+  });
+
+  let delivered = true;
+  for (const subscription of (subscriptions ?? []) as PushSubscriptionRow[]) {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        payload,
+        // An update an hour late is no use; "ready" should wake the phone
+        { TTL: 3600, urgency: message.status === 'ready' ? 'high' : 'normal' }
+      );
+    } catch (error) {
+      const statusCode = (error as { statusCode?: number }).statusCode;
+      if (statusCode === 404 || statusCode === 410) {
+        await supabase.from('push_subscriptions').delete().eq('id', subscription.id);
+      } else {
+        console.error(`Error sending push for order ${message.order_id}:`, error);
+        delivered = false;
+      }
+    }
+  }
+  return delivered;
+};
+
+Deno.serve(async (request) => {
+  if (!PUSH_SENDER_SECRET || request.headers.get('Authorization') !== `Bearer ${PUSH_SENDER_SECRET}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const { data: queued, error } = await supabase
+    .from('order_push_messages')
+    .select('id')
+    .is('sent_at', null)
+    .order('created_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    console.error('Error reading queued push messages:', error);
+    return new Response('Could not read the queue', { status: 500 });
+  }
+  if (!queued || queued.length === 0) {
+    return Response.json({ sent: 0, retrying: 0 });
+  }
+
+  // Claims the messages by stamping them first, so overlapping calls never
+  // send the same one twice
+  const { data: claimed, error: claimError } = await supabase
+    .from('order_push_messages')
+    .update({ sent_at: new Date().toISOString() })
+    .in('id', queued.map(row => row.id))
+    .is('sent_at', null)
+    .select('id, order_id, status, title, body');
+
+  if (claimError) {
+    console.error('Error claiming push messages:', claimError);
+    return new Response('Could not claim the queue', { status: 500 });
+  }
+
+  let sent = 0;
+  let retrying = 0;
+  for (const message of (claimed ?? []) as PushMessage[]) {
+    if (await sendMessage(message)) {
+      sent += 1;
+    } else {
+      retrying += 1;
+      await supabase.from('order_push_messages').update({ sent_at: null }).eq('id', message.id);
+    }
+  }
+
+  return Response.json({ sent, retrying });
+});
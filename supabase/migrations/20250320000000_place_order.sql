@@ -0,0 +1,99 @@
+-- Server-side order placement.
+--
+-- The browser sends only menu item ids, sizes and quantities. Names, categories
+-- and prices are read from the menu table, unavailable items are rejected and
+-- the totals are computed here, so a tampered cart cannot change what is charged.
+
+create or replace function public.place_order(
+  p_order_id text,
+  p_items jsonb,
+  p_payment_method text,
+  p_customer_name text default null,
+  p_room_number text default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_line jsonb;
+  v_menu public.menu%rowtype;
+  v_quantity integer;
+  v_size text;
+  v_unit_price numeric;
+  v_items jsonb := '[]'::jsonb;
+  v_subtotal numeric := 0;
+  v_order public.orders%rowtype;
+begin
+  if p_order_id is null or p_order_id !~ '^[A-Za-z0-9-]{4,32}$' then
+    raise exception 'Invalid order id';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'An order must contain at least one item';
+  end if;
+
+  if p_payment_method is null or p_payment_method not in ('qr', 'card', 'cash') then
+    raise exception 'Unsupported payment method: %', p_payment_method;
+  end if;
+
+  for v_line in select * from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_line->>'quantity')::integer;
+    v_size := nullif(v_line->>'size', '');
+
+    if v_quantity is null or v_quantity < 1 or v_quantity > 20 then
+      raise exception 'Invalid quantity for item %', v_line->>'item_id';
+    end if;
+
+    if v_size is not null and v_size not in ('S', 'R', 'L') then
+      raise exception 'Invalid size % for item %', v_size, v_line->>'item_id';
+    end if;
+
+    select * into v_menu from public.menu where id::text = v_line->>'item_id';
+
+    if not found then
+      raise exception 'Item % is not on the menu', v_line->>'item_id';
+    end if;
+
+    if not v_menu.is_available then
+      raise exception 'Item unavailable: %', v_menu.item_name;
+    end if;
+
+    -- Same size rule as getSizePrice in src/utils/menuData.ts
+    v_unit_price := case v_size
+      when 'S' then round(v_menu.price * 0.85)
+      when 'L' then round(v_menu.price * 1.2)
+      else v_menu.price
+    end;
+
+    v_items := v_items || jsonb_build_object(
+      'id', case when v_size is null then v_menu.id::text else v_menu.id::text || '-' || v_size end,
+      'itemId', v_menu.id::text,
+      'name', v_menu.item_name,
+      'category', v_menu.category,
+      'price', v_unit_price,
+      'quantity', v_quantity,
+      'size', v_size
+    );
+    v_subtotal := v_subtotal + v_unit_price * v_quantity;
+  end loop;
+
+  insert into public.orders (
+    id, items, subtotal, taxes, total, status, payment_method, customer_name, room_number
+  )
+  values (
+    p_order_id, v_items, v_subtotal, 0, v_subtotal, 'pending', p_payment_method,
+    left(p_customer_name, 50), left(p_room_number, 10)
+  )
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+grant execute on function public.place_order(text, jsonb, text, text, text) to anon, authenticated;
+
+-- Orders can only be created through place_order from now on
+revoke insert on public.orders from anon, authenticated;
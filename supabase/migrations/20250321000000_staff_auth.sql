@@ -0,0 +1,73 @@
+-- Staff accounts for the admin dashboard.
+--
+-- Staff sign in with Supabase Auth; the staff table maps each auth user to a
+-- role. Accounts are created in the Supabase dashboard (Authentication > Users)
+-- and then given a row here by an owner.
+
+create type public.staff_role as enum ('owner', 'manager', 'barista', 'cashier');
+
+create table public.staff (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  email text not null unique,
+  display_name text,
+  role public.staff_role not null,
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+-- Role of the signed-in user, or null for guests and deactivated staff
+create or replace function public.current_staff_role()
+returns public.staff_role
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.staff where user_id = auth.uid() and active;
+$$;
+
+grant execute on function public.current_staff_role() to anon, authenticated;
+
+alter table public.staff enable row level security;
+
+create policy "Staff can read their own row"
+  on public.staff for select
+  using (user_id = auth.uid());
+
+create policy "Owners can read all staff"
+  on public.staff for select
+  using (public.current_staff_role() = 'owner');
+
+create policy "Owners manage staff"
+  on public.staff for all
+  using (public.current_staff_role() = 'owner')
+  with check (public.current_staff_role() = 'owner');
+
+-- Only signed-in staff may change orders and the menu. Guests keep read access
+-- to the menu and to orders (the waiting page follows its own order by id), and
+-- create orders through place_order.
+alter table public.orders enable row level security;
+
+create policy "Anyone can read orders"
+  on public.orders for select
+  using (true);
+
+create policy "Staff can update orders"
+  on public.orders for update
+  using (public.current_staff_role() is not null)
+  with check (public.current_staff_role() is not null);
+
+create policy "Staff can delete orders"
+  on public.orders for delete
+  using (public.current_staff_role() in ('owner', 'manager'));
+
+alter table public.menu enable row level security;
+
+create policy "Anyone can read the menu"
+  on public.menu for select
+  using (true);
+
+create policy "Staff can change the menu"
+  on public.menu for all
+  using (public.current_staff_role() is not null)
+  with check (public.current_staff_role() is not null);
@@ -0,0 +1,62 @@
+-- Per-role permissions for the admin dashboard, enforced in the database as
+-- well as in the UI (see src/utils/permissions.ts for the same matrix).
+--
+--   owner    everything
+--   manager  orders, menu (including prices), analytics without revenue
+--            (revenue is only hidden in the UI: order totals stay readable)
+--   barista  approve/reject orders only
+--   cashier  approve/reject orders only
+
+drop policy if exists "Staff can change the menu" on public.menu;
+drop policy if exists "Staff can delete orders" on public.orders;
+
+create policy "Managers can add menu items"
+  on public.menu for insert
+  with check (public.current_staff_role() in ('owner', 'manager'));
+
+create policy "Managers can update menu items"
+  on public.menu for update
+  using (public.current_staff_role() in ('owner', 'manager'))
+  with check (public.current_staff_role() in ('owner', 'manager'));
+
+create policy "Managers can delete menu items"
+  on public.menu for delete
+  using (public.current_staff_role() in ('owner', 'manager'));
+
+create policy "Owners can delete orders"
+  on public.orders for delete
+  using (public.current_staff_role() = 'owner');
+
+-- Baristas and cashiers may move an order between statuses but not rewrite it
+create or replace function public.enforce_order_update_permissions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if public.current_staff_role() in ('owner', 'manager') then
+    return new;
+  end if;
+
+  if new.items is distinct from old.items
+    or new.subtotal is distinct from old.subtotal
+    or new.taxes is distinct from old.taxes
+    or new.total is distinct from old.total
+    or new.payment_method is distinct from old.payment_method
+    or new.customer_name is distinct from old.customer_name
+    or new.room_number is distinct from old.room_number
+    or new.table_number is distinct from old.table_number
+    or new.created_at is distinct from old.created_at
+  then
+    raise exception 'Only managers and owners can change order details'
+      using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger orders_enforce_update_permissions
+  before update on public.orders
+  for each row execute function public.enforce_order_update_permissions();
@@ -0,0 +1,67 @@
+-- Multi-stage order lifecycle.
+--
+--   pending -> accepted -> preparing -> ready -> served | delivered -> completed
+--
+-- A pending order can also be rejected, and anything up to ready can be
+-- cancelled. Each transition is stamped in its own column so the kitchen and
+-- the customer can see when an order reached every stage. The same graph lives
+-- in src/utils/orderStatus.ts.
+
+alter table public.orders rename column approved_at to accepted_at;
+
+alter table public.orders
+  add column preparing_at timestamptz,
+  add column ready_at timestamptz,
+  add column served_at timestamptz,
+  add column delivered_at timestamptz,
+  add column completed_at timestamptz,
+  add column rejected_at timestamptz,
+  add column cancelled_at timestamptz;
+
+update public.orders set status = 'accepted' where status = 'approved';
+update public.orders set completed_at = accepted_at where status = 'completed';
+
+alter table public.orders
+  add constraint orders_status_check check (status in (
+    'pending', 'accepted', 'preparing', 'ready', 'served',
+    'delivered', 'completed', 'rejected', 'cancelled'
+  ));
+
+create or replace function public.track_order_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  if not (
+    (old.status = 'pending' and new.status in ('accepted', 'rejected', 'cancelled'))
+    or (old.status = 'accepted' and new.status in ('preparing', 'cancelled'))
+    or (old.status = 'preparing' and new.status in ('ready', 'cancelled'))
+    or (old.status = 'ready' and new.status in ('served', 'delivered', 'cancelled'))
+    or (old.status in ('served', 'delivered') and new.status = 'completed')
+  ) then
+    raise exception 'Cannot move an order from % to %', old.status, new.status
+      using errcode = '22023';
+  end if;
+
+  case new.status
+    when 'accepted' then new.accepted_at := now();
+    when 'preparing' then new.preparing_at := now();
+    when 'ready' then new.ready_at := now();
+    when 'served' then new.served_at := now();
+    when 'delivered' then new.delivered_at := now();
+    when 'completed' then new.completed_at := now();
+    when 'rejected' then new.rejected_at := now();
+    when 'cancelled' then new.cancelled_at := now();
+  end case;
+
+  return new;
+end;
+$$;
+
+create trigger orders_track_status
+  before update of status on public.orders
+  for each row execute function public.track_order_status();
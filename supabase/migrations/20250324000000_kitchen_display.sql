@@ -0,0 +1,6 @@
+-- Kitchen display: baristas tick off individual items on a ticket before
+-- bumping the whole order to the next stage. Entries are indexes into
+-- orders.items, so every kitchen screen sees the same progress in realtime.
+
+alter table public.orders
+  add column done_items integer[] not null default '{}';
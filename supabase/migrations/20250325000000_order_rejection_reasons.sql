@@ -0,0 +1,19 @@
+-- Why an order was rejected, shown to the customer on the waiting screen.
+-- rejection_code is one of the preset reasons in src/utils/orderStatus.ts
+-- (or 'other'); rejection_reason is the text the customer sees.
+
+alter table public.orders
+  add column rejection_code text,
+  add column rejection_reason text;
+
+update public.orders
+  set rejection_code = 'other', rejection_reason = 'Rejected by staff'
+  where status = 'rejected';
+
+alter table public.orders
+  add constraint orders_rejection_code_check check (
+    rejection_code in ('out_of_stock', 'payment_not_received', 'kitchen_closed', 'other')
+  ),
+  add constraint orders_rejection_reason_check check (
+    status <> 'rejected' or nullif(trim(rejection_reason), '') is not null
+  );
@@ -0,0 +1,127 @@
+-- UPI payment intents.
+--
+-- A QR order is placed first, then a payment intent is created for the amount
+-- place_order computed. The browser turns the intent into a upi://pay link and
+-- QR code, and waits for the intent to be confirmed by the payment provider
+-- instead of assuming the payment went through.
+--
+-- In production a provider webhook (running with the service role) moves an
+-- intent to succeeded or failed. For local testing the 'simulator' provider can
+-- be confirmed through simulate_payment_result, which only works when the
+-- database has `app.payment_simulator = 'on'`:
+--
+--   alter database postgres set app.payment_simulator = 'on';
+
+create table public.payment_intents (
+  id uuid primary key default gen_random_uuid(),
+  order_id text not null references public.orders (id) on delete cascade,
+  provider text not null check (provider in ('upi', 'simulator')),
+  amount numeric not null check (amount > 0),
+  currency text not null default 'INR',
+  status text not null default 'created'
+    check (status in ('created', 'succeeded', 'failed', 'cancelled')),
+  provider_ref text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index payment_intents_order_id_idx on public.payment_intents (order_id);
+
+-- The payment screen listens for status changes over realtime
+alter publication supabase_realtime add table public.payment_intents;
+
+alter table public.payment_intents enable row level security;
+
+-- Same visibility as orders: the payment screen follows its own intent by id
+create policy "Anyone can read payment intents"
+  on public.payment_intents for select
+  using (true);
+
+create or replace function public.create_payment_intent(
+  p_order_id text,
+  p_provider text
+)
+returns public.payment_intents
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders%rowtype;
+  v_intent public.payment_intents%rowtype;
+begin
+  if p_provider not in ('upi', 'simulator') then
+    raise exception 'Unsupported payment provider: %', p_provider;
+  end if;
+
+  select * into v_order from public.orders where id = p_order_id;
+  if not found then
+    raise exception 'Order % not found', p_order_id;
+  end if;
+
+  if v_order.payment_method is distinct from 'qr' then
+    raise exception 'Order % is not a UPI order', p_order_id;
+  end if;
+
+  if v_order.status in ('rejected', 'cancelled') then
+    raise exception 'Order % is %', p_order_id, v_order.status;
+  end if;
+
+  if exists (
+    select 1 from public.payment_intents
+    where order_id = p_order_id and status = 'succeeded'
+  ) then
+    raise exception 'Order % is already paid', p_order_id;
+  end if;
+
+  -- Only the newest QR code for an order can be paid
+  update public.payment_intents
+    set status = 'cancelled', updated_at = now()
+    where order_id = p_order_id and status = 'created';
+
+  insert into public.payment_intents (order_id, provider, amount)
+  values (p_order_id, p_provider, v_order.total)
+  returning * into v_intent;
+
+  return v_intent;
+end;
+$$;
+
+grant execute on function public.create_payment_intent(text, text) to anon, authenticated;
+
+create or replace function public.simulate_payment_result(
+  p_intent_id uuid,
+  p_outcome text
+)
+returns public.payment_intents
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_intent public.payment_intents%rowtype;
+begin
+  if coalesce(current_setting('app.payment_simulator', true), 'off') <> 'on' then
+    raise exception 'The payment simulator is disabled';
+  end if;
+
+  if p_outcome not in ('succeeded', 'failed') then
+    raise exception 'Unsupported outcome: %', p_outcome;
+  end if;
+
+  update public.payment_intents
+    set status = p_outcome,
+        provider_ref = 'SIM-' || upper(substr(md5(random()::text), 1, 10)),
+        updated_at = now()
+    where id = p_intent_id and provider = 'simulator' and status = 'created'
+    returning * into v_intent;
+
+  if not found then
+    raise exception 'Payment intent % cannot be confirmed', p_intent_id;
+  end if;
+
+  return v_intent;
+end;
+$$;
+
+grant execute on function public.simulate_payment_result(uuid, text) to anon, authenticated;
@@ -0,0 +1,185 @@
+-- Payment state, tracked separately from the kitchen status of an order.
+--
+--   unpaid -> paid -> partially_refunded -> refunded
+--
+-- UPI orders become paid when their payment intent succeeds. Cash and card
+-- orders are paid at the counter and recorded by a cashier through
+-- record_counter_payment, together with the amount tendered and change given.
+-- The payment columns can only be changed through these functions.
+
+alter table public.orders
+  add column payment_status text not null default 'unpaid'
+    check (payment_status in ('unpaid', 'paid', 'refunded', 'partially_refunded')),
+  add column paid_at timestamptz,
+  add column amount_tendered numeric,
+  add column change_given numeric,
+  add column refunded_amount numeric not null default 0,
+  add column payment_recorded_by uuid references auth.users (id);
+
+-- Everything placed before this migration was settled the old way
+update public.orders
+  set payment_status = 'paid', paid_at = coalesce(accepted_at, created_at), amount_tendered = total, change_given = 0
+  where status in ('accepted', 'preparing', 'ready', 'served', 'delivered', 'completed');
+
+create or replace function public.protect_order_payment()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(current_setting('app.recording_payment', true), 'off') = 'on' then
+    return new;
+  end if;
+
+  if new.payment_status is distinct from old.payment_status
+    or new.paid_at is distinct from old.paid_at
+    or new.amount_tendered is distinct from old.amount_tendered
+    or new.change_given is distinct from old.change_given
+    or new.refunded_amount is distinct from old.refunded_amount
+    or new.payment_recorded_by is distinct from old.payment_recorded_by
+  then
+    raise exception 'Payments can only be recorded through record_counter_payment or refund_order_payment'
+      using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger orders_protect_payment
+  before update on public.orders
+  for each row execute function public.protect_order_payment();
+
+-- Cash and card payments taken at the counter
+create or replace function public.record_counter_payment(
+  p_order_id text,
+  p_amount_tendered numeric
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders%rowtype;
+begin
+  if public.current_staff_role() is null or public.current_staff_role() not in ('owner', 'manager', 'cashier') then
+    raise exception 'Only cashiers and managers can record payments' using errcode = '42501';
+  end if;
+
+  select * into v_order from public.orders where id = p_order_id for update;
+  if not found then
+    raise exception 'Order % not found', p_order_id;
+  end if;
+
+  if v_order.payment_method not in ('cash', 'card') then
+    raise exception 'Order % is not paid at the counter', p_order_id;
+  end if;
+
+  if v_order.payment_status <> 'unpaid' then
+    raise exception 'Order % is already %', p_order_id, v_order.payment_status;
+  end if;
+
+  if p_amount_tendered is null or p_amount_tendered < v_order.total then
+    raise exception 'Amount tendered must be at least %', v_order.total;
+  end if;
+
+  if v_order.payment_method = 'card' and p_amount_tendered <> v_order.total then
+    raise exception 'Card payments must be for the exact total';
+  end if;
+
+  perform set_config('app.recording_payment', 'on', true);
+
+  update public.orders
+    set payment_status = 'paid',
+        paid_at = now(),
+        amount_tendered = p_amount_tendered,
+        change_given = p_amount_tendered - v_order.total,
+        payment_recorded_by = auth.uid()
+    where id = p_order_id
+    returning * into v_order;
+
+  perform set_config('app.recording_payment', 'off', true);
+
+  return v_order;
+end;
+$$;
+
+revoke execute on function public.record_counter_payment(text, numeric) from public, anon;
+grant execute on function public.record_counter_payment(text, numeric) to authenticated;
+
+create or replace function public.refund_order_payment(
+  p_order_id text,
+  p_amount numeric
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders%rowtype;
+  v_refunded numeric;
+begin
+  if public.current_staff_role() is null or public.current_staff_role() not in ('owner', 'manager') then
+    raise exception 'Only managers can refund payments' using errcode = '42501';
+  end if;
+
+  select * into v_order from public.orders where id = p_order_id for update;
+  if not found then
+    raise exception 'Order % not found', p_order_id;
+  end if;
+
+  if v_order.payment_status not in ('paid', 'partially_refunded') then
+    raise exception 'Order % has no payment to refund', p_order_id;
+  end if;
+
+  v_refunded := v_order.refunded_amount + coalesce(p_amount, 0);
+  if p_amount is null or p_amount <= 0 or v_refunded > v_order.total then
+    raise exception 'Refund must be between 0 and %', v_order.total - v_order.refunded_amount;
+  end if;
+
+  perform set_config('app.recording_payment', 'on', true);
+
+  update public.orders
+    set refunded_amount = v_refunded,
+        payment_status = case when v_refunded = v_order.total then 'refunded' else 'partially_refunded' end
+    where id = p_order_id
+    returning * into v_order;
+
+  perform set_config('app.recording_payment', 'off', true);
+
+  return v_order;
+end;
+$$;
+
+revoke execute on function public.refund_order_payment(text, numeric) from public, anon;
+grant execute on function public.refund_order_payment(text, numeric) to authenticated;
+
+-- A succeeded UPI intent pays its order
+create or replace function public.apply_payment_intent()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'succeeded' and old.status is distinct from 'succeeded' then
+    perform set_config('app.recording_payment', 'on', true);
+
+    update public.orders
+      set payment_status = 'paid',
+          paid_at = now(),
+          amount_tendered = new.amount,
+          change_given = 0
+      where id = new.order_id and payment_status = 'unpaid';
+
+    perform set_config('app.recording_payment', 'off', true);
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger payment_intents_apply
+  after update of status on public.payment_intents
+  for each row execute function public.apply_payment_intent();
@@ -0,0 +1,117 @@
+-- GST on orders.
+--
+-- Prices on the menu exclude tax. place_order now charges GST per line at the
+-- rate for the item's category, split equally into CGST and SGST, and stores
+-- the rate on each order line so old bills keep the rate they were charged at.
+
+-- Same rates as DEFAULT_GST_RATE and GST_RATES_BY_CATEGORY in
+-- src/utils/pricing.ts, which the cart and bills use. Change a rate in both.
+create or replace function public.gst_rate(p_category text)
+returns numeric
+language sql
+immutable
+as $$
+  select case p_category
+    when 'packaged-beverages' then 18
+    when 'packaged-snacks' then 12
+    else 5
+  end::numeric;
+$$;
+
+create or replace function public.place_order(
+  p_order_id text,
+  p_items jsonb,
+  p_payment_method text,
+  p_customer_name text default null,
+  p_room_number text default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_line jsonb;
+  v_menu public.menu%rowtype;
+  v_quantity integer;
+  v_size text;
+  v_unit_price numeric;
+  v_tax_rate numeric;
+  v_half_tax numeric;
+  v_items jsonb := '[]'::jsonb;
+  v_subtotal numeric := 0;
+  v_taxes numeric := 0;
+  v_order public.orders%rowtype;
+begin
+  if p_order_id is null or p_order_id !~ '^[A-Za-z0-9-]{4,32}$' then
+    raise exception 'Invalid order id';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'An order must contain at least one item';
+  end if;
+
+  if p_payment_method is null or p_payment_method not in ('qr', 'card', 'cash') then
+    raise exception 'Unsupported payment method: %', p_payment_method;
+  end if;
+
+  for v_line in select * from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_line->>'quantity')::integer;
+    v_size := nullif(v_line->>'size', '');
+
+    if v_quantity is null or v_quantity < 1 or v_quantity > 20 then
+      raise exception 'Invalid quantity for item %', v_line->>'item_id';
+    end if;
+
+    if v_size is not null and v_size not in ('S', 'R', 'L') then
+      raise exception 'Invalid size % for item %', v_size, v_line->>'item_id';
+    end if;
+
+    select * into v_menu from public.menu where id::text = v_line->>'item_id';
+
+    if not found then
+      raise exception 'Item % is not on the menu', v_line->>'item_id';
+    end if;
+
+    if not v_menu.is_available then
+      raise exception 'Item unavailable: %', v_menu.item_name;
+    end if;
+
+    -- Same size rule as getSizePrice in src/utils/menuData.ts
+    v_unit_price := case v_size
+      when 'S' then round(v_menu.price * 0.85)
+      when 'L' then round(v_menu.price * 1.2)
+      else v_menu.price
+    end;
+
+    -- CGST and SGST are each rounded per line, as in calculatePricing
+    v_tax_rate := public.gst_rate(v_menu.category);
+    v_half_tax := round(v_unit_price * v_quantity * v_tax_rate / 200, 2);
+
+    v_items := v_items || jsonb_build_object(
+      'id', case when v_size is null then v_menu.id::text else v_menu.id::text || '-' || v_size end,
+      'itemId', v_menu.id::text,
+      'name', v_menu.item_name,
+      'category', v_menu.category,
+      'price', v_unit_price,
+      'quantity', v_quantity,
+      'size', v_size,
+      'tax_rate', v_tax_rate
+    );
+    v_subtotal := v_subtotal + v_unit_price * v_quantity;
+    v_taxes := v_taxes + 2 * v_half_tax;
+  end loop;
+
+  insert into public.orders (
+    id, items, subtotal, taxes, total, status, payment_method, customer_name, room_number
+  )
+  values (
+    p_order_id, v_items, v_subtotal, v_taxes, v_subtotal + v_taxes, 'pending', p_payment_method,
+    left(p_customer_name, 50), left(p_room_number, 10)
+  )
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
@@ -0,0 +1,149 @@
+-- Sizes and other variants stored per menu item.
+--
+-- `sizes` is a list of {"name": "...", "price": ...} entries with their own
+-- prices, e.g. Small/Regular/Large or Half/Full. Items with an empty list are
+-- sold at `price`; items with sizes must be ordered in one of them. The first
+-- size is the one preselected on the menu.
+
+create or replace function public.valid_menu_sizes(p_sizes jsonb)
+returns boolean
+language sql
+immutable
+as $$
+  select case
+    when jsonb_typeof(p_sizes) <> 'array' then false
+    else not exists (
+      select 1
+      from jsonb_array_elements(p_sizes) as size
+      where jsonb_typeof(size) <> 'object'
+        or coalesce(jsonb_typeof(size->'price'), '') <> 'number'
+        or (size->>'price')::numeric < 0
+        or coalesce(btrim(size->>'name'), '') = ''
+        or length(size->>'name') > 20
+    )
+    and (
+      select count(distinct size->>'name') = count(*)
+      from jsonb_array_elements(p_sizes) as size
+    )
+  end;
+$$;
+
+alter table public.menu
+  add column sizes jsonb not null default '[]'::jsonb
+    constraint menu_sizes_check check (public.valid_menu_sizes(sizes));
+
+-- Carry over the sizes the menu used to guess from item names, at the old
+-- 85% / 100% / 120% prices
+update public.menu
+  set sizes = jsonb_build_array(
+    jsonb_build_object('name', 'Small', 'price', round(price * 0.85)),
+    jsonb_build_object('name', 'Regular', 'price', price),
+    jsonb_build_object('name', 'Large', 'price', round(price * 1.2))
+  )
+  where item_name ~* '(cappuccino|latte|americano|espresso|mocha|macchiato|tea|coffee|cold brew|iced)';
+
+create or replace function public.place_order(
+  p_order_id text,
+  p_items jsonb,
+  p_payment_method text,
+  p_customer_name text default null,
+  p_room_number text default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_line jsonb;
+  v_menu public.menu%rowtype;
+  v_quantity integer;
+  v_size text;
+  v_unit_price numeric;
+  v_tax_rate numeric;
+  v_half_tax numeric;
+  v_items jsonb := '[]'::jsonb;
+  v_subtotal numeric := 0;
+  v_taxes numeric := 0;
+  v_order public.orders%rowtype;
+begin
+  if p_order_id is null or p_order_id !~ '^[A-Za-z0-9-]{4,32}$' then
+    raise exception 'Invalid order id';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'An order must contain at least one item';
+  end if;
+
+  if p_payment_method is null or p_payment_method not in ('qr', 'card', 'cash') then
+    raise exception 'Unsupported payment method: %', p_payment_method;
+  end if;
+
+  for v_line in select * from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_line->>'quantity')::integer;
+    v_size := nullif(v_line->>'size', '');
+
+    if v_quantity is null or v_quantity < 1 or v_quantity > 20 then
+      raise exception 'Invalid quantity for item %', v_line->>'item_id';
+    end if;
+
+    select * into v_menu from public.menu where id::text = v_line->>'item_id';
+
+    if not found then
+      raise exception 'Item % is not on the menu', v_line->>'item_id';
+    end if;
+
+    if not v_menu.is_available then
+      raise exception 'Item unavailable: %', v_menu.item_name;
+    end if;
+
+    -- Sized items are priced by the size picked, everything else by `price`
+    if jsonb_array_length(v_menu.sizes) > 0 then
+      if v_size is null then
+        raise exception 'Choose a size for %', v_menu.item_name;
+      end if;
+
+      select (size->>'price')::numeric into v_unit_price
+        from jsonb_array_elements(v_menu.sizes) as size
+        where size->>'name' = v_size;
+
+      if not found then
+        raise exception 'Invalid size % for item %', v_size, v_menu.item_name;
+      end if;
+    elsif v_size is not null then
+      raise exception 'Item % does not come in sizes', v_menu.item_name;
+    else
+      v_unit_price := v_menu.price;
+    end if;
+
+    -- CGST and SGST are each rounded per line, as in calculatePricing
+    v_tax_rate := public.gst_rate(v_menu.category);
+    v_half_tax := round(v_unit_price * v_quantity * v_tax_rate / 200, 2);
+
+    v_items := v_items || jsonb_build_object(
+      'id', case when v_size is null then v_menu.id::text else v_menu.id::text || '-' || v_size end,
+      'itemId', v_menu.id::text,
+      'name', v_menu.item_name,
+      'category', v_menu.category,
+      'price', v_unit_price,
+      'quantity', v_quantity,
+      'size', v_size,
+      'tax_rate', v_tax_rate
+    );
+    v_subtotal := v_subtotal + v_unit_price * v_quantity;
+    v_taxes := v_taxes + 2 * v_half_tax;
+  end loop;
+
+  insert into public.orders (
+    id, items, subtotal, taxes, total, status, payment_method, customer_name, room_number
+  )
+  values (
+    p_order_id, v_items, v_subtotal, v_taxes, v_subtotal + v_taxes, 'pending', p_payment_method,
+    left(p_customer_name, 50), left(p_room_number, 10)
+  )
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
@@ -0,0 +1,242 @@
+-- Modifier groups: milk type, extra shots, sugar level and other add-ons.
+--
+-- A group belongs either to one menu item or to every item in a category, and
+-- lists its options with a price delta each ({"name": "Oat milk", "price": 40},
+-- the same shape as menu sizes). `single` groups take one option, `multi`
+-- groups between min_select and max_select (no limit when max_select is null).
+-- place_order checks the options picked for each line and adds their deltas
+-- to the unit price, so a line's `price` is what one unit costs with its
+-- options; the options themselves are kept on the line for the kitchen and bills.
+
+create table public.modifier_groups (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (btrim(name) <> ''),
+  selection text not null default 'single' check (selection in ('single', 'multi')),
+  min_select integer not null default 0 check (min_select >= 0),
+  max_select integer check (max_select is null or max_select >= 1),
+  options jsonb not null
+    check (public.valid_menu_sizes(options) and jsonb_array_length(options) > 0),
+  menu_item_id bigint references public.menu (id) on delete cascade,
+  category text,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  constraint modifier_groups_target_check check ((menu_item_id is null) <> (category is null)),
+  constraint modifier_groups_selection_check check (
+    (selection = 'single' and min_select <= 1 and max_select is null)
+    or (selection = 'multi' and (max_select is null or min_select <= max_select))
+  )
+);
+
+create index modifier_groups_menu_item_id_idx on public.modifier_groups (menu_item_id);
+create index modifier_groups_category_idx on public.modifier_groups (category);
+
+alter table public.modifier_groups enable row level security;
+
+create policy "Anyone can read modifier groups"
+  on public.modifier_groups for select
+  using (true);
+
+create policy "Managers can change modifier groups"
+  on public.modifier_groups for all
+  using (public.current_staff_role() in ('owner', 'manager'))
+  with check (public.current_staff_role() in ('owner', 'manager'));
+
+insert into public.modifier_groups (name, selection, min_select, max_select, options, category, sort_order)
+select g.name, g.selection, g.min_select, g.max_select, g.options, c.category, g.sort_order
+from (values
+  ('Milk', 'single', 1, null::integer,
+    '[{"name": "Regular milk", "price": 0}, {"name": "Oat milk", "price": 40}, {"name": "Almond milk", "price": 40}, {"name": "Skimmed milk", "price": 0}]'::jsonb, 1),
+  ('Extras', 'multi', 0, 3,
+    '[{"name": "Extra shot", "price": 30}, {"name": "Whipped cream", "price": 20}, {"name": "Caramel syrup", "price": 25}]'::jsonb, 2),
+  ('Sugar', 'single', 0, null,
+    '[{"name": "No sugar", "price": 0}, {"name": "Less sugar", "price": 0}, {"name": "Extra sugar", "price": 0}]'::jsonb, 3)
+) as g (name, selection, min_select, max_select, options, sort_order)
+cross join (values ('coffee'), ('hot'), ('ice-coffee')) as c (category);
+
+insert into public.modifier_groups (name, selection, min_select, max_select, options, category, sort_order)
+select 'Sugar', 'single', 0, null,
+  '[{"name": "No sugar", "price": 0}, {"name": "Less sugar", "price": 0}, {"name": "Extra sugar", "price": 0}]'::jsonb,
+  c.category, 1
+from (values ('tea'), ('ice-tea'), ('smoothies')) as c (category);
+
+insert into public.modifier_groups (name, selection, min_select, max_select, options, category, sort_order)
+select 'Ice', 'single', 0, null,
+  '[{"name": "No ice", "price": 0}, {"name": "Less ice", "price": 0}]'::jsonb,
+  c.category, case c.category when 'ice-coffee' then 4 else 2 end
+from (values ('ice-coffee'), ('ice-tea'), ('smoothies')) as c (category);
+
+create or replace function public.place_order(
+  p_order_id text,
+  p_items jsonb,
+  p_payment_method text,
+  p_customer_name text default null,
+  p_room_number text default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_line jsonb;
+  v_menu public.menu%rowtype;
+  v_group public.modifier_groups%rowtype;
+  v_quantity integer;
+  v_size text;
+  v_unit_price numeric;
+  v_picked jsonb;
+  v_picked_count integer;
+  v_distinct_count integer;
+  v_option jsonb;
+  v_options jsonb;
+  v_tax_rate numeric;
+  v_half_tax numeric;
+  v_items jsonb := '[]'::jsonb;
+  v_subtotal numeric := 0;
+  v_taxes numeric := 0;
+  v_order public.orders%rowtype;
+begin
+  if p_order_id is null or p_order_id !~ '^[A-Za-z0-9-]{4,32}$' then
+    raise exception 'Invalid order id';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'An order must contain at least one item';
+  end if;
+
+  if p_payment_method is null or p_payment_method not in ('qr', 'card', 'cash') then
+    raise exception 'Unsupported payment method: %', p_payment_method;
+  end if;
+
+  for v_line in select * from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_line->>'quantity')::integer;
+    v_size := nullif(v_line->>'size', '');
+    v_picked := coalesce(v_line->'options', '[]'::jsonb);
+
+    if v_quantity is null or v_quantity < 1 or v_quantity > 20 then
+      raise exception 'Invalid quantity for item %', v_line->>'item_id';
+    end if;
+
+    if jsonb_typeof(v_picked) <> 'array' then
+      raise exception 'Invalid options for item %', v_line->>'item_id';
+    end if;
+
+    select * into v_menu from public.menu where id::text = v_line->>'item_id';
+
+    if not found then
+      raise exception 'Item % is not on the menu', v_line->>'item_id';
+    end if;
+
+    if not v_menu.is_available then
+      raise exception 'Item unavailable: %', v_menu.item_name;
+    end if;
+
+    -- Sized items are priced by the size picked, everything else by `price`
+    if jsonb_array_length(v_menu.sizes) > 0 then
+      if v_size is null then
+        raise exception 'Choose a size for %', v_menu.item_name;
+      end if;
+
+      select (size->>'price')::numeric into v_unit_price
+        from jsonb_array_elements(v_menu.sizes) as size
+        where size->>'name' = v_size;
+
+      if not found then
+        raise exception 'Invalid size % for item %', v_size, v_menu.item_name;
+      end if;
+    elsif v_size is not null then
+      raise exception 'Item % does not come in sizes', v_menu.item_name;
+    else
+      v_unit_price := v_menu.price;
+    end if;
+
+    -- Every option must belong to a group on this item
+    if exists (
+      select 1
+      from jsonb_array_elements(v_picked) as picked
+      where not exists (
+        select 1
+        from public.modifier_groups g, jsonb_array_elements(g.options) as option
+        where g.id::text = picked->>'group_id'
+          and (g.menu_item_id = v_menu.id or g.category = v_menu.category)
+          and option->>'name' = picked->>'name'
+      )
+    ) then
+      raise exception 'Invalid options for item %', v_menu.item_name;
+    end if;
+
+    v_options := '[]'::jsonb;
+
+    for v_group in
+      select * from public.modifier_groups
+      where menu_item_id = v_menu.id or category = v_menu.category
+      order by menu_item_id nulls last, sort_order, name
+    loop
+      select count(*), count(distinct picked->>'name')
+        into v_picked_count, v_distinct_count
+        from jsonb_array_elements(v_picked) as picked
+        where picked->>'group_id' = v_group.id::text;
+
+      if v_distinct_count < v_picked_count then
+        raise exception 'Invalid options for item %', v_menu.item_name;
+      end if;
+
+      if v_picked_count < v_group.min_select then
+        raise exception 'Choose % for %', lower(v_group.name), v_menu.item_name;
+      end if;
+
+      if v_picked_count > case when v_group.selection = 'single' then 1 else coalesce(v_group.max_select, v_picked_count) end then
+        raise exception 'Too many % options for %', lower(v_group.name), v_menu.item_name;
+      end if;
+
+      -- Keep the options in the order the group lists them
+      for v_option in
+        select option
+        from jsonb_array_elements(v_group.options) as option
+        where exists (
+          select 1 from jsonb_array_elements(v_picked) as picked
+          where picked->>'group_id' = v_group.id::text and picked->>'name' = option->>'name'
+        )
+      loop
+        v_options := v_options || jsonb_build_object(
+          'groupId', v_group.id::text,
+          'group', v_group.name,
+          'name', v_option->>'name',
+          'price', (v_option->>'price')::numeric
+        );
+        v_unit_price := v_unit_price + (v_option->>'price')::numeric;
+      end loop;
+    end loop;
+
+    -- CGST and SGST are each rounded per line, as in calculatePricing
+    v_tax_rate := public.gst_rate(v_menu.category);
+    v_half_tax := round(v_unit_price * v_quantity * v_tax_rate / 200, 2);
+
+    v_items := v_items || jsonb_build_object(
+      'id', case when v_size is null then v_menu.id::text else v_menu.id::text || '-' || v_size end,
+      'itemId', v_menu.id::text,
+      'name', v_menu.item_name,
+      'category', v_menu.category,
+      'price', v_unit_price,
+      'quantity', v_quantity,
+      'size', v_size,
+      'options', v_options,
+      'tax_rate', v_tax_rate
+    );
+    v_subtotal := v_subtotal + v_unit_price * v_quantity;
+    v_taxes := v_taxes + 2 * v_half_tax;
+  end loop;
+
+  insert into public.orders (
+    id, items, subtotal, taxes, total, status, payment_method, customer_name, room_number
+  )
+  values (
+    p_order_id, v_items, v_subtotal, v_taxes, v_subtotal + v_taxes, 'pending', p_payment_method,
+    left(p_customer_name, 50), left(p_room_number, 10)
+  )
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
@@ -0,0 +1,350 @@
+-- Combo meals sold at a bundle price, e.g. "Breakfast + Coffee for ₹249".
+--
+-- A combo is a list of slots, each filled with one menu item the customer
+-- picks: {"name": "Coffee", "category": "coffee"} offers every item in a
+-- category, {"name": "Pastry", "item_ids": [12, 14]} a fixed list. An order
+-- line for a combo carries the bundle price and the items picked as
+-- `children`; children are made in their first size and keep their list price
+-- so sales reports can split the bundle price between them.
+--
+-- place_order now prices each line through price_item_line or
+-- price_combo_line, so later changes to one kind of line do not need the
+-- whole of place_order repeated.
+
+create or replace function public.valid_combo_slots(p_slots jsonb)
+returns boolean
+language sql
+immutable
+as $$
+  select case
+    when jsonb_typeof(p_slots) <> 'array' or jsonb_array_length(p_slots) = 0 then false
+    else not exists (
+      select 1
+      from jsonb_array_elements(p_slots) as slot
+      where jsonb_typeof(slot) <> 'object'
+        or coalesce(btrim(slot->>'name'), '') = ''
+        or (
+          coalesce(jsonb_typeof(slot->'category'), '') <> 'string'
+          and coalesce(jsonb_array_length(case when jsonb_typeof(slot->'item_ids') = 'array' then slot->'item_ids' end), 0) = 0
+        )
+    )
+  end;
+$$;
+
+create table public.combos (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (btrim(name) <> ''),
+  description text,
+  price numeric not null check (price > 0),
+  slots jsonb not null check (public.valid_combo_slots(slots)),
+  is_available boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+alter table public.combos enable row level security;
+
+create policy "Anyone can read combos"
+  on public.combos for select
+  using (true);
+
+create policy "Managers can change combos"
+  on public.combos for all
+  using (public.current_staff_role() in ('owner', 'manager'))
+  with check (public.current_staff_role() in ('owner', 'manager'));
+
+insert into public.combos (name, description, price, slots)
+values
+  ('Breakfast + Coffee', 'Any breakfast with any coffee', 249,
+    '[{"name": "Breakfast", "category": "breakfast"}, {"name": "Coffee", "category": "coffee"}]'),
+  ('Burger Meal', 'Any burger with an iced tea', 279,
+    '[{"name": "Burger", "category": "burger"}, {"name": "Drink", "category": "ice-tea"}]');
+
+-- One menu item line: size, options and GST, as place_order priced it before
+create or replace function public.price_item_line(p_line jsonb)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_menu public.menu%rowtype;
+  v_group public.modifier_groups%rowtype;
+  v_quantity integer;
+  v_size text;
+  v_unit_price numeric;
+  v_picked jsonb;
+  v_picked_count integer;
+  v_distinct_count integer;
+  v_option jsonb;
+  v_options jsonb := '[]'::jsonb;
+begin
+  v_quantity := (p_line->>'quantity')::integer;
+  v_size := nullif(p_line->>'size', '');
+  v_picked := coalesce(p_line->'options', '[]'::jsonb);
+
+  if v_quantity is null or v_quantity < 1 or v_quantity > 20 then
+    raise exception 'Invalid quantity for item %', p_line->>'item_id';
+  end if;
+
+  if jsonb_typeof(v_picked) <> 'array' then
+    raise exception 'Invalid options for item %', p_line->>'item_id';
+  end if;
+
+  select * into v_menu from public.menu where id::text = p_line->>'item_id';
+
+  if not found then
+    raise exception 'Item % is not on the menu', p_line->>'item_id';
+  end if;
+
+  if not v_menu.is_available then
+    raise exception 'Item unavailable: %', v_menu.item_name;
+  end if;
+
+  -- Sized items are priced by the size picked, everything else by `price`
+  if jsonb_array_length(v_menu.sizes) > 0 then
+    if v_size is null then
+      raise exception 'Choose a size for %', v_menu.item_name;
+    end if;
+
+    select (size->>'price')::numeric into v_unit_price
+      from jsonb_array_elements(v_menu.sizes) as size
+      where size->>'name' = v_size;
+
+    if not found then
+      raise exception 'Invalid size % for item %', v_size, v_menu.item_name;
+    end if;
+  elsif v_size is not null then
+    raise exception 'Item % does not come in sizes', v_menu.item_name;
+  else
+    v_unit_price := v_menu.price;
+  end if;
+
+  -- Every option must belong to a group on this item
+  if exists (
+    select 1
+    from jsonb_array_elements(v_picked) as picked
+    where not exists (
+      select 1
+      from public.modifier_groups g, jsonb_array_elements(g.options) as option
+      where g.id::text = picked->>'group_id'
+        and (g.menu_item_id = v_menu.id or g.category = v_menu.category)
+        and option->>'name' = picked->>'name'
+    )
+  ) then
+    raise exception 'Invalid options for item %', v_menu.item_name;
+  end if;
+
+  for v_group in
+    select * from public.modifier_groups
+    where menu_item_id = v_menu.id or category = v_menu.category
+    order by menu_item_id nulls last, sort_order, name
+  loop
+    select count(*), count(distinct picked->>'name')
+      into v_picked_count, v_distinct_count
+      from jsonb_array_elements(v_picked) as picked
+      where picked->>'group_id' = v_group.id::text;
+
+    if v_distinct_count < v_picked_count then
+      raise exception 'Invalid options for item %', v_menu.item_name;
+    end if;
+
+    if v_picked_count < v_group.min_select then
+      raise exception 'Choose % for %', lower(v_group.name), v_menu.item_name;
+    end if;
+
+    if v_picked_count > case when v_group.selection = 'single' then 1 else coalesce(v_group.max_select, v_picked_count) end then
+      raise exception 'Too many % options for %', lower(v_group.name), v_menu.item_name;
+    end if;
+
+    -- Keep the options in the order the group lists them
+    for v_option in
+      select option
+      from jsonb_array_elements(v_group.options) as option
+      where exists (
+        select 1 from jsonb_array_elements(v_picked) as picked
+        where picked->>'group_id' = v_group.id::text and picked->>'name' = option->>'name'
+      )
+    loop
+      v_options := v_options || jsonb_build_object(
+        'groupId', v_group.id::text,
+        'group', v_group.name,
+        'name', v_option->>'name',
+        'price', (v_option->>'price')::numeric
+      );
+      v_unit_price := v_unit_price + (v_option->>'price')::numeric;
+    end loop;
+  end loop;
+
+  return jsonb_build_object(
+    'id', case when v_size is null then v_menu.id::text else v_menu.id::text || '-' || v_size end,
+    'itemId', v_menu.id::text,
+    'name', v_menu.item_name,
+    'category', v_menu.category,
+    'price', v_unit_price,
+    'quantity', v_quantity,
+    'size', v_size,
+    'options', v_options,
+    'tax_rate', public.gst_rate(v_menu.category)
+  );
+end;
+$$;
+
+-- One combo line: one item picked for every slot, charged at the bundle price
+create or replace function public.price_combo_line(p_line jsonb)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_combo public.combos%rowtype;
+  v_menu public.menu%rowtype;
+  v_quantity integer;
+  v_choices jsonb;
+  v_choice jsonb;
+  v_slot jsonb;
+  v_slot_index integer;
+  v_size jsonb;
+  v_children jsonb := '[]'::jsonb;
+begin
+  v_quantity := (p_line->>'quantity')::integer;
+  v_choices := coalesce(p_line->'choices', '[]'::jsonb);
+
+  if v_quantity is null or v_quantity < 1 or v_quantity > 20 then
+    raise exception 'Invalid quantity for combo %', p_line->>'combo_id';
+  end if;
+
+  select * into v_combo from public.combos where id::text = p_line->>'combo_id';
+
+  if not found then
+    raise exception 'Combo % is not on the menu', p_line->>'combo_id';
+  end if;
+
+  if not v_combo.is_available then
+    raise exception 'Combo unavailable: %', v_combo.name;
+  end if;
+
+  if jsonb_typeof(v_choices) <> 'array'
+    or jsonb_array_length(v_choices) <> jsonb_array_length(v_combo.slots)
+    or (select count(distinct choice->>'slot') from jsonb_array_elements(v_choices) as choice)
+      <> jsonb_array_length(v_combo.slots) then
+    raise exception 'Choose one item for every part of %', v_combo.name;
+  end if;
+
+  for v_slot_index in 0 .. jsonb_array_length(v_combo.slots) - 1
+  loop
+    v_slot := v_combo.slots->v_slot_index;
+    v_choice := null;
+
+    select choice into v_choice
+      from jsonb_array_elements(v_choices) as choice
+      where choice->>'slot' = v_slot_index::text;
+
+    if v_choice is null then
+      raise exception 'Choose one item for every part of %', v_combo.name;
+    end if;
+
+    select * into v_menu from public.menu where id::text = v_choice->>'item_id';
+
+    if not found or not (
+      v_menu.category = v_slot->>'category'
+      or coalesce(v_slot->'item_ids', '[]'::jsonb) @> to_jsonb(v_menu.id)
+    ) then
+      raise exception 'Invalid % choice for %', lower(v_slot->>'name'), v_combo.name;
+    end if;
+
+    if not v_menu.is_available then
+      raise exception 'Item unavailable: %', v_menu.item_name;
+    end if;
+
+    v_size := v_menu.sizes->0;
+
+    v_children := v_children || jsonb_build_object(
+      'slot', v_slot_index,
+      'slotName', v_slot->>'name',
+      'itemId', v_menu.id::text,
+      'name', v_menu.item_name,
+      'category', v_menu.category,
+      'size', v_size->>'name',
+      'price', coalesce((v_size->>'price')::numeric, v_menu.price)
+    );
+  end loop;
+
+  return jsonb_build_object(
+    'id', 'combo-' || v_combo.id::text,
+    'comboId', v_combo.id::text,
+    'name', v_combo.name,
+    'category', 'combo',
+    'price', v_combo.price,
+    'quantity', v_quantity,
+    'children', v_children,
+    'tax_rate', public.gst_rate('combo')
+  );
+end;
+$$;
+
+create or replace function public.place_order(
+  p_order_id text,
+  p_items jsonb,
+  p_payment_method text,
+  p_customer_name text default null,
+  p_room_number text default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_line jsonb;
+  v_priced jsonb;
+  v_amount numeric;
+  v_half_tax numeric;
+  v_items jsonb := '[]'::jsonb;
+  v_subtotal numeric := 0;
+  v_taxes numeric := 0;
+  v_order public.orders%rowtype;
+begin
+  if p_order_id is null or p_order_id !~ '^[A-Za-z0-9-]{4,32}$' then
+    raise exception 'Invalid order id';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'An order must contain at least one item';
+  end if;
+
+  if p_payment_method is null or p_payment_method not in ('qr', 'card', 'cash') then
+    raise exception 'Unsupported payment method: %', p_payment_method;
+  end if;
+
+  for v_line in select * from jsonb_array_elements(p_items)
+  loop
+    if v_line ? 'combo_id' then
+      v_priced := public.price_combo_line(v_line);
+    else
+      v_priced := public.price_item_line(v_line);
+    end if;
+
+    -- CGST and SGST are each rounded per line, as in calculatePricing
+    v_amount := (v_priced->>'price')::numeric * (v_priced->>'quantity')::integer;
+    v_half_tax := round(v_amount * (v_priced->>'tax_rate')::numeric / 200, 2);
+
+    v_items := v_items || v_priced;
+    v_subtotal := v_subtotal + v_amount;
+    v_taxes := v_taxes + 2 * v_half_tax;
+  end loop;
+
+  insert into public.orders (
+    id, items, subtotal, taxes, total, status, payment_method, customer_name, room_number
+  )
+  values (
+    p_order_id, v_items, v_subtotal, v_taxes, v_subtotal + v_taxes, 'pending', p_payment_method,
+    left(p_customer_name, 50), left(p_room_number, 10)
+  )
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
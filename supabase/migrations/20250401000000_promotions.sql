@@ -0,0 +1,282 @@
+-- Promo codes entered in the cart, e.g. "HAPPY20" for 20% off coffee from 3pm
+-- to 6pm.
+--
+-- A promotion takes a percentage (optionally capped at max_discount) or a flat
+-- amount off the lines in its categories, or off every line when categories
+-- is null. It can be limited to orders of at least min_order_value, to a date
+-- range, to a daily happy hour in Asia/Kolkata time and to a number of uses.
+-- The discount is spread over the lines it covers, stored on each line as
+-- `discount`, and GST is charged on what is left. src/utils/promotions.ts
+-- applies the same rules in the cart.
+--
+-- Guests cannot read the table; get_promotion looks up one code so the cart
+-- can show the discount before the order is placed.
+
+create table public.promotions (
+  id uuid primary key default gen_random_uuid(),
+  code text not null unique check (code ~ '^[A-Z0-9]{3,20}$'),
+  description text,
+  discount_type text not null check (discount_type in ('percent', 'flat')),
+  discount_value numeric not null check (discount_value > 0),
+  max_discount numeric check (max_discount > 0),
+  min_order_value numeric not null default 0 check (min_order_value >= 0),
+  categories text[],
+  starts_at timestamptz,
+  ends_at timestamptz,
+  happy_hour_start time,
+  happy_hour_end time,
+  usage_limit integer check (usage_limit > 0),
+  times_used integer not null default 0,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  check (discount_type <> 'percent' or discount_value <= 100),
+  check ((happy_hour_start is null) = (happy_hour_end is null)),
+  check (starts_at is null or ends_at is null or starts_at < ends_at)
+);
+
+alter table public.promotions enable row level security;
+
+create policy "Managers can read promotions"
+  on public.promotions for select
+  using (public.current_staff_role() in ('owner', 'manager'));
+
+create policy "Managers can change promotions"
+  on public.promotions for all
+  using (public.current_staff_role() in ('owner', 'manager'))
+  with check (public.current_staff_role() in ('owner', 'manager'));
+
+insert into public.promotions (code, description, discount_type, discount_value, max_discount, min_order_value, categories, happy_hour_start, happy_hour_end)
+values
+  ('WELCOME10', '10% off your order, up to ₹100', 'percent', 10, 100, 0, null, null, null),
+  ('FLAT50', '₹50 off orders of ₹300 or more', 'flat', 50, null, 300, null, null, null),
+  ('HAPPYHOUR', '20% off coffee from 3pm to 6pm', 'percent', 20, null, 0, '{coffee,ice-coffee}', '15:00', '18:00');
+
+alter table public.orders
+  add column promo_code text,
+  add column discount numeric not null default 0 check (discount >= 0);
+
+-- Baristas and cashiers still may not rewrite an order, now including its discount
+create or replace function public.enforce_order_update_permissions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if public.current_staff_role() in ('owner', 'manager') then
+    return new;
+  end if;
+
+  if new.items is distinct from old.items
+    or new.subtotal is distinct from old.subtotal
+    or new.discount is distinct from old.discount
+    or new.promo_code is distinct from old.promo_code
+    or new.taxes is distinct from old.taxes
+    or new.total is distinct from old.total
+    or new.payment_method is distinct from old.payment_method
+    or new.customer_name is distinct from old.customer_name
+    or new.room_number is distinct from old.room_number
+    or new.table_number is distinct from old.table_number
+    or new.created_at is distinct from old.created_at
+  then
+    raise exception 'Only managers and owners can change order details'
+      using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function public.get_promotion(p_code text)
+returns public.promotions
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_promotion public.promotions%rowtype;
+begin
+  select * into v_promotion
+    from public.promotions
+    where code = upper(btrim(p_code)) and is_active;
+
+  if not found then
+    raise exception 'Promo code % is not valid', upper(btrim(p_code));
+  end if;
+
+  return v_promotion;
+end;
+$$;
+
+grant execute on function public.get_promotion(text) to anon, authenticated;
+
+-- Raises if the promotion cannot be used on an order of this size right now
+create or replace function public.check_promotion(
+  p_promotion public.promotions,
+  p_subtotal numeric,
+  p_eligible_count integer
+)
+returns void
+language plpgsql
+stable
+as $$
+declare
+  v_time time := (now() at time zone 'Asia/Kolkata')::time;
+begin
+  if p_promotion.starts_at > now() then
+    raise exception 'Promo code % is not valid yet', p_promotion.code;
+  end if;
+
+  if p_promotion.ends_at <= now() then
+    raise exception 'Promo code % has expired', p_promotion.code;
+  end if;
+
+  if p_promotion.times_used >= p_promotion.usage_limit then
+    raise exception 'Promo code % has been fully redeemed', p_promotion.code;
+  end if;
+
+  -- Happy hours may run past midnight, e.g. 22:00 to 02:00
+  if p_promotion.happy_hour_start is not null and not (
+    case when p_promotion.happy_hour_start <= p_promotion.happy_hour_end
+      then v_time >= p_promotion.happy_hour_start and v_time < p_promotion.happy_hour_end
+      else v_time >= p_promotion.happy_hour_start or v_time < p_promotion.happy_hour_end
+    end
+  ) then
+    raise exception 'Promo code % is only valid from % to %', p_promotion.code,
+      to_char(p_promotion.happy_hour_start, 'HH24:MI'), to_char(p_promotion.happy_hour_end, 'HH24:MI');
+  end if;
+
+  if p_subtotal < p_promotion.min_order_value then
+    raise exception 'Promo code % needs an order of at least ₹%', p_promotion.code, p_promotion.min_order_value;
+  end if;
+
+  if p_eligible_count = 0 then
+    raise exception 'Promo code % does not apply to the items in your order', p_promotion.code;
+  end if;
+end;
+$$;
+
+-- place_order gains p_promo_code, so the old signature is replaced
+drop function public.place_order(text, jsonb, text, text, text);
+
+create function public.place_order(
+  p_order_id text,
+  p_items jsonb,
+  p_payment_method text,
+  p_customer_name text default null,
+  p_room_number text default null,
+  p_promo_code text default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_line jsonb;
+  v_priced jsonb;
+  v_amount numeric;
+  v_half_tax numeric;
+  v_lines jsonb := '[]'::jsonb;
+  v_items jsonb := '[]'::jsonb;
+  v_subtotal numeric := 0;
+  v_taxes numeric := 0;
+  v_promotion public.promotions%rowtype;
+  v_eligible_amount numeric := 0;
+  v_eligible_count integer := 0;
+  v_eligible_seen integer := 0;
+  v_discount numeric := 0;
+  v_share numeric;
+  v_allocated numeric := 0;
+  v_order public.orders%rowtype;
+begin
+  if p_order_id is null or p_order_id !~ '^[A-Za-z0-9-]{4,32}$' then
+    raise exception 'Invalid order id';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'An order must contain at least one item';
+  end if;
+
+  if p_payment_method is null or p_payment_method not in ('qr', 'card', 'cash') then
+    raise exception 'Unsupported payment method: %', p_payment_method;
+  end if;
+
+  for v_line in select * from jsonb_array_elements(p_items)
+  loop
+    if v_line ? 'combo_id' then
+      v_priced := public.price_combo_line(v_line);
+    else
+      v_priced := public.price_item_line(v_line);
+    end if;
+
+    v_lines := v_lines || v_priced;
+    v_subtotal := v_subtotal + (v_priced->>'price')::numeric * (v_priced->>'quantity')::integer;
+  end loop;
+
+  if nullif(btrim(p_promo_code), '') is not null then
+    -- Locked so two orders cannot both take the last use
+    select * into v_promotion
+      from public.promotions
+      where code = upper(btrim(p_promo_code)) and is_active
+      for update;
+
+    if not found then
+      raise exception 'Promo code % is not valid', upper(btrim(p_promo_code));
+    end if;
+
+    select coalesce(sum((line->>'price')::numeric * (line->>'quantity')::integer), 0), count(*)
+      into v_eligible_amount, v_eligible_count
+      from jsonb_array_elements(v_lines) as line
+      where v_promotion.categories is null or line->>'category' = any(v_promotion.categories);
+
+    perform public.check_promotion(v_promotion, v_subtotal, v_eligible_count);
+
+    if v_promotion.discount_type = 'percent' then
+      v_discount := round(v_eligible_amount * v_promotion.discount_value / 100, 2);
+    else
+      v_discount := least(v_promotion.discount_value, v_eligible_amount);
+    end if;
+    v_discount := least(v_discount, coalesce(v_promotion.max_discount, v_discount));
+
+    update public.promotions set times_used = times_used + 1 where id = v_promotion.id;
+  end if;
+
+  for v_priced in select * from jsonb_array_elements(v_lines)
+  loop
+    v_amount := (v_priced->>'price')::numeric * (v_priced->>'quantity')::integer;
+
+    -- The discount is split in proportion to the lines it covers, the last one taking the remainder
+    if v_discount > 0 and (v_promotion.categories is null or v_priced->>'category' = any(v_promotion.categories)) then
+      v_eligible_seen := v_eligible_seen + 1;
+      v_share := case when v_eligible_seen = v_eligible_count
+        then v_discount - v_allocated
+        else round(v_discount * v_amount / v_eligible_amount, 2)
+      end;
+      v_allocated := v_allocated + v_share;
+      v_priced := v_priced || jsonb_build_object('discount', v_share);
+      v_amount := v_amount - v_share;
+    end if;
+
+    -- CGST and SGST are each rounded per line, as in calculatePricing
+    v_half_tax := round(v_amount * (v_priced->>'tax_rate')::numeric / 200, 2);
+
+    v_items := v_items || v_priced;
+    v_taxes := v_taxes + 2 * v_half_tax;
+  end loop;
+
+  insert into public.orders (
+    id, items, subtotal, discount, promo_code, taxes, total, status, payment_method, customer_name, room_number
+  )
+  values (
+    p_order_id, v_items, v_subtotal, v_discount, v_promotion.code, v_taxes, v_subtotal - v_discount + v_taxes,
+    'pending', p_payment_method, left(p_customer_name, 50), left(p_room_number, 10)
+  )
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+grant execute on function public.place_order(text, jsonb, text, text, text, text) to anon, authenticated;
@@ -0,0 +1,478 @@
+-- Loyalty points for guests who verify their phone number.
+--
+-- A guest signs in from the cart with a one-time code sent to their phone.
+-- request_customer_otp creates the code; verify_customer_otp checks it and
+-- hands back a session token the browser keeps and passes to place_order and
+-- get_customer_profile. Only the stub sender exists for now: it returns the
+-- code to the browser, which shows it as if it had been texted, and only works
+-- when the database has `app.otp_stub = 'on'`:
+--
+--   alter database postgres set app.otp_stub = 'on';
+--
+-- Orders from a signed-in guest earn one point per ₹10 paid once they are
+-- accepted. Points are worth ₹0.50 each and can pay for up to half of an order;
+-- they come off the total after GST, like a part payment. Points spent on an
+-- order that is then rejected or cancelled are given back, and points it
+-- earned are taken back. src/utils/loyalty.ts holds the same rules.
+
+create table public.customers (
+  id uuid primary key default gen_random_uuid(),
+  phone text not null unique check (phone ~ '^\+91[6-9][0-9]{9}$'),
+  name text,
+  points_balance integer not null default 0 check (points_balance >= 0),
+  created_at timestamptz not null default now()
+);
+
+-- Every change to a balance, one row per order and kind
+create table public.loyalty_transactions (
+  id uuid primary key default gen_random_uuid(),
+  customer_id uuid not null references public.customers (id) on delete cascade,
+  order_id text references public.orders (id) on delete set null,
+  kind text not null check (kind in ('earn', 'redeem', 'refund', 'reverse')),
+  points integer not null,
+  created_at timestamptz not null default now(),
+  unique (order_id, kind)
+);
+
+-- Codes and sessions are only reached through the functions below
+create table public.customer_otps (
+  phone text primary key,
+  code_hash text not null,
+  attempts integer not null default 0,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create table public.customer_sessions (
+  token_hash text primary key,
+  customer_id uuid not null references public.customers (id) on delete cascade,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.customers enable row level security;
+alter table public.loyalty_transactions enable row level security;
+alter table public.customer_otps enable row level security;
+alter table public.customer_sessions enable row level security;
+
+create policy "Staff can read customers"
+  on public.customers for select
+  using (public.current_staff_role() is not null);
+
+create policy "Staff can read loyalty transactions"
+  on public.loyalty_transactions for select
+  using (public.current_staff_role() is not null);
+
+alter table public.orders
+  add column customer_id uuid references public.customers (id) on delete set null,
+  add column points_redeemed integer not null default 0 check (points_redeemed >= 0),
+  add column points_discount numeric not null default 0 check (points_discount >= 0);
+
+create index orders_customer_id_idx on public.orders (customer_id);
+
+-- Nor may baristas and cashiers move points between orders
+create or replace function public.enforce_order_update_permissions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if public.current_staff_role() in ('owner', 'manager') then
+    return new;
+  end if;
+
+  if new.items is distinct from old.items
+    or new.subtotal is distinct from old.subtotal
+    or new.discount is distinct from old.discount
+    or new.promo_code is distinct from old.promo_code
+    or new.taxes is distinct from old.taxes
+    or new.total is distinct from old.total
+    or new.payment_method is distinct from old.payment_method
+    or new.customer_name is distinct from old.customer_name
+    or new.room_number is distinct from old.room_number
+    or new.table_number is distinct from old.table_number
+    or new.created_at is distinct from old.created_at
+    or new.customer_id is distinct from old.customer_id
+    or new.points_redeemed is distinct from old.points_redeemed
+    or new.points_discount is distinct from old.points_discount
+  then
+    raise exception 'Only managers and owners can change order details'
+      using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Returns the code itself, for the stub sender to show
+create or replace function public.request_customer_otp(p_phone text)
+returns text
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  v_code text;
+begin
+  if coalesce(current_setting('app.otp_stub', true), 'off') <> 'on' then
+    raise exception 'Phone verification is not available';
+  end if;
+
+  if p_phone is null or p_phone !~ '^\+91[6-9][0-9]{9}$' then
+    raise exception 'Enter a valid 10-digit mobile number';
+  end if;
+
+  if exists (
+    select 1 from public.customer_otps
+    where phone = p_phone and created_at > now() - interval '30 seconds'
+  ) then
+    raise exception 'Please wait a few seconds before asking for another code';
+  end if;
+
+  v_code := lpad(floor(random() * 1000000)::integer::text, 6, '0');
+
+  insert into public.customer_otps (phone, code_hash, attempts, expires_at, created_at)
+  values (p_phone, md5(p_phone || v_code), 0, now() + interval '10 minutes', now())
+  on conflict (phone) do update
+    set code_hash = excluded.code_hash,
+        attempts = 0,
+        expires_at = excluded.expires_at,
+        created_at = excluded.created_at;
+
+  return v_code;
+end;
+$$;
+
+grant execute on function public.request_customer_otp(text) to anon, authenticated;
+
+-- Returns a session token, or null if the code is wrong. A wrong code is not
+-- raised as an error, so the failed attempt is still counted.
+create or replace function public.verify_customer_otp(
+  p_phone text,
+  p_code text,
+  p_name text default null
+)
+returns text
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  v_otp public.customer_otps%rowtype;
+  v_customer_id uuid;
+  v_token text;
+begin
+  select * into v_otp from public.customer_otps where phone = p_phone for update;
+
+  if not found or v_otp.expires_at <= now() then
+    raise exception 'The code has expired, ask for a new one';
+  end if;
+
+  if v_otp.attempts >= 5 then
+    raise exception 'Too many attempts, ask for a new code';
+  end if;
+
+  if v_otp.code_hash <> md5(p_phone || coalesce(p_code, '')) then
+    update public.customer_otps set attempts = attempts + 1 where phone = p_phone;
+    return null;
+  end if;
+
+  delete from public.customer_otps where phone = p_phone;
+
+  insert into public.customers (phone, name)
+  values (p_phone, nullif(left(btrim(p_name), 50), ''))
+  on conflict (phone) do update
+    set name = coalesce(public.customers.name, excluded.name)
+  returning id into v_customer_id;
+
+  v_token := replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '');
+
+  insert into public.customer_sessions (token_hash, customer_id, expires_at)
+  values (md5(v_token), v_customer_id, now() + interval '90 days');
+
+  return v_token;
+end;
+$$;
+
+grant execute on function public.verify_customer_otp(text, text, text) to anon, authenticated;
+
+create or replace function public.customer_from_token(p_token text)
+returns uuid
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_customer_id uuid;
+begin
+  select customer_id into v_customer_id
+    from public.customer_sessions
+    where token_hash = md5(p_token) and expires_at > now();
+
+  if not found then
+    raise exception 'Please verify your phone number again';
+  end if;
+
+  return v_customer_id;
+end;
+$$;
+
+create or replace function public.get_customer_profile(p_token text)
+returns public.customers
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select * from public.customers where id = public.customer_from_token(p_token);
+$$;
+
+grant execute on function public.get_customer_profile(text) to anon, authenticated;
+
+create or replace function public.end_customer_session(p_token text)
+returns void
+language sql
+volatile
+security definer
+set search_path = public
+as $$
+  delete from public.customer_sessions where token_hash = md5(p_token);
+$$;
+
+grant execute on function public.end_customer_session(text) to anon, authenticated;
+
+-- Points are earned when an order is accepted and settled if it is turned away
+create or replace function public.apply_loyalty_points()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_points integer;
+  v_balance integer;
+begin
+  if new.customer_id is null or new.status = old.status then
+    return new;
+  end if;
+
+  if new.status = 'accepted' then
+    v_points := floor(new.total * 0.1);
+
+    if v_points > 0 then
+      insert into public.loyalty_transactions (customer_id, order_id, kind, points)
+      values (new.customer_id, new.id, 'earn', v_points)
+      on conflict (order_id, kind) do nothing;
+
+      if found then
+        update public.customers set points_balance = points_balance + v_points where id = new.customer_id;
+      end if;
+    end if;
+  elsif new.status in ('rejected', 'cancelled') then
+    if new.points_redeemed > 0 then
+      insert into public.loyalty_transactions (customer_id, order_id, kind, points)
+      values (new.customer_id, new.id, 'refund', new.points_redeemed)
+      on conflict (order_id, kind) do nothing;
+
+      if found then
+        update public.customers set points_balance = points_balance + new.points_redeemed where id = new.customer_id;
+      end if;
+    end if;
+
+    -- Never more than the guest still has
+    select t.points, c.points_balance into v_points, v_balance
+      from public.loyalty_transactions t
+      join public.customers c on c.id = t.customer_id
+      where t.order_id = new.id and t.kind = 'earn'
+      for update of c;
+
+    if found and least(v_points, v_balance) > 0 then
+      insert into public.loyalty_transactions (customer_id, order_id, kind, points)
+      values (new.customer_id, new.id, 'reverse', -least(v_points, v_balance))
+      on conflict (order_id, kind) do nothing;
+
+      if found then
+        update public.customers
+          set points_balance = points_balance - least(v_points, v_balance)
+          where id = new.customer_id;
+      end if;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger orders_apply_loyalty_points
+  after update of status on public.orders
+  for each row execute function public.apply_loyalty_points();
+
+-- place_order gains the guest's session and the points to redeem
+drop function public.place_order(text, jsonb, text, text, text, text);
+
+create function public.place_order(
+  p_order_id text,
+  p_items jsonb,
+  p_payment_method text,
+  p_customer_name text default null,
+  p_room_number text default null,
+  p_promo_code text default null,
+  p_customer_token text default null,
+  p_redeem_points integer default 0
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_line jsonb;
+  v_priced jsonb;
+  v_amount numeric;
+  v_half_tax numeric;
+  v_lines jsonb := '[]'::jsonb;
+  v_items jsonb := '[]'::jsonb;
+  v_subtotal numeric := 0;
+  v_taxes numeric := 0;
+  v_promotion public.promotions%rowtype;
+  v_eligible_amount numeric := 0;
+  v_eligible_count integer := 0;
+  v_eligible_seen integer := 0;
+  v_discount numeric := 0;
+  v_share numeric;
+  v_allocated numeric := 0;
+  v_customer public.customers%rowtype;
+  v_points_discount numeric := 0;
+  v_order public.orders%rowtype;
+begin
+  if p_order_id is null or p_order_id !~ '^[A-Za-z0-9-]{4,32}$' then
+    raise exception 'Invalid order id';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'An order must contain at least one item';
+  end if;
+
+  if p_payment_method is null or p_payment_method not in ('qr', 'card', 'cash') then
+    raise exception 'Unsupported payment method: %', p_payment_method;
+  end if;
+
+  if coalesce(p_redeem_points, 0) < 0 then
+    raise exception 'Invalid number of points';
+  end if;
+
+  -- Orders from a verified phone number earn points once accepted
+  if p_customer_token is not null then
+    select * into v_customer
+      from public.customers
+      where id = public.customer_from_token(p_customer_token)
+      for update;
+  elsif coalesce(p_redeem_points, 0) > 0 then
+    raise exception 'Verify your phone number to redeem points';
+  end if;
+
+  for v_line in select * from jsonb_array_elements(p_items)
+  loop
+    if v_line ? 'combo_id' then
+      v_priced := public.price_combo_line(v_line);
+    else
+      v_priced := public.price_item_line(v_line);
+    end if;
+
+    v_lines := v_lines || v_priced;
+    v_subtotal := v_subtotal + (v_priced->>'price')::numeric * (v_priced->>'quantity')::integer;
+  end loop;
+
+  if nullif(btrim(p_promo_code), '') is not null then
+    -- Locked so two orders cannot both take the last use
+    select * into v_promotion
+      from public.promotions
+      where code = upper(btrim(p_promo_code)) and is_active
+      for update;
+
+    if not found then
+      raise exception 'Promo code % is not valid', upper(btrim(p_promo_code));
+    end if;
+
+    select coalesce(sum((line->>'price')::numeric * (line->>'quantity')::integer), 0), count(*)
+      into v_eligible_amount, v_eligible_count
+      from jsonb_array_elements(v_lines) as line
+      where v_promotion.categories is null or line->>'category' = any(v_promotion.categories);
+
+    perform public.check_promotion(v_promotion, v_subtotal, v_eligible_count);
+
+    if v_promotion.discount_type = 'percent' then
+      v_discount := round(v_eligible_amount * v_promotion.discount_value / 100, 2);
+    else
+      v_discount := least(v_promotion.discount_value, v_eligible_amount);
+    end if;
+    v_discount := least(v_discount, coalesce(v_promotion.max_discount, v_discount));
+
+    update public.promotions set times_used = times_used + 1 where id = v_promotion.id;
+  end if;
+
+  for v_priced in select * from jsonb_array_elements(v_lines)
+  loop
+    v_amount := (v_priced->>'price')::numeric * (v_priced->>'quantity')::integer;
+
+    -- The discount is split in proportion to the lines it covers, the last one taking the remainder
+    if v_discount > 0 and (v_promotion.categories is null or v_priced->>'category' = any(v_promotion.categories)) then
+      v_eligible_seen := v_eligible_seen + 1;
+      v_share := case when v_eligible_seen = v_eligible_count
+        then v_discount - v_allocated
+        else round(v_discount * v_amount / v_eligible_amount, 2)
+      end;
+      v_allocated := v_allocated + v_share;
+      v_priced := v_priced || jsonb_build_object('discount', v_share);
+      v_amount := v_amount - v_share;
+    end if;
+
+    -- CGST and SGST are each rounded per line, as in calculatePricing
+    v_half_tax := round(v_amount * (v_priced->>'tax_rate')::numeric / 200, 2);
+
+    v_items := v_items || v_priced;
+    v_taxes := v_taxes + 2 * v_half_tax;
+  end loop;
+
+  -- Points come off what is left to pay, for at most half of it
+  if coalesce(p_redeem_points, 0) > 0 then
+    if p_redeem_points > v_customer.points_balance then
+      raise exception 'You only have % points', v_customer.points_balance;
+    end if;
+
+    if p_redeem_points > floor((v_subtotal - v_discount + v_taxes) * 0.5 / 0.5) then
+      raise exception 'You can redeem at most % points on this order',
+        floor((v_subtotal - v_discount + v_taxes) * 0.5 / 0.5);
+    end if;
+
+    v_points_discount := round(p_redeem_points * 0.5, 2);
+  end if;
+
+  insert into public.orders (
+    id, items, subtotal, discount, promo_code, taxes, total, status, payment_method, customer_name, room_number,
+    customer_id, points_redeemed, points_discount
+  )
+  values (
+    p_order_id, v_items, v_subtotal, v_discount, v_promotion.code, v_taxes,
+    v_subtotal - v_discount + v_taxes - v_points_discount,
+    'pending', p_payment_method, left(p_customer_name, 50), left(p_room_number, 10),
+    v_customer.id, coalesce(p_redeem_points, 0), v_points_discount
+  )
+  returning * into v_order;
+
+  if v_points_discount > 0 then
+    update public.customers set points_balance = points_balance - p_redeem_points where id = v_customer.id;
+
+    insert into public.loyalty_transactions (customer_id, order_id, kind, points)
+    values (v_customer.id, v_order.id, 'redeem', -p_redeem_points);
+  end if;
+
+  return v_order;
+end;
+$$;
+
+grant execute on function public.place_order(text, jsonb, text, text, text, text, text, integer) to anon, authenticated;
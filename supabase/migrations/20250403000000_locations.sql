@@ -0,0 +1,285 @@
+-- Tables and rooms guests order from, and the signed links on their QR codes.
+--
+-- Every location has a short code (e.g. T4 or 204) that goes on its orders as
+-- the table_number or room_number. Its QR code opens /menu?loc=T4&sig=..., where
+-- sig is an HMAC of the code with a key only the database can read, so a link
+-- cannot be edited to order for another table. verify_location checks a
+-- scanned link and place_order checks it again when the order is placed.
+
+create extension if not exists pgcrypto with schema extensions;
+
+create table public.locations (
+  code text primary key check (code ~ '^[A-Z0-9-]{1,10}$'),
+  name text not null check (length(btrim(name)) between 1 and 50),
+  kind text not null check (kind in ('table', 'room')),
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+alter table public.locations enable row level security;
+
+create policy "Anyone can read locations"
+  on public.locations for select
+  using (true);
+
+create policy "Managers can change locations"
+  on public.locations for all
+  using (public.current_staff_role() in ('owner', 'manager'))
+  with check (public.current_staff_role() in ('owner', 'manager'));
+
+insert into public.locations (code, name, kind)
+values
+  ('T1', 'Table 1', 'table'),
+  ('T2', 'Table 2', 'table'),
+  ('T3', 'Table 3', 'table'),
+  ('T4', 'Table 4', 'table'),
+  ('101', 'Room 101', 'room'),
+  ('204', 'Room 204', 'room');
+
+-- A single key with no policies: only the functions below can read it.
+-- Replacing the secret invalidates every printed QR code.
+create table public.location_signing_key (
+  id boolean primary key default true check (id),
+  secret bytea not null default extensions.gen_random_bytes(32)
+);
+
+alter table public.location_signing_key enable row level security;
+
+insert into public.location_signing_key default values;
+
+create or replace function public.location_signature(p_code text)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select left(encode(extensions.hmac(convert_to(p_code, 'UTF8'), secret, 'sha256'), 'hex'), 16)
+    from public.location_signing_key;
+$$;
+
+revoke execute on function public.location_signature(text) from public, anon, authenticated;
+
+-- Codes and signatures for the QR codes printed from the admin dashboard
+create or replace function public.get_location_links()
+returns table (code text, sig text)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if public.current_staff_role() is null or public.current_staff_role() not in ('owner', 'manager') then
+    raise exception 'Only managers can print QR codes' using errcode = '42501';
+  end if;
+
+  return query
+    select locations.code, public.location_signature(locations.code)
+      from public.locations
+      order by locations.kind, locations.code;
+end;
+$$;
+
+grant execute on function public.get_location_links() to authenticated;
+
+-- The location a scanned link points to, if the link is genuine and the location is open
+create or replace function public.verify_location(p_code text, p_sig text)
+returns public.locations
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_location public.locations%rowtype;
+begin
+  select * into v_location from public.locations where code = upper(btrim(p_code));
+
+  if not found or p_sig is distinct from public.location_signature(v_location.code) then
+    raise exception 'This QR code is not valid. Please ask a member of staff for help';
+  end if;
+
+  if not v_location.is_active then
+    raise exception '% is not taking orders right now', v_location.name;
+  end if;
+
+  return v_location;
+end;
+$$;
+
+grant execute on function public.verify_location(text, text) to anon, authenticated;
+
+-- place_order gains the scanned location
+drop function public.place_order(text, jsonb, text, text, text, text, text, integer);
+
+create function public.place_order(
+  p_order_id text,
+  p_items jsonb,
+  p_payment_method text,
+  p_customer_name text default null,
+  p_room_number text default null,
+  p_promo_code text default null,
+  p_customer_token text default null,
+  p_redeem_points integer default 0,
+  p_location text default null,
+  p_location_sig text default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_line jsonb;
+  v_priced jsonb;
+  v_amount numeric;
+  v_half_tax numeric;
+  v_lines jsonb := '[]'::jsonb;
+  v_items jsonb := '[]'::jsonb;
+  v_subtotal numeric := 0;
+  v_taxes numeric := 0;
+  v_promotion public.promotions%rowtype;
+  v_eligible_amount numeric := 0;
+  v_eligible_count integer := 0;
+  v_eligible_seen integer := 0;
+  v_discount numeric := 0;
+  v_share numeric;
+  v_allocated numeric := 0;
+  v_customer public.customers%rowtype;
+  v_points_discount numeric := 0;
+  v_location public.locations%rowtype;
+  v_order public.orders%rowtype;
+begin
+  if p_order_id is null or p_order_id !~ '^[A-Za-z0-9-]{4,32}$' then
+    raise exception 'Invalid order id';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'An order must contain at least one item';
+  end if;
+
+  if p_payment_method is null or p_payment_method not in ('qr', 'card', 'cash') then
+    raise exception 'Unsupported payment method: %', p_payment_method;
+  end if;
+
+  if coalesce(p_redeem_points, 0) < 0 then
+    raise exception 'Invalid number of points';
+  end if;
+
+  -- A scanned QR code decides the table or room; otherwise the guest typed it in
+  if p_location is not null then
+    v_location := public.verify_location(p_location, p_location_sig);
+  end if;
+
+  -- Orders from a verified phone number earn points once accepted
+  if p_customer_token is not null then
+    select * into v_customer
+      from public.customers
+      where id = public.customer_from_token(p_customer_token)
+      for update;
+  elsif coalesce(p_redeem_points, 0) > 0 then
+    raise exception 'Verify your phone number to redeem points';
+  end if;
+
+  for v_line in select * from jsonb_array_elements(p_items)
+  loop
+    if v_line ? 'combo_id' then
+      v_priced := public.price_combo_line(v_line);
+    else
+      v_priced := public.price_item_line(v_line);
+    end if;
+
+    v_lines := v_lines || v_priced;
+    v_subtotal := v_subtotal + (v_priced->>'price')::numeric * (v_priced->>'quantity')::integer;
+  end loop;
+
+  if nullif(btrim(p_promo_code), '') is not null then
+    -- Locked so two orders cannot both take the last use
+    select * into v_promotion
+      from public.promotions
+      where code = upper(btrim(p_promo_code)) and is_active
+      for update;
+
+    if not found then
+      raise exception 'Promo code % is not valid', upper(btrim(p_promo_code));
+    end if;
+
+    select coalesce(sum((line->>'price')::numeric * (line->>'quantity')::integer), 0), count(*)
+      into v_eligible_amount, v_eligible_count
+      from jsonb_array_elements(v_lines) as line
+      where v_promotion.categories is null or line->>'category' = any(v_promotion.categories);
+
+    perform public.check_promotion(v_promotion, v_subtotal, v_eligible_count);
+
+    if v_promotion.discount_type = 'percent' then
+      v_discount := round(v_eligible_amount * v_promotion.discount_value / 100, 2);
+    else
+      v_discount := least(v_promotion.discount_value, v_eligible_amount);
+    end if;
+    v_discount := least(v_discount, coalesce(v_promotion.max_discount, v_discount));
+
+    update public.promotions set times_used = times_used + 1 where id = v_promotion.id;
+  end if;
+
+  for v_priced in select * from jsonb_array_elements(v_lines)
+  loop
+    v_amount := (v_priced->>'price')::numeric * (v_priced->>'quantity')::integer;
+
+    -- The discount is split in proportion to the lines it covers, the last one taking the remainder
+    if v_discount > 0 and (v_promotion.categories is null or v_priced->>'category' = any(v_promotion.categories)) then
+      v_eligible_seen := v_eligible_seen + 1;
+      v_share := case when v_eligible_seen = v_eligible_count
+        then v_discount - v_allocated
+        else round(v_discount * v_amount / v_eligible_amount, 2)
+      end;
+      v_allocated := v_allocated + v_share;
+      v_priced := v_priced || jsonb_build_object('discount', v_share);
+      v_amount := v_amount - v_share;
+    end if;
+
+    -- CGST and SGST are each rounded per line, as in calculatePricing
+    v_half_tax := round(v_amount * (v_priced->>'tax_rate')::numeric / 200, 2);
+
+    v_items := v_items || v_priced;
+    v_taxes := v_taxes + 2 * v_half_tax;
+  end loop;
+
+  -- Points come off what is left to pay, for at most half of it
+  if coalesce(p_redeem_points, 0) > 0 then
+    if p_redeem_points > v_customer.points_balance then
+      raise exception 'You only have % points', v_customer.points_balance;
+    end if;
+
+    if p_redeem_points > floor((v_subtotal - v_discount + v_taxes) * 0.5 / 0.5) then
+      raise exception 'You can redeem at most % points on this order',
+        floor((v_subtotal - v_discount + v_taxes) * 0.5 / 0.5);
+    end if;
+
+    v_points_discount := round(p_redeem_points * 0.5, 2);
+  end if;
+
+  insert into public.orders (
+    id, items, subtotal, discount, promo_code, taxes, total, status, payment_method, customer_name, room_number,
+    table_number, customer_id, points_redeemed, points_discount
+  )
+  values (
+    p_order_id, v_items, v_subtotal, v_discount, v_promotion.code, v_taxes,
+    v_subtotal - v_discount + v_taxes - v_points_discount,
+    'pending', p_payment_method, left(p_customer_name, 50),
+    case when v_location.code is null then left(p_room_number, 10) when v_location.kind = 'room' then v_location.code end,
+    case when v_location.kind = 'table' then v_location.code end, v_customer.id, coalesce(p_redeem_points, 0), v_points_discount
+  )
+  returning * into v_order;
+
+  if v_points_discount > 0 then
+    update public.customers set points_balance = points_balance - p_redeem_points where id = v_customer.id;
+
+    insert into public.loyalty_transactions (customer_id, order_id, kind, points)
+    values (v_customer.id, v_order.id, 'redeem', -p_redeem_points);
+  end if;
+
+  return v_order;
+end;
+$$;
+
+grant execute on function public.place_order(text, jsonb, text, text, text, text, text, integer, text, text) to anon, authenticated;
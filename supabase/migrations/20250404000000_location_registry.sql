@@ -0,0 +1,70 @@
+-- Zones for tables and rooms, and closing out a table once its guests leave.
+--
+-- An order belongs to a location when its table_number or room_number is the
+-- location's code. Orders that are not completed, rejected or cancelled are
+-- the location's open orders; close_location completes them once they have
+-- all been handed over and paid for.
+
+alter table public.locations
+  add column zone text check (zone is null or length(btrim(zone)) between 1 and 40);
+
+update public.locations set zone = 'Cafe floor' where kind = 'table';
+update public.locations set zone = 'First floor' where code = '101';
+update public.locations set zone = 'Second floor' where code = '204';
+
+create index orders_table_number_idx on public.orders (table_number) where table_number is not null;
+create index orders_room_number_idx on public.orders (room_number) where room_number is not null;
+
+create or replace function public.close_location(p_code text)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_location public.locations%rowtype;
+  v_in_kitchen integer;
+  v_unpaid integer;
+  v_closed integer;
+begin
+  if public.current_staff_role() is null or public.current_staff_role() not in ('owner', 'manager', 'cashier') then
+    raise exception 'Only cashiers and managers can close a table' using errcode = '42501';
+  end if;
+
+  select * into v_location from public.locations where code = p_code;
+  if not found then
+    raise exception 'Location % not found', p_code;
+  end if;
+
+  -- Locked so no order moves on while the location is being closed
+  perform 1 from public.orders
+    where coalesce(table_number, room_number) = v_location.code
+      and status not in ('completed', 'rejected', 'cancelled')
+    for update;
+
+  select count(*) filter (where status in ('pending', 'accepted', 'preparing', 'ready')),
+         count(*) filter (where status in ('served', 'delivered') and payment_status = 'unpaid')
+    into v_in_kitchen, v_unpaid
+    from public.orders
+    where coalesce(table_number, room_number) = v_location.code
+      and status not in ('completed', 'rejected', 'cancelled');
+
+  if v_in_kitchen > 0 then
+    raise exception '% still has % order(s) in the kitchen', v_location.name, v_in_kitchen;
+  end if;
+
+  if v_unpaid > 0 then
+    raise exception '% has % unpaid order(s). Record the payments first', v_location.name, v_unpaid;
+  end if;
+
+  update public.orders
+    set status = 'completed'
+    where coalesce(table_number, room_number) = v_location.code
+      and status in ('served', 'delivered');
+
+  get diagnostics v_closed = row_count;
+  return v_closed;
+end;
+$$;
+
+grant execute on function public.close_location(text) to authenticated;
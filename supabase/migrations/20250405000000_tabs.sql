@@ -0,0 +1,425 @@
+-- Open tabs: a table orders several rounds and pays once when it leaves.
+--
+-- A guest ordering from a scanned table or room QR code can choose 'tab' as
+-- the payment method. The order joins the location's open tab (one is opened
+-- if there is none) and stays unpaid. settle_tab takes one cash or card
+-- payment for everything on the tab, records it on each order so the shift
+-- reconciliation still adds up per order, and closes the tab. The next order
+-- from that location starts a new tab.
+
+create table public.tabs (
+  id uuid primary key default gen_random_uuid(),
+  location_code text not null references public.locations(code),
+  status text not null default 'open' check (status in ('open', 'closed')),
+  opened_at timestamptz not null default now(),
+  closed_at timestamptz,
+  payment_method text check (payment_method in ('cash', 'card')),
+  amount_tendered numeric,
+  change_given numeric,
+  closed_by uuid references auth.users(id)
+);
+
+-- At most one open tab per table or room
+create unique index tabs_open_location_idx on public.tabs (location_code) where status = 'open';
+
+alter table public.tabs enable row level security;
+
+-- Guests read their running tab; tabs only change through the functions below
+create policy "Anyone can read tabs"
+  on public.tabs for select
+  using (true);
+
+alter table public.orders add column tab_id uuid references public.tabs(id);
+
+create index orders_tab_id_idx on public.orders (tab_id) where tab_id is not null;
+
+-- Settling a tab turns its orders' 'tab' payment method into cash or card, and
+-- nobody may move an order onto or off a tab by hand
+create or replace function public.enforce_order_update_permissions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if public.current_staff_role() in ('owner', 'manager') then
+    return new;
+  end if;
+
+  if new.items is distinct from old.items
+    or new.subtotal is distinct from old.subtotal
+    or new.discount is distinct from old.discount
+    or new.promo_code is distinct from old.promo_code
+    or new.taxes is distinct from old.taxes
+    or new.total is distinct from old.total
+    or (new.payment_method is distinct from old.payment_method
+      and not (old.payment_method = 'tab' and coalesce(current_setting('app.recording_payment', true), 'off') = 'on'))
+    or new.customer_name is distinct from old.customer_name
+    or new.room_number is distinct from old.room_number
+    or new.table_number is distinct from old.table_number
+    or new.created_at is distinct from old.created_at
+    or new.customer_id is distinct from old.customer_id
+    or new.points_redeemed is distinct from old.points_redeemed
+    or new.points_discount is distinct from old.points_discount
+    or new.tab_id is distinct from old.tab_id
+  then
+    raise exception 'Only managers and owners can change order details'
+      using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+-- place_order accepts 'tab' for orders from a scanned location
+drop function public.place_order(text, jsonb, text, text, text, text, text, integer, text, text);
+
+create function public.place_order(
+  p_order_id text,
+  p_items jsonb,
+  p_payment_method text,
+  p_customer_name text default null,
+  p_room_number text default null,
+  p_promo_code text default null,
+  p_customer_token text default null,
+  p_redeem_points integer default 0,
+  p_location text default null,
+  p_location_sig text default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_line jsonb;
+  v_priced jsonb;
+  v_amount numeric;
+  v_half_tax numeric;
+  v_lines jsonb := '[]'::jsonb;
+  v_items jsonb := '[]'::jsonb;
+  v_subtotal numeric := 0;
+  v_taxes numeric := 0;
+  v_promotion public.promotions%rowtype;
+  v_eligible_amount numeric := 0;
+  v_eligible_count integer := 0;
+  v_eligible_seen integer := 0;
+  v_discount numeric := 0;
+  v_share numeric;
+  v_allocated numeric := 0;
+  v_customer public.customers%rowtype;
+  v_points_discount numeric := 0;
+  v_location public.locations%rowtype;
+  v_tab public.tabs%rowtype;
+  v_order public.orders%rowtype;
+begin
+  if p_order_id is null or p_order_id !~ '^[A-Za-z0-9-]{4,32}$' then
+    raise exception 'Invalid order id';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'An order must contain at least one item';
+  end if;
+
+  if p_payment_method is null or p_payment_method not in ('qr', 'card', 'cash', 'tab') then
+    raise exception 'Unsupported payment method: %', p_payment_method;
+  end if;
+
+  if coalesce(p_redeem_points, 0) < 0 then
+    raise exception 'Invalid number of points';
+  end if;
+
+  -- A scanned QR code decides the table or room; otherwise the guest typed it in
+  if p_location is not null then
+    v_location := public.verify_location(p_location, p_location_sig);
+  end if;
+
+  if p_payment_method = 'tab' and v_location.code is null then
+    raise exception 'Scan the QR code on your table to order on a tab';
+  end if;
+
+  -- Orders from a verified phone number earn points once accepted
+  if p_customer_token is not null then
+    select * into v_customer
+      from public.customers
+      where id = public.customer_from_token(p_customer_token)
+      for update;
+  elsif coalesce(p_redeem_points, 0) > 0 then
+    raise exception 'Verify your phone number to redeem points';
+  end if;
+
+  for v_line in select * from jsonb_array_elements(p_items)
+  loop
+    if v_line ? 'combo_id' then
+      v_priced := public.price_combo_line(v_line);
+    else
+      v_priced := public.price_item_line(v_line);
+    end if;
+
+    v_lines := v_lines || v_priced;
+    v_subtotal := v_subtotal + (v_priced->>'price')::numeric * (v_priced->>'quantity')::integer;
+  end loop;
+
+  if nullif(btrim(p_promo_code), '') is not null then
+    -- Locked so two orders cannot both take the last use
+    select * into v_promotion
+      from public.promotions
+      where code = upper(btrim(p_promo_code)) and is_active
+      for update;
+
+    if not found then
+      raise exception 'Promo code % is not valid', upper(btrim(p_promo_code));
+    end if;
+
+    select coalesce(sum((line->>'price')::numeric * (line->>'quantity')::integer), 0), count(*)
+      into v_eligible_amount, v_eligible_count
+      from jsonb_array_elements(v_lines) as line
+      where v_promotion.categories is null or line->>'category' = any(v_promotion.categories);
+
+    perform public.check_promotion(v_promotion, v_subtotal, v_eligible_count);
+
+    if v_promotion.discount_type = 'percent' then
+      v_discount := round(v_eligible_amount * v_promotion.discount_value / 100, 2);
+    else
+      v_discount := least(v_promotion.discount_value, v_eligible_amount);
+    end if;
+    v_discount := least(v_discount, coalesce(v_promotion.max_discount, v_discount));
+
+    update public.promotions set times_used = times_used + 1 where id = v_promotion.id;
+  end if;
+
+  for v_priced in select * from jsonb_array_elements(v_lines)
+  loop
+    v_amount := (v_priced->>'price')::numeric * (v_priced->>'quantity')::integer;
+
+    -- The discount is split in proportion to the lines it covers, the last one taking the remainder
+    if v_discount > 0 and (v_promotion.categories is null or v_priced->>'category' = any(v_promotion.categories)) then
+      v_eligible_seen := v_eligible_seen + 1;
+      v_share := case when v_eligible_seen = v_eligible_count
+        then v_discount - v_allocated
+        else round(v_discount * v_amount / v_eligible_amount, 2)
+      end;
+      v_allocated := v_allocated + v_share;
+      v_priced := v_priced || jsonb_build_object('discount', v_share);
+      v_amount := v_amount - v_share;
+    end if;
+
+    -- CGST and SGST are each rounded per line, as in calculatePricing
+    v_half_tax := round(v_amount * (v_priced->>'tax_rate')::numeric / 200, 2);
+
+    v_items := v_items || v_priced;
+    v_taxes := v_taxes + 2 * v_half_tax;
+  end loop;
+
+  -- Points come off what is left to pay, for at most half of it
+  if coalesce(p_redeem_points, 0) > 0 then
+    if p_redeem_points > v_customer.points_balance then
+      raise exception 'You only have % points', v_customer.points_balance;
+    end if;
+
+    if p_redeem_points > floor((v_subtotal - v_discount + v_taxes) * 0.5 / 0.5) then
+      raise exception 'You can redeem at most % points on this order',
+        floor((v_subtotal - v_discount + v_taxes) * 0.5 / 0.5);
+    end if;
+
+    v_points_discount := round(p_redeem_points * 0.5, 2);
+  end if;
+
+  -- Joins the location's open tab, opening one for the first round
+  if p_payment_method = 'tab' then
+    insert into public.tabs (location_code)
+      values (v_location.code)
+      on conflict (location_code) where status = 'open' do nothing
+      returning * into v_tab;
+
+    if v_tab.id is null then
+      select * into v_tab from public.tabs where location_code = v_location.code and status = 'open';
+    end if;
+  end if;
+
+  insert into public.orders (
+    id, items, subtotal, discount, promo_code, taxes, total, status, payment_method, customer_name, room_number,
+    table_number, customer_id, points_redeemed, points_discount, tab_id
+  )
+  values (
+    p_order_id, v_items, v_subtotal, v_discount, v_promotion.code, v_taxes,
+    v_subtotal - v_discount + v_taxes - v_points_discount,
+    'pending', p_payment_method, left(p_customer_name, 50),
+    case when v_location.code is null then left(p_room_number, 10) when v_location.kind = 'room' then v_location.code end,
+    case when v_location.kind = 'table' then v_location.code end, v_customer.id, coalesce(p_redeem_points, 0), v_points_discount,
+    v_tab.id
+  )
+  returning * into v_order;
+
+  if v_points_discount > 0 then
+    update public.customers set points_balance = points_balance - p_redeem_points where id = v_customer.id;
+
+    insert into public.loyalty_transactions (customer_id, order_id, kind, points)
+    values (v_customer.id, v_order.id, 'redeem', -p_redeem_points);
+  end if;
+
+  return v_order;
+end;
+$$;
+
+grant execute on function public.place_order(text, jsonb, text, text, text, text, text, integer, text, text) to anon, authenticated;
+
+-- One cash or card payment for every unpaid order on the tab. Each order is
+-- recorded as paid for its own total; any change goes on the latest order.
+create or replace function public.settle_tab(
+  p_tab_id uuid,
+  p_payment_method text,
+  p_amount_tendered numeric
+)
+returns public.tabs
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_tab public.tabs%rowtype;
+  v_pending integer;
+  v_due numeric;
+  v_change numeric;
+  v_last_order_id text;
+begin
+  if public.current_staff_role() is null or public.current_staff_role() not in ('owner', 'manager', 'cashier') then
+    raise exception 'Only cashiers and managers can settle tabs' using errcode = '42501';
+  end if;
+
+  select * into v_tab from public.tabs where id = p_tab_id for update;
+  if not found then
+    raise exception 'Tab not found';
+  end if;
+
+  if v_tab.status <> 'open' then
+    raise exception 'This tab is already closed';
+  end if;
+
+  if p_payment_method is null or p_payment_method not in ('cash', 'card') then
+    raise exception 'Tabs are settled by cash or card';
+  end if;
+
+  -- Locked so no round is added or rejected while the tab is being paid
+  perform 1 from public.orders where tab_id = p_tab_id for update;
+
+  select count(*) filter (where status = 'pending'),
+         coalesce(sum(total) filter (where status not in ('rejected', 'cancelled') and payment_status = 'unpaid'), 0)
+    into v_pending, v_due
+    from public.orders
+    where tab_id = p_tab_id;
+
+  -- A pending order may still be rejected, which would change the total
+  if v_pending > 0 then
+    raise exception '% order(s) on this tab are still waiting to be accepted', v_pending;
+  end if;
+
+  if p_amount_tendered is null or p_amount_tendered < v_due then
+    raise exception 'Amount tendered must be at least %', v_due;
+  end if;
+
+  if p_payment_method = 'card' and p_amount_tendered <> v_due then
+    raise exception 'Card payments must be for the exact total';
+  end if;
+
+  v_change := p_amount_tendered - v_due;
+
+  select id into v_last_order_id
+    from public.orders
+    where tab_id = p_tab_id and status not in ('rejected', 'cancelled') and payment_status = 'unpaid'
+    order by created_at desc, id desc
+    limit 1;
+
+  perform set_config('app.recording_payment', 'on', true);
+
+  update public.orders
+    set payment_method = p_payment_method,
+        payment_status = 'paid',
+        paid_at = now(),
+        amount_tendered = total + case when id = v_last_order_id then v_change else 0 end,
+        change_given = case when id = v_last_order_id then v_change else 0 end,
+        payment_recorded_by = auth.uid()
+    where tab_id = p_tab_id
+      and status not in ('rejected', 'cancelled')
+      and payment_status = 'unpaid';
+
+  perform set_config('app.recording_payment', 'off', true);
+
+  update public.tabs
+    set status = 'closed',
+        closed_at = now(),
+        payment_method = p_payment_method,
+        amount_tendered = p_amount_tendered,
+        change_given = v_change,
+        closed_by = auth.uid()
+    where id = p_tab_id
+    returning * into v_tab;
+
+  return v_tab;
+end;
+$$;
+
+grant execute on function public.settle_tab(uuid, text, numeric) to authenticated;
+
+-- Closing a table also closes a tab left with nothing to pay (e.g. every round was rejected)
+create or replace function public.close_location(p_code text)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_location public.locations%rowtype;
+  v_in_kitchen integer;
+  v_unpaid integer;
+  v_closed integer;
+begin
+  if public.current_staff_role() is null or public.current_staff_role() not in ('owner', 'manager', 'cashier') then
+    raise exception 'Only cashiers and managers can close a table' using errcode = '42501';
+  end if;
+
+  select * into v_location from public.locations where code = p_code;
+  if not found then
+    raise exception 'Location % not found', p_code;
+  end if;
+
+  -- Locked so no order moves on while the location is being closed
+  perform 1 from public.orders
+    where coalesce(table_number, room_number) = v_location.code
+      and status not in ('completed', 'rejected', 'cancelled')
+    for update;
+
+  select count(*) filter (where status in ('pending', 'accepted', 'preparing', 'ready')),
+         count(*) filter (where status in ('served', 'delivered') and payment_status = 'unpaid')
+    into v_in_kitchen, v_unpaid
+    from public.orders
+    where coalesce(table_number, room_number) = v_location.code
+      and status not in ('completed', 'rejected', 'cancelled');
+
+  if v_in_kitchen > 0 then
+    raise exception '% still has % order(s) in the kitchen', v_location.name, v_in_kitchen;
+  end if;
+
+  if v_unpaid > 0 then
+    raise exception '% has % unpaid order(s). Record the payments first', v_location.name, v_unpaid;
+  end if;
+
+  update public.orders
+    set status = 'completed'
+    where coalesce(table_number, room_number) = v_location.code
+      and status in ('served', 'delivered');
+
+  get diagnostics v_closed = row_count;
+
+  update public.tabs
+    set status = 'closed', closed_at = now(), closed_by = auth.uid()
+    where location_code = v_location.code
+      and status = 'open'
+      and not exists (
+        select 1 from public.orders
+          where tab_id = tabs.id and status not in ('rejected', 'cancelled') and payment_status = 'unpaid'
+      );
+
+  return v_closed;
+end;
+$$;
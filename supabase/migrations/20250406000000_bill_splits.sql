@@ -0,0 +1,518 @@
+-- Splitting a bill between the people at a table.
+--
+-- An unpaid counter order, or an open tab, can be split into shares: equal
+-- shares of the total, or one share per person for the items assigned to
+-- them. Each share has its own payment method and is collected on its own
+-- with record_split_payment. Once every share is paid the orders are marked
+-- paid with the 'split' payment method (and a tab is closed); the per-method
+-- amounts for the shift reconciliation come from the shares.
+
+create table public.bill_splits (
+  id uuid primary key default gen_random_uuid(),
+  order_id text references public.orders(id) on delete cascade,
+  tab_id uuid references public.tabs(id) on delete cascade,
+  position integer not null,
+  label text not null check (length(btrim(label)) between 1 and 30),
+  -- Indexes into the bill's items; null for an equal share
+  lines integer[],
+  amount numeric not null check (amount >= 0),
+  payment_method text not null check (payment_method in ('cash', 'card')),
+  payment_status text not null default 'unpaid' check (payment_status in ('unpaid', 'paid')),
+  paid_at timestamptz,
+  amount_tendered numeric,
+  change_given numeric,
+  payment_recorded_by uuid references auth.users(id),
+  created_at timestamptz not null default now(),
+  check ((order_id is null) <> (tab_id is null))
+);
+
+create index bill_splits_order_id_idx on public.bill_splits (order_id) where order_id is not null;
+create index bill_splits_tab_id_idx on public.bill_splits (tab_id) where tab_id is not null;
+
+alter table public.bill_splits enable row level security;
+
+-- Guests see their shares being paid; shares only change through the functions below
+create policy "Anyone can read bill splits"
+  on public.bill_splits for select
+  using (true);
+
+alter publication supabase_realtime add table public.bill_splits;
+
+-- A tab paid in shares is closed without a single payment method
+alter table public.tabs drop constraint tabs_payment_method_check;
+alter table public.tabs
+  add constraint tabs_payment_method_check check (payment_method in ('cash', 'card', 'split'));
+
+-- Any payment function may now change the payment method: settle_tab turns
+-- 'tab' into cash or card, and a fully paid split bill becomes 'split'
+create or replace function public.enforce_order_update_permissions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if public.current_staff_role() in ('owner', 'manager') then
+    return new;
+  end if;
+
+  if new.items is distinct from old.items
+    or new.subtotal is distinct from old.subtotal
+    or new.discount is distinct from old.discount
+    or new.promo_code is distinct from old.promo_code
+    or new.taxes is distinct from old.taxes
+    or new.total is distinct from old.total
+    or (new.payment_method is distinct from old.payment_method
+      and coalesce(current_setting('app.recording_payment', true), 'off') <> 'on')
+    or new.customer_name is distinct from old.customer_name
+    or new.room_number is distinct from old.room_number
+    or new.table_number is distinct from old.table_number
+    or new.created_at is distinct from old.created_at
+    or new.customer_id is distinct from old.customer_id
+    or new.points_redeemed is distinct from old.points_redeemed
+    or new.points_discount is distinct from old.points_discount
+    or new.tab_id is distinct from old.tab_id
+  then
+    raise exception 'Only managers and owners can change order details'
+      using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+-- What one line of a bill comes to: its amount less its discount, plus GST
+-- rounded per line as in place_order
+create or replace function public.bill_line_amount(p_line jsonb)
+returns numeric
+language sql
+immutable
+as $$
+  select (p_line->>'price')::numeric * (p_line->>'quantity')::integer - coalesce((p_line->>'discount')::numeric, 0)
+    + 2 * round(
+      ((p_line->>'price')::numeric * (p_line->>'quantity')::integer - coalesce((p_line->>'discount')::numeric, 0))
+        * coalesce((p_line->>'tax_rate')::numeric, 0) / 200,
+      2
+    );
+$$;
+
+-- p_splits is a list of { label, method } for equal shares, or of
+-- { label, method, lines } to split by item, where lines are indexes into the
+-- bill's items (a tab's rounds in the order they were placed). Every item
+-- goes to exactly one person, and shares are worked out in proportion to what
+-- each person's items come to, so discounts and points are shared too. The
+-- last share takes the rounding. An empty list removes the split.
+create or replace function public.split_bill(
+  p_order_id text default null,
+  p_tab_id uuid default null,
+  p_splits jsonb default '[]'::jsonb
+)
+returns setof public.bill_splits
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_items jsonb;
+  v_due numeric;
+  v_count integer;
+  v_by_items boolean;
+  v_split jsonb;
+  v_index jsonb;
+  v_line integer;
+  v_assigned integer[] := '{}';
+  v_weights numeric[] := '{}';
+  v_weight numeric;
+  v_total_weight numeric := 0;
+  v_amount numeric;
+  v_allocated numeric := 0;
+  i integer;
+begin
+  if (p_order_id is null) = (p_tab_id is null) then
+    raise exception 'Split either an order or a tab';
+  end if;
+
+  -- Locked so the bill cannot change or be paid while it is being split
+  perform 1 from public.orders where id = p_order_id or tab_id = p_tab_id for update;
+  if not found then
+    raise exception 'Bill not found';
+  end if;
+
+  if p_tab_id is not null and not exists (select 1 from public.tabs where id = p_tab_id and status = 'open') then
+    raise exception 'This tab is already closed';
+  end if;
+
+  if exists (select 1 from public.orders where id = p_order_id and tab_id is not null) then
+    raise exception 'This order is on a tab. Split the tab instead';
+  end if;
+
+  if exists (
+    select 1 from public.orders
+      where (id = p_order_id or tab_id = p_tab_id)
+        and status not in ('rejected', 'cancelled')
+        and (payment_status <> 'unpaid' or payment_method = 'qr')
+  ) then
+    raise exception 'This bill has already been paid';
+  end if;
+
+  if exists (
+    select 1 from public.bill_splits
+      where (order_id = p_order_id or tab_id = p_tab_id) and payment_status = 'paid'
+  ) then
+    raise exception 'Part of this bill has already been paid. Collect the remaining shares';
+  end if;
+
+  delete from public.bill_splits where order_id = p_order_id or tab_id = p_tab_id;
+
+  if p_splits is null or jsonb_typeof(p_splits) <> 'array' or jsonb_array_length(p_splits) = 0 then
+    return;
+  end if;
+
+  v_count := jsonb_array_length(p_splits);
+  if v_count < 2 or v_count > 20 then
+    raise exception 'A bill can be split between 2 and 20 people';
+  end if;
+
+  select coalesce(jsonb_agg(item.line order by o.created_at, o.id, item.n), '[]'::jsonb)
+    into v_items
+    from public.orders o
+    cross join lateral jsonb_array_elements(o.items) with ordinality as item(line, n)
+    where (o.id = p_order_id or o.tab_id = p_tab_id) and o.status not in ('rejected', 'cancelled');
+
+  select coalesce(sum(total), 0) into v_due
+    from public.orders
+    where (id = p_order_id or tab_id = p_tab_id) and status not in ('rejected', 'cancelled');
+
+  if jsonb_array_length(v_items) = 0 or v_due <= 0 then
+    raise exception 'There is nothing to pay on this bill';
+  end if;
+
+  v_by_items := (p_splits->0) ? 'lines';
+
+  for v_split in select * from jsonb_array_elements(p_splits)
+  loop
+    if length(btrim(coalesce(v_split->>'label', ''))) not between 1 and 30 then
+      raise exception 'Give each person a name of up to 30 characters';
+    end if;
+
+    if coalesce(v_split->>'method', '') not in ('cash', 'card') then
+      raise exception 'Each share is paid by cash or card';
+    end if;
+
+    if (v_split ? 'lines') <> v_by_items then
+      raise exception 'Split either equally or by item, not both';
+    end if;
+
+    if v_by_items then
+      if jsonb_typeof(v_split->'lines') <> 'array' or jsonb_array_length(v_split->'lines') = 0 then
+        raise exception '% has no items', btrim(v_split->>'label');
+      end if;
+
+      v_weight := 0;
+      for v_index in select * from jsonb_array_elements(v_split->'lines')
+      loop
+        v_line := (v_index #>> '{}')::integer;
+        if v_line < 0 or v_line >= jsonb_array_length(v_items) or v_line = any(v_assigned) then
+          raise exception 'Each item goes to exactly one person';
+        end if;
+
+        v_assigned := v_assigned || v_line;
+        v_weight := v_weight + public.bill_line_amount(v_items->v_line);
+      end loop;
+
+      v_weights := v_weights || v_weight;
+      v_total_weight := v_total_weight + v_weight;
+    end if;
+  end loop;
+
+  if v_by_items and coalesce(array_length(v_assigned, 1), 0) <> jsonb_array_length(v_items) then
+    raise exception 'Each item goes to exactly one person';
+  end if;
+
+  for i in 0 .. v_count - 1
+  loop
+    v_split := p_splits->i;
+
+    if i = v_count - 1 then
+      v_amount := v_due - v_allocated;
+    elsif v_by_items and v_total_weight > 0 then
+      v_amount := round(v_due * v_weights[i + 1] / v_total_weight, 2);
+    else
+      v_amount := round(v_due / v_count, 2);
+    end if;
+    v_allocated := v_allocated + v_amount;
+
+    insert into public.bill_splits (order_id, tab_id, position, label, lines, amount, payment_method)
+    values (
+      p_order_id, p_tab_id, i, btrim(v_split->>'label'),
+      case when v_by_items then array(select (value #>> '{}')::integer from jsonb_array_elements(v_split->'lines')) end,
+      v_amount, v_split->>'method'
+    );
+  end loop;
+
+  return query
+    select * from public.bill_splits
+      where order_id = p_order_id or tab_id = p_tab_id
+      order by position;
+end;
+$$;
+
+grant execute on function public.split_bill(text, uuid, jsonb) to anon, authenticated;
+
+-- One person's share, taken at the counter. The last share pays the orders.
+create or replace function public.record_split_payment(
+  p_split_id uuid,
+  p_amount_tendered numeric
+)
+returns public.bill_splits
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_split public.bill_splits%rowtype;
+  v_due numeric;
+  v_split_total numeric;
+begin
+  if public.current_staff_role() is null or public.current_staff_role() not in ('owner', 'manager', 'cashier') then
+    raise exception 'Only cashiers and managers can record payments' using errcode = '42501';
+  end if;
+
+  select * into v_split from public.bill_splits where id = p_split_id for update;
+  if not found then
+    raise exception 'Share not found';
+  end if;
+
+  if v_split.payment_status <> 'unpaid' then
+    raise exception '% has already paid', v_split.label;
+  end if;
+
+  perform 1 from public.orders
+    where id = v_split.order_id or tab_id = v_split.tab_id
+    for update;
+
+  if exists (
+    select 1 from public.orders
+      where (id = v_split.order_id or tab_id = v_split.tab_id)
+        and status not in ('rejected', 'cancelled')
+        and payment_status <> 'unpaid'
+  ) then
+    raise exception 'This bill has already been paid';
+  end if;
+
+  -- A round added or rejected since the split changes what is owed
+  select coalesce(sum(total), 0) into v_due
+    from public.orders
+    where (id = v_split.order_id or tab_id = v_split.tab_id) and status not in ('rejected', 'cancelled');
+
+  select sum(amount) into v_split_total
+    from public.bill_splits
+    where order_id = v_split.order_id or tab_id = v_split.tab_id;
+
+  if v_split_total <> v_due then
+    raise exception 'The bill has changed since it was split. Split it again';
+  end if;
+
+  if p_amount_tendered is null or p_amount_tendered < v_split.amount then
+    raise exception 'Amount tendered must be at least %', v_split.amount;
+  end if;
+
+  if v_split.payment_method = 'card' and p_amount_tendered <> v_split.amount then
+    raise exception 'Card payments must be for the exact total';
+  end if;
+
+  update public.bill_splits
+    set payment_status = 'paid',
+        paid_at = now(),
+        amount_tendered = p_amount_tendered,
+        change_given = p_amount_tendered - v_split.amount,
+        payment_recorded_by = auth.uid()
+    where id = p_split_id
+    returning * into v_split;
+
+  if not exists (
+    select 1 from public.bill_splits
+      where (order_id = v_split.order_id or tab_id = v_split.tab_id) and payment_status = 'unpaid'
+  ) then
+    perform set_config('app.recording_payment', 'on', true);
+
+    -- Change was given on the shares, so each order is recorded at its total
+    update public.orders
+      set payment_method = 'split',
+          payment_status = 'paid',
+          paid_at = now(),
+          amount_tendered = total,
+          change_given = 0,
+          payment_recorded_by = auth.uid()
+      where (id = v_split.order_id or tab_id = v_split.tab_id)
+        and status not in ('rejected', 'cancelled')
+        and payment_status = 'unpaid';
+
+    perform set_config('app.recording_payment', 'off', true);
+
+    update public.tabs
+      set status = 'closed', closed_at = now(), payment_method = 'split', closed_by = auth.uid()
+      where id = v_split.tab_id;
+  end if;
+
+  return v_split;
+end;
+$$;
+
+grant execute on function public.record_split_payment(uuid, numeric) to authenticated;
+
+-- A split bill is paid share by share, not in one go
+create or replace function public.record_counter_payment(
+  p_order_id text,
+  p_amount_tendered numeric
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders%rowtype;
+begin
+  if public.current_staff_role() is null or public.current_staff_role() not in ('owner', 'manager', 'cashier') then
+    raise exception 'Only cashiers and managers can record payments' using errcode = '42501';
+  end if;
+
+  select * into v_order from public.orders where id = p_order_id for update;
+  if not found then
+    raise exception 'Order % not found', p_order_id;
+  end if;
+
+  if v_order.payment_method not in ('cash', 'card') then
+    raise exception 'Order % is not paid at the counter', p_order_id;
+  end if;
+
+  if v_order.payment_status <> 'unpaid' then
+    raise exception 'Order % is already %', p_order_id, v_order.payment_status;
+  end if;
+
+  if exists (select 1 from public.bill_splits where order_id = p_order_id) then
+    raise exception 'Order % is split. Collect each share instead', p_order_id;
+  end if;
+
+  if p_amount_tendered is null or p_amount_tendered < v_order.total then
+    raise exception 'Amount tendered must be at least %', v_order.total;
+  end if;
+
+  if v_order.payment_method = 'card' and p_amount_tendered <> v_order.total then
+    raise exception 'Card payments must be for the exact total';
+  end if;
+
+  perform set_config('app.recording_payment', 'on', true);
+
+  update public.orders
+    set payment_status = 'paid',
+        paid_at = now(),
+        amount_tendered = p_amount_tendered,
+        change_given = p_amount_tendered - v_order.total,
+        payment_recorded_by = auth.uid()
+    where id = p_order_id
+    returning * into v_order;
+
+  perform set_config('app.recording_payment', 'off', true);
+
+  return v_order;
+end;
+$$;
+
+create or replace function public.settle_tab(
+  p_tab_id uuid,
+  p_payment_method text,
+  p_amount_tendered numeric
+)
+returns public.tabs
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_tab public.tabs%rowtype;
+  v_pending integer;
+  v_due numeric;
+  v_change numeric;
+  v_last_order_id text;
+begin
+  if public.current_staff_role() is null or public.current_staff_role() not in ('owner', 'manager', 'cashier') then
+    raise exception 'Only cashiers and managers can settle tabs' using errcode = '42501';
+  end if;
+
+  select * into v_tab from public.tabs where id = p_tab_id for update;
+  if not found then
+    raise exception 'Tab not found';
+  end if;
+
+  if v_tab.status <> 'open' then
+    raise exception 'This tab is already closed';
+  end if;
+
+  if exists (select 1 from public.bill_splits where tab_id = p_tab_id) then
+    raise exception 'This tab is split. Collect each share instead';
+  end if;
+
+  if p_payment_method is null or p_payment_method not in ('cash', 'card') then
+    raise exception 'Tabs are settled by cash or card';
+  end if;
+
+  -- Locked so no round is added or rejected while the tab is being paid
+  perform 1 from public.orders where tab_id = p_tab_id for update;
+
+  select count(*) filter (where status = 'pending'),
+         coalesce(sum(total) filter (where status not in ('rejected', 'cancelled') and payment_status = 'unpaid'), 0)
+    into v_pending, v_due
+    from public.orders
+    where tab_id = p_tab_id;
+
+  -- A pending order may still be rejected, which would change the total
+  if v_pending > 0 then
+    raise exception '% order(s) on this tab are still waiting to be accepted', v_pending;
+  end if;
+
+  if p_amount_tendered is null or p_amount_tendered < v_due then
+    raise exception 'Amount tendered must be at least %', v_due;
+  end if;
+
+  if p_payment_method = 'card' and p_amount_tendered <> v_due then
+    raise exception 'Card payments must be for the exact total';
+  end if;
+
+  v_change := p_amount_tendered - v_due;
+
+  select id into v_last_order_id
+    from public.orders
+    where tab_id = p_tab_id and status not in ('rejected', 'cancelled') and payment_status = 'unpaid'
+    order by created_at desc, id desc
+    limit 1;
+
+  perform set_config('app.recording_payment', 'on', true);
+
+  update public.orders
+    set payment_method = p_payment_method,
+        payment_status = 'paid',
+        paid_at = now(),
+        amount_tendered = total + case when id = v_last_order_id then v_change else 0 end,
+        change_given = case when id = v_last_order_id then v_change else 0 end,
+        payment_recorded_by = auth.uid()
+    where tab_id = p_tab_id
+      and status not in ('rejected', 'cancelled')
+      and payment_status = 'unpaid';
+
+  perform set_config('app.recording_payment', 'off', true);
+
+  update public.tabs
+    set status = 'closed',
+        closed_at = now(),
+        payment_method = p_payment_method,
+        amount_tendered = p_amount_tendered,
+        change_given = v_change,
+        closed_by = auth.uid()
+    where id = p_tab_id
+    returning * into v_tab;
+
+  return v_tab;
+end;
+$$;
@@ -0,0 +1,105 @@
+-- Orders a guest's device could not get through.
+--
+-- When place_order cannot be reached the order waits in an outbox on the
+-- guest's device and is retried with backoff. Once it has been waiting a while,
+-- or was refused when it finally got through, the device reports it here so
+-- staff can go and see the guest. The report is resolved by itself when the
+-- order arrives, or by a member of staff once they have dealt with it.
+
+create table public.stuck_orders (
+  order_id text primary key check (order_id ~ '^[A-Za-z0-9-]{4,32}$'),
+  -- What the guest ordered, as shown on their device: name, size and quantity per line
+  items jsonb not null default '[]' check (jsonb_typeof(items) = 'array' and jsonb_array_length(items) <= 50),
+  total numeric not null check (total >= 0),
+  payment_method text not null check (payment_method in ('qr', 'card', 'cash', 'tab')),
+  customer_name text check (length(customer_name) <= 50),
+  -- The table or room code, or the room number the guest typed in
+  location text check (length(location) <= 32),
+  attempts integer not null default 0 check (attempts >= 0),
+  last_error text check (length(last_error) <= 200),
+  queued_at timestamptz not null,
+  reported_at timestamptz not null default now(),
+  resolved_at timestamptz,
+  resolved_by uuid references auth.users(id)
+);
+
+create index stuck_orders_unresolved_idx on public.stuck_orders (reported_at) where resolved_at is null;
+
+alter table public.stuck_orders enable row level security;
+
+create policy "Staff can read stuck orders"
+  on public.stuck_orders for select
+  using (public.current_staff_role() is not null);
+
+create policy "Staff can resolve stuck orders"
+  on public.stuck_orders for update
+  using (public.current_staff_role() is not null)
+  with check (public.current_staff_role() is not null);
+
+alter publication supabase_realtime add table public.stuck_orders;
+
+-- Reported by the guest's device; a later report of the same order updates it
+create or replace function public.report_stuck_order(
+  p_order_id text,
+  p_items jsonb,
+  p_total numeric,
+  p_payment_method text,
+  p_customer_name text,
+  p_location text,
+  p_attempts integer,
+  p_last_error text,
+  p_queued_at timestamptz
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Nothing to report once the order has arrived
+  if exists (select 1 from public.orders where id = p_order_id) then
+    return;
+  end if;
+
+  insert into public.stuck_orders (
+    order_id, items, total, payment_method, customer_name, location, attempts, last_error, queued_at
+  )
+  values (
+    p_order_id,
+    coalesce(p_items, '[]'),
+    p_total,
+    p_payment_method,
+    left(p_customer_name, 50),
+    left(p_location, 32),
+    greatest(coalesce(p_attempts, 0), 0),
+    left(p_last_error, 200),
+    least(coalesce(p_queued_at, now()), now())
+  )
+  on conflict (order_id) do update
+    set attempts = excluded.attempts,
+        last_error = excluded.last_error,
+        reported_at = now()
+    where stuck_orders.resolved_at is null;
+end;
+$$;
+
+grant execute on function public.report_stuck_order(text, jsonb, numeric, text, text, text, integer, text, timestamptz) to anon, authenticated;
+
+-- The order got through after all
+create or replace function public.resolve_stuck_order()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.stuck_orders
+    set resolved_at = now()
+    where order_id = new.id and resolved_at is null;
+  return new;
+end;
+$$;
+
+create trigger orders_resolve_stuck_order
+  after insert on public.orders
+  for each row execute function public.resolve_stuck_order();
@@ -0,0 +1,97 @@
+-- Order numbers staff can call out.
+--
+-- Every order gets a number for its day (Asia/Kolkata time) when it is
+-- inserted: A-001 to A-999, then B-001 and so on. The number is handed out by
+-- a per-day counter row, which is locked while it is incremented, so two
+-- orders never share a number however many devices are ordering. orders.id
+-- stays the primary key; it is generated by the guest's device so a retried
+-- order is never placed twice.
+
+create table public.order_number_counters (
+  business_date date primary key,
+  last_number integer not null check (last_number > 0)
+);
+
+-- Only the trigger below touches the counters
+alter table public.order_number_counters enable row level security;
+
+-- 1 -> A-001, 999 -> A-999, 1000 -> B-001; after Z-999 the letters start again
+create or replace function public.format_order_number(p_number integer)
+returns text
+language sql
+immutable
+as $$
+  select chr(65 + ((p_number - 1) / 999) % 26) || '-' || lpad((((p_number - 1) % 999) + 1)::text, 3, '0');
+$$;
+
+alter table public.orders
+  add column business_date date,
+  add column order_number text;
+
+-- Orders placed so far are numbered in the order they came in on each day
+with numbered as (
+  select
+    id,
+    (created_at at time zone 'Asia/Kolkata')::date as business_date,
+    row_number() over (
+      partition by (created_at at time zone 'Asia/Kolkata')::date
+      order by created_at, id
+    ) as position
+  from public.orders
+)
+update public.orders o
+  set business_date = numbered.business_date,
+      order_number = public.format_order_number(numbered.position::integer)
+  from numbered
+  where numbered.id = o.id;
+
+insert into public.order_number_counters (business_date, last_number)
+  select business_date, count(*)
+  from public.orders
+  group by business_date;
+
+alter table public.orders
+  alter column business_date set not null,
+  alter column order_number set not null,
+  add constraint orders_order_number_key unique (business_date, order_number);
+
+create or replace function public.assign_order_number()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_number integer;
+begin
+  new.business_date := (now() at time zone 'Asia/Kolkata')::date;
+
+  insert into public.order_number_counters as counters (business_date, last_number)
+    values (new.business_date, 1)
+    on conflict (business_date) do update set last_number = counters.last_number + 1
+    returning last_number into v_number;
+
+  new.order_number := public.format_order_number(v_number);
+  return new;
+end;
+$$;
+
+create trigger orders_assign_number
+  before insert on public.orders
+  for each row execute function public.assign_order_number();
+
+create or replace function public.keep_order_number()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.order_number is distinct from old.order_number or new.business_date is distinct from old.business_date then
+    raise exception 'Order numbers cannot be changed' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger orders_keep_number
+  before update of order_number, business_date on public.orders
+  for each row execute function public.keep_order_number();
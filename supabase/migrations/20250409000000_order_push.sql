@@ -0,0 +1,130 @@
+-- Notifications for guests following an order.
+--
+-- From the waiting page a guest can turn on notifications, which stores the
+-- browser's push subscription against the order. Each time the order moves to
+-- a stage the guest cares about, a message is queued in order_push_messages.
+--
+-- In production the push sender (supabase/functions/send-order-push, running
+-- with the service role and holding the VAPID private key that matches
+-- VITE_VAPID_PUBLIC_KEY) delivers each queued message with Web Push to the
+-- order's 'web_push' subscriptions and stamps sent_at. The push payload is the
+-- message as JSON:
+--
+--   { "orderId": "...", "status": "ready", "title": "Order A-042", "body": "Your order is ready!" }
+--
+-- Subscriptions the push service reports as gone (404/410) are deleted.
+-- For local testing the 'local' provider needs no sender: the open page picks
+-- the messages up over realtime and shows them itself.
+
+create table public.push_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  order_id text not null references public.orders (id) on delete cascade,
+  provider text not null check (provider in ('web_push', 'local')),
+  endpoint text not null,
+  p256dh text,
+  auth text,
+  created_at timestamptz not null default now(),
+  unique (order_id, endpoint),
+  check (provider = 'local' or (p256dh is not null and auth is not null))
+);
+
+-- Endpoints and keys are only read by the push sender
+alter table public.push_subscriptions enable row level security;
+
+create table public.order_push_messages (
+  id uuid primary key default gen_random_uuid(),
+  order_id text not null references public.orders (id) on delete cascade,
+  status text not null,
+  title text not null,
+  body text not null,
+  created_at timestamptz not null default now(),
+  sent_at timestamptz
+);
+
+create index order_push_messages_unsent_idx on public.order_push_messages (created_at) where sent_at is null;
+
+-- The local provider follows its order's messages over realtime
+alter publication supabase_realtime add table public.order_push_messages;
+
+alter table public.order_push_messages enable row level security;
+
+-- Same visibility as orders: the waiting page follows its own order by id
+create policy "Anyone can read push messages"
+  on public.order_push_messages for select
+  using (true);
+
+create or replace function public.save_push_subscription(
+  p_order_id text,
+  p_provider text,
+  p_endpoint text,
+  p_p256dh text default null,
+  p_auth text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.orders where id = p_order_id) then
+    raise exception 'Order % not found', p_order_id;
+  end if;
+  if p_provider not in ('web_push', 'local') then
+    raise exception 'Unknown push provider %', p_provider;
+  end if;
+  if coalesce(length(p_endpoint), 0) = 0 or length(p_endpoint) > 1000 then
+    raise exception 'Invalid push endpoint';
+  end if;
+  if p_provider = 'web_push' and (p_p256dh is null or p_auth is null) then
+    raise exception 'Web Push subscriptions need their keys';
+  end if;
+
+  insert into public.push_subscriptions (order_id, provider, endpoint, p256dh, auth)
+    values (p_order_id, p_provider, p_endpoint, p_p256dh, p_auth)
+    on conflict (order_id, endpoint) do update
+      set provider = excluded.provider, p256dh = excluded.p256dh, auth = excluded.auth;
+end;
+$$;
+
+grant execute on function public.save_push_subscription(text, text, text, text, text) to anon, authenticated;
+
+-- Queues a message when an order with subscribers moves on. Completing an
+-- order (closing the bill) is not worth waking anyone for.
+create or replace function public.queue_order_push()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_body text;
+begin
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+  if not exists (select 1 from public.push_subscriptions where order_id = new.id) then
+    return new;
+  end if;
+
+  v_body := case new.status
+    when 'accepted' then 'Your order has been accepted.'
+    when 'preparing' then 'We''re preparing your order.'
+    when 'ready' then 'Your order is ready!'
+    when 'served' then 'Your order has been served. Enjoy!'
+    when 'delivered' then 'Your order has been delivered. Enjoy!'
+    when 'rejected' then coalesce('Your order was rejected: ' || new.rejection_reason, 'Your order has been rejected.')
+    when 'cancelled' then 'Your order has been cancelled.'
+  end;
+  if v_body is null then
+    return new;
+  end if;
+
+  insert into public.order_push_messages (order_id, status, title, body)
+    values (new.id, new.status, 'Order ' || new.order_number, v_body);
+  return new;
+end;
+$$;
+
+create trigger orders_queue_push
+  after update of status on public.orders
+  for each row execute function public.queue_order_push();
@@ -0,0 +1,71 @@
+-- Wakes the push sender (supabase/functions/send-order-push) when order
+-- updates are queued in order_push_messages.
+--
+-- The function's URL and the secret it checks are database settings, so
+-- nothing is called until they are set:
+--
+--   alter database postgres set app.push_sender_url = 'https://<project>.supabase.co/functions/v1/send-order-push';
+--   alter database postgres set app.push_sender_secret = '<PUSH_SENDER_SECRET>';
+--
+-- Each call sends everything still queued. Messages that could not be sent
+-- are picked up again by the once-a-minute job below.
+
+create extension if not exists pg_net;
+create extension if not exists pg_cron;
+
+create or replace function public.request_order_push_send()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_url text := current_setting('app.push_sender_url', true);
+begin
+  if coalesce(v_url, '') = '' then
+    return;
+  end if;
+
+  perform net.http_post(
+    url := v_url,
+    body := '{}'::jsonb,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || coalesce(current_setting('app.push_sender_secret', true), '')
+    )
+  );
+end;
+$$;
+
+-- Only the trigger and the job below call the sender
+revoke execute on function public.request_order_push_send() from public, anon, authenticated;
+
+create or replace function public.send_queued_order_push()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.request_order_push_send();
+  return null;
+end;
+$$;
+
+-- Once per statement, however many messages it queued
+create trigger order_push_messages_send
+  after insert on public.order_push_messages
+  for each statement execute function public.send_queued_order_push();
+
+-- Retries anything a failed or missed call left behind
+select cron.schedule(
+  'send-order-push',
+  '* * * * *',
+  $$
+    select public.request_order_push_send()
+    where exists (
+      select 1 from public.order_push_messages
+      where sent_at is null and created_at < now() - interval '30 seconds'
+    );
+  $$
+);
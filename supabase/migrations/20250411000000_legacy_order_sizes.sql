@@ -0,0 +1,34 @@
+-- Order lines saved before menu items had their own sizes name the size S, R
+-- or L, and their line id ends in it (e.g. "1-R"). Give them the names the
+-- menu has used since 20250329000000_menu_sizes.sql, so bills, the kitchen and
+-- "Order again" see the same sizes as everything placed since. The client maps
+-- the old names the same way (LEGACY_SIZE_NAMES in src/utils/menuData.ts) for
+-- carts saved on a device before the change.
+
+-- A data fix, not a change anyone made to the orders: skip the permission,
+-- payment and status triggers
+alter table public.orders disable trigger user;
+
+update public.orders o
+  set items = (
+    select jsonb_agg(
+      case
+        when legacy.name is null then line
+        else line || jsonb_build_object(
+          'size', legacy.name,
+          'id', regexp_replace(line->>'id', '-' || (line->>'size') || '(~|$)', '-' || legacy.name || '\1')
+        )
+      end
+      order by line_number
+    )
+    from jsonb_array_elements(o.items) with ordinality as lines (line, line_number)
+    left join (values ('S', 'Small'), ('R', 'Regular'), ('L', 'Large')) as legacy (code, name)
+      on legacy.code = line->>'size'
+  )
+  where jsonb_typeof(o.items) = 'array'
+    and exists (
+      select 1 from jsonb_array_elements(o.items) as line
+      where line->>'size' in ('S', 'R', 'L')
+    );
+
+alter table public.orders enable trigger user;
@@ -0,0 +1,29 @@
+-- place_order counts a use of the promo code as soon as the order is placed.
+-- An order that is then rejected or cancelled gives its use back, so it does
+-- not count against the code's usage_limit.
+
+create or replace function public.release_promotion_use()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.promo_code is null
+    or new.status is not distinct from old.status
+    or new.status not in ('rejected', 'cancelled')
+    or old.status in ('rejected', 'cancelled')
+  then
+    return new;
+  end if;
+
+  update public.promotions
+    set times_used = greatest(times_used - 1, 0)
+    where code = new.promo_code;
+  return new;
+end;
+$$;
+
+create trigger orders_release_promotion_use
+  after update of status on public.orders
+  for each row execute function public.release_promotion_use();
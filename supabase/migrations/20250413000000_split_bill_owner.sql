@@ -0,0 +1,182 @@
+-- Only the people a bill belongs to may split it.
+--
+-- split_bill used to take any order or tab id from anyone, and every id can be
+-- read from the orders table, so a stranger could split or undo the split of
+-- someone else's bill. Now staff can split any bill, and a guest only one with
+-- an order they placed while signed in with their phone number (the customer
+-- session token from verify_customer_otp).
+--
+-- anon keeps execute because signed-in guests have no Supabase Auth session,
+-- only the customer token; the check in the function keeps everyone else out.
+
+drop function public.split_bill(text, uuid, jsonb);
+
+create or replace function public.split_bill(
+  p_order_id text default null,
+  p_tab_id uuid default null,
+  p_splits jsonb default '[]'::jsonb,
+  p_customer_token text default null
+)
+returns setof public.bill_splits
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_items jsonb;
+  v_due numeric;
+  v_count integer;
+  v_by_items boolean;
+  v_split jsonb;
+  v_index jsonb;
+  v_line integer;
+  v_assigned integer[] := '{}';
+  v_weights numeric[] := '{}';
+  v_weight numeric;
+  v_total_weight numeric := 0;
+  v_amount numeric;
+  v_allocated numeric := 0;
+  i integer;
+begin
+  if (p_order_id is null) = (p_tab_id is null) then
+    raise exception 'Split either an order or a tab';
+  end if;
+
+  -- Staff can split any bill; a guest only one they ordered on while signed in
+  if public.current_staff_role() is null then
+    if p_customer_token is null or not exists (
+      select 1 from public.orders
+        where (id = p_order_id or tab_id = p_tab_id)
+          and customer_id = public.customer_from_token(p_customer_token)
+    ) then
+      raise exception 'Only staff or the guest who ordered can split this bill' using errcode = '42501';
+    end if;
+  end if;
+
+  -- Locked so the bill cannot change or be paid while it is being split
+  perform 1 from public.orders where id = p_order_id or tab_id = p_tab_id for update;
+  if not found then
+    raise exception 'Bill not found';
+  end if;
+
+  if p_tab_id is not null and not exists (select 1 from public.tabs where id = p_tab_id and status = 'open') then
+    raise exception 'This tab is already closed';
+  end if;
+
+  if exists (select 1 from public.orders where id = p_order_id and tab_id is not null) then
+    raise exception 'This order is on a tab. Split the tab instead';
+  end if;
+
+  if exists (
+    select 1 from public.orders
+      where (id = p_order_id or tab_id = p_tab_id)
+        and status not in ('rejected', 'cancelled')
+        and (payment_status <> 'unpaid' or payment_method = 'qr')
+  ) then
+    raise exception 'This bill has already been paid';
+  end if;
+
+  if exists (
+    select 1 from public.bill_splits
+      where (order_id = p_order_id or tab_id = p_tab_id) and payment_status = 'paid'
+  ) then
+    raise exception 'Part of this bill has already been paid. Collect the remaining shares';
+  end if;
+
+  delete from public.bill_splits where order_id = p_order_id or tab_id = p_tab_id;
+
+  if p_splits is null or jsonb_typeof(p_splits) <> 'array' or jsonb_array_length(p_splits) = 0 then
+    return;
+  end if;
+
+  v_count := jsonb_array_length(p_splits);
+  if v_count < 2 or v_count > 20 then
+    raise exception 'A bill can be split between 2 and 20 people';
+  end if;
+
+  select coalesce(jsonb_agg(item.line order by o.created_at, o.id, item.n), '[]'::jsonb)
+    into v_items
+    from public.orders o
+    cross join lateral jsonb_array_elements(o.items) with ordinality as item(line, n)
+    where (o.id = p_order_id or o.tab_id = p_tab_id) and o.status not in ('rejected', 'cancelled');
+
+  select coalesce(sum(total), 0) into v_due
+    from public.orders
+    where (id = p_order_id or tab_id = p_tab_id) and status not in ('rejected', 'cancelled');
+
+  if jsonb_array_length(v_items) = 0 or v_due <= 0 then
+    raise exception 'There is nothing to pay on this bill';
+  end if;
+
+  v_by_items := (p_splits->0) ? 'lines';
+
+  for v_split in select * from jsonb_array_elements(p_splits)
+  loop
+    if length(btrim(coalesce(v_split->>'label', ''))) not between 1 and 30 then
+      raise exception 'Give each person a name of up to 30 characters';
+    end if;
+
+    if coalesce(v_split->>'method', '') not in ('cash', 'card') then
+      raise exception 'Each share is paid by cash or card';
+    end if;
+
+    if (v_split ? 'lines') <> v_by_items then
+      raise exception 'Split either equally or by item, not both';
+    end if;
+
+    if v_by_items then
+      if jsonb_typeof(v_split->'lines') <> 'array' or jsonb_array_length(v_split->'lines') = 0 then
+        raise exception '% has no items', btrim(v_split->>'label');
+      end if;
+
+      v_weight := 0;
+      for v_index in select * from jsonb_array_elements(v_split->'lines')
+      loop
+        v_line := (v_index #>> '{}')::integer;
+        if v_line < 0 or v_line >= jsonb_array_length(v_items) or v_line = any(v_assigned) then
+          raise exception 'Each item goes to exactly one person';
+        end if;
+
+        v_assigned := v_assigned || v_line;
+        v_weight := v_weight + public.bill_line_amount(v_items->v_line);
+      end loop;
+
+      v_weights := v_weights || v_weight;
+      v_total_weight := v_total_weight + v_weight;
+    end if;
+  end loop;
+
+  if v_by_items and coalesce(array_length(v_assigned, 1), 0) <> jsonb_array_length(v_items) then
+    raise exception 'Each item goes to exactly one person';
+  end if;
+
+  for i in 0 .. v_count - 1
+  loop
+    v_split := p_splits->i;
+
+    if i = v_count - 1 then
+      v_amount := v_due - v_allocated;
+    elsif v_by_items and v_total_weight > 0 then
+      v_amount := round(v_due * v_weights[i + 1] / v_total_weight, 2);
+    else
+      v_amount := round(v_due / v_count, 2);
+    end if;
+    v_allocated := v_allocated + v_amount;
+
+    insert into public.bill_splits (order_id, tab_id, position, label, lines, amount, payment_method)
+    values (
+      p_order_id, p_tab_id, i, btrim(v_split->>'label'),
+      case when v_by_items then array(select (value #>> '{}')::integer from jsonb_array_elements(v_split->'lines')) end,
+      v_amount, v_split->>'method'
+    );
+  end loop;
+
+  return query
+    select * from public.bill_splits
+      where order_id = p_order_id or tab_id = p_tab_id
+      order by position;
+end;
+$$;
+
+revoke execute on function public.split_bill(text, uuid, jsonb, text) from public;
+grant execute on function public.split_bill(text, uuid, jsonb, text) to anon, authenticated;
@@ -8,6 +8,10 @@ export default defineConfig(({ mode }) => ({
     host: "::",
     port: 8080,
   },
+  build: {
+    // The mock database is loaded with a top-level await (src/integrations/supabase/client.ts)
+    target: "es2022",
+  },
   plugins: [
     react(),
   ],